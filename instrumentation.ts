@@ -0,0 +1,9 @@
+/**
+ * Runs once when the server starts: removes workspaces left behind by earlier runs
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { workspaceManager } = await import('./lib/utils/workspace');
+    await workspaceManager.initialize();
+  }
+}
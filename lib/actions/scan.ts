@@ -1,22 +1,41 @@
 'use server';
 
 import { readFile } from 'fs/promises';
-import { cloneRepository } from '../git/repository';
+import type { RepositoryInfo, RepositorySourceType } from '../git/repository';
+import type { RefType } from '../git/refs';
+import type { GitCredentials } from '../git/credentials';
+import { describeRepositorySource, openRepositorySource, type RepositorySource } from '../sources';
 import { scanFileSystem } from '../scanners/file-system';
-import { ThreatResult, RepositoryFile } from '../types';
-import { parseAST } from '../utils/ast-parser';
-import { CodeExecutionScanner } from '../scanners/code-execution';
+import { ThreatResult, RepositoryFile, ScannerRunSummary } from '../types';
+import { scannerRegistry } from '../scanners/registry';
+import { isOpaqueBinary } from '../utils/binary-detection';
+
+// Extensions of the files read and handed to the scanners as text
+const SCANNED_FILE_EXTENSIONS = [
+  'ts', 'js', 'jsx', 'tsx', 'mts', 'cts', 'mjs', 'cjs',
+  'vue', 'svelte', 'astro', 'html', 'htm',
+  'json', 'yaml', 'lock', 'gyp', 'gypi',
+  // Registry configuration: .npmrc, .yarnrc and .yarnrc.yml
+  'npmrc', 'yarnrc', 'yml'
+];
 
 export interface ScanOptions {
   timeout?: number;
   depth?: number;
+  /** Branch, tag, commit SHA or pull request ref to scan; defaults to the default branch */
+  ref?: string;
   branch?: string;
+  enabledScanners?: string[];
+  disabledScanners?: string[];
+  /** Token or SSH key for a private repository; used only while cloning and never returned */
+  credentials?: GitCredentials;
 }
 
 export interface ScanResult {
   repository: {
     path: string;
     metadata: {
+      source?: RepositorySourceType;
       name: string;
       owner: string;
       url: string;
@@ -24,6 +43,8 @@ export interface ScanResult {
       fileCount: number;
       commitHash: string;
       branch: string;
+      ref?: string;
+      refType?: RefType;
       cloneTime: Date;
     };
   };
@@ -33,50 +54,78 @@ export interface ScanResult {
   overallStatus: 'SAFE' | 'UNSAFE' | 'WARNING';
   scanTime: number;
   scannedFiles: number;
+  scanners?: ScannerRunSummary[];
 }
 
 /**
  * Main scan function that clones a repository and prepares it for scanning
- * @param repositoryUrl - The URL of the repository to scan
+ * Local sources (directories, archives and bare repositories) are only scanned
+ * inside the directory named by the LOCAL_SOURCES_ROOT environment variable,
+ * as this action can be called from the browser. For the same reason workspaces are
+ * only kept for debugging when the server sets KEEP_SCAN_WORKSPACES=true
+ * @param repositorySource - The URL of the repository to scan, or a local source
  * @param options - Optional scanning parameters
  * @returns Promise<ScanResult> with repository info and scan status
  */
 export async function scanRepository(
-  repositoryUrl: string,
+  repositorySource: string | RepositorySource,
   options: ScanOptions = {}
 ): Promise<ScanResult> {
   const startTime = Date.now();
   const errors: string[] = [];
+  const source: RepositorySource = typeof repositorySource === 'string'
+    ? { type: 'remote', url: repositorySource }
+    : repositorySource;
+  const repositoryUrl = describeRepositorySource(source);
+  let repository: RepositoryInfo | undefined;
 
   try {
-    // Clone the repository
-    const repository = await cloneRepository(repositoryUrl, {
+    const localRoot = process.env.LOCAL_SOURCES_ROOT;
+    if (source.type !== 'remote' && !localRoot) {
+      throw new Error('Scanning local sources is disabled; set LOCAL_SOURCES_ROOT to allow it');
+    }
+
+    // Clone the repository, or extract or open the local source
+    repository = await openRepositorySource(source, {
       timeout: options.timeout,
       depth: options.depth,
+      ref: options.ref,
       branch: options.branch,
+      credentials: options.credentials,
+      localRoot,
     });
 
     const scanResult = await scanFileSystem(repository.path, {
       maxFileSize: 1024 * 1024 * 1024,
-      fileExtensions: ['ts', 'js', 'jsx', 'tsx'],
+      fileExtensions: SCANNED_FILE_EXTENSIONS,
     });
 
     // Convert FileMetadata to RepositoryFile format for scanners
     const threats: ThreatResult[] = [];
     const files: RepositoryFile[] = [];
+    const seenPaths = new Set<string>();
 
-    for (const file of scanResult.files) {
-      if (!file.isFile) continue;
+    // Binaries found by their magic bytes are scanned whatever their extension
+    for (const file of [...scanResult.files, ...scanResult.binaries]) {
+      if (!file.isFile || seenPaths.has(file.path)) continue;
       if (file.path.includes('.git')) continue;
+      seenPaths.add(file.path);
       console.log("Reading file", file.path);
-      const content = await readFile(file.path, 'utf8');
+      // Native code and binaries without a text extension are never decoded; scanners only see their format
+      const content = file.binary && isOpaqueBinary(file.binary, file.path, SCANNED_FILE_EXTENSIONS)
+        ? ''
+        : await readFile(file.path, 'utf8');
       const repositoryFile: RepositoryFile = { ...file, content };
       files.push(repositoryFile);
     }
 
-    const codeExecutionScanner = new CodeExecutionScanner();
-    const codeExecutionThreats = await codeExecutionScanner.scan(files);
-    threats.push(...codeExecutionThreats);
+    // Run every enabled scanner from the registry
+    const scannerRun = await scannerRegistry.run(files, {
+      enabledScanners: options.enabledScanners,
+      disabledScanners: options.disabledScanners,
+    });
+    threats.push(...scannerRun.threats);
+    errors.push(...scannerRun.errors);
     console.log("errors", errors);
     const scanTime = Date.now() - startTime;
     const scannedFiles = files.length;
@@ -91,6 +140,7 @@ export async function scanRepository(
       overallStatus: threats.length > 0 ? 'UNSAFE' : 'SAFE',
       scanTime,
       scannedFiles,
+      scanners: scannerRun.scanners,
     };
   } catch (error) {
     const errorMessage =
@@ -118,6 +168,10 @@ export async function scanRepository(
       overallStatus: 'UNSAFE',
       scanTime: Date.now() - startTime,
       scannedFiles: 0,
+      scanners: [],
     };
+  } finally {
+    // Files are only needed while scanners run
+    await repository?.cleanup({ keep: process.env.KEEP_SCAN_WORKSPACES === 'true' });
   }
 }
@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { workspaceManager } from '../utils/workspace';
+
+/**
+ * Credentials for cloning a private repository, supplied per scan
+ * - `token`: HTTPS personal access or deploy token
+ * - `github-app`: GitHub App installation token obtained by the caller
+ * - `ssh-key`: unencrypted private key plus the known_hosts entries the server must match
+ */
+export type GitCredentials =
+  | { type: 'token'; token: string; username?: string }
+  | { type: 'github-app'; installationToken: string }
+  | { type: 'ssh-key'; privateKey: string; knownHosts: string };
+
+export interface CredentialSession {
+  /** Extra `-c` configuration for git commands */
+  config: string[];
+  /** Extra environment variables for git commands */
+  environment: Record<string, string>;
+  /** Values that must never appear in messages */
+  secrets: string[];
+  /** Remove any key material written to disk */
+  dispose: () => Promise<void>;
+}
+
+// Answers git's credential requests from the environment, so the secret is never
+// part of a command line, a URL or the clone's .git/config. It is only configured
+// for the repository's origin, so redirects to other hosts are not answered
+const CREDENTIAL_HELPER = '!f() { test "$1" = get && printf "username=%s\\npassword=%s\\n" "$SCAN_GIT_USERNAME" "$SCAN_GIT_PASSWORD"; }; f';
+
+const REDACTED = '***';
+
+/**
+ * Prepare the configuration and environment that authenticate git commands
+ * @param credentials - Credentials for the scan, if any
+ * @param repositoryUrl - Repository the credentials are for; tokens are only sent to its origin
+ * @returns Promise<CredentialSession> - Settings to run git with; dispose it once git is done
+ */
+export async function createCredentialSession(
+  credentials: GitCredentials | undefined,
+  repositoryUrl: string
+): Promise<CredentialSession> {
+  if (!credentials) {
+    return { config: [], environment: {}, secrets: [], dispose: async () => {} };
+  }
+
+  if (credentials.type === 'ssh-key') {
+    return createSshSession(credentials.privateKey, credentials.knownHosts);
+  }
+
+  const [username, password] = credentials.type === 'github-app'
+    ? ['x-access-token', credentials.installationToken]
+    : [credentials.username ?? 'x-access-token', credentials.token];
+  if (!password) {
+    throw new Error('Credentials are missing a token');
+  }
+  assertCredentialsMatchUrl(credentials, repositoryUrl);
+
+  return {
+    config: [`credential.${new URL(repositoryUrl).origin}.helper=${CREDENTIAL_HELPER}`],
+    environment: { SCAN_GIT_USERNAME: username, SCAN_GIT_PASSWORD: password },
+    secrets: [password],
+    dispose: async () => {}
+  };
+}
+
+/**
+ * Check that credentials suit the repository URL's transport
+ * @param credentials - Credentials for the scan
+ * @param repositoryUrl - Repository URL
+ * @throws Error when tokens are used with anything but HTTPS, or SSH keys with anything but SSH
+ */
+export function assertCredentialsMatchUrl(credentials: GitCredentials, repositoryUrl: string): void {
+  const isSsh = repositoryUrl.startsWith('ssh://') || /^[\w.-]+@[^:/]+:/.test(repositoryUrl);
+  if (credentials.type === 'ssh-key' && !isSsh) {
+    throw new Error('SSH key credentials require an SSH repository URL');
+  }
+  // Tokens would travel in cleartext over http://
+  if (credentials.type !== 'ssh-key' && !repositoryUrl.startsWith('https://')) {
+    throw new Error('Token credentials require an HTTPS repository URL');
+  }
+}
+
+/**
+ * Check whether a URL carries credentials of its own, e.g. `https://token@host/repo`
+ * Only SSH user names (`ssh://git@host/repo`) are accepted
+ * @param repositoryUrl - Repository URL
+ * @returns boolean - True when the URL embeds a secret
+ */
+export function hasEmbeddedCredentials(repositoryUrl: string): boolean {
+  try {
+    const url = new URL(repositoryUrl);
+    return url.password !== '' || (url.username !== '' && url.protocol !== 'ssh:');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove the credentials a URL carries so it can be shown or stored
+ * @param repositoryUrl - Repository URL
+ * @returns string - The URL without its user name and password, or unchanged when it has none
+ */
+export function stripUrlCredentials(repositoryUrl: string): string {
+  if (!hasEmbeddedCredentials(repositoryUrl)) return repositoryUrl;
+
+  const url = new URL(repositoryUrl);
+  url.username = '';
+  url.password = '';
+  return url.toString();
+}
+
+/**
+ * Replace every occurrence of the given secrets in a message
+ * @param message - Message that may contain secrets, e.g. git's stderr
+ * @param secrets - Values to hide
+ * @returns string - The message with each secret replaced by `***`
+ */
+export function redactSecrets(message: string, secrets: string[]): string {
+  return secrets
+    .filter(secret => secret.length > 0)
+    .reduce((redacted, secret) => redacted.split(secret).join(REDACTED), message);
+}
+
+/**
+ * Write the key and known hosts to a private directory outside the clone and point ssh at them
+ * Host keys are checked strictly, so only the servers listed in known_hosts are trusted
+ */
+async function createSshSession(privateKey: string, knownHosts: string): Promise<CredentialSession> {
+  if (!privateKey.trim() || !knownHosts.trim()) {
+    throw new Error('SSH key credentials need both a private key and known_hosts entries');
+  }
+
+  const { path: keyDir } = await workspaceManager.create('repo-credentials-');
+  const keyPath = path.join(keyDir, 'id_key');
+  const knownHostsPath = path.join(keyDir, 'known_hosts');
+
+  try {
+    // ssh refuses keys other users can read, and keys without a final newline
+    await fs.writeFile(keyPath, privateKey.endsWith('\n') ? privateKey : `${privateKey}\n`, { mode: 0o600 });
+    await fs.writeFile(knownHostsPath, knownHosts, { mode: 0o600 });
+  } catch (error) {
+    await workspaceManager.release(keyDir);
+    throw error;
+  }
+
+  return {
+    config: [],
+    environment: {
+      GIT_SSH_COMMAND: [
+        'ssh',
+        `-i '${keyPath}'`,
+        '-o IdentitiesOnly=yes',
+        `-o UserKnownHostsFile='${knownHostsPath}'`,
+        `-o GlobalKnownHostsFile=${os.devNull}`,
+        '-o StrictHostKeyChecking=yes',
+        '-o BatchMode=yes'
+      ].join(' ')
+    },
+    secrets: [privateKey.trim()],
+    dispose: () => workspaceManager.release(keyDir)
+  };
+}
@@ -0,0 +1,124 @@
+export type RefType = 'branch' | 'tag' | 'commit' | 'pull_request';
+
+export interface ResolvedRef {
+  type: RefType;
+  /** Branch or tag name, commit SHA, or full pull request ref */
+  name: string;
+  /** Fully qualified ref on the remote; commits have none */
+  ref?: string;
+  /** Commit the remote advertises for the ref, peeled for annotated tags */
+  commit?: string;
+  /** Whether the ref is the remote's default branch, picked because none was requested */
+  isDefault: boolean;
+}
+
+export interface RemoteRefs {
+  /** Ref the remote's HEAD points at, e.g. `refs/heads/master` */
+  head?: string;
+  /** Commit of each advertised ref, keyed by its full name */
+  refs: Map<string, string>;
+}
+
+// Ref the remote's HEAD is reported as when the server does not advertise its target
+export const UNKNOWN_DEFAULT_REF = 'HEAD';
+
+const FULL_SHA_PATTERN = /^[0-9a-f]{40}$|^[0-9a-f]{64}$/i;
+const SHORT_SHA_PATTERN = /^[0-9a-f]{7,63}$/i;
+// GitHub pull requests and GitLab merge requests
+const PULL_REQUEST_PATTERN = /^(?:refs\/)?(pull\/\d+\/(?:head|merge)|merge-requests\/\d+\/(?:head|merge))$/;
+
+/**
+ * Get the patterns to pass to `git ls-remote` to resolve a ref
+ * @param requested - Ref requested by the user, if any
+ * @returns string[] - HEAD plus the requested ref and its peeled tag entry
+ */
+export function getRefPatterns(requested?: string): string[] {
+  const ref = requested?.trim();
+  // Peeled `^{}` entries of annotated tags only match a pattern that names them
+  return ref && ref !== 'HEAD' ? ['HEAD', ref, `${ref}^{}`] : ['HEAD'];
+}
+
+/**
+ * Parse the output of `git ls-remote --symref`
+ * @param output - Raw command output
+ * @returns RemoteRefs - Default branch and advertised refs
+ */
+export function parseRemoteRefs(output: string): RemoteRefs {
+  const remote: RemoteRefs = { refs: new Map() };
+
+  for (const line of output.split('\n')) {
+    const [value, name] = line.trim().split('\t');
+    if (!value || !name) continue;
+
+    if (value.startsWith('ref: ')) {
+      if (name === 'HEAD') remote.head = value.slice('ref: '.length);
+    } else {
+      remote.refs.set(name, value);
+    }
+  }
+
+  return remote;
+}
+
+/**
+ * Resolve a requested ref against the refs a remote advertises
+ * Branches win over tags of the same name, as they do for `git clone --branch`;
+ * hex strings that name no ref are taken as commit SHAs
+ * @param remote - Refs listed by `git ls-remote --symref`
+ * @param requested - Branch, tag, commit SHA or pull request ref; the default branch when omitted
+ * @returns ResolvedRef - What to fetch and check out
+ * @throws Error when the ref does not exist on the remote
+ */
+export function resolveRef(remote: RemoteRefs, requested?: string): ResolvedRef {
+  const ref = requested?.trim();
+
+  if (!ref || ref === 'HEAD') {
+    if (remote.head?.startsWith('refs/heads/')) {
+      return createRef('branch', remote.head, remote, true);
+    }
+    if (!remote.refs.has('HEAD')) {
+      throw new Error('Repository is empty');
+    }
+    // Servers that do not report HEAD's target leave the choice to the clone
+    return { type: 'branch', name: UNKNOWN_DEFAULT_REF, ref: UNKNOWN_DEFAULT_REF, commit: remote.refs.get('HEAD'), isDefault: true };
+  }
+
+  const pullRequest = ref.match(PULL_REQUEST_PATTERN);
+  if (pullRequest) {
+    const fullRef = `refs/${pullRequest[1]}`;
+    if (!remote.refs.has(fullRef)) throw new Error(`Pull request ref not found: ${ref}`);
+    return createRef('pull_request', fullRef, remote, false);
+  }
+
+  const candidates = ref.startsWith('refs/') ? [ref] : [`refs/heads/${ref}`, `refs/tags/${ref}`];
+  const fullRef = candidates.find(candidate => remote.refs.has(candidate));
+  if (fullRef?.startsWith('refs/heads/')) return createRef('branch', fullRef, remote, false);
+  if (fullRef?.startsWith('refs/tags/')) return createRef('tag', fullRef, remote, false);
+
+  if (SHORT_SHA_PATTERN.test(ref)) {
+    return { type: 'commit', name: ref.toLowerCase(), isDefault: false };
+  }
+
+  throw new Error(`Ref not found: ${ref}`);
+}
+
+/**
+ * Check whether a resolved commit SHA is complete and can be fetched directly
+ * @param ref - Resolved ref
+ * @returns boolean - True for full SHA-1 and SHA-256 object names
+ */
+export function isFullCommitSha(ref: ResolvedRef): boolean {
+  return ref.type === 'commit' && FULL_SHA_PATTERN.test(ref.name);
+}
+
+function createRef(type: RefType, fullRef: string, remote: RemoteRefs, isDefault: boolean): ResolvedRef {
+  const prefix = type === 'branch' ? 'refs/heads/' : type === 'tag' ? 'refs/tags/' : '';
+  return {
+    type,
+    name: fullRef.slice(prefix.length),
+    ref: fullRef,
+    // Annotated tags are advertised twice; the `^{}` entry is the commit they point at
+    commit: remote.refs.get(`${fullRef}^{}`) ?? remote.refs.get(fullRef),
+    isDefault
+  };
+}
@@ -1,28 +1,73 @@
-import { simpleGit, SimpleGit } from 'simple-git';
+import { SimpleGit } from 'simple-git';
 import { promises as fs } from 'fs';
 import path from 'path';
-import os from 'os';
+import { pathToFileURL } from 'url';
+import {
+  getRefPatterns,
+  isFullCommitSha,
+  parseRemoteRefs,
+  resolveRef,
+  UNKNOWN_DEFAULT_REF,
+  type RefType,
+  type ResolvedRef
+} from './refs';
+import {
+  createSandboxedGit,
+  DEFAULT_CLONE_TIMEOUT,
+  DEFAULT_SANDBOX_LIMITS,
+  verifyObjectSize,
+  verifyTree,
+  watchDirectorySize
+} from './sandbox';
+import { workspaceManager, type ReleaseOptions } from '../utils/workspace';
+import {
+  assertCredentialsMatchUrl,
+  createCredentialSession,
+  hasEmbeddedCredentials,
+  redactSecrets,
+  type CredentialSession,
+  type GitCredentials
+} from './credentials';
 
 export interface RepositoryInfo {
   path: string;
   metadata: RepositoryMetadata;
-  cleanup: () => Promise<void>;
+  /** Removes the files, or keeps them for debugging; never throws */
+  cleanup: (options?: ReleaseOptions) => Promise<void>;
 }
 
+/** Where the scanned files came from */
+export type RepositorySourceType = 'remote' | 'bare' | 'directory' | 'archive';
+
 export interface RepositoryMetadata {
+  source: RepositorySourceType;
   name: string;
   owner: string;
   url: string;
   size: number;
   fileCount: number;
+  /** Exact commit checked out; `unknown` for sources without git history */
   commitHash: string;
   branch: string;
+  /** Branch or tag name, commit SHA or pull request ref that was scanned */
+  ref?: string;
+  refType?: RefType;
   cloneTime: Date;
 }
 
 export interface CloneOptions {
+  /** Milliseconds the whole clone may take */
   timeout?: number;
   depth?: number;
+  /** Most bytes the fetched objects or the checked-out files may take */
+  maxRepositorySize?: number;
+  /** Most files the checkout may contain */
+  maxFileCount?: number;
+  /** Credentials for a private repository; never stored in the clone or its metadata */
+  credentials?: GitCredentials;
+  /** Branch, tag, full or short commit SHA, or `refs/pull/N/head`; defaults to the remote's default branch */
+  ref?: string;
+  /** @deprecated Use `ref`, which also accepts branch names */
   branch?: string;
 }
 
@@ -36,56 +81,127 @@ export async function cloneRepository(
   repositoryUrl: string,
   options: CloneOptions = {}
 ): Promise<RepositoryInfo> {
-  const {
-    depth = 1, // Shallow clone by default
-    branch = 'main'
-  } = options;
-
   // Validate repository URL
   if (!isValidRepositoryUrl(repositoryUrl)) {
     throw new Error('Invalid repository URL provided');
   }
+  // Secrets in the URL would end up in .git/config and the scan result
+  if (hasEmbeddedCredentials(repositoryUrl)) {
+    throw new Error('Repository URL must not contain credentials; pass them as credentials instead');
+  }
+  if (!options.credentials) {
+    return cloneToTemporaryDirectory(repositoryUrl, REMOTE_PROTOCOLS, options);
+  }
+
+  // Authenticated clones stay on the transport the credentials were checked against,
+  // so a redirect cannot move them to cleartext http
+  assertCredentialsMatchUrl(options.credentials, repositoryUrl);
+  const protocols = options.credentials.type === 'ssh-key' ? ['ssh'] : ['https'];
+  return cloneToTemporaryDirectory(repositoryUrl, protocols, options);
+}
+
+/**
+ * Clones a bare Git repository on the local disk to a temporary directory
+ * The repository is cloned over `file://` so shallow clones and refs behave as for a remote
+ * @param repositoryPath - Path of the bare repository (e.g. `/srv/git/project.git`)
+ * @param options - Optional cloning parameters
+ * @returns Promise<RepositoryInfo> with repository path, metadata, and cleanup function
+ */
+export async function cloneLocalRepository(
+  repositoryPath: string,
+  options: CloneOptions = {}
+): Promise<RepositoryInfo> {
+  const gitDir = await fs.realpath(path.resolve(repositoryPath)).catch(() => {
+    throw new Error(`Repository path does not exist: ${repositoryPath}`);
+  });
+
+  if (!(await isBareRepository(gitDir))) {
+    throw new Error(`Not a bare git repository: ${repositoryPath}`);
+  }
+
+  // Local clones never authenticate
+  return cloneToTemporaryDirectory(pathToFileURL(gitDir).href, ['file'], { ...options, credentials: undefined });
+}
+
+// Transports allowed for remote URLs; `file` and `ext` could reach the server itself
+const REMOTE_PROTOCOLS = ['https', 'http', 'ssh', 'git'];
+
+// Commits of each branch searched for a short SHA
+const SHORT_SHA_SEARCH_DEPTH = 1000;
 
-  // Create temporary directory
-  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'repo-clone-'));
+/**
+ * Clones a validated repository URL at the requested ref
+ * Git runs sandboxed (see `createSandboxedGit`), the fetch is aborted as soon as the
+ * workspace outgrows the size limit, the fetched tree is checked against the size,
+ * file-count and symlink rules before anything is checked out, and the whole clone
+ * is aborted when it exceeds the timeout
+ */
+async function cloneToTemporaryDirectory(
+  repositoryUrl: string,
+  allowedProtocols: string[],
+  options: CloneOptions
+): Promise<RepositoryInfo> {
+  const {
+    timeout = DEFAULT_CLONE_TIMEOUT,
+    depth = 1, // Shallow clone by default
+    ref = options.branch,
+    maxRepositorySize = DEFAULT_SANDBOX_LIMITS.maxRepositorySize,
+    maxFileCount = DEFAULT_SANDBOX_LIMITS.maxFileCount
+  } = options;
+
+  // Create temporary directory; the clone may not outgrow the space left for workspaces
+  const workspace = await workspaceManager.create('repo-clone-');
+  const tempDir = workspace.path;
+  const limits = { maxRepositorySize: Math.min(maxRepositorySize, workspace.availableSize), maxFileCount };
+  const abortController = new AbortController();
+  const timer = setTimeout(() => abortController.abort(), timeout);
+  let credentialSession: CredentialSession | undefined;
+  let sizeExceeded = false;
   
   try {
     // Initialize git in temporary directory
-    const git: SimpleGit = simpleGit(tempDir);
+    credentialSession = await createCredentialSession(options.credentials, repositoryUrl);
+    const git: SimpleGit = createSandboxedGit(tempDir, allowedProtocols, abortController.signal, credentialSession);
     
-    // Clone repository
-    await git.clone(repositoryUrl, tempDir, {
-      '--depth': depth.toString(),
-      '--branch': branch,
+    // Resolve the requested ref, or the default branch, against the remote
+    const remoteRefs = parseRemoteRefs(await git.listRemote(['--symref', repositoryUrl, ...getRefPatterns(ref)]));
+    const resolvedRef = resolveRef(remoteRefs, ref);
+    
+    // Fetch the resolved ref, then check it out once it passes the limits
+    const stopWatchingSize = watchDirectorySize(tempDir, limits, () => {
+      sizeExceeded = true;
+      abortController.abort();
     });
+    let target: string;
+    try {
+      target = await fetchRef(git, repositoryUrl, tempDir, resolvedRef, depth);
+    } finally {
+      stopWatchingSize();
+    }
+    await verifyObjectSize(git, limits);
+    await verifyTree(git, target, limits);
+    await git.checkout(target);
     
     // Extract metadata
-    const metadata = await extractRepositoryMetadata(git, repositoryUrl, tempDir);
-    
-    // Create cleanup function
-    const cleanup = async (): Promise<void> => {
-      try {
-        await fs.rm(tempDir, { recursive: true, force: true });
-      } catch (error) {
-        console.error('Failed to cleanup temporary directory:', error);
-      }
-    };
+    const metadata = await extractRepositoryMetadata(git, repositoryUrl, tempDir, resolvedRef);
     
     return {
       path: tempDir,
       metadata,
-      cleanup
+      cleanup: options => workspaceManager.release(tempDir, options)
     };
     
   } catch (error) {
     // Cleanup on error
-    try {
-      await fs.rm(tempDir, { recursive: true, force: true });
-    } catch (cleanupError) {
-      console.error('Failed to cleanup temporary directory after error:', cleanupError);
-    }
+    await workspaceManager.release(tempDir);
     
     // Re-throw with user-friendly message
+    if (sizeExceeded) {
+      throw new Error(`Repository is larger than the ${limits.maxRepositorySize} byte limit`);
+    }
+    if (abortController.signal.aborted) {
+      throw new Error('Repository cloning timed out');
+    }
     if (error instanceof Error) {
       if (error.message.includes('Authentication failed')) {
         throw new Error('Repository is private or requires authentication');
@@ -96,7 +212,68 @@ export async function cloneRepository(
       }
     }
     
-    throw new Error(error instanceof Error ? error.message : 'Failed to clone repository. Please check the URL and try again.');
+    // Git echoes URLs and prompts in its errors; never pass a secret on
+    throw new Error(error instanceof Error
+      ? redactSecrets(error.message, credentialSession?.secrets ?? [])
+      : 'Failed to clone repository. Please check the URL and try again.');
+  } finally {
+    clearTimeout(timer);
+    await credentialSession?.dispose();
+  }
+}
+
+/**
+ * Fetches a resolved ref into an empty directory without checking it out
+ * Branches are cloned directly; tags, commits and pull request refs are not
+ * branches of the clone, so they are fetched by name and checked out detached
+ * @returns Promise<string> - What to check out
+ */
+async function fetchRef(
+  git: SimpleGit,
+  repositoryUrl: string,
+  repositoryPath: string,
+  resolvedRef: ResolvedRef,
+  depth: number
+): Promise<string> {
+  if (resolvedRef.type === 'branch') {
+    await git.clone(repositoryUrl, repositoryPath, {
+      '--depth': depth.toString(),
+      // Without a reported default branch, the clone checks out whatever HEAD is
+      ...(resolvedRef.name !== UNKNOWN_DEFAULT_REF && { '--branch': resolvedRef.name }),
+      '--single-branch': null,
+      '--no-checkout': null
+    });
+    return 'HEAD';
+  }
+
+  await git.init();
+  await git.addRemote('origin', repositoryUrl);
+
+  if (resolvedRef.type === 'commit' && !isFullCommitSha(resolvedRef)) {
+    // Servers only serve full object names, so short SHAs are looked up in the recent history of every branch
+    await git.fetch(['--depth', SHORT_SHA_SEARCH_DEPTH.toString(), 'origin']);
+    const commit = await git.revparse(['--verify', '--quiet', `${resolvedRef.name}^{commit}`]).catch(() => '');
+    if (!commit) {
+      throw new Error(`Ref not found: ${resolvedRef.name} (short SHAs are looked up in the last ${SHORT_SHA_SEARCH_DEPTH} commits of each branch)`);
+    }
+    return commit;
+  }
+
+  await git.fetch(['--depth', depth.toString(), 'origin', resolvedRef.ref ?? resolvedRef.name]);
+  return 'FETCH_HEAD';
+}
+
+/**
+ * Checks whether a directory is a bare repository: git metadata without a work tree
+ */
+async function isBareRepository(gitDir: string): Promise<boolean> {
+  try {
+    const [head, objects, refs] = await Promise.all(
+      ['HEAD', 'objects', 'refs'].map(entry => fs.stat(path.join(gitDir, entry)))
+    );
+    return head.isFile() && objects.isDirectory() && refs.isDirectory();
+  } catch {
+    return false;
   }
 }
 
@@ -136,7 +313,8 @@ function isValidRepositoryUrl(url: string): boolean {
 async function extractRepositoryMetadata(
   git: SimpleGit,
   repositoryUrl: string,
-  repositoryPath: string
+  repositoryPath: string,
+  resolvedRef: ResolvedRef
 ): Promise<RepositoryMetadata> {
   try {
     // Get current commit hash
@@ -152,6 +330,7 @@ async function extractRepositoryMetadata(
     const { size, fileCount } = await calculateRepositoryStats(repositoryPath);
     
     return {
+      source: getSourceType(repositoryUrl),
       name,
       owner,
       url: repositoryUrl,
@@ -159,12 +338,15 @@ async function extractRepositoryMetadata(
       fileCount,
       commitHash,
       branch,
+      ref: resolvedRef.name,
+      refType: resolvedRef.type,
       cloneTime: new Date()
     };
   } catch {
     // Provide default values if metadata extraction fails
     const { name, owner } = parseRepositoryFromUrl(repositoryUrl);
     return {
+      source: getSourceType(repositoryUrl),
       name,
       owner,
       url: repositoryUrl,
@@ -172,11 +354,17 @@ async function extractRepositoryMetadata(
       fileCount: 0,
       commitHash: 'unknown',
       branch: 'unknown',
+      ref: resolvedRef.name,
+      refType: resolvedRef.type,
       cloneTime: new Date()
     };
   }
 }
 
+function getSourceType(repositoryUrl: string): RepositorySourceType {
+  return repositoryUrl.startsWith('file:') ? 'bare' : 'remote';
+}
+
 /**
  * Parses repository name and owner from URL
  */
@@ -185,6 +373,11 @@ function parseRepositoryFromUrl(url: string): { name: string; owner: string } {
     const urlObj = new URL(url);
     const pathParts = urlObj.pathname.split('/').filter(Boolean);
     
+    // Local repositories have no owner; their directory names the project
+    if (urlObj.protocol === 'file:') {
+      return { owner: 'local', name: (pathParts.pop() ?? 'unknown').replace(/\.git$/, '') };
+    }
+    
     if (pathParts.length >= 2) {
       return {
         owner: pathParts[0],
@@ -200,8 +393,10 @@ function parseRepositoryFromUrl(url: string): { name: string; owner: string } {
 
 /**
  * Calculates repository size and file count
+ * @param repositoryPath - Directory to measure; `.git` directories are skipped
+ * @returns Promise with the total size in bytes and the number of files
  */
-async function calculateRepositoryStats(repositoryPath: string): Promise<{ size: number; fileCount: number }> {
+export async function calculateRepositoryStats(repositoryPath: string): Promise<{ size: number; fileCount: number }> {
   let totalSize = 0;
   let fileCount = 0;
   
@@ -0,0 +1,181 @@
+import os from 'os';
+import path from 'path';
+import { simpleGit, type SimpleGit } from 'simple-git';
+import type { CredentialSession } from './credentials';
+import { getDirectorySize } from '../utils/workspace';
+
+export interface SandboxLimits {
+  /** Most bytes the fetched objects, or the files checked out from them, may take */
+  maxRepositorySize: number;
+  /** Most files a checkout may contain */
+  maxFileCount: number;
+}
+
+export const DEFAULT_CLONE_TIMEOUT = 2 * 60 * 1000;
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  maxRepositorySize: 500 * 1024 * 1024,
+  maxFileCount: 50000
+};
+
+// Passed with `-c` to every command, so they override anything configured elsewhere.
+// A clone's own .git/config is written by git, not the remote, but filters named in
+// a repository's .gitattributes run whenever the host configures them
+const HARDENED_GIT_CONFIG = [
+  `core.hooksPath=${os.devNull}`,
+  // Symlinks are checked out as plain files holding their target
+  'core.symlinks=false',
+  'core.fsmonitor=false',
+  'core.protectNTFS=true',
+  'core.protectHFS=true',
+  'filter.lfs.smudge=',
+  'filter.lfs.process=',
+  'filter.lfs.required=false',
+  'submodule.recurse=false',
+  'fetch.recurseSubmodules=false',
+  'credential.helper=',
+  'advice.detachedHead=false',
+  'init.defaultBranch=main'
+];
+
+// Variables kept from the server's environment; everything else is dropped so host
+// settings such as GIT_DIR, GIT_CONFIG_* or GIT_SSH_COMMAND cannot leak into a clone
+const INHERITED_ENVIRONMENT = ['PATH', 'HOME', 'SYSTEMROOT', 'TMPDIR', 'LANG'];
+
+const SYMLINK_MODE = '120000';
+
+// Milliseconds between measurements of a directory git is downloading into
+const SIZE_CHECK_INTERVAL = 1000;
+
+/**
+ * Create a git client that ignores system and user configuration, never prompts,
+ * runs no hooks, filters or submodules and can be stopped through an abort signal
+ * @param baseDir - Directory commands run in
+ * @param allowedProtocols - Transport protocols git may use, e.g. `['https', 'ssh']`
+ * @param signal - Aborts the running command and every later one
+ * @param credentials - Authentication settings for private repositories
+ * @returns SimpleGit - Sandboxed git client
+ */
+export function createSandboxedGit(
+  baseDir: string,
+  allowedProtocols: string[],
+  signal: AbortSignal,
+  credentials?: Pick<CredentialSession, 'config' | 'environment'>
+): SimpleGit {
+  return simpleGit({
+    baseDir,
+    // Later settings win, so credentials replace the helper the hardened config clears
+    config: [...HARDENED_GIT_CONFIG, ...(credentials?.config ?? [])],
+    abort: signal
+  }).env({ ...getSandboxEnvironment(allowedProtocols), ...credentials?.environment });
+}
+
+/**
+ * Build the environment sandboxed git commands run with
+ * @param allowedProtocols - Transport protocols git may use
+ * @returns Record<string, string> - Environment variables
+ */
+export function getSandboxEnvironment(allowedProtocols: string[]): Record<string, string> {
+  const environment: Record<string, string> = {};
+  for (const name of INHERITED_ENVIRONMENT) {
+    const value = process.env[name];
+    if (value !== undefined) environment[name] = value;
+  }
+
+  return {
+    ...environment,
+    GIT_CONFIG_NOSYSTEM: '1',
+    GIT_CONFIG_GLOBAL: os.devNull,
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_LFS_SKIP_SMUDGE: '1',
+    GIT_ALLOW_PROTOCOL: allowedProtocols.join(':'),
+    GIT_SSH_COMMAND: 'ssh -o BatchMode=yes'
+  };
+}
+
+/**
+ * Check the size of the objects fetched into a repository
+ * @param git - Git client in the repository
+ * @param limits - Sandbox limits
+ * @throws Error when the objects exceed the size limit
+ */
+export async function verifyObjectSize(git: SimpleGit, limits: SandboxLimits): Promise<void> {
+  const output = await git.raw(['count-objects', '-v']);
+  const kilobytes = ['size', 'size-pack']
+    .map(field => Number(output.match(new RegExp(`^${field}: (\\d+)$`, 'm'))?.[1] ?? 0))
+    .reduce((total, size) => total + size, 0);
+
+  if (kilobytes * 1024 > limits.maxRepositorySize) {
+    throw new Error(`Repository is larger than the ${limits.maxRepositorySize} byte limit`);
+  }
+}
+
+/**
+ * Measure a directory while git downloads into it, so an oversized transfer can be
+ * stopped before the whole pack is on disk
+ * @param directoryPath - Directory git writes the fetched objects to
+ * @param limits - Sandbox limits
+ * @param onExceeded - Called once the directory grows past the size limit
+ * @returns () => void - Stops measuring
+ */
+export function watchDirectorySize(directoryPath: string, limits: SandboxLimits, onExceeded: () => void): () => void {
+  let measuring = false;
+  let exceeded = false;
+
+  const timer = setInterval(async () => {
+    if (measuring || exceeded) return;
+    measuring = true;
+    const size = await getDirectorySize(directoryPath);
+    measuring = false;
+
+    if (size > limits.maxRepositorySize && !exceeded) {
+      exceeded = true;
+      onExceeded();
+    }
+  }, SIZE_CHECK_INTERVAL);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Check a tree before it is checked out: its file count and size must stay within the
+ * limits, and its symlinks must not point outside the repository
+ * @param git - Git client in the repository
+ * @param treeish - Commit or tree about to be checked out
+ * @param limits - Sandbox limits
+ * @throws Error when the tree exceeds a limit or contains an escaping symlink
+ */
+export async function verifyTree(git: SimpleGit, treeish: string, limits: SandboxLimits): Promise<void> {
+  const output = await git.raw(['ls-tree', '-r', '-l', '-z', '--full-tree', treeish]);
+  let fileCount = 0;
+  let size = 0;
+
+  for (const line of output.split('\0')) {
+    // `<mode> <type> <object> <size>\t<path>`; submodules are commits with no size
+    const match = line.match(/^(\d+) (\w+) ([0-9a-f]+) +(\d+|-)\t([\s\S]+)$/);
+    if (!match || match[2] !== 'blob') continue;
+
+    const [, mode, , object, entrySize, entryPath] = match;
+    fileCount++;
+    size += Number(entrySize);
+
+    if (fileCount > limits.maxFileCount) {
+      throw new Error(`Repository has more than ${limits.maxFileCount} files`);
+    }
+    if (size > limits.maxRepositorySize) {
+      throw new Error(`Repository is larger than the ${limits.maxRepositorySize} byte limit`);
+    }
+    if (mode === SYMLINK_MODE && isEscapingLink(entryPath, await git.raw(['cat-file', 'blob', object]))) {
+      throw new Error(`Repository contains a symlink pointing outside the repository: ${entryPath}`);
+    }
+  }
+}
+
+/**
+ * Check whether a symlink's target leaves the repository it is in
+ */
+function isEscapingLink(linkPath: string, target: string): boolean {
+  if (path.posix.isAbsolute(target) || path.win32.isAbsolute(target)) return true;
+  const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(linkPath), target.replace(/\\/g, '/')));
+  return resolved === '..' || resolved.startsWith('../');
+}
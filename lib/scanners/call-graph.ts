@@ -0,0 +1,188 @@
+import { walkAST } from '../utils/ast-parser';
+import { extractCodeContext } from '../utils/code-context';
+import { buildModuleGraph, type ModuleGraph, type ModuleInfo } from '../utils/module-graph';
+import { formatSymbol, type ResolvedSymbol } from '../utils/scope-analysis';
+import { extendFlow, formatTaintPath, type TaintFlow } from '../utils/taint-analysis';
+import { LifecycleScriptScanner } from './lifecycle-scripts';
+import type { ThreatResult, RepositoryFile } from '../types';
+
+// Sinks that run or load code, with the number of leading arguments that carry it
+const GLOBAL_SINKS = new Map<string, number>([
+  ['eval', 1],
+  ['Function', Infinity],
+  ['setTimeout', 1],
+  ['setInterval', 1],
+  ['require', 1]
+]);
+
+const MODULE_SINKS = new Map<string, Map<string, number>>([
+  ['child_process', new Map([
+    ['exec', 1], ['execSync', 1], ['spawn', 2], ['spawnSync', 2], ['execFile', 2], ['execFileSync', 2], ['fork', 2]
+  ])],
+  ['vm', new Map([
+    ['runInContext', 1], ['runInNewContext', 1], ['runInThisContext', 1], ['compileFunction', 1], ['Script', 1]
+  ])]
+]);
+
+type Priority = 'high' | 'medium' | 'low';
+
+export interface CallGraphScannerOptions {
+  // Scanner that resolves the files run by install hooks (defaults to a new LifecycleScriptScanner)
+  lifecycleScanner?: LifecycleScriptScanner;
+}
+
+/**
+ * Call Graph Scanner for threats that span several files
+ * Builds the repository-wide module graph, reports untrusted data that reaches an
+ * execution sink through functions imported from other files, and annotates every
+ * finding with the entry point and import chain it is reachable from
+ */
+export class CallGraphScanner {
+  public readonly name = 'call-graph';
+  public readonly category = 'code_execution';
+  public readonly subcategory = 'cross_file_flow';
+
+  private readonly lifecycleScanner: LifecycleScriptScanner;
+
+  // Graphs of the file sets being scanned, reused by refineThreats and released with the file set
+  private readonly graphs = new WeakMap<RepositoryFile[], Promise<ModuleGraph>>();
+
+  constructor(options: CallGraphScannerOptions = {}) {
+    this.lifecycleScanner = options.lifecycleScanner ?? new LifecycleScriptScanner();
+  }
+
+  /**
+   * Scan the repository for source-to-sink flows that cross module boundaries
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const graph = await this.getGraph(files);
+    const threats: ThreatResult[] = [];
+
+    for (const moduleInfo of graph.modules.values()) {
+      threats.push(...this.analyzeModule(moduleInfo, graph, files));
+    }
+
+    return threats;
+  }
+
+  /**
+   * Annotate findings with their reachability from entry points and install scripts
+   * @param threats - Combined findings of all scanners
+   * @param files - Array of repository files that were scanned
+   * @returns Promise<ThreatResult[]> - Findings with reachability details
+   */
+  async refineThreats(threats: ThreatResult[], files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const graph = await this.getGraph(files);
+    if (graph.entryPoints.length === 0) return threats;
+
+    return threats.map(threat => {
+      const reachability = graph.getReachability(threat.file);
+      if (!reachability && !graph.getModule(threat.file)) return threat;
+
+      const priority: Priority = !reachability
+        ? 'low'
+        : reachability.entryKinds.some(kind => kind !== 'exports') ? 'high' : 'medium';
+
+      return {
+        ...threat,
+        details: {
+          ...threat.details,
+          priority,
+          reachableFrom: reachability?.entryKinds ?? [],
+          ...(reachability && {
+            entryPoint: reachability.entryPoint.description,
+            importChain: reachability.chain
+          })
+        }
+      };
+    });
+  }
+
+  /**
+   * Build (or reuse) the module graph for a file set, with install hook scripts as entry points
+   * @param files - Array of repository files
+   * @returns Promise<ModuleGraph> - Module graph of the repository
+   */
+  getGraph(files: RepositoryFile[]): Promise<ModuleGraph> {
+    let graph = this.graphs.get(files);
+
+    if (!graph) {
+      const hookFiles = this.lifecycleScanner.getInstallHookFiles(files);
+      const entryPoints = Array.from(hookFiles, ([filePath, hooks]) => ({
+        path: filePath,
+        kind: 'install_script' as const,
+        description: `${hooks.join(', ')} script`
+      }));
+
+      graph = buildModuleGraph(files, { entryPoints });
+      this.graphs.set(files, graph);
+    }
+
+    return graph;
+  }
+
+  /**
+   * Report sink calls in a module whose arguments are tainted in another module
+   */
+  private analyzeModule(moduleInfo: ModuleInfo, graph: ModuleGraph, files: RepositoryFile[]): ThreatResult[] {
+    const analysis = graph.getAnalysis(moduleInfo.path);
+    if (!analysis) return [];
+
+    const threats: ThreatResult[] = [];
+    const content = files.find(file => file.path === moduleInfo.path)?.content ?? '';
+
+    walkAST(analysis.ast, (node) => {
+      if (node.type !== 'CallExpression' && node.type !== 'NewExpression') return;
+
+      const symbol = analysis.scope.resolve(node.callee);
+      const argumentCount = this.getSinkArgumentCount(symbol);
+      if (!symbol || argumentCount === undefined) return;
+
+      const flow = node.arguments.slice(0, argumentCount)
+        .map(argument => graph.getTaint(moduleInfo.path, argument))
+        .find((candidate): candidate is TaintFlow => candidate !== undefined);
+      if (!flow) return;
+
+      const crossing = [...flow.path].reverse().find(step => step.file && step.file !== moduleInfo.relativePath);
+      if (!crossing) return;
+
+      const sinkName = formatSymbol(symbol);
+      const line = node.loc.start.line;
+      const sourceFile = flow.path[0].file ?? moduleInfo.relativePath;
+      const reachability = graph.getReachability(moduleInfo.path);
+
+      threats.push({
+        category: this.category,
+        subcategory: this.subcategory,
+        severity: 'CRITICAL',
+        description: `${sinkName} receives ${flow.source.name} through ${crossing.name} imported from ${crossing.file} - cross-file code execution`,
+        file: moduleInfo.path,
+        line,
+        code: extractCodeContext(content, line),
+        details: {
+          sink: sinkName,
+          taintSource: flow.source.name,
+          taintSourceType: flow.source.type,
+          sourceFile,
+          taintPath: formatTaintPath(extendFlow(flow, sinkName, line)),
+          importChain: graph.findImportChain(moduleInfo.relativePath, crossing.file!) ?? [moduleInfo.relativePath, crossing.file],
+          ...(reachability && { entryPoint: reachability.entryPoint.description })
+        }
+      });
+    });
+
+    return threats;
+  }
+
+  /**
+   * Get how many leading arguments of a sink carry code or commands
+   * @returns number | undefined - undefined when the callee is not a sink
+   */
+  private getSinkArgumentCount(symbol: ResolvedSymbol | undefined): number | undefined {
+    if (symbol?.kind === 'global') return GLOBAL_SINKS.get(symbol.name);
+    if (symbol?.kind === 'module' && symbol.member) return MODULE_SINKS.get(symbol.module)?.get(symbol.member);
+    return undefined;
+  }
+}
@@ -1,40 +1,62 @@
-import { parseAST, getNodesByType } from '../utils/ast-parser';
+import type { TSESTree } from '@typescript-eslint/types';
+import { parseFile, getNodesByType, getStaticPropertyName, PARSEABLE_FILE_EXTENSIONS } from '../utils/ast-parser';
+import { analyzeScope, formatSymbol, isGlobalSymbol, type ResolvedSymbol, type ScopeAnalysis } from '../utils/scope-analysis';
+import { analyzeTaint, extendFlow, formatTaintPath, type TaintAnalysis, type TaintFlow } from '../utils/taint-analysis';
+import { findSinkPatterns, type SinkPatternMatch } from '../utils/sink-patterns';
+import { extractScriptBlocks, isComponentFile, maskToScriptBlocks } from '../utils/script-blocks';
+import { extractCodeContext as extractLineContext } from '../utils/code-context';
 import type { ASTNode, ThreatResult, RepositoryFile } from '../types';
 
+// vm functions that compile their first argument as code
+const VM_EXECUTION_FUNCTIONS = ['runInContext', 'runInNewContext', 'runInThisContext', 'compileFunction', 'Script', 'SourceTextModule'];
+
+// WebAssembly functions that compile a module from bytes
+const WEBASSEMBLY_COMPILE_FUNCTIONS = ['WebAssembly.instantiate', 'WebAssembly.compile', 'WebAssembly.Module'];
+
+// process internals that load native code
+const NATIVE_BINDING_FUNCTIONS = ['process.binding', 'process._linkedBinding', 'process.dlopen'];
+
+// Byte containers whose first argument holds the bytes themselves
+const BYTE_CONTAINERS = ['Buffer.from', 'Uint8Array', 'Uint8Array.from', 'Int8Array', 'ArrayBuffer'];
+
+// Code loading sink found at a call, before its arguments are classified
+interface CodeLoadingSink {
+  subcategory: string;
+  // Subcategory used instead when untrusted data reaches the sink
+  taintedSubcategory?: string;
+  severity: ThreatResult['severity'];
+  name: string;
+  // Whether the sink is worth reporting without untrusted data reaching it
+  reportUntainted: boolean;
+  description: string;
+}
+
+// Findings reported for sinks matched by the pattern fallback, by sink kind
+const PATTERN_SINK_THREATS: Record<SinkPatternMatch['kind'], { subcategory: string; severity: ThreatResult['severity']; description: string }> = {
+  eval: { subcategory: 'eval_usage', severity: 'CRITICAL', description: 'eval() call' },
+  function_constructor: { subcategory: 'function_constructor', severity: 'WARNING', description: 'Function constructor' },
+  timer: { subcategory: 'timer_code_injection', severity: 'WARNING', description: 'Timer with a string argument' },
+  shell: { subcategory: 'shell_execution', severity: 'CRITICAL', description: 'Shell execution function' },
+  vm: { subcategory: 'vm_execution', severity: 'WARNING', description: 'vm code compilation' }
+};
+
+// Scope and data-flow analysis of the file being scanned
+interface FileAnalysis {
+  scope: ScopeAnalysis;
+  taint: TaintAnalysis;
+}
+
 /**
  * Code Execution Scanner for detecting potentially dangerous code patterns
  * Uses AST parsing to identify security threats in TypeScript/JavaScript code
+ * child_process calls are left to ProcessControlScanner, except in files that
+ * cannot be parsed, which only this scanner checks by pattern matching
  */
 export class CodeExecutionScanner {
   public readonly name = 'code-execution';
   public readonly category = 'code_execution';
   public readonly subcategory = 'ast_analysis';
 
-  // Patterns that indicate potential security threats
-  private readonly threatPatterns = {
-    eval: ['CallExpression'],
-    dynamicImport: ['ImportExpression'],
-    functionConstructor: ['NewExpression'],
-    setTimeout: ['CallExpression'],
-    setInterval: ['CallExpression'],
-    exec: ['CallExpression'],
-    spawn: ['CallExpression'],
-    execSync: ['CallExpression'],
-    spawnSync: ['CallExpression']
-  };
-
-  // High-risk function names
-  private readonly highRiskFunctions = [
-    'eval',
-    'Function',
-    'setTimeout',
-    'setInterval',
-    'exec',
-    'spawn',
-    'execSync',
-    'spawnSync'
-  ];
-
   /**
    * Scan files for code execution threats using AST analysis
    * @param files - Array of repository files to scan
@@ -42,31 +64,36 @@ export class CodeExecutionScanner {
    */
   async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
     const threats: ThreatResult[] = [];
-    const supportedExtensions = ['.ts', '.tsx', '.js', '.jsx'];
+    const supportedExtensions = PARSEABLE_FILE_EXTENSIONS;
 
     for (const file of files) {
       // Skip non-code files and binary files
       if (!supportedExtensions.includes(file.extension)) {
-        console.warn(`Skipping non-code file ${file.path}`);
         continue;
       }
+      // Native binaries are not decoded; NativeBinaryScanner reports them
+      if (file.binary && !file.content) continue;
 
       try {
         // Parse the file content using AST parser
-        const parseResult = await parseAST(file.content, file.path);
+        const parseResult = await parseFile(file);
         
         if (!parseResult.success) {
-          // Log parsing errors but continue with other files
+          // Unparsable files are not skipped: record the failure and fall back to pattern matching
           console.warn(`Failed to parse ${file.path}: ${parseResult.error}`);
+          threats.push(...this.scanUnparsableFile(file, parseResult.error, parseResult.errorLine));
           continue;
         }
 
-        if (!parseResult.nodes) {
+        if (!parseResult.nodes || !parseResult.ast) {
           continue;
         }
 
-        // Analyze AST nodes for security threats
-        const fileThreats = this.analyzeASTNodes(parseResult.nodes, file);
+        // Analyze AST nodes for security threats, resolving callees through the file's scopes
+        // and tracing the data that reaches them
+        const scope = analyzeScope(parseResult.ast);
+        const taint = analyzeTaint(parseResult.ast, scope);
+        const fileThreats = this.analyzeASTNodes(parseResult.nodes, file, { scope, taint });
         threats.push(...fileThreats);
 
       } catch (error) {
@@ -78,17 +105,65 @@ export class CodeExecutionScanner {
     return threats;
   }
 
+  /**
+   * Report a file that could not be parsed and the execution sinks found in it by pattern matching
+   * @param file - Repository file that failed to parse
+   * @param error - Parser error message
+   * @param errorLine - Line of the syntax error, if known
+   * @returns ThreatResult[] - Parse failure finding followed by pattern matches
+   */
+  private scanUnparsableFile(file: RepositoryFile, error: string | undefined, errorLine: number | undefined): ThreatResult[] {
+    const source = isComponentFile(file.path)
+      ? maskToScriptBlocks(file.content, extractScriptBlocks(file.content, file.path))
+      : file.content;
+    const matches = findSinkPatterns(source);
+
+    const threats: ThreatResult[] = [{
+      category: this.category,
+      subcategory: 'parse_failure',
+      severity: 'INFO',
+      description: `File could not be parsed - checked for execution sinks by pattern matching only: ${error ?? 'unknown error'}`,
+      file: file.path,
+      line: errorLine,
+      ...(errorLine !== undefined && { code: extractLineContext(file.content, errorLine) }),
+      details: {
+        error,
+        patternMatches: matches.length
+      }
+    }];
+
+    for (const match of matches) {
+      const threat = PATTERN_SINK_THREATS[match.kind];
+      threats.push({
+        category: this.category,
+        subcategory: threat.subcategory,
+        severity: threat.severity,
+        description: `${threat.description} ${match.name} matched in a file that could not be parsed - potential code execution`,
+        file: file.path,
+        line: match.line,
+        code: extractLineContext(file.content, match.line),
+        details: {
+          detectionMethod: 'pattern',
+          functionName: match.name
+        }
+      });
+    }
+
+    return threats;
+  }
+
   /**
    * Analyze AST nodes for security threats
    * @param nodes - Array of AST nodes to analyze
    * @param file - Repository file being analyzed
+   * @param analysis - Scope and taint analysis of the file
    * @returns ThreatResult[] - Array of detected threats
    */
-  private analyzeASTNodes(nodes: ASTNode[], file: RepositoryFile): ThreatResult[] {
+  private analyzeASTNodes(nodes: ASTNode[], file: RepositoryFile, analysis: FileAnalysis): ThreatResult[] {
     const threats: ThreatResult[] = [];
 
     // Check for eval() usage
-    const evalCalls = this.detectEvalUsage(nodes, file);
+    const evalCalls = this.detectEvalUsage(nodes, file, analysis);
     threats.push(...evalCalls);
 
     // Check for dynamic imports
@@ -96,16 +171,16 @@ export class CodeExecutionScanner {
     threats.push(...dynamicImports);
 
     // Check for function constructor usage
-    const functionConstructor = this.detectFunctionConstructor(nodes, file);
+    const functionConstructor = this.detectFunctionConstructor(nodes, file, analysis);
     threats.push(...functionConstructor);
 
     // Check for potentially dangerous setTimeout/setInterval usage
-    const timerThreats = this.detectTimerThreats(nodes, file);
+    const timerThreats = this.detectTimerThreats(nodes, file, analysis);
     threats.push(...timerThreats);
 
-    // Check for shell execution patterns
-    const shellThreats = this.detectShellExecution(nodes, file);
-    threats.push(...shellThreats);
+    // Check for vm, worker, module compilation, computed require, WebAssembly and native binding sinks
+    const codeLoadingSinks = this.detectCodeLoadingSinks(nodes, file, analysis);
+    threats.push(...codeLoadingSinks);
 
     return threats;
   }
@@ -114,47 +189,93 @@ export class CodeExecutionScanner {
    * Detect eval() function usage with enhanced pattern detection
    * @param nodes - AST nodes to analyze
    * @param file - Repository file being analyzed
+   * @param analysis - Scope and taint analysis of the file
    * @returns ThreatResult[] - Array of eval-related threats
    */
-  private detectEvalUsage(nodes: ASTNode[], file: RepositoryFile): ThreatResult[] {
+  private detectEvalUsage(nodes: ASTNode[], file: RepositoryFile, analysis: FileAnalysis): ThreatResult[] {
     const threats: ThreatResult[] = [];
     const callExpressions = getNodesByType(nodes, 'CallExpression');
 
     for (const node of callExpressions) {
-      if (node.callee && typeof node.callee === 'object' && 'name' in node.callee) {
-        const calleeName = (node.callee as { name: string }).name;
+      const callee = this.resolveCallee(node, analysis.scope);
+
+      if (isGlobalSymbol(callee, ['eval'])) {
+        // Extract surrounding code context
+        const codeContext = this.extractCodeContext(node, file);
         
-        if (calleeName === 'eval') {
-          // Extract surrounding code context
-          const codeContext = this.extractCodeContext(node, file);
-          
-          // Determine if this is a dynamic eval (higher risk)
-          const isDynamic = this.isDynamicEvalCall(node);
-          
-          threats.push({
-            category: this.category,
-            subcategory: 'eval_usage',
-            severity: 'CRITICAL',
-            description: isDynamic 
+        // Trace untrusted data into the evaluated code
+        const flow = this.getArgumentTaint(node, analysis.taint, 1);
+
+        // Determine if this is a dynamic eval (higher risk)
+        const isDynamic = this.isDynamicEvalCall(node) || flow !== undefined;
+        
+        threats.push({
+          category: this.category,
+          subcategory: 'eval_usage',
+          severity: 'CRITICAL',
+          description: flow
+            ? `eval() receives untrusted data from ${flow.source.name} - high risk code injection vulnerability`
+            : isDynamic 
               ? 'Dynamic eval() function usage detected - high risk code injection vulnerability'
               : 'eval() function usage detected - potential code injection vulnerability',
-            file: file.path,
-            line: node.loc?.start.line,
-            code: codeContext,
-            details: {
-              nodeType: node.type,
-              arguments: (node.arguments as unknown[])?.length || 0,
-              isDynamic,
-              riskLevel: isDynamic ? 'high' : 'medium'
-            }
-          });
-        }
+          file: file.path,
+          line: node.loc?.start.line,
+          code: codeContext,
+          details: {
+            nodeType: node.type,
+            arguments: (node.arguments as unknown[])?.length || 0,
+            isDynamic,
+            isAliased: this.isAliasedCallee(node, 'eval'),
+            isObfuscated: this.isComputedCallee(node),
+            riskLevel: isDynamic ? 'high' : 'medium',
+            ...this.describeTaint(flow, 'eval', node)
+          }
+        });
       }
     }
 
     return threats;
   }
 
+  /**
+   * Resolve the callee of a call or new expression through the file's scopes
+   * @param node - Call or new expression node
+   * @param analysis - Scope and taint analysis of the file
+   * @returns ResolvedSymbol | undefined - The symbol being called, if it can be determined
+   */
+  private resolveCallee(node: ASTNode, scope: ScopeAnalysis): ResolvedSymbol | undefined {
+    const callee = node.callee as TSESTree.Node | undefined;
+    return callee && typeof callee === 'object' && 'type' in callee ? scope.resolve(callee) : undefined;
+  }
+
+  /**
+   * Check whether a resolved callee is reached through an alias rather than its own name
+   * e.g. `const e = eval; e(x)` or `globalThis['ev' + 'al'](x)`
+   * @param node - Call or new expression node
+   * @param name - Name of the resolved function
+   * @returns boolean - True when the callee is not a plain identifier with that name
+   */
+  private isAliasedCallee(node: ASTNode, name: string): boolean {
+    const callee = node.callee as { type?: string; name?: string } | undefined;
+    return !(callee?.type === 'Identifier' && callee.name === name);
+  }
+
+  /**
+   * Check whether a callee is reached through a computed member whose key is not a plain literal
+   * e.g. `global['e' + 'v' + 'a' + 'l'](x)` or `window[atob('ZXZhbA==')](x)`
+   * @param node - Call or new expression node
+   * @returns boolean - True when the callee name had to be folded from an expression
+   */
+  private isComputedCallee(node: ASTNode): boolean {
+    let callee = node.callee as TSESTree.Node | undefined;
+    while (callee?.type === 'SequenceExpression') {
+      callee = callee.expressions[callee.expressions.length - 1];
+    }
+    if (callee?.type === 'ChainExpression') callee = callee.expression;
+
+    return callee?.type === 'MemberExpression' && callee.computed && callee.property.type !== 'Literal';
+  }
+
   /**
    * Extract surrounding code context for better threat reporting
    * @param node - AST node to extract context from
@@ -262,45 +383,51 @@ export class CodeExecutionScanner {
    * Detect Function constructor usage with enhanced pattern detection
    * @param nodes - AST nodes to analyze
    * @param file - Repository file being analyzed
+   * @param analysis - Scope and taint analysis of the file
    * @returns ThreatResult[] - Array of Function constructor threats
    */
-  private detectFunctionConstructor(nodes: ASTNode[], file: RepositoryFile): ThreatResult[] {
+  private detectFunctionConstructor(nodes: ASTNode[], file: RepositoryFile, analysis: FileAnalysis): ThreatResult[] {
     const threats: ThreatResult[] = [];
-    const newExpressions = getNodesByType(nodes, 'NewExpression');
+    // Function(...) without `new` builds a function just the same
+    const constructorCalls = getNodesByType(nodes, 'NewExpression').concat(getNodesByType(nodes, 'CallExpression'));
 
-    for (const node of newExpressions) {
-      if (node.callee && typeof node.callee === 'object' && 'name' in node.callee) {
-        const calleeName = (node.callee as { name: string }).name;
+    for (const node of constructorCalls) {
+      if (isGlobalSymbol(this.resolveCallee(node, analysis.scope), ['Function'])) {
+        // Extract surrounding code context
+        const codeContext = this.extractCodeContext(node, file);
         
-        if (calleeName === 'Function') {
-          // Extract surrounding code context
-          const codeContext = this.extractCodeContext(node, file);
-          
-          // Determine if this is a dynamic Function constructor (higher risk)
-          const isDynamic = this.isDynamicFunctionConstructor(node);
-          
-          // Identify potential code injection patterns
-          const injectionRisk = this.assessCodeInjectionRisk(node);
-          
-          threats.push({
-            category: this.category,
-            subcategory: 'function_constructor',
-            severity: 'WARNING',
-            description: isDynamic 
+        // Trace untrusted data into the parameter list or body
+        const flow = this.getArgumentTaint(node, analysis.taint);
+
+        // Determine if this is a dynamic Function constructor (higher risk)
+        const isDynamic = this.isDynamicFunctionConstructor(node) || flow !== undefined;
+        
+        // Identify potential code injection patterns
+        const injectionRisk = this.assessCodeInjectionRisk(node);
+        
+        threats.push({
+          category: this.category,
+          subcategory: 'function_constructor',
+          severity: 'WARNING',
+          description: flow
+            ? `Function constructor receives untrusted data from ${flow.source.name} - potential code injection vulnerability`
+            : isDynamic 
               ? 'Dynamic Function constructor usage detected - potential code injection vulnerability'
               : 'Function constructor usage detected - potential code injection vulnerability',
-            file: file.path,
-            line: node.loc?.start.line,
-            code: codeContext,
-            details: {
-              nodeType: node.type,
-              arguments: (node.arguments as unknown[])?.length || 0,
-              isDynamic,
-              injectionRisk,
-              riskLevel: isDynamic ? 'high' : 'medium'
-            }
-          });
-        }
+          file: file.path,
+          line: node.loc?.start.line,
+          code: codeContext,
+          details: {
+            nodeType: node.type,
+            arguments: (node.arguments as unknown[])?.length || 0,
+            isDynamic,
+            isAliased: this.isAliasedCallee(node, 'Function'),
+            isObfuscated: this.isComputedCallee(node),
+            injectionRisk,
+            riskLevel: isDynamic ? 'high' : 'medium',
+            ...this.describeTaint(flow, 'Function', node)
+          }
+        });
       }
     }
 
@@ -406,38 +533,56 @@ export class CodeExecutionScanner {
    * Detect potentially dangerous setTimeout/setInterval usage
    * @param nodes - AST nodes to analyze
    * @param file - Repository file being analyzed
+   * @param analysis - Scope and taint analysis of the file
    * @returns ThreatResult[] - Array of timer-related threats
    */
-  private detectTimerThreats(nodes: ASTNode[], file: RepositoryFile): ThreatResult[] {
+  private detectTimerThreats(nodes: ASTNode[], file: RepositoryFile, analysis: FileAnalysis): ThreatResult[] {
     const threats: ThreatResult[] = [];
     const callExpressions = getNodesByType(nodes, 'CallExpression');
 
     for (const node of callExpressions) {
-      if (node.callee && typeof node.callee === 'object' && 'name' in node.callee) {
-        const calleeName = (node.callee as { name: string }).name;
-        
-        if (calleeName === 'setTimeout' || calleeName === 'setInterval') {
-          // Check if the first argument is a string (potential code injection)
-          if (node.arguments && (node.arguments as unknown[]).length > 0) {
-            const firstArg = (node.arguments as unknown[])[0];
-            if (typeof firstArg === 'string' || 
-                (typeof firstArg === 'object' && firstArg !== null && 'type' in firstArg && firstArg.type === 'Literal' && typeof (firstArg as unknown as { value: string }).value === 'string')) {
-              
-              threats.push({
-                category: this.category,
-                subcategory: 'timer_code_injection',
-                severity: 'WARNING',
-                description: `String argument in ${calleeName} detected - potential code injection vulnerability`,
-                file: file.path,
-                line: node.loc?.start.line,
-                code: `${calleeName}()`,
-                details: {
-                  nodeType: node.type,
-                  functionName: calleeName,
-                  argumentType: 'string'
-                }
-              });
-            }
+      const callee = this.resolveCallee(node, analysis.scope);
+
+      if (isGlobalSymbol(callee, ['setTimeout', 'setInterval'])) {
+        const calleeName = formatSymbol(callee);
+
+        // Check if the first argument is a string or untrusted data (potential code injection)
+        if (node.arguments && (node.arguments as unknown[]).length > 0) {
+          const firstArg = (node.arguments as unknown[])[0];
+          const flow = this.getArgumentTaint(node, analysis.taint, 1);
+          if (typeof firstArg === 'string' || 
+              (typeof firstArg === 'object' && firstArg !== null && 'type' in firstArg && firstArg.type === 'Literal' && typeof (firstArg as unknown as { value: string }).value === 'string')) {
+            
+            threats.push({
+              category: this.category,
+              subcategory: 'timer_code_injection',
+              severity: 'WARNING',
+              description: `String argument in ${calleeName} detected - potential code injection vulnerability`,
+              file: file.path,
+              line: node.loc?.start.line,
+              code: `${calleeName}()`,
+              details: {
+                nodeType: node.type,
+                functionName: calleeName,
+                argumentType: 'string'
+              }
+            });
+          } else if (flow) {
+            threats.push({
+              category: this.category,
+              subcategory: 'timer_code_injection',
+              severity: 'WARNING',
+              description: `${calleeName} receives untrusted data from ${flow.source.name} - potential code injection vulnerability`,
+              file: file.path,
+              line: node.loc?.start.line,
+              code: `${calleeName}()`,
+              details: {
+                nodeType: node.type,
+                functionName: calleeName,
+                argumentType: 'tainted',
+                ...this.describeTaint(flow, calleeName, node)
+              }
+            });
           }
         }
       }
@@ -447,38 +592,239 @@ export class CodeExecutionScanner {
   }
 
   /**
-   * Detect shell execution patterns
+   * Detect Node's other ways of turning data into running code: vm compilation,
+   * `new Worker(code, { eval: true })`, `module._compile`, `require` of computed
+   * paths, WebAssembly compiled from embedded bytes and `process.binding`/`process.dlopen`
+   * Computed `require` calls are always reported, as CRITICAL when untrusted data reaches them
    * @param nodes - AST nodes to analyze
    * @param file - Repository file being analyzed
-   * @returns ThreatResult[] - Array of shell execution threats
+   * @param analysis - Scope and taint analysis of the file
+   * @returns ThreatResult[] - Array of code loading threats
    */
-  private detectShellExecution(nodes: ASTNode[], file: RepositoryFile): ThreatResult[] {
+  private detectCodeLoadingSinks(nodes: ASTNode[], file: RepositoryFile, analysis: FileAnalysis): ThreatResult[] {
     const threats: ThreatResult[] = [];
-    const callExpressions = getNodesByType(nodes, 'CallExpression');
+    const calls = getNodesByType(nodes, 'CallExpression')
+      .concat(getNodesByType(nodes, 'NewExpression'))
+      .sort((a, b) => (a.range?.[0] ?? 0) - (b.range?.[0] ?? 0));
 
-    for (const node of callExpressions) {
-      if (node.callee && typeof node.callee === 'object' && 'name' in node.callee) {
-        const calleeName = (node.callee as { name: string }).name;
-        
-        if (['exec', 'spawn', 'execSync', 'spawnSync'].includes(calleeName)) {
-          threats.push({
-            category: this.category,
-            subcategory: 'shell_execution',
-            severity: 'CRITICAL',
-            description: `Shell execution function ${calleeName} detected - potential command injection vulnerability`,
-            file: file.path,
-            line: node.loc?.start.line,
-            code: `${calleeName}()`,
-            details: {
-              nodeType: node.type,
-              functionName: calleeName,
-              arguments: (node.arguments as unknown[])?.length || 0
-            }
-          });
+    for (const node of calls) {
+      const sink = this.getCodeLoadingSink(node, analysis);
+      if (!sink) continue;
+
+      const flow = this.getArgumentTaint(node, analysis.taint, 1);
+      if (!flow && !sink.reportUntainted) continue;
+
+      const isDynamic = this.isDynamicEvalCall(node) || flow !== undefined;
+      threats.push({
+        category: this.category,
+        subcategory: flow ? sink.taintedSubcategory ?? sink.subcategory : sink.subcategory,
+        severity: flow ? 'CRITICAL' : sink.severity,
+        description: flow
+          ? `${sink.name} receives untrusted data from ${flow.source.name} - ${sink.description}`
+          : `${isDynamic ? 'Dynamic ' : ''}${sink.name} detected - ${sink.description}`,
+        file: file.path,
+        line: node.loc?.start.line,
+        code: this.extractCodeContext(node, file),
+        details: {
+          nodeType: node.type,
+          functionName: sink.name,
+          arguments: (node.arguments as unknown[])?.length || 0,
+          isDynamic,
+          isObfuscated: this.isComputedCallee(node),
+          riskLevel: isDynamic ? 'high' : 'medium',
+          ...this.describeTaint(flow, sink.name, node)
         }
-      }
+      });
     }
 
     return threats;
   }
+
+  /**
+   * Identify the code loading sink a call or new expression invokes
+   * @param node - Call or new expression node
+   * @param analysis - Scope and taint analysis of the file
+   * @returns CodeLoadingSink | undefined - The sink, if the call is one
+   */
+  private getCodeLoadingSink(node: ASTNode, analysis: FileAnalysis): CodeLoadingSink | undefined {
+    const callee = this.resolveCallee(node, analysis.scope);
+    const args = (node.arguments as TSESTree.CallExpressionArgument[] | undefined) ?? [];
+
+    if (callee?.kind === 'module' && callee.module === 'vm' && VM_EXECUTION_FUNCTIONS.includes(callee.member ?? '')) {
+      return {
+        subcategory: 'vm_execution',
+        taintedSubcategory: 'tainted_vm_execution',
+        severity: 'WARNING',
+        name: formatSymbol(callee),
+        reportUntainted: true,
+        description: 'code compiled outside the module system, vm is not a security sandbox'
+      };
+    }
+
+    if (callee?.kind === 'module' && callee.module === 'worker_threads' && callee.member === 'Worker' && node.type === 'NewExpression') {
+      return this.isEvalWorker(args[1], analysis.scope)
+        ? {
+          subcategory: 'worker_eval',
+          severity: 'CRITICAL',
+          name: 'new Worker(code, { eval: true })',
+          reportUntainted: true,
+          description: 'worker thread runs a string as code'
+        }
+        : undefined;
+    }
+
+    if (this.getCalledPropertyName(node) === '_compile' || (callee && formatSymbol(callee).endsWith('._compile'))) {
+      return {
+        subcategory: 'module_compile',
+        severity: 'CRITICAL',
+        name: 'module._compile()',
+        reportUntainted: true,
+        description: 'source compiled as a CommonJS module, bypassing the file system'
+      };
+    }
+
+    if (isGlobalSymbol(callee, ['require']) && args.length > 0) {
+      return args[0].type !== 'SpreadElement' && analysis.scope.evaluateString(args[0]) === undefined
+        ? {
+          subcategory: 'dynamic_module_load',
+          taintedSubcategory: 'tainted_module_load',
+          severity: 'WARNING',
+          name: 'require()',
+          reportUntainted: true,
+          description: 'module path computed at runtime, arbitrary code loading'
+        }
+        : undefined;
+    }
+
+    const globalName = callee?.kind === 'global' ? callee.name : '';
+
+    if (WEBASSEMBLY_COMPILE_FUNCTIONS.includes(globalName)) {
+      return {
+        subcategory: 'webassembly_execution',
+        severity: 'WARNING',
+        name: `${globalName}()`,
+        reportUntainted: args.length > 0 && this.isEmbeddedBytes(args[0], analysis.scope, 0),
+        description: 'WebAssembly compiled from bytes embedded in the source, opaque to review'
+      };
+    }
+
+    if (NATIVE_BINDING_FUNCTIONS.includes(globalName)) {
+      return {
+        subcategory: 'native_binding',
+        severity: 'WARNING',
+        name: `${globalName}()`,
+        reportUntainted: true,
+        description: 'native code loaded outside require()'
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check whether Worker options enable `eval`, making the first argument code instead of a path
+   * @param options - Second argument of the Worker constructor
+   * @param scope - Scope analysis of the file
+   * @returns boolean - True when `eval` is set to a truthy constant
+   */
+  private isEvalWorker(options: TSESTree.CallExpressionArgument | undefined, scope: ScopeAnalysis): boolean {
+    if (options?.type !== 'ObjectExpression') return false;
+
+    return options.properties.some(property =>
+      property.type === 'Property' &&
+      !property.computed &&
+      ((property.key.type === 'Identifier' && property.key.name === 'eval') || (property.key.type === 'Literal' && property.key.value === 'eval')) &&
+      Boolean(scope.evaluate(property.value))
+    );
+  }
+
+  /**
+   * Check whether an expression holds bytes written into the source itself,
+   * e.g. `new Uint8Array([0, 97, 115, 109])` or `Buffer.from('AGFzbQ...', 'base64')`
+   * @param node - Expression to check
+   * @param scope - Scope analysis of the file
+   * @param depth - Current recursion depth
+   * @returns boolean - True when the bytes are constant
+   */
+  private isEmbeddedBytes(node: TSESTree.Node, scope: ScopeAnalysis, depth: number): boolean {
+    if (depth > 8) return false;
+
+    const value = scope.evaluate(node);
+    if (typeof value === 'string' || (Array.isArray(value) && value.length > 0)) return true;
+
+    if (node.type === 'Identifier') {
+      const variable = scope.getVariable(node);
+      const values = variable ? scope.getAssignedValues(variable) : [];
+      return values.length > 0 && values.every(assigned => this.isEmbeddedBytes(assigned, scope, depth + 1));
+    }
+
+    if (node.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier' && node.property.name === 'buffer') {
+      return this.isEmbeddedBytes(node.object, scope, depth + 1);
+    }
+
+    if ((node.type === 'NewExpression' || node.type === 'CallExpression') && node.arguments.length > 0) {
+      const callee = scope.resolve(node.callee);
+      return isGlobalSymbol(callee, BYTE_CONTAINERS) &&
+        node.arguments[0].type !== 'SpreadElement' &&
+        this.isEmbeddedBytes(node.arguments[0], scope, depth + 1);
+    }
+
+    return false;
+  }
+
+  /**
+   * Get the static property name a call invokes, following `.call`/`.apply`
+   * e.g. `_compile` for `new Module()._compile(code)` and `Module.prototype._compile.call(m, code)`
+   * @param node - Call or new expression node
+   * @returns string | undefined - Property name, if the callee is a member access
+   */
+  private getCalledPropertyName(node: ASTNode): string | undefined {
+    let callee = node.callee as TSESTree.Node | undefined;
+    if (callee?.type === 'ChainExpression') callee = callee.expression;
+    if (callee?.type !== 'MemberExpression') return undefined;
+
+    const name = getStaticPropertyName(callee);
+    if ((name === 'call' || name === 'apply') && callee.object.type === 'MemberExpression') {
+      return getStaticPropertyName(callee.object);
+    }
+    return name;
+  }
+
+  /**
+   * Find untrusted data among the arguments of a call
+   * @param node - Call or new expression node
+   * @param taint - Taint analysis of the file
+   * @param count - Number of leading arguments to check (all when omitted)
+   * @returns TaintFlow | undefined - Flow into the first tainted argument
+   */
+  private getArgumentTaint(node: ASTNode, taint: TaintAnalysis, count?: number): TaintFlow | undefined {
+    const args = (node.arguments as TSESTree.CallExpressionArgument[] | undefined) ?? [];
+
+    for (const argument of args.slice(0, count)) {
+      const flow = taint.getTaint(argument);
+      if (flow) return flow;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Describe a source-to-sink flow for threat details
+   * @param flow - Flow into the sink, if any
+   * @param sinkName - Name of the sink function
+   * @param node - Sink call node
+   * @returns Record<string, unknown> - Taint details; only `isTainted: false` when the arguments are untainted
+   */
+  private describeTaint(flow: TaintFlow | undefined, sinkName: string, node: ASTNode): Record<string, unknown> {
+    if (!flow) return { isTainted: false };
+
+    const fullFlow = extendFlow(flow, sinkName, node.loc?.start.line);
+    return {
+      isTainted: true,
+      taintSource: flow.source.name,
+      taintSourceType: flow.source.type,
+      taintPath: formatTaintPath(fullFlow),
+      taintSteps: fullFlow.path
+    };
+  }
 }
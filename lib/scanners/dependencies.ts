@@ -0,0 +1,270 @@
+import path from 'path';
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { fileURLToPath } from 'url';
+import semver from 'semver';
+import type { ThreatResult, RepositoryFile } from '../types';
+import {
+  getLockfileType,
+  parseLockfile,
+  type LockfileDependency,
+  type PackageManifestDependencies
+} from '../utils/lockfile-parser';
+
+// Bundled advisory database next to this module; extra *.json files dropped into this directory are merged in
+const DEFAULT_ADVISORY_DIRECTORY = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'data', 'advisories');
+
+const ADVISORY_SEVERITIES = ['CRITICAL', 'WARNING', 'INFO'] as const;
+
+export interface Advisory {
+  id: string;
+  package: string;
+  // Exact affected versions, or a semver range ("*" for every version)
+  versions?: string[];
+  range?: string;
+  severity: 'CRITICAL' | 'WARNING' | 'INFO';
+  type: 'malicious' | 'vulnerability';
+  title: string;
+}
+
+export interface DependencyScannerOptions {
+  // Directory of advisory JSON files (defaults to lib/data/advisories)
+  advisoryDirectory?: string;
+  // Advisories to use instead of reading the advisory directory
+  advisories?: Advisory[];
+}
+
+/**
+ * Dependency Scanner for matching installed dependencies against known advisories
+ * Builds the full resolved dependency list from package-lock.json, pnpm-lock.yaml
+ * and yarn.lock, then checks every package against an offline advisory database
+ * of known-malicious and vulnerable releases
+ */
+export class DependencyScanner {
+  public readonly name = 'dependencies';
+  public readonly category = 'dependencies';
+  public readonly subcategory = 'known_advisories';
+
+  private readonly advisoryDirectory: string;
+  private readonly providedAdvisories?: Map<string, Advisory[]>;
+  // Advisories read from the advisory directory, with the file listing they were read from
+  private loadedAdvisories?: { signature: string; advisories: Map<string, Advisory[]> };
+
+  constructor(options: DependencyScannerOptions = {}) {
+    this.advisoryDirectory = options.advisoryDirectory ?? DEFAULT_ADVISORY_DIRECTORY;
+    if (options.advisories) {
+      this.providedAdvisories = this.indexAdvisories(options.advisories);
+    }
+  }
+
+  /**
+   * Scan lockfiles and manifests for dependencies with known advisories
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const threats: ThreatResult[] = [];
+    const advisories = this.getAdvisories();
+    const lockfileDirectories = new Set<string>();
+
+    for (const file of files.filter(file => getLockfileType(file.path))) {
+      lockfileDirectories.add(path.dirname(file.path));
+      const manifest = this.findSiblingManifest(file, files);
+
+      let dependencies: LockfileDependency[];
+      try {
+        dependencies = parseLockfile(file.path, file.content, manifest).dependencies;
+      } catch (error) {
+        threats.push({
+          category: this.category,
+          subcategory: 'lockfile_parse_error',
+          severity: 'INFO',
+          description: `Lockfile could not be parsed - dependencies were not checked: ${error instanceof Error ? error.message : String(error)}`,
+          file: file.path
+        });
+        continue;
+      }
+
+      for (const dependency of dependencies) {
+        for (const advisory of this.matchAdvisories(advisories, dependency.name, dependency.version)) {
+          threats.push(this.createThreat(advisory, dependency, file));
+        }
+      }
+    }
+
+    // Without a lockfile only declared versions are known, so only exact versions and "*" advisories can match
+    for (const file of files.filter(file => path.basename(file.path) === 'package.json')) {
+      if (lockfileDirectories.has(path.dirname(file.path))) continue;
+
+      const manifest = this.parseManifest(file.content);
+      if (!manifest) continue;
+
+      for (const [name, specifier] of Object.entries(this.getDeclaredDependencies(manifest))) {
+        const version = semver.valid(specifier) ? specifier : undefined;
+        const matches = this.matchAdvisories(advisories, name, version);
+        for (const advisory of matches) {
+          threats.push(this.createThreat(advisory, {
+            name,
+            version: version ?? specifier,
+            path: [name],
+            direct: true,
+            line: this.findLine(file.content, `"${name}"`)
+          }, file));
+        }
+      }
+    }
+
+    return threats;
+  }
+
+  private createThreat(advisory: Advisory, dependency: LockfileDependency, file: RepositoryFile): ThreatResult {
+    const dependencyPath = dependency.path.join(' > ');
+    const lines = file.content.split('\n');
+
+    return {
+      category: this.category,
+      subcategory: advisory.type === 'malicious' ? 'malicious_package' : 'vulnerable_package',
+      severity: advisory.severity,
+      description: `${dependency.name}@${dependency.version}: ${advisory.title} (${advisory.id})`,
+      file: file.path,
+      line: dependency.line,
+      code: dependency.line ? lines[dependency.line - 1]?.trim() : undefined,
+      details: {
+        package: dependency.name,
+        version: dependency.version,
+        path: dependencyPath,
+        isDirect: dependency.direct,
+        advisoryId: advisory.id,
+        advisoryType: advisory.type,
+        title: advisory.title,
+        lockfile: path.basename(file.path),
+        ...(dependency.resolved !== undefined && { resolved: dependency.resolved }),
+        ...(dependency.dev !== undefined && { dev: dependency.dev })
+      }
+    };
+  }
+
+  /**
+   * Find advisories affecting a package version; a missing version only matches advisories covering every version
+   */
+  private matchAdvisories(advisories: Map<string, Advisory[]>, name: string, version: string | undefined): Advisory[] {
+    return (advisories.get(name) || []).filter(advisory => {
+      if (advisory.range === '*') return true;
+      if (!version) return false;
+      if (advisory.versions?.includes(version)) return true;
+      return advisory.range !== undefined && semver.valid(version) !== null &&
+        semver.satisfies(version, advisory.range, { includePrerelease: true });
+    });
+  }
+
+  private findSiblingManifest(lockfile: RepositoryFile, files: RepositoryFile[]): PackageManifestDependencies | undefined {
+    const manifestPath = path.join(path.dirname(lockfile.path), 'package.json');
+    const manifestFile = files.find(file => file.path === manifestPath);
+    return manifestFile ? this.parseManifest(manifestFile.content) : undefined;
+  }
+
+  private parseManifest(content: string): PackageManifestDependencies | undefined {
+    try {
+      const manifest = JSON.parse(content);
+      return manifest && typeof manifest === 'object' && !Array.isArray(manifest) ? manifest : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getDeclaredDependencies(manifest: PackageManifestDependencies): Record<string, string> {
+    const declared: Record<string, string> = {};
+
+    for (const group of [manifest.dependencies, manifest.devDependencies, manifest.optionalDependencies]) {
+      if (!group || typeof group !== 'object') continue;
+      for (const [name, specifier] of Object.entries(group)) {
+        if (typeof specifier === 'string') declared[name] = specifier;
+      }
+    }
+
+    return declared;
+  }
+
+  private findLine(content: string, text: string): number | undefined {
+    const index = content.split('\n').findIndex(line => line.includes(text));
+    return index === -1 ? undefined : index + 1;
+  }
+
+  /**
+   * Load and index the advisory database, re-reading the advisory directory
+   * whenever its JSON files are added, removed or modified
+   */
+  private getAdvisories(): Map<string, Advisory[]> {
+    if (this.providedAdvisories) return this.providedAdvisories;
+
+    const advisoryFiles = this.listAdvisoryFiles();
+    const signature = advisoryFiles.map(file => `${file.name}:${file.size}:${file.modifiedAt}`).join('|');
+    if (this.loadedAdvisories?.signature === signature) return this.loadedAdvisories.advisories;
+
+    const advisories: Advisory[] = [];
+
+    for (const { name } of advisoryFiles) {
+      const filePath = path.join(this.advisoryDirectory, name);
+      try {
+        const data = JSON.parse(readFileSync(filePath, 'utf8'));
+        const records: unknown[] = Array.isArray(data) ? data : data?.advisories;
+        if (!Array.isArray(records)) {
+          console.warn(`Skipping advisory file ${filePath}: missing advisories array`);
+          continue;
+        }
+        advisories.push(...records.filter((record): record is Advisory => this.isValidAdvisory(record)));
+      } catch (error) {
+        console.warn(`Failed to load advisory file ${filePath}:`, error);
+      }
+    }
+
+    this.loadedAdvisories = { signature, advisories: this.indexAdvisories(advisories) };
+    return this.loadedAdvisories.advisories;
+  }
+
+  /**
+   * List the JSON files in the advisory directory with their size and modification time
+   */
+  private listAdvisoryFiles(): { name: string; size: number; modifiedAt: number }[] {
+    let fileNames: string[] = [];
+
+    try {
+      fileNames = readdirSync(this.advisoryDirectory).filter(fileName => fileName.endsWith('.json')).sort();
+    } catch (error) {
+      console.warn(`Failed to read advisory directory ${this.advisoryDirectory}:`, error);
+    }
+
+    return fileNames.map(name => {
+      try {
+        const stats = statSync(path.join(this.advisoryDirectory, name));
+        return { name, size: stats.size, modifiedAt: stats.mtimeMs };
+      } catch {
+        // Removed while listing; reading it will fail and be reported
+        return { name, size: -1, modifiedAt: -1 };
+      }
+    });
+  }
+
+  private indexAdvisories(advisories: Advisory[]): Map<string, Advisory[]> {
+    const index = new Map<string, Advisory[]>();
+
+    for (const advisory of advisories) {
+      // Later files override earlier records with the same id
+      const existing = (index.get(advisory.package) || []).filter(other => other.id !== advisory.id);
+      index.set(advisory.package, [...existing, advisory]);
+    }
+
+    return index;
+  }
+
+  private isValidAdvisory(record: unknown): boolean {
+    if (!record || typeof record !== 'object') return false;
+    const advisory = record as Partial<Advisory>;
+
+    return typeof advisory.id === 'string' &&
+      typeof advisory.package === 'string' &&
+      typeof advisory.title === 'string' &&
+      ADVISORY_SEVERITIES.includes(advisory.severity as Advisory['severity']) &&
+      (advisory.type === 'malicious' || advisory.type === 'vulnerability') &&
+      (Array.isArray(advisory.versions) || typeof advisory.range === 'string');
+  }
+}
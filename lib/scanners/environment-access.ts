@@ -0,0 +1,411 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { parseFile, walkAST, getStaticPropertyName, getStaticStringValue, PARSEABLE_FILE_EXTENSIONS } from '../utils/ast-parser';
+import {
+  collectModuleBindings,
+  resolveModuleReference,
+  type ModuleBindings
+} from '../utils/module-bindings';
+import { analyzeScope } from '../utils/scope-analysis';
+import { extractCodeContext, truncateSample } from '../utils/code-context';
+import type { ThreatResult, RepositoryFile } from '../types';
+
+type SensitivePathCategory = 'credentials' | 'browser_profile' | 'crypto_wallet' | 'shell_history';
+
+// Paths under the user's home directory that hold secrets worth stealing
+const SENSITIVE_PATHS: { name: string; pattern: RegExp; category: SensitivePathCategory }[] = [
+  { name: 'SSH keys', pattern: /(^|[\\/])\.ssh([\\/]|$)|\bid_(rsa|dsa|ecdsa|ed25519)\b/i, category: 'credentials' },
+  { name: 'npm credentials', pattern: /(^|[\\/])\.npmrc$/i, category: 'credentials' },
+  { name: 'Yarn credentials', pattern: /(^|[\\/])\.yarnrc(\.yml)?$/i, category: 'credentials' },
+  { name: 'AWS credentials', pattern: /(^|[\\/])\.aws([\\/]|$)/i, category: 'credentials' },
+  { name: 'Git credentials', pattern: /(^|[\\/])\.(git-credentials|netrc)$/i, category: 'credentials' },
+  { name: 'Docker credentials', pattern: /(^|[\\/])\.docker[\\/]config\.json$/i, category: 'credentials' },
+  { name: 'Kubernetes config', pattern: /(^|[\\/])\.kube([\\/]|$)/i, category: 'credentials' },
+  { name: 'GnuPG keyring', pattern: /(^|[\\/])\.gnupg([\\/]|$)/i, category: 'credentials' },
+  { name: 'Cloud CLI credentials', pattern: /(^|[\\/])(\.config[\\/]gcloud|\.azure)([\\/]|$)/i, category: 'credentials' },
+  { name: 'Shell history', pattern: /(^|[\\/])\.(bash|zsh|sh)_history$/i, category: 'shell_history' },
+  { name: 'Chrome profile', pattern: /Google[\\/]Chrome|google-chrome|Chromium/i, category: 'browser_profile' },
+  { name: 'Brave profile', pattern: /BraveSoftware/i, category: 'browser_profile' },
+  { name: 'Edge profile', pattern: /Microsoft[\\/]Edge/i, category: 'browser_profile' },
+  { name: 'Firefox profile', pattern: /Mozilla[\\/]Firefox|\.mozilla[\\/]firefox/i, category: 'browser_profile' },
+  { name: 'Browser credential store', pattern: /^(Login Data|Local State|Cookies|Web Data)$/, category: 'browser_profile' },
+  { name: 'Exodus wallet', pattern: /Exodus([\\/]|$)/, category: 'crypto_wallet' },
+  { name: 'Electrum wallet', pattern: /(^|[\\/])\.?electrum([\\/]|$)/i, category: 'crypto_wallet' },
+  { name: 'Ethereum keystore', pattern: /Ethereum[\\/]keystore|(^|[\\/])\.ethereum([\\/]|$)/i, category: 'crypto_wallet' },
+  { name: 'Atomic wallet', pattern: /atomic[\\/]Local Storage/i, category: 'crypto_wallet' },
+  { name: 'Solana keypair', pattern: /(^|[\\/])\.config[\\/]solana/i, category: 'crypto_wallet' },
+  { name: 'Bitcoin wallet', pattern: /wallet\.dat$/i, category: 'crypto_wallet' },
+  { name: 'MetaMask extension storage', pattern: /nkbihfbeogaeaoehlefnkodbefgpgknn/, category: 'crypto_wallet' }
+];
+
+// Environment variable names that point at the home directory
+const HOME_ENV_KEYS = ['HOME', 'USERPROFILE', 'APPDATA', 'LOCALAPPDATA', 'HOMEPATH'];
+
+// Environment variable names that usually hold secrets; words must stand between underscores
+// or the ends of the name, so AUTH_TOKEN matches but AUTHOR does not
+const SECRET_ENV_PATTERN = /(^|_)(TOKEN|SECRET|PASSWORD|PASSWD|PRIVATE|API_?KEY|ACCESS_?KEY|CREDENTIALS?|AUTH|SESSION|COOKIE)S?(_|$)/i;
+
+// Calls that turn the whole environment object into transferable data; String() and
+// string building are left out as they only produce "[object Object]"
+const SERIALIZING_CALLS = ['JSON.stringify', 'Object.keys', 'Object.values', 'Object.entries', 'Object.assign', 'Buffer.from'];
+
+// Expression types that combine path fragments into one path
+const PATH_EXPRESSION_TYPES = ['CallExpression', 'BinaryExpression', 'TemplateLiteral', 'ArrayExpression', 'SpreadElement'];
+
+const isOsModule = (moduleName: string) => moduleName === 'os';
+
+/**
+ * Environment Access Scanner for detecting environment variable and credential access
+ * Reports every environment variable read, enumeration and serialization of the
+ * whole environment, and access to credential files, browser profiles and crypto wallets
+ * Ordinary reads such as process.env.NODE_ENV are INFO; secret-like names raise them to WARNING
+ */
+export class EnvironmentAccessScanner {
+  public readonly name = 'environment-access';
+  public readonly category = 'environment_access';
+  public readonly subcategory = 'credential_access';
+
+  private readonly supportedExtensions = PARSEABLE_FILE_EXTENSIONS;
+
+  /**
+   * Scan files for environment and credential access
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const threats: ThreatResult[] = [];
+
+    for (const file of files) {
+      if (!this.supportedExtensions.includes(file.extension)) {
+        continue;
+      }
+
+      try {
+        const parseResult = await parseFile(file);
+
+        if (!parseResult.success || !parseResult.ast) {
+          continue;
+        }
+
+        threats.push(...this.analyzeProgram(parseResult.ast, file));
+      } catch (error) {
+        console.error(`Error scanning file ${file.path}:`, error);
+      }
+    }
+
+    return threats;
+  }
+
+  /**
+   * Analyze a parsed program for environment and sensitive path access
+   * @param ast - Parsed program
+   * @param file - Repository file being analyzed
+   * @returns ThreatResult[] - Array of environment access threats
+   */
+  private analyzeProgram(ast: TSESTree.Program, file: RepositoryFile): ThreatResult[] {
+    const threats: ThreatResult[] = [];
+    const osBindings = collectModuleBindings(ast, isOsModule, analyzeScope(ast));
+    const homeVariables = this.collectHomeDirectoryVariables(ast, osBindings);
+
+    walkAST(ast, (node, parent, ancestors) => {
+      if (this.isProcessEnv(node)) {
+        const threat = this.analyzeEnvironmentAccess(node, parent, ancestors, file);
+        if (threat) threats.push(threat);
+        return;
+      }
+
+      if (node.type === 'Literal' || node.type === 'TemplateElement') {
+        const value = node.type === 'Literal' ? node.value : node.value.cooked;
+        if (typeof value === 'string') {
+          const threat = this.analyzeSensitivePath(value, node, ancestors, file, osBindings, homeVariables);
+          if (threat) threats.push(threat);
+        }
+      }
+    });
+
+    return threats;
+  }
+
+  /**
+   * Classify how process.env is used: single key, destructuring, enumeration or serialization
+   */
+  private analyzeEnvironmentAccess(
+    node: TSESTree.MemberExpression,
+    parent: TSESTree.Node | null,
+    ancestors: readonly TSESTree.Node[],
+    file: RepositoryFile
+  ): ThreatResult | undefined {
+    const line = node.loc?.start.line;
+    const code = extractCodeContext(file.content, line) || 'process.env';
+
+    // process.env.KEY / process.env['KEY']
+    if (parent?.type === 'MemberExpression' && parent.object === node) {
+      const key = getStaticPropertyName(parent);
+      if (key !== undefined) {
+        return this.createKeyReadThreat([key], file, line, code);
+      }
+
+      return {
+        category: this.category,
+        subcategory: 'environment_variable_read',
+        severity: 'WARNING',
+        description: 'process.env read with a computed key - accessed variable cannot be determined statically',
+        file: file.path,
+        line,
+        code,
+        details: { accessType: 'computed_key' }
+      };
+    }
+
+    // const { KEY, OTHER } = process.env
+    if (parent?.type === 'VariableDeclarator' && parent.init === node && parent.id.type === 'ObjectPattern') {
+      const keys: string[] = [];
+      let hasRest = false;
+      for (const property of parent.id.properties) {
+        if (property.type === 'RestElement') {
+          hasRest = true;
+        } else {
+          const key = property.key.type === 'Identifier' && !property.computed
+            ? property.key.name
+            : getStaticStringValue(property.key);
+          if (key) keys.push(key);
+        }
+      }
+
+      if (!hasRest) {
+        return this.createKeyReadThreat(keys, file, line, code);
+      }
+      // `...rest` copies every other variable, so it is treated as whole-object access below
+    }
+
+    const serializer = this.findSerializer(node, parent, ancestors);
+    if (serializer) {
+      return {
+        category: this.category,
+        subcategory: 'environment_serialization',
+        severity: 'CRITICAL',
+        description: `Entire process.env serialized via ${serializer} - all environment variables and secrets can be exfiltrated`,
+        file: file.path,
+        line,
+        code,
+        details: { accessType: 'serialization', serializer }
+      };
+    }
+
+    return {
+      category: this.category,
+      subcategory: 'environment_enumeration',
+      severity: 'WARNING',
+      description: 'Entire process.env object accessed - all environment variables are exposed',
+      file: file.path,
+      line,
+      code,
+      details: { accessType: 'whole_object', usage: parent?.type ?? 'unknown' }
+    };
+  }
+
+  /**
+   * Determine whether process.env is passed to a serializing call or construct
+   * @returns string | undefined - Name of the serializer, if any
+   */
+  private findSerializer(
+    node: TSESTree.Node,
+    parent: TSESTree.Node | null,
+    ancestors: readonly TSESTree.Node[]
+  ): string | undefined {
+    if (parent?.type === 'ForInStatement' && parent.right === node) {
+      return 'for...in';
+    }
+
+    // JSON.stringify(process.env), Object.entries({ ...process.env })
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+      const ancestor = ancestors[i];
+      if (ancestor.type === 'CallExpression') {
+        const calleeName = this.getCalleeName(ancestor.callee);
+        if (calleeName && SERIALIZING_CALLS.includes(calleeName)) {
+          return calleeName;
+        }
+        break;
+      }
+      if (!['ObjectExpression', 'SpreadElement', 'Property', 'ArrayExpression'].includes(ancestor.type)) {
+        break;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Report a read of named variables, raised to WARNING when one of them looks like a secret
+   * @returns ThreatResult | undefined - undefined when no key is read, e.g. `const {} = process.env`
+   */
+  private createKeyReadThreat(keys: string[], file: RepositoryFile, line: number | undefined, code: string): ThreatResult | undefined {
+    if (keys.length === 0) return undefined;
+    const secretKeys = keys.filter(key => SECRET_ENV_PATTERN.test(key));
+    const isSecret = secretKeys.length > 0;
+
+    return {
+      category: this.category,
+      subcategory: 'environment_variable_read',
+      severity: isSecret ? 'WARNING' : 'INFO',
+      description: isSecret
+        ? `Secret-like environment variable read: ${secretKeys.join(', ')}`
+        : `Environment variable read: ${keys.join(', ')}`,
+      file: file.path,
+      line,
+      code,
+      details: {
+        accessType: 'single_key',
+        keys,
+        ...(keys.length === 1 && { key: keys[0] }),
+        isSecret
+      }
+    };
+  }
+
+  /**
+   * Report a string literal that names a sensitive path, escalating when it is
+   * combined with the user's home directory
+   */
+  private analyzeSensitivePath(
+    value: string,
+    node: TSESTree.Node,
+    ancestors: readonly TSESTree.Node[],
+    file: RepositoryFile,
+    osBindings: ModuleBindings,
+    homeVariables: Set<string>
+  ): ThreatResult | undefined {
+    const match = SENSITIVE_PATHS.find(entry => entry.pattern.test(value));
+    if (!match) return undefined;
+
+    // Skip import/require specifiers such as require('./electrum')
+    const parent = ancestors[ancestors.length - 1];
+    if (parent && (parent.type === 'ImportDeclaration' || parent.type === 'ImportExpression')) {
+      return undefined;
+    }
+
+    const pathExpression = this.findPathExpression(ancestors);
+    const usesHomeDirectory = value.startsWith('~') ||
+      (pathExpression !== undefined && this.referencesHomeDirectory(pathExpression, osBindings, homeVariables));
+
+    const line = node.loc?.start.line;
+
+    return {
+      category: this.category,
+      subcategory: match.category === 'credentials' || match.category === 'shell_history'
+        ? 'credential_file_access'
+        : `${match.category}_access`,
+      severity: usesHomeDirectory || match.category === 'crypto_wallet' ? 'CRITICAL' : 'WARNING',
+      description: usesHomeDirectory
+        ? `${match.name} path resolved from the user's home directory - potential credential theft`
+        : `Reference to ${match.name} path detected`,
+      file: file.path,
+      line,
+      code: extractCodeContext(file.content, line),
+      details: {
+        path: truncateSample(value),
+        target: match.name,
+        targetCategory: match.category,
+        usesHomeDirectory
+      }
+    };
+  }
+
+  /**
+   * Find the outermost expression that combines path fragments around a literal
+   */
+  private findPathExpression(ancestors: readonly TSESTree.Node[]): TSESTree.Node | undefined {
+    let outermost: TSESTree.Node | undefined;
+
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+      if (!PATH_EXPRESSION_TYPES.includes(ancestors[i].type)) break;
+      outermost = ancestors[i];
+    }
+
+    return outermost;
+  }
+
+  /**
+   * Check whether an expression references the user's home directory
+   */
+  private referencesHomeDirectory(
+    root: TSESTree.Node,
+    osBindings: ModuleBindings,
+    homeVariables: Set<string>
+  ): boolean {
+    let found = false;
+
+    walkAST(root, (node) => {
+      if (found) return;
+      if (node.type === 'Identifier' && homeVariables.has(node.name)) {
+        found = true;
+      } else if (this.isHomeDirectoryExpression(node, osBindings)) {
+        found = true;
+      }
+    });
+
+    return found;
+  }
+
+  /**
+   * Collect variables initialized from os.homedir() or home-related environment variables
+   */
+  private collectHomeDirectoryVariables(ast: TSESTree.Program, osBindings: ModuleBindings): Set<string> {
+    const variables = new Set<string>();
+
+    walkAST(ast, (node) => {
+      if (
+        node.type === 'VariableDeclarator' &&
+        node.id.type === 'Identifier' &&
+        node.init &&
+        this.isHomeDirectoryExpression(node.init, osBindings)
+      ) {
+        variables.add(node.id.name);
+      }
+    });
+
+    return variables;
+  }
+
+  /**
+   * Check for os.homedir(), os.userInfo().homedir and process.env.HOME style expressions
+   */
+  private isHomeDirectoryExpression(node: TSESTree.Node, osBindings: ModuleBindings): boolean {
+    if (node.type === 'CallExpression') {
+      const reference = resolveModuleReference(node.callee, osBindings, isOsModule);
+      return reference?.member === 'homedir';
+    }
+
+    if (node.type === 'MemberExpression') {
+      const propertyName = getStaticPropertyName(node);
+      if (this.isProcessEnv(node.object) && propertyName && HOME_ENV_KEYS.includes(propertyName)) {
+        return true;
+      }
+      if (propertyName === 'homedir' && node.object.type === 'CallExpression') {
+        const reference = resolveModuleReference(node.object.callee, osBindings, isOsModule);
+        return reference?.member === 'userInfo';
+      }
+    }
+
+    return false;
+  }
+
+  private isProcessEnv(node: TSESTree.Node): node is TSESTree.MemberExpression {
+    return (
+      node.type === 'MemberExpression' &&
+      node.object.type === 'Identifier' &&
+      node.object.name === 'process' &&
+      getStaticPropertyName(node) === 'env'
+    );
+  }
+
+  private getCalleeName(callee: TSESTree.Node): string | undefined {
+    if (callee.type === 'Identifier') {
+      return callee.name;
+    }
+    if (callee.type === 'MemberExpression' && callee.object.type === 'Identifier') {
+      const propertyName = getStaticPropertyName(callee);
+      return propertyName ? `${callee.object.name}.${propertyName}` : undefined;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,324 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { parseFile, walkAST, getStaticPropertyName, getStaticStringValue, PARSEABLE_FILE_EXTENSIONS } from '../utils/ast-parser';
+import {
+  collectModuleBindings,
+  resolveModuleReference,
+  unwrapExpression,
+  type ModuleBindings,
+  type ModuleReference
+} from '../utils/module-bindings';
+import { analyzeScope } from '../utils/scope-analysis';
+import { extractCodeContext } from '../utils/code-context';
+import type { ThreatResult, RepositoryFile } from '../types';
+
+type FileOperationType = 'write' | 'delete' | 'permission' | 'rename' | 'link';
+
+// fs functions (callback, sync and promise variants share names) and what they do to the disk
+const FS_OPERATIONS: Record<string, FileOperationType> = {
+  writeFile: 'write',
+  writeFileSync: 'write',
+  appendFile: 'write',
+  appendFileSync: 'write',
+  createWriteStream: 'write',
+  copyFile: 'write',
+  copyFileSync: 'write',
+  cp: 'write',
+  cpSync: 'write',
+  truncate: 'write',
+  truncateSync: 'write',
+  unlink: 'delete',
+  unlinkSync: 'delete',
+  rm: 'delete',
+  rmSync: 'delete',
+  rmdir: 'delete',
+  rmdirSync: 'delete',
+  chmod: 'permission',
+  chmodSync: 'permission',
+  chown: 'permission',
+  chownSync: 'permission',
+  rename: 'rename',
+  renameSync: 'rename',
+  symlink: 'link',
+  symlinkSync: 'link',
+  link: 'link',
+  linkSync: 'link'
+};
+
+// fs-extra and rimraf helpers that delete whole trees
+const RECURSIVE_DELETE_FUNCTIONS: Record<string, string[]> = {
+  'fs-extra': ['remove', 'removeSync', 'emptyDir', 'emptyDirSync'],
+  rimraf: ['default', 'sync', 'rimraf', 'rimrafSync']
+};
+
+// Locations whose modification lets code persist or tamper with other tools
+const SENSITIVE_TARGETS: { name: string; pattern: RegExp }[] = [
+  { name: 'shell profile', pattern: /(^|\/)\.(bashrc|bash_profile|bash_login|profile|zshrc|zprofile|zshenv|cshrc|tcshrc)$|(^|\/)config\.fish$/i },
+  { name: 'node_modules', pattern: /(^|\/)node_modules(\/|$)/ },
+  { name: 'git hooks', pattern: /(^|\/)\.git\/hooks(\/|$)/ },
+  { name: 'git configuration', pattern: /(^|\/)\.git\/config$|(^|\/)\.gitconfig$/ },
+  { name: 'SSH authorized keys', pattern: /(^|\/)\.ssh\/authorized_keys$/ },
+  { name: 'scheduled tasks', pattern: /(^|\/)(cron\.d|crontabs?)(\/|$)|\/var\/spool\/cron/ },
+  { name: 'system service', pattern: /\/etc\/systemd|\/Library\/LaunchAgents|\/Library\/LaunchDaemons|\.config\/autostart/ },
+  { name: 'Windows startup folder', pattern: /Start Menu\/Programs\/Startup/i },
+  { name: 'system configuration', pattern: /^\/etc\// }
+];
+
+const HOME_ENV_KEYS = ['HOME', 'USERPROFILE', 'APPDATA', 'LOCALAPPDATA'];
+
+const isFileSystemModule = (moduleName: string) =>
+  ['fs', 'fs/promises', 'fs-extra', 'graceful-fs', 'rimraf', 'os'].includes(moduleName);
+
+interface PathAnalysis {
+  path?: string;
+  isDynamic: boolean;
+  isAbsolute: boolean;
+  hasTraversal: boolean;
+  usesHomeDirectory: boolean;
+  sensitiveTarget?: string;
+}
+
+/**
+ * File System Access Scanner for detecting what code does to the disk
+ * Unlike the metadata rules in file-system.ts, this analyzes fs calls in the
+ * AST: writes, deletes, permission changes and renames, with path analysis for
+ * writes outside the project and modification of sensitive locations
+ */
+export class FileSystemAccessScanner {
+  public readonly name = 'file-system-access';
+  public readonly category = 'file_system';
+  public readonly subcategory = 'fs_operations';
+
+  private readonly supportedExtensions = PARSEABLE_FILE_EXTENSIONS;
+
+  /**
+   * Scan files for file system modification threats
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const threats: ThreatResult[] = [];
+
+    for (const file of files) {
+      if (!this.supportedExtensions.includes(file.extension)) {
+        continue;
+      }
+
+      try {
+        const parseResult = await parseFile(file);
+
+        if (!parseResult.success || !parseResult.ast) {
+          continue;
+        }
+
+        threats.push(...this.analyzeProgram(parseResult.ast, file));
+      } catch (error) {
+        console.error(`Error scanning file ${file.path}:`, error);
+      }
+    }
+
+    return threats;
+  }
+
+  /**
+   * Analyze a parsed program for fs modification calls
+   * @param ast - Parsed program
+   * @param file - Repository file being analyzed
+   * @returns ThreatResult[] - Array of file system threats
+   */
+  private analyzeProgram(ast: TSESTree.Program, file: RepositoryFile): ThreatResult[] {
+    const threats: ThreatResult[] = [];
+    const bindings = collectModuleBindings(ast, isFileSystemModule, analyzeScope(ast));
+
+    walkAST(ast, (node) => {
+      if (node.type !== 'CallExpression') return;
+
+      const reference = this.resolveFileSystemCall(node.callee, bindings);
+      if (!reference?.member) return;
+
+      const recursiveDeleteHelper = RECURSIVE_DELETE_FUNCTIONS[reference.module]?.includes(reference.member);
+      const operation = recursiveDeleteHelper ? 'delete' : FS_OPERATIONS[reference.member];
+      if (!operation || reference.module === 'os') return;
+
+      const isRecursive = recursiveDeleteHelper || (operation === 'delete' && this.hasRecursiveOption(node));
+      const pathAnalysis = this.analyzePath(node.arguments[0], bindings);
+      // rename/copy/link also write to their destination
+      const destinationAnalysis = ['rename', 'link'].includes(operation) || /^(copyFile|cp)/.test(reference.member)
+        ? this.analyzePath(node.arguments[1], bindings)
+        : undefined;
+
+      threats.push(this.createThreat(node, file, reference, operation, isRecursive, pathAnalysis, destinationAnalysis));
+    });
+
+    return threats;
+  }
+
+  /**
+   * Resolve a callee to an fs function, including fs.promises.* access
+   */
+  private resolveFileSystemCall(callee: TSESTree.Node, bindings: ModuleBindings): ModuleReference | undefined {
+    const expression = unwrapExpression(callee);
+
+    // fs.promises.writeFile(...)
+    if (expression.type === 'MemberExpression') {
+      const objectReference = resolveModuleReference(expression.object, bindings, isFileSystemModule);
+      if (objectReference?.member === 'promises') {
+        const propertyName = getStaticPropertyName(expression);
+        return propertyName ? { module: 'fs/promises', member: propertyName } : undefined;
+      }
+    }
+
+    const reference = resolveModuleReference(expression, bindings, isFileSystemModule);
+
+    // rimraf(path) called directly on the module
+    if (reference && !reference.member && reference.module === 'rimraf') {
+      return { module: 'rimraf', member: 'default' };
+    }
+
+    return reference;
+  }
+
+  /**
+   * Check for `{ recursive: true }` in the call options
+   */
+  private hasRecursiveOption(node: TSESTree.CallExpression): boolean {
+    return node.arguments.some(arg => arg.type === 'ObjectExpression' && arg.properties.some(property =>
+      property.type === 'Property' &&
+      (property.key.type === 'Identifier' ? property.key.name : getStaticStringValue(property.key)) === 'recursive' &&
+      !(property.value.type === 'Literal' && property.value.value === false)
+    ));
+  }
+
+  /**
+   * Analyze a path argument for absolute paths, traversal, home directory use and sensitive targets
+   * @param node - Path argument expression
+   * @param bindings - Known fs/os module bindings
+   * @returns PathAnalysis - What is statically known about the path
+   */
+  private analyzePath(node: TSESTree.Node | undefined, bindings: ModuleBindings): PathAnalysis {
+    if (!node) {
+      return { isDynamic: true, isAbsolute: false, hasTraversal: false, usesHomeDirectory: false };
+    }
+
+    const fragments: string[] = [];
+    let hasUnknownParts = false;
+    let usesHomeDirectory = false;
+
+    walkAST(node, (child, parent) => {
+      if (this.isHomeDirectoryExpression(child, bindings)) {
+        usesHomeDirectory = true;
+        return;
+      }
+      const value = child.type === 'TemplateElement' ? child.value.cooked : getStaticStringValue(child);
+      if (child.type === 'Literal' || child.type === 'TemplateElement') {
+        if (typeof value === 'string' && value.length > 0) fragments.push(value);
+      } else if (child.type === 'Identifier' && this.isUnknownPathPart(child, parent, bindings)) {
+        hasUnknownParts = true;
+      }
+    });
+
+    const normalizedFragments = fragments.map(fragment => fragment.replace(/\\/g, '/'));
+    const combinedPath = normalizedFragments
+      .join('/')
+      .replace(/\/{2,}/g, '/');
+    const isAbsolute = normalizedFragments.length > 0 &&
+      (/^\//.test(normalizedFragments[0]) || /^[A-Za-z]:\//.test(normalizedFragments[0])) &&
+      !usesHomeDirectory;
+    const hasTraversal = normalizedFragments.some(fragment => /(^|\/)\.\.(\/|$)/.test(fragment));
+    const sensitiveTarget = SENSITIVE_TARGETS.find(target => target.pattern.test(combinedPath));
+
+    return {
+      ...(combinedPath && { path: combinedPath }),
+      isDynamic: hasUnknownParts || fragments.length === 0,
+      isAbsolute,
+      hasTraversal,
+      usesHomeDirectory,
+      ...(sensitiveTarget && { sensitiveTarget: sensitiveTarget.name })
+    };
+  }
+
+  /**
+   * Check whether an identifier inside a path expression holds a value we cannot resolve
+   * Module objects, property names, callees and well-known project-relative bases are known
+   */
+  private isUnknownPathPart(node: TSESTree.Identifier, parent: TSESTree.Node | null, bindings: ModuleBindings): boolean {
+    if (parent?.type === 'MemberExpression' && parent.property === node && !parent.computed) return false;
+    if (parent?.type === 'CallExpression' && parent.callee === node) return false;
+    if (bindings.modules.has(node.name)) return false;
+
+    return !['path', '__dirname', '__filename', 'process'].includes(node.name);
+  }
+
+  /**
+   * Check for os.homedir() and process.env.HOME style expressions
+   */
+  private isHomeDirectoryExpression(node: TSESTree.Node, bindings: ModuleBindings): boolean {
+    if (node.type === 'CallExpression') {
+      const reference = resolveModuleReference(node.callee, bindings, isFileSystemModule);
+      return reference?.module === 'os' && reference.member === 'homedir';
+    }
+
+    return (
+      node.type === 'MemberExpression' &&
+      node.object.type === 'MemberExpression' &&
+      node.object.object.type === 'Identifier' &&
+      node.object.object.name === 'process' &&
+      getStaticPropertyName(node.object) === 'env' &&
+      HOME_ENV_KEYS.includes(getStaticPropertyName(node) ?? '')
+    );
+  }
+
+  private createThreat(
+    node: TSESTree.CallExpression,
+    file: RepositoryFile,
+    reference: ModuleReference,
+    operation: FileOperationType,
+    isRecursive: boolean,
+    source: PathAnalysis,
+    destination?: PathAnalysis
+  ): ThreatResult {
+    const target = destination ?? source;
+    const sensitiveTarget = target.sensitiveTarget ?? (operation === 'delete' ? source.sensitiveTarget : undefined);
+    const outsideProject = [source, destination].some(path =>
+      path !== undefined && (path.isAbsolute || path.hasTraversal || path.usesHomeDirectory)
+    );
+
+    let severity: ThreatResult['severity'] = operation === 'write' ? 'INFO' : 'WARNING';
+    if (outsideProject || isRecursive) severity = 'WARNING';
+    if (sensitiveTarget || (isRecursive && (outsideProject || source.isDynamic))) severity = 'CRITICAL';
+
+    const functionName = `${reference.module}.${reference.member}`;
+    const line = node.loc?.start.line;
+
+    let description = `File system ${operation} operation via ${functionName}`;
+    if (sensitiveTarget) {
+      description = `${functionName} modifies ${sensitiveTarget} - potential persistence or tampering`;
+    } else if (isRecursive) {
+      description = `Recursive delete via ${functionName} - potential destructive operation`;
+    } else if (outsideProject) {
+      description = `${functionName} targets a path outside the project directory`;
+    }
+
+    return {
+      category: this.category,
+      subcategory: isRecursive ? 'recursive_delete' : `file_${operation}`,
+      severity,
+      description,
+      file: file.path,
+      line,
+      code: extractCodeContext(file.content, line) || `${functionName}()`,
+      details: {
+        functionName,
+        operation,
+        isRecursive,
+        outsideProject,
+        ...(source.path !== undefined && { path: source.path }),
+        ...(destination?.path !== undefined && { destinationPath: destination.path }),
+        isDynamicPath: source.isDynamic,
+        isAbsolutePath: source.isAbsolute,
+        hasPathTraversal: source.hasTraversal || Boolean(destination?.hasTraversal),
+        usesHomeDirectory: source.usesHomeDirectory || Boolean(destination?.usesHomeDirectory),
+        ...(sensitiveTarget && { sensitiveTarget })
+      }
+    };
+  }
+}
@@ -22,6 +22,8 @@ export interface FileSystemThreat {
 export interface FileSystemScanResult {
   threats: FileSystemThreat[];
   files: RepositoryFileMetadata[];
+  // Files identified as binaries by their magic bytes, whatever their extension
+  binaries: RepositoryFileMetadata[];
   statistics: ReturnType<typeof getFileStatistics>;
   processingTime: number;
   memoryUsage: {
@@ -101,6 +103,7 @@ export async function scanFileSystem(
   const result: FileSystemScanResult = {
     threats: [],
     files: [],
+    binaries: [],
     statistics: { totalFiles: 0, totalSize: 0, byCategory: {}, byLanguage: {}, byPriority: { high: 0, medium: 0, low: 0 }, largeFiles: 0, dependencyFiles: 0 },
     processingTime: 0,
     memoryUsage: { start: 0, peak: 0, end: 0 },
@@ -118,7 +121,8 @@ export async function scanFileSystem(
       includeHidden: options.includeHidden || false,
       fileExtensions: options.fileExtensions || [],
       maxFileSize: options.maxFileSize,
-      followSymlinks: options.followSymlinks || false
+      followSymlinks: options.followSymlinks || false,
+      detectBinaries: true
     });
 
     // Add traversal errors
@@ -145,6 +149,9 @@ export async function scanFileSystem(
     const threatRules = options.threatDetectionRules || DEFAULT_THREAT_RULES;
     await analyzeFilesForThreats(filteredFiles, threatRules, result, memoryMonitor);
 
+    // Binaries are reported by NativeBinaryScanner once they reach the scanner registry
+    result.binaries = (traversalResult.binaries || []).filter(file => file.relativePath.split('/')[0] !== '.git');
+
     // Checkpoint memory after threat analysis
     memoryMonitor.checkpoint('after-threat-analysis');
 
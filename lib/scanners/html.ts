@@ -0,0 +1,163 @@
+import type { ThreatResult, RepositoryFile } from '../types';
+import { CodeExecutionScanner } from './code-execution';
+import {
+  extractExternalScripts,
+  extractInlineHandlers,
+  isHtmlFile,
+  maskToInlineHandlers,
+  type ExternalScript,
+  type InlineHandler
+} from '../utils/script-blocks';
+import { extractCodeContext } from '../utils/code-context';
+
+// Public CDNs that serve versioned open-source packages; scripts from any other host are "unknown"
+const KNOWN_SCRIPT_CDNS = [
+  'cdn.jsdelivr.net',
+  'unpkg.com',
+  'cdnjs.cloudflare.com',
+  'code.jquery.com',
+  'ajax.googleapis.com',
+  'stackpath.bootstrapcdn.com',
+  'maxcdn.bootstrapcdn.com',
+  'cdn.skypack.dev',
+  'esm.sh',
+  'ga.jspm.io'
+];
+
+// Hash algorithms browsers accept in an integrity attribute; other tokens are ignored
+const SRI_TOKEN_PATTERN = /^sha(?:256|384|512)-[A-Za-z0-9+/_-]+={0,2}(?:\?\S*)?$/;
+
+const EXTERNAL_URL_PATTERN = /^(?:https?:)?\/\//i;
+
+/**
+ * HTML Scanner for analyzing code embedded in markup
+ * Runs event handler attributes (`onclick="..."`) and `javascript:` URLs of
+ * .html files through the code execution scanner, mapping findings back to the
+ * markup, and reports external scripts loaded without Subresource Integrity.
+ * Inline `<script>` blocks are parsed in place by the AST scanners
+ * (see `extractScriptBlocks`), so they are not analyzed again here
+ */
+export class HtmlScanner {
+  public readonly name = 'html';
+  public readonly category = 'html';
+  public readonly subcategory = 'inline_code';
+
+  private readonly codeExecutionScanner = new CodeExecutionScanner();
+
+  /**
+   * Scan HTML files for inline code and unverified external scripts
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const threats: ThreatResult[] = [];
+
+    for (const file of files.filter(file => isHtmlFile(file.path))) {
+      try {
+        threats.push(...await this.scanInlineHandlers(file));
+        threats.push(...this.checkExternalScripts(file));
+      } catch (error) {
+        console.error(`Error scanning HTML file ${file.path}:`, error);
+      }
+    }
+
+    return threats;
+  }
+
+  /**
+   * Analyze event handlers and `javascript:` URLs with the code execution scanner
+   * The handlers are masked into a script with the markup's line layout, so
+   * findings keep the lines of the original file
+   * @param file - HTML file
+   * @returns Promise<ThreatResult[]> - Code execution findings located in the markup
+   */
+  private async scanInlineHandlers(file: RepositoryFile): Promise<ThreatResult[]> {
+    const handlers = extractInlineHandlers(file.content);
+    if (handlers.length === 0) return [];
+
+    const script: RepositoryFile = {
+      ...file,
+      path: `${file.path}#inline.js`,
+      content: maskToInlineHandlers(file.content, handlers),
+      extension: '.js'
+    };
+    const threats = await this.codeExecutionScanner.scan([script]);
+
+    return threats.map(threat => {
+      const handler = this.findHandler(handlers, threat.line);
+      return {
+        ...threat,
+        description: handler ? `${threat.description} (${this.describeHandler(handler)})` : threat.description,
+        file: file.path,
+        code: extractCodeContext(file.content, threat.line) || threat.code,
+        details: {
+          ...threat.details,
+          ...(handler && {
+            inlineSource: handler.kind,
+            tag: handler.tag,
+            attribute: handler.attribute
+          })
+        }
+      };
+    });
+  }
+
+  /**
+   * Report external scripts without a usable integrity hash
+   * @param file - HTML file
+   * @returns ThreatResult[] - One finding per unverified external script
+   */
+  private checkExternalScripts(file: RepositoryFile): ThreatResult[] {
+    const threats: ThreatResult[] = [];
+
+    for (const script of extractExternalScripts(file.content)) {
+      if (!EXTERNAL_URL_PATTERN.test(script.src) || this.hasIntegrity(script)) continue;
+
+      const host = this.getHost(script.src);
+      const knownCdn = host !== undefined && KNOWN_SCRIPT_CDNS.some(cdn => host === cdn || host.endsWith(`.${cdn}`));
+      const insecure = /^http:/i.test(script.src);
+
+      threats.push({
+        category: this.category,
+        subcategory: 'missing_sri',
+        severity: insecure ? 'CRITICAL' : 'WARNING',
+        description: `External script from ${knownCdn ? '' : 'unknown host '}${host ?? script.src} loaded without Subresource Integrity${insecure ? ' over insecure http' : ''} - the host can change the code it serves`,
+        file: file.path,
+        line: script.line,
+        code: extractCodeContext(file.content, script.line),
+        details: {
+          src: script.src,
+          host,
+          knownCdn,
+          insecure,
+          ...(script.attributes.integrity !== undefined && { invalidIntegrity: script.attributes.integrity })
+        }
+      });
+    }
+
+    return threats;
+  }
+
+  private hasIntegrity(script: ExternalScript): boolean {
+    return (script.attributes.integrity ?? '').split(/\s+/).some(token => SRI_TOKEN_PATTERN.test(token));
+  }
+
+  private getHost(src: string): string | undefined {
+    try {
+      return new URL(src, 'https://localhost').hostname.toLowerCase();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private findHandler(handlers: InlineHandler[], line: number | undefined): InlineHandler | undefined {
+    if (line === undefined) return undefined;
+    return handlers.find(handler => line >= handler.line && line <= handler.line + handler.code.split('\n').length - 1);
+  }
+
+  private describeHandler(handler: InlineHandler): string {
+    return handler.kind === 'event_handler'
+      ? `in ${handler.attribute} handler of <${handler.tag}>`
+      : `in javascript: URL of <${handler.tag} ${handler.attribute}>`;
+  }
+}
@@ -0,0 +1,327 @@
+import path from 'path';
+import type { ThreatResult, RepositoryFile } from '../types';
+
+// Scripts npm runs automatically when the package (or a git dependency on it) is installed
+const INSTALL_HOOKS = ['preinstall', 'install', 'postinstall', 'prepare', 'preprepare', 'postprepare'];
+
+// Shell patterns that are dangerous in any install hook
+const DANGEROUS_COMMAND_PATTERNS: { name: string; subcategory: string; pattern: RegExp }[] = [
+  {
+    name: 'Remote script piped to a shell',
+    subcategory: 'remote_script_execution',
+    pattern: /\b(curl|wget|fetch)\b[^|;&]*\|\s*(sudo\s+)?(ba|z|da)?sh\b|\b(ba)?sh\s+<\(\s*(curl|wget)\b/i
+  },
+  {
+    name: 'Base64 decoding',
+    subcategory: 'encoded_payload',
+    pattern: /\bbase64\s+(-d|--decode|-D)\b|\batob\s*\(|Buffer\.from\([^)]*['"]base64['"]|\bcertutil\b.*-decode/i
+  },
+  {
+    name: 'Inline Node.js code',
+    subcategory: 'inline_code_execution',
+    pattern: /\bnode(js)?\s+(-e|--eval|-p|--print)\b/
+  },
+  {
+    name: 'Encoded PowerShell command',
+    subcategory: 'encoded_payload',
+    pattern: /\b(powershell|pwsh)(\.exe)?\b.*\s-(e|enc|encodedcommand)\s/i
+  },
+  {
+    name: 'Shell eval',
+    subcategory: 'inline_code_execution',
+    pattern: /(^|[;&|]\s*)eval\s/
+  }
+];
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s'"|;&)]+/i;
+
+// Interpreters whose first non-flag argument is a file that gets executed
+const SCRIPT_RUNNERS = ['node', 'nodejs', 'ts-node', 'tsx', 'bun', 'sh', 'bash', 'zsh'];
+const SCRIPT_FILE_EXTENSIONS = ['', '.js', '.cjs', '.mjs', '.ts', '.sh', '/index.js'];
+
+// Package manager subcommands that are not references to npm scripts
+const PACKAGE_MANAGER_COMMANDS = ['install', 'i', 'ci', 'add', 'remove', 'exec', 'dlx', 'run'];
+
+const MAX_SCRIPT_EXPANSION_DEPTH = 5;
+
+interface PackageManifest {
+  name?: string;
+  scripts?: Record<string, unknown>;
+  workspaces?: unknown;
+}
+
+export interface LifecycleHookScript {
+  hook: string;
+  command: string;
+  // npm scripts reached through `npm run x` from the hook, with their commands
+  expandedCommands: string[];
+  invokedFiles: string[];
+}
+
+/**
+ * Lifecycle Script Scanner for analyzing package.json install hooks
+ * Parses every package.json in the repository (including workspace packages),
+ * reports preinstall/install/postinstall/prepare scripts, flags dangerous shell
+ * commands, and escalates other scanners' findings in files those hooks run
+ */
+export class LifecycleScriptScanner {
+  public readonly name = 'lifecycle-scripts';
+  public readonly category = 'lifecycle_scripts';
+  public readonly subcategory = 'install_hooks';
+
+  /**
+   * Scan package.json manifests for lifecycle script threats
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const threats: ThreatResult[] = [];
+
+    for (const file of this.getManifests(files)) {
+      const manifest = this.parseManifest(file);
+      if (!manifest) {
+        threats.push({
+          category: this.category,
+          subcategory: 'manifest_parse_error',
+          severity: 'INFO',
+          description: 'package.json could not be parsed - lifecycle scripts were not analyzed',
+          file: file.path
+        });
+        continue;
+      }
+
+      for (const hookScript of this.getInstallHookScripts(manifest, file, files)) {
+        threats.push(...this.analyzeHookScript(hookScript, manifest, file));
+      }
+    }
+
+    return threats;
+  }
+
+  /**
+   * Escalate findings located in files that install hooks execute
+   * @param threats - Combined findings of all scanners
+   * @param files - Array of repository files that were scanned
+   * @returns Promise<ThreatResult[]> - Findings with escalated severities
+   */
+  async refineThreats(threats: ThreatResult[], files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const hookFiles = this.getInstallHookFiles(files);
+    if (hookFiles.size === 0) return threats;
+
+    return threats.map(threat => {
+      const hooks = hookFiles.get(threat.file);
+      if (!hooks || threat.category === this.category) return threat;
+
+      return {
+        ...threat,
+        severity: threat.severity === 'INFO' ? 'WARNING' : 'CRITICAL',
+        description: `${threat.description} (runs during install via ${hooks.join(', ')})`,
+        details: {
+          ...threat.details,
+          reachableFromInstallHook: true,
+          installHooks: hooks,
+          originalSeverity: threat.severity
+        }
+      };
+    });
+  }
+
+  /**
+   * Map files executed by install hooks to the hooks that run them
+   * @param files - Array of repository files
+   * @returns Map<string, string[]> - File path to hook names
+   */
+  getInstallHookFiles(files: RepositoryFile[]): Map<string, string[]> {
+    const hookFiles = new Map<string, string[]>();
+
+    for (const file of this.getManifests(files)) {
+      const manifest = this.parseManifest(file);
+      if (!manifest) continue;
+
+      for (const hookScript of this.getInstallHookScripts(manifest, file, files)) {
+        for (const invokedFile of hookScript.invokedFiles) {
+          hookFiles.set(invokedFile, [...(hookFiles.get(invokedFile) || []), hookScript.hook]);
+        }
+      }
+    }
+
+    return hookFiles;
+  }
+
+  private getManifests(files: RepositoryFile[]): RepositoryFile[] {
+    return files.filter(file => path.basename(file.relativePath || file.path) === 'package.json');
+  }
+
+  private parseManifest(file: RepositoryFile): PackageManifest | undefined {
+    try {
+      const manifest = JSON.parse(file.content);
+      return manifest && typeof manifest === 'object' && !Array.isArray(manifest) ? manifest : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Extract install hook scripts, expanding `npm run` references and resolving invoked files
+   */
+  private getInstallHookScripts(
+    manifest: PackageManifest,
+    manifestFile: RepositoryFile,
+    files: RepositoryFile[]
+  ): LifecycleHookScript[] {
+    const scripts = this.getScripts(manifest);
+
+    return INSTALL_HOOKS
+      .filter(hook => scripts[hook] !== undefined)
+      .map(hook => {
+        const expandedCommands = this.expandScriptReferences(scripts[hook], scripts, new Set([hook]), 0);
+        const invokedFiles = [scripts[hook], ...expandedCommands]
+          .flatMap(command => this.resolveInvokedFiles(command, manifestFile, files));
+
+        return {
+          hook,
+          command: scripts[hook],
+          expandedCommands,
+          invokedFiles: Array.from(new Set(invokedFiles))
+        };
+      });
+  }
+
+  private getScripts(manifest: PackageManifest): Record<string, string> {
+    const scripts: Record<string, string> = {};
+
+    if (manifest.scripts && typeof manifest.scripts === 'object') {
+      for (const [name, command] of Object.entries(manifest.scripts)) {
+        if (typeof command === 'string') scripts[name] = command;
+      }
+    }
+
+    return scripts;
+  }
+
+  /**
+   * Follow `npm run x` / `yarn x` / `pnpm run x` references to other scripts in the same manifest
+   */
+  private expandScriptReferences(
+    command: string,
+    scripts: Record<string, string>,
+    visited: Set<string>,
+    depth: number
+  ): string[] {
+    if (depth >= MAX_SCRIPT_EXPANSION_DEPTH) return [];
+
+    const expanded: string[] = [];
+    const referencePattern = /\b(?:npm\s+run(?:-script)?|pnpm(?:\s+run)?|yarn(?:\s+run)?|bun\s+run)\s+([\w:.-]+)/g;
+
+    for (const match of command.matchAll(referencePattern)) {
+      const scriptName = match[1];
+      if (PACKAGE_MANAGER_COMMANDS.includes(scriptName)) continue;
+      if (visited.has(scriptName) || scripts[scriptName] === undefined) continue;
+
+      visited.add(scriptName);
+      expanded.push(scripts[scriptName]);
+      expanded.push(...this.expandScriptReferences(scripts[scriptName], scripts, visited, depth + 1));
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Resolve files run by `node file.js`, `sh script.sh` and similar commands
+   * @returns string[] - Paths of repository files the command executes
+   */
+  private resolveInvokedFiles(command: string, manifestFile: RepositoryFile, files: RepositoryFile[]): string[] {
+    const manifestDirectory = path.posix.dirname((manifestFile.relativePath || '').replace(/\\/g, '/'));
+    const resolved: string[] = [];
+
+    for (const segment of command.split(/&&|\|\||[;|]/)) {
+      const tokens = segment.trim().split(/\s+/).map(token => token.replace(/^['"]|['"]$/g, ''));
+      const runnerIndex = tokens.findIndex(token => SCRIPT_RUNNERS.includes(path.posix.basename(token)));
+      if (runnerIndex === -1) continue;
+
+      const target = tokens.slice(runnerIndex + 1).find(token => !token.startsWith('-'));
+      if (!target || /^https?:/.test(target)) continue;
+
+      const targetPath = path.posix.normalize(path.posix.join(manifestDirectory, target));
+      for (const extension of SCRIPT_FILE_EXTENSIONS) {
+        const candidate = files.find(file => file.relativePath === `${targetPath}${extension}`);
+        if (candidate) {
+          resolved.push(candidate.path);
+          break;
+        }
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Report a hook script and any dangerous commands it (or scripts it runs) contains
+   */
+  private analyzeHookScript(hookScript: LifecycleHookScript, manifest: PackageManifest, file: RepositoryFile): ThreatResult[] {
+    const threats: ThreatResult[] = [];
+    const line = this.findScriptLine(file.content, hookScript.hook);
+    const baseDetails = {
+      hook: hookScript.hook,
+      command: hookScript.command,
+      packageName: manifest.name ?? 'unknown',
+      isWorkspaceRoot: manifest.workspaces !== undefined,
+      ...(hookScript.expandedCommands.length > 0 && { expandedCommands: hookScript.expandedCommands }),
+      ...(hookScript.invokedFiles.length > 0 && { invokedFiles: hookScript.invokedFiles })
+    };
+
+    threats.push({
+      category: this.category,
+      subcategory: 'install_hook',
+      severity: 'WARNING',
+      description: `${hookScript.hook} script runs automatically on install: ${hookScript.command}`,
+      file: file.path,
+      line,
+      code: `"${hookScript.hook}": ${JSON.stringify(hookScript.command)}`,
+      details: baseDetails
+    });
+
+    const commands = [hookScript.command, ...hookScript.expandedCommands];
+    for (const dangerous of DANGEROUS_COMMAND_PATTERNS) {
+      const matchingCommand = commands.find(command => dangerous.pattern.test(command));
+      if (matchingCommand) {
+        threats.push({
+          category: this.category,
+          subcategory: dangerous.subcategory,
+          severity: 'CRITICAL',
+          description: `${dangerous.name} in ${hookScript.hook} script`,
+          file: file.path,
+          line,
+          code: matchingCommand,
+          details: { ...baseDetails, pattern: dangerous.name, matchedCommand: matchingCommand }
+        });
+      }
+    }
+
+    const urlCommand = commands.find(command => URL_PATTERN.test(command));
+    if (urlCommand && !threats.some(threat => threat.subcategory === 'remote_script_execution')) {
+      threats.push({
+        category: this.category,
+        subcategory: 'install_network_access',
+        severity: 'WARNING',
+        description: `${hookScript.hook} script references a remote URL`,
+        file: file.path,
+        line,
+        code: urlCommand,
+        details: { ...baseDetails, url: urlCommand.match(URL_PATTERN)?.[0] }
+      });
+    }
+
+    return threats;
+  }
+
+  /**
+   * Find the line of a script entry in the raw manifest text
+   */
+  private findScriptLine(content: string, scriptName: string): number | undefined {
+    const lines = content.split('\n');
+    const scriptsStart = Math.max(0, lines.findIndex(line => line.includes('"scripts"')));
+    const index = lines.findIndex((line, i) => i >= scriptsStart && line.includes(`"${scriptName}"`));
+    return index === -1 ? undefined : index + 1;
+  }
+}
@@ -0,0 +1,350 @@
+import path from 'path';
+import semver from 'semver';
+import type { ThreatResult, RepositoryFile } from '../types';
+import {
+  getLockfileType,
+  parseLockfile,
+  type LockfileDependency,
+  type ParsedLockfile,
+  type PackageManifestDependencies
+} from '../utils/lockfile-parser';
+
+export type DependencySourceType = 'registry' | 'git' | 'tarball' | 'local';
+
+export interface DependencySource {
+  type: DependencySourceType;
+  host?: string;
+  insecure: boolean;
+}
+
+export interface LockfileIntegrityScannerOptions {
+  // Additional registry hosts (private registries, mirrors) treated as trusted sources;
+  // only the server sets these, registry configuration inside the scanned repository is never trusted
+  registryHosts?: string[];
+}
+
+const DEFAULT_REGISTRY_HOSTS = ['registry.npmjs.org', 'registry.yarnpkg.com'];
+
+const GIT_HOSTS = ['github.com', 'codeload.github.com', 'gitlab.com', 'bitbucket.org'];
+
+// Integrity algorithms that are no longer collision resistant
+const WEAK_INTEGRITY_ALGORITHMS = ['sha1', 'md5'];
+
+// Specifiers that point at local or workspace code and are never recorded as registry packages
+const LOCAL_SPECIFIER_PATTERN = /^(workspace:|file:|link:|portal:|\.{0,2}\/)/;
+
+// Registry configuration files that may point installs at another registry
+const REGISTRY_CONFIG_FILES = ['.npmrc', '.yarnrc', '.yarnrc.yml'];
+const REGISTRY_CONFIG_PATTERN = /(?:registry|npmRegistryServer)["']?\s*[=:\s]\s*["']?(https?:\/\/[^\s"']+)/;
+
+/**
+ * Lockfile Integrity Scanner for detecting tampered lockfiles
+ * Reports packages resolved from non-registry hosts or git, insecure http
+ * sources, missing or weak (sha1) integrity hashes, integrity hashes that
+ * disagree between entries for the same package version, and lockfiles that
+ * have drifted from their package.json. Registry configuration shipped in the
+ * repository is reported rather than trusted, since the repository controls it
+ */
+export class LockfileIntegrityScanner {
+  public readonly name = 'lockfile-integrity';
+  public readonly category = 'dependencies';
+  public readonly subcategory = 'lockfile_integrity';
+
+  private readonly registryHosts: string[];
+
+  constructor(options: LockfileIntegrityScannerOptions = {}) {
+    this.registryHosts = [...DEFAULT_REGISTRY_HOSTS, ...(options.registryHosts || []).map(host => host.toLowerCase())];
+  }
+
+  /**
+   * Scan lockfiles for integrity and source tampering
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const threats: ThreatResult[] = [];
+    // name@version -> first integrity seen, used to catch conflicting hashes
+    const knownIntegrity = new Map<string, { integrity: string; file: string }>();
+
+    for (const file of files.filter(file => getLockfileType(file.path))) {
+      const manifestFile = files.find(other => other.path === path.join(path.dirname(file.path), 'package.json'));
+      const manifest = manifestFile ? this.parseManifest(manifestFile.content) : undefined;
+
+      let lockfile: ParsedLockfile;
+      try {
+        lockfile = parseLockfile(file.path, file.content, manifest);
+      } catch {
+        // Unparsable lockfiles are reported by the dependency scanner
+        continue;
+      }
+
+      const lines = file.content.split('\n');
+      // Bundled packages arrive inside their parent's tarball and are verified with it
+      const downloaded = lockfile.dependencies.filter(dependency => !dependency.bundled);
+      const hasAnyIntegrity = downloaded.some(dependency => dependency.integrity);
+
+      if (!hasAnyIntegrity && downloaded.length > 0) {
+        threats.push({
+          category: this.category,
+          subcategory: 'missing_integrity',
+          severity: 'WARNING',
+          description: 'Lockfile records no integrity hashes - installed packages cannot be verified',
+          file: file.path,
+          details: { lockfile: path.basename(file.path), packageCount: downloaded.length }
+        });
+      }
+
+      for (const dependency of downloaded) {
+        const source = this.classifySource(dependency);
+        const createThreat = (subcategory: string, severity: ThreatResult['severity'], description: string, details: Record<string, unknown> = {}) =>
+          this.createThreat(file, lines, dependency, subcategory, severity, description, { sourceType: source.type, ...details });
+
+        if (source.insecure) {
+          threats.push(createThreat('insecure_source', 'CRITICAL',
+            `${dependency.name}@${dependency.version} is downloaded over unencrypted http`, { host: source.host }));
+        }
+
+        if (source.type === 'git' || source.type === 'tarball') {
+          threats.push(createThreat('non_registry_source', 'WARNING',
+            `${dependency.name}@${dependency.version} is resolved from ${source.type === 'git' ? 'a git repository' : `non-registry host ${source.host}`} instead of the npm registry`,
+            { host: source.host }));
+        }
+
+        if (source.type === 'local') continue;
+
+        if (!dependency.integrity) {
+          // Git dependencies are pinned by commit rather than by hash
+          if (hasAnyIntegrity && source.type !== 'git') {
+            threats.push(createThreat('missing_integrity', 'WARNING',
+              `${dependency.name}@${dependency.version} has no integrity hash`));
+          }
+          continue;
+        }
+
+        const hashes = parseIntegrity(dependency.integrity);
+        const algorithms = Object.keys(hashes);
+        if (algorithms.length > 0 && algorithms.every(algorithm => WEAK_INTEGRITY_ALGORITHMS.includes(algorithm))) {
+          threats.push(createThreat('weak_integrity', 'WARNING',
+            `${dependency.name}@${dependency.version} is only verified with ${algorithms.join(', ')}`, { algorithms }));
+        }
+
+        const key = `${dependency.name}@${dependency.version}`;
+        const known = knownIntegrity.get(key);
+        if (!known) {
+          if (algorithms.length > 0) knownIntegrity.set(key, { integrity: dependency.integrity, file: file.path });
+        } else if (hasConflictingHash(parseIntegrity(known.integrity), hashes)) {
+          threats.push(createThreat('integrity_mismatch', 'CRITICAL',
+            `${key} has an integrity hash that differs from another entry for the same version`,
+            { expectedIntegrity: known.integrity, expectedIn: known.file }));
+        }
+      }
+
+      if (manifest && manifestFile) {
+        threats.push(...this.detectDrift(lockfile, manifest, file, manifestFile));
+      }
+    }
+
+    for (const file of files.filter(file => REGISTRY_CONFIG_FILES.includes(path.basename(file.path)))) {
+      threats.push(...this.detectRegistryConfig(file));
+    }
+
+    return threats;
+  }
+
+  /**
+   * Classify where a locked package is downloaded from
+   * @param dependency - Locked dependency
+   * @param registryHosts - Hosts treated as package registries
+   * @returns DependencySource - Source type, host and whether it uses plain http
+   */
+  classifySource(dependency: LockfileDependency, registryHosts: string[] = this.registryHosts): DependencySource {
+    // pnpm omits the tarball for registry packages
+    if (!dependency.resolved) return { type: 'registry', insecure: false };
+
+    // Yarn Berry records resolutions as `name@protocol:reference`
+    let resolved = dependency.resolved;
+    if (resolved.startsWith(`${dependency.name}@`)) {
+      resolved = resolved.slice(dependency.name.length + 1);
+    }
+
+    if (resolved.startsWith('npm:')) return { type: 'registry', insecure: false };
+    if (/^(file|link|workspace|portal|patch|exec):/.test(resolved) || LOCAL_SPECIFIER_PATTERN.test(resolved)) {
+      return { type: 'local', insecure: false };
+    }
+    if (/^(git\+|git:|github:|gitlab:|bitbucket:|ssh:)/.test(resolved)) {
+      return { type: 'git', host: this.getHost(resolved.replace(/^git\+/, '')), insecure: false };
+    }
+
+    const host = this.getHost(resolved);
+    const insecure = resolved.startsWith('http:');
+
+    if (host && registryHosts.includes(host)) return { type: 'registry', host, insecure };
+    if ((host && GIT_HOSTS.includes(host)) || /\.git(#|$)/.test(resolved)) return { type: 'git', host, insecure };
+
+    return { type: 'tarball', host, insecure };
+  }
+
+  /**
+   * Compare the lockfile's direct dependencies with the ones package.json declares
+   */
+  private detectDrift(
+    lockfile: ParsedLockfile,
+    manifest: PackageManifestDependencies,
+    lockfileFile: RepositoryFile,
+    manifestFile: RepositoryFile
+  ): ThreatResult[] {
+    const threats: ThreatResult[] = [];
+    const lockfileLines = lockfileFile.content.split('\n');
+    const declared = { ...manifest.dependencies, ...manifest.devDependencies, ...manifest.optionalDependencies };
+
+    for (const [name, range] of Object.entries(declared)) {
+      if (typeof range !== 'string' || LOCAL_SPECIFIER_PATTERN.test(range)) continue;
+
+      const locked = lockfile.dependencies.find(dependency => dependency.direct && dependency.name === name);
+      const recorded = lockfile.rootDependencies[name];
+      const driftDetails = { declaredRange: range, lockedVersion: locked?.version, lockedSpecifier: recorded };
+
+      if (!locked && recorded === undefined) {
+        const line = this.findLine(manifestFile.content, `"${name}"`);
+        threats.push({
+          category: this.category,
+          subcategory: 'lockfile_drift',
+          severity: 'WARNING',
+          description: `${name}@${range} is declared in package.json but missing from ${path.basename(lockfileFile.path)}`,
+          file: manifestFile.path,
+          line,
+          code: line ? manifestFile.content.split('\n')[line - 1].trim() : undefined,
+          details: { package: name, lockfile: path.basename(lockfileFile.path), ...driftDetails }
+        });
+        continue;
+      }
+
+      // Some lockfiles record the resolved version where others record the specifier
+      const specifierChanged = recorded !== undefined && recorded !== range && recorded !== locked?.version;
+      const unsatisfied = locked !== undefined && semver.valid(locked.version) !== null &&
+        semver.validRange(range) !== null && !semver.satisfies(locked.version, range, { includePrerelease: true });
+
+      if (specifierChanged || unsatisfied) {
+        const dependency = locked ?? { name, version: recorded, path: [name], direct: true };
+        threats.push(this.createThreat(lockfileFile, lockfileLines, dependency, 'lockfile_drift', 'WARNING',
+          unsatisfied
+            ? `Locked ${name}@${locked?.version} does not satisfy ${range} declared in package.json`
+            : `Lockfile records ${name}@${recorded} but package.json declares ${range}`,
+          driftDetails));
+      }
+    }
+
+    const peerDependencies = (manifest.peerDependencies || {}) as Record<string, unknown>;
+    for (const [name, recorded] of Object.entries(lockfile.rootDependencies)) {
+      if (name in declared || name in peerDependencies) continue;
+
+      const locked = lockfile.dependencies.find(dependency => dependency.direct && dependency.name === name);
+      const dependency = locked ?? { name, version: recorded, path: [name], direct: true };
+      threats.push(this.createThreat(lockfileFile, lockfileLines, dependency, 'lockfile_drift', 'WARNING',
+        `Lockfile lists direct dependency ${name} that package.json does not declare`,
+        { lockedVersion: locked?.version, lockedSpecifier: recorded }));
+    }
+
+    return threats;
+  }
+
+  private createThreat(
+    file: RepositoryFile,
+    lines: string[],
+    dependency: LockfileDependency,
+    subcategory: string,
+    severity: ThreatResult['severity'],
+    description: string,
+    details: Record<string, unknown>
+  ): ThreatResult {
+    return {
+      category: this.category,
+      subcategory,
+      severity,
+      description,
+      file: file.path,
+      line: dependency.line,
+      code: dependency.line ? lines[dependency.line - 1]?.trim() : undefined,
+      details: {
+        package: dependency.name,
+        version: dependency.version,
+        path: dependency.path.join(' > '),
+        lockfile: path.basename(file.path),
+        ...(dependency.resolved !== undefined && { resolved: dependency.resolved }),
+        ...(dependency.integrity !== undefined && { integrity: dependency.integrity }),
+        ...details
+      }
+    };
+  }
+
+  /**
+   * Report registry configuration that sends installs to a host the server does not trust
+   * @param file - .npmrc, .yarnrc or .yarnrc.yml file from the repository
+   * @returns ThreatResult[] - One finding per untrusted or unencrypted registry setting
+   */
+  private detectRegistryConfig(file: RepositoryFile): ThreatResult[] {
+    const threats: ThreatResult[] = [];
+
+    file.content.split('\n').forEach((line, index) => {
+      const registry = line.trim().startsWith('#') ? undefined : line.match(REGISTRY_CONFIG_PATTERN)?.[1];
+      if (!registry) return;
+
+      const host = this.getHost(registry);
+      const insecure = registry.startsWith('http:');
+      if (host && this.registryHosts.includes(host) && !insecure) return;
+
+      threats.push({
+        category: this.category,
+        subcategory: 'custom_registry',
+        severity: insecure ? 'CRITICAL' : 'WARNING',
+        description: `${path.basename(file.path)} points package installs at ${insecure ? 'unencrypted ' : ''}registry ${host ?? registry}`,
+        file: file.path,
+        line: index + 1,
+        code: line.trim(),
+        details: { configFile: path.basename(file.path), registry, host }
+      });
+    });
+
+    return threats;
+  }
+
+  private getHost(url: string): string | undefined {
+    try {
+      return new URL(url).hostname.toLowerCase();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private parseManifest(content: string): PackageManifestDependencies | undefined {
+    try {
+      const manifest = JSON.parse(content);
+      return manifest && typeof manifest === 'object' && !Array.isArray(manifest) ? manifest : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private findLine(content: string, text: string): number | undefined {
+    const index = content.split('\n').findIndex(line => line.includes(text));
+    return index === -1 ? undefined : index + 1;
+  }
+}
+
+/**
+ * Parse a Subresource Integrity string ("sha512-... sha1-...") into algorithm -> digest
+ */
+function parseIntegrity(integrity: string): Record<string, string> {
+  const hashes: Record<string, string> = {};
+
+  for (const token of integrity.trim().split(/\s+/)) {
+    const match = token.match(/^(sha\d+|md5)-(.+)$/i);
+    if (match) hashes[match[1].toLowerCase()] = match[2];
+  }
+
+  return hashes;
+}
+
+function hasConflictingHash(a: Record<string, string>, b: Record<string, string>): boolean {
+  return Object.keys(a).some(algorithm => b[algorithm] !== undefined && a[algorithm] !== b[algorithm]);
+}
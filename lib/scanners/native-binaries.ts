@@ -0,0 +1,309 @@
+import path from 'path';
+import type { TSESTree } from '@typescript-eslint/types';
+import { parseFile, walkAST, isParseableFile } from '../utils/ast-parser';
+import { analyzeScope, isGlobalSymbol, type ScopeAnalysis } from '../utils/scope-analysis';
+import { isExtensionMismatch, isNativeExecutable } from '../utils/binary-detection';
+import { normalizeRelativePath } from '../utils/module-resolution';
+import { extractCodeContext } from '../utils/code-context';
+import { isTextFile } from '../utils/file-utils';
+import type { ThreatResult, RepositoryFile } from '../types';
+
+// Packages that locate and load a compiled addon on behalf of the caller
+const ADDON_LOADER_PACKAGES = ['bindings', 'node-gyp-build', 'node-gyp-build-optional-packages', 'prebuild-install'];
+
+// Commands in build steps that fetch or evaluate code rather than compile it
+const DANGEROUS_BUILD_COMMAND_PATTERN = /\b(?:curl|wget|Invoke-WebRequest|iwr|certutil|bitsadmin)\b|\b(?:node|python3?|perl|ruby)\s+(?:-e|-c|--eval)\b|\|\s*(?:ba|z)?sh\b|\bbase64\s+(?:-d|--decode)\b/i;
+
+// `<!(cmd)` and `<!@(cmd)` run cmd when node-gyp configures the project
+const GYP_COMMAND_EXPANSION_PATTERN = /<!@?\(/g;
+const GYP_ACTION_PATTERN = /['"](action|postbuild_action)['"]\s*:\s*\[([^\]]*)\]/g;
+
+interface BuildStep {
+  kind: 'command_expansion' | 'action';
+  command: string;
+  line: number;
+}
+
+/**
+ * Native Binary Scanner for compiled code shipped with or built by a repository
+ * Reports ELF/PE/Mach-O files identified by their magic bytes during traversal
+ * (whatever their extension), binaries whose extension lies about their format,
+ * commands run by binding.gyp builds and `.node` addons loaded from code.
+ * Binaries are never loaded or executed, only their headers are read
+ */
+export class NativeBinaryScanner {
+  public readonly name = 'native-binaries';
+  public readonly category = 'native_code';
+  public readonly subcategory = 'binary_inspection';
+
+  /**
+   * Scan binaries, gyp build files and addon loading code
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const threats: ThreatResult[] = [];
+
+    for (const file of files) {
+      if (file.binary) {
+        threats.push(...this.analyzeBinary(file));
+      } else if (/\.gypi?$/i.test(file.path)) {
+        threats.push(...this.analyzeGypFile(file, files));
+      } else if (isParseableFile(file.path)) {
+        threats.push(...await this.detectAddonLoading(file, files));
+      }
+    }
+
+    return threats;
+  }
+
+  /**
+   * Report a file identified as a binary by its magic bytes
+   * @param file - File whose header matched a binary format
+   * @returns ThreatResult[] - Executable or extension mismatch finding, if any
+   */
+  private analyzeBinary(file: RepositoryFile): ThreatResult[] {
+    const binary = file.binary!;
+    const isExecutable = isNativeExecutable(binary);
+    const isMismatch = isExtensionMismatch(binary, file.path);
+    const details = { format: binary.format, kind: binary.kind, size: file.size };
+
+    if (isMismatch && (isExecutable || binary.kind === 'bytecode')) {
+      return [{
+        category: this.category,
+        subcategory: 'disguised_binary',
+        severity: 'CRITICAL',
+        description: `${binary.description} disguised as a ${file.extension || 'extensionless'} file - compiled code hidden from review`,
+        file: file.path,
+        details
+      }];
+    }
+
+    // Archives or images posing as source or text files
+    if (isMismatch && isTextFile(file.path)) {
+      return [{
+        category: this.category,
+        subcategory: 'extension_mismatch',
+        severity: 'WARNING',
+        description: `${binary.description} stored with a ${file.extension} extension - file contents do not match its name`,
+        file: file.path,
+        details
+      }];
+    }
+
+    if (!isExecutable) return [];
+
+    const isAddon = file.path.toLowerCase().endsWith('.node');
+    return [{
+      category: this.category,
+      subcategory: isAddon ? 'native_addon' : 'native_executable',
+      severity: 'WARNING',
+      description: isAddon
+        ? `Prebuilt Node.js native addon (${binary.description}) - compiled code that cannot be reviewed from source`
+        : `${binary.description} committed to the repository - compiled code that cannot be reviewed from source`,
+      file: file.path,
+      details
+    }];
+  }
+
+  /**
+   * Report the commands a gyp file runs while node-gyp configures and builds the project
+   * A binding.gyp also makes npm run `node-gyp rebuild` on install when the
+   * package declares no install script of its own
+   * @param file - binding.gyp or .gypi file
+   * @param files - All repository files, to find the package manifest
+   * @returns ThreatResult[] - One finding per build step, plus the implicit install hook
+   */
+  private analyzeGypFile(file: RepositoryFile, files: RepositoryFile[]): ThreatResult[] {
+    const threats: ThreatResult[] = [];
+
+    if (path.basename(file.path) === 'binding.gyp' && !this.hasInstallScript(file, files)) {
+      threats.push({
+        category: this.category,
+        subcategory: 'gyp_install_build',
+        severity: 'INFO',
+        description: 'binding.gyp makes npm compile native code with node-gyp during install',
+        file: file.path,
+        details: { implicitScript: 'node-gyp rebuild' }
+      });
+    }
+
+    for (const step of this.getBuildSteps(file.content)) {
+      const isDangerous = DANGEROUS_BUILD_COMMAND_PATTERN.test(step.command);
+      threats.push({
+        category: this.category,
+        subcategory: 'gyp_build_step',
+        severity: isDangerous ? 'CRITICAL' : 'INFO',
+        description: `${step.kind === 'action' ? 'Build action' : 'Command expansion'} runs \`${step.command}\` during node-gyp ${step.kind === 'action' ? 'build' : 'configure'}${isDangerous ? ' - downloads or evaluates code' : ''}`,
+        file: file.path,
+        line: step.line,
+        code: extractCodeContext(file.content, step.line),
+        details: { stepKind: step.kind, command: step.command }
+      });
+    }
+
+    return threats;
+  }
+
+  /**
+   * Extract command expansions and action command lines from gyp source
+   * @param content - gyp file content (a Python literal)
+   * @returns BuildStep[] - Build steps in source order
+   */
+  private getBuildSteps(content: string): BuildStep[] {
+    const steps: BuildStep[] = [];
+    const getLine = (index: number) => content.slice(0, index).split('\n').length;
+
+    for (const match of content.matchAll(GYP_COMMAND_EXPANSION_PATTERN)) {
+      // Commands may contain parentheses of their own, e.g. <!(node -p "require('x').include")
+      const start = match.index! + match[0].length;
+      let depth = 1;
+      let end = start;
+      while (end < content.length && depth > 0) {
+        if (content[end] === '(') depth++;
+        else if (content[end] === ')') depth--;
+        end++;
+      }
+      // The expansion sits inside a quoted gyp string, so unescape its quotes
+      const command = content.slice(start, end - 1).replace(/\\(["'\\])/g, '$1').trim();
+      steps.push({ kind: 'command_expansion', command, line: getLine(match.index!) });
+    }
+
+    for (const match of content.matchAll(GYP_ACTION_PATTERN)) {
+      const args = Array.from(match[2].matchAll(/'([^']*)'|"([^"]*)"/g), arg => arg[1] ?? arg[2]);
+      if (args.length === 0) continue;
+      steps.push({ kind: 'action', command: args.join(' '), line: getLine(match.index!) });
+    }
+
+    return steps.sort((a, b) => a.line - b.line);
+  }
+
+  private hasInstallScript(gypFile: RepositoryFile, files: RepositoryFile[]): boolean {
+    const manifestPath = path.join(path.dirname(gypFile.path), 'package.json');
+    const manifest = files.find(file => file.path === manifestPath);
+    if (!manifest) return false;
+
+    try {
+      const scripts = (JSON.parse(manifest.content) as { scripts?: Record<string, unknown> }).scripts ?? {};
+      return typeof scripts.install === 'string' || typeof scripts.preinstall === 'string';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Detect code that loads a compiled `.node` addon, directly through require or
+   * through an addon loader package such as `bindings` or `node-gyp-build`
+   * @param file - JavaScript or TypeScript file
+   * @param files - All repository files, to find addons shipped in the repository
+   * @returns Promise<ThreatResult[]> - One finding per addon load
+   */
+  private async detectAddonLoading(file: RepositoryFile, files: RepositoryFile[]): Promise<ThreatResult[]> {
+    // Cheap pre-filter: most files never mention an addon
+    if (!file.content.includes('.node') && !ADDON_LOADER_PACKAGES.some(name => file.content.includes(name))) {
+      return [];
+    }
+
+    const parseResult = await parseFile(file);
+    if (!parseResult.success || !parseResult.ast) return [];
+
+    const scope = analyzeScope(parseResult.ast);
+    const threats: ThreatResult[] = [];
+
+    walkAST(parseResult.ast, node => {
+      if (node.type !== 'CallExpression' || node.arguments.length === 0) return;
+
+      const addon = this.getLoadedAddon(node, scope);
+      if (!addon) return;
+
+      const shippedFiles = this.findShippedAddons(addon, file, files);
+      const line = node.loc.start.line;
+      threats.push({
+        category: this.category,
+        subcategory: 'native_addon_load',
+        severity: 'WARNING',
+        description: `Native addon ${addon.name} loaded${addon.loader === 'require' ? '' : ` through ${addon.loader}`}${shippedFiles.length > 0 ? ' from a prebuilt binary in the repository' : ''} - runs compiled code in the Node.js process`,
+        file: file.path,
+        line,
+        code: extractCodeContext(file.content, line),
+        details: {
+          addon: addon.name,
+          loader: addon.loader,
+          shipped: shippedFiles.length > 0,
+          shippedFiles
+        }
+      });
+    });
+
+    return threats;
+  }
+
+  /**
+   * Identify the addon a call loads
+   * @param node - Call expression
+   * @param scope - Scope analysis of the file
+   * @returns The addon name and the loader used, if the call loads an addon
+   */
+  private getLoadedAddon(node: TSESTree.CallExpression, scope: ScopeAnalysis): { name: string; loader: string } | undefined {
+    const callee = scope.resolve(node.callee);
+    const [argument] = node.arguments;
+
+    if (isGlobalSymbol(callee, ['require'])) {
+      const specifier = this.getPathValue(argument, scope);
+      return specifier?.endsWith('.node') ? { name: specifier, loader: 'require' } : undefined;
+    }
+
+    if (callee?.kind === 'module' && !callee.member && ADDON_LOADER_PACKAGES.includes(callee.module)) {
+      const name = callee.module === 'bindings' ? scope.evaluateString(argument) : undefined;
+      return { name: name ? (name.endsWith('.node') ? name : `${name}.node`) : '(prebuilds)', loader: callee.module };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the path a require argument builds, following `path.join`/`path.resolve`
+   * with `__dirname` and constant segments
+   */
+  private getPathValue(node: TSESTree.Node, scope: ScopeAnalysis): string | undefined {
+    const value = scope.evaluateString(node);
+    if (value !== undefined) return value;
+
+    if (node.type !== 'CallExpression') return undefined;
+    const callee = scope.resolve(node.callee);
+    if (callee?.kind !== 'module' || callee.module !== 'path' || !['join', 'resolve'].includes(callee.member ?? '')) {
+      return undefined;
+    }
+
+    const segments: string[] = [];
+    for (const argument of node.arguments) {
+      if (argument.type === 'Identifier' && argument.name === '__dirname') {
+        segments.push('.');
+        continue;
+      }
+      const segment = scope.evaluateString(argument);
+      if (segment === undefined) return undefined;
+      segments.push(segment);
+    }
+    return `./${path.posix.join(...segments)}`;
+  }
+
+  /**
+   * Find `.node` binaries in the repository that an addon load may resolve to
+   * Relative requires are resolved against the loading file; loader packages
+   * search the package, so any addon of the same name counts
+   */
+  private findShippedAddons(addon: { name: string; loader: string }, file: RepositoryFile, files: RepositoryFile[]): string[] {
+    const addonFiles = files.filter(candidate => candidate.binary && candidate.path.toLowerCase().endsWith('.node'));
+
+    if (addon.loader === 'require' && addon.name.startsWith('.')) {
+      const target = normalizeRelativePath(path.posix.join(path.posix.dirname(normalizeRelativePath(file.relativePath)), addon.name));
+      return addonFiles.filter(candidate => normalizeRelativePath(candidate.relativePath) === target).map(candidate => candidate.path);
+    }
+
+    const baseName = path.posix.basename(addon.name);
+    return addonFiles
+      .filter(candidate => addon.name === '(prebuilds)' || path.basename(candidate.path) === baseName)
+      .map(candidate => candidate.path);
+  }
+}
@@ -0,0 +1,407 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { parseFile, walkAST, getStaticStringValue, getStaticPropertyName, PARSEABLE_FILE_EXTENSIONS } from '../utils/ast-parser';
+import {
+  collectModuleBindings,
+  resolveModuleReference,
+  unwrapExpression,
+  type ModuleBindings,
+  type ModuleReference
+} from '../utils/module-bindings';
+import { analyzeScope } from '../utils/scope-analysis';
+import { extractCodeContext, truncateSample } from '../utils/code-context';
+import type { ThreatResult, RepositoryFile } from '../types';
+
+// Node core networking modules and the exports that open connections
+const CORE_NETWORK_APIS: Record<string, { members: string[]; api: NetworkApiType }> = {
+  http: { members: ['request', 'get'], api: 'http_request' },
+  https: { members: ['request', 'get'], api: 'http_request' },
+  http2: { members: ['connect'], api: 'http_request' },
+  net: { members: ['connect', 'createConnection', 'Socket'], api: 'socket_connection' },
+  tls: { members: ['connect'], api: 'socket_connection' },
+  dgram: { members: ['createSocket'], api: 'udp_socket' }
+};
+
+// Third-party HTTP and WebSocket clients where any call sends a request
+const CLIENT_LIBRARIES: Record<string, NetworkApiType> = {
+  axios: 'http_client',
+  got: 'http_client',
+  'node-fetch': 'http_client',
+  undici: 'http_client',
+  request: 'http_client',
+  superagent: 'http_client',
+  needle: 'http_client',
+  ws: 'websocket'
+};
+
+// Hard-coded destinations commonly used to receive exfiltrated data
+const SUSPICIOUS_DESTINATIONS: { name: string; pattern: RegExp }[] = [
+  { name: 'Discord webhook', pattern: /discord(?:app)?\.com\/api\/webhooks\//i },
+  { name: 'Telegram bot API', pattern: /api\.telegram\.org\/bot/i },
+  { name: 'Slack webhook', pattern: /hooks\.slack\.com\/services\//i },
+  { name: 'Pastebin', pattern: /\b(?:pastebin\.com|hastebin\.com|paste\.ee|ghostbin\.\w+|rentry\.co|termbin\.com)\b/i },
+  { name: 'Request capture service', pattern: /\b(?:webhook\.site|requestbin\.\w+|pipedream\.net|beeceptor\.com|interact\.sh|oast\.\w+|burpcollaborator\.net)\b/i },
+  { name: 'Tunnel or file drop', pattern: /\b(?:ngrok\.io|ngrok-free\.app|transfer\.sh|trycloudflare\.com)\b/i }
+];
+
+const IP_URL_PATTERN = /\b(?:https?|wss?|tcp|udp|ftp):\/\/(\d{1,3}(?:\.\d{1,3}){3})(?::\d+)?/i;
+const BARE_IP_PATTERN = /^(\d{1,3}(?:\.\d{1,3}){3})(?::\d+)?$/;
+
+type NetworkApiType = 'fetch' | 'http_request' | 'http_client' | 'socket_connection' | 'udp_socket' | 'websocket' | 'beacon';
+
+interface NetworkCall {
+  node: TSESTree.CallExpression | TSESTree.NewExpression;
+  api: NetworkApiType;
+  callee: string;
+  destination?: string;
+}
+
+interface SensitiveRead {
+  node: TSESTree.Node;
+  source: 'environment' | 'file_system';
+  description: string;
+}
+
+const isNetworkModule = (moduleName: string) =>
+  moduleName in CORE_NETWORK_APIS || moduleName in CLIENT_LIBRARIES;
+
+const isSensitiveSourceModule = (moduleName: string) =>
+  ['fs', 'fs/promises', 'os'].includes(moduleName);
+
+const FUNCTION_TYPES = ['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression'];
+
+/**
+ * Network Communications Scanner for detecting outbound connections and exfiltration
+ * Reports network API calls, hard-coded suspicious destinations, and functions
+ * that both read secrets or files and send data over the network
+ */
+export class NetworkCommunicationsScanner {
+  public readonly name = 'network-communications';
+  public readonly category = 'network_communications';
+  public readonly subcategory = 'network_analysis';
+
+  private readonly supportedExtensions = PARSEABLE_FILE_EXTENSIONS;
+
+  /**
+   * Scan files for network communication threats
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const threats: ThreatResult[] = [];
+
+    for (const file of files) {
+      if (!this.supportedExtensions.includes(file.extension)) {
+        continue;
+      }
+
+      try {
+        const parseResult = await parseFile(file);
+
+        if (!parseResult.success || !parseResult.ast) {
+          continue;
+        }
+
+        threats.push(...this.analyzeProgram(parseResult.ast, file));
+      } catch (error) {
+        console.error(`Error scanning file ${file.path}:`, error);
+      }
+    }
+
+    return threats;
+  }
+
+  /**
+   * Analyze a parsed program for network calls, destinations and exfiltration
+   * @param ast - Parsed program
+   * @param file - Repository file being analyzed
+   * @returns ThreatResult[] - Array of network threats
+   */
+  private analyzeProgram(ast: TSESTree.Program, file: RepositoryFile): ThreatResult[] {
+    const threats: ThreatResult[] = [];
+    const scope = analyzeScope(ast);
+    const networkBindings = collectModuleBindings(ast, isNetworkModule, scope);
+    const sourceBindings = collectModuleBindings(ast, isSensitiveSourceModule, scope);
+
+    // Group network calls and sensitive reads by their enclosing function
+    const callsByScope = new Map<TSESTree.Node, NetworkCall[]>();
+    const readsByScope = new Map<TSESTree.Node, SensitiveRead[]>();
+
+    walkAST(ast, (node, _parent, ancestors) => {
+      const scope = this.findEnclosingFunction(ancestors) ?? ast;
+
+      if (node.type === 'CallExpression' || node.type === 'NewExpression') {
+        const networkCall = this.resolveNetworkCall(node, networkBindings);
+        if (networkCall) {
+          threats.push(this.createNetworkCallThreat(networkCall, file));
+          callsByScope.set(scope, [...(callsByScope.get(scope) || []), networkCall]);
+        }
+      }
+
+      const sensitiveRead = this.resolveSensitiveRead(node, sourceBindings);
+      if (sensitiveRead) {
+        readsByScope.set(scope, [...(readsByScope.get(scope) || []), sensitiveRead]);
+      }
+
+      if (node.type === 'Literal' || node.type === 'TemplateElement') {
+        const value = node.type === 'Literal' ? node.value : node.value.cooked;
+        if (typeof value === 'string') {
+          threats.push(...this.detectSuspiciousDestinations(value, node, file));
+        }
+      }
+    });
+
+    for (const [scope, calls] of callsByScope) {
+      const reads = readsByScope.get(scope);
+      if (reads && reads.length > 0) {
+        threats.push(this.createExfiltrationThreat(scope, calls, reads, file));
+      }
+    }
+
+    return threats;
+  }
+
+  /**
+   * Resolve a call or construction to the network API it invokes
+   * @param node - Call or new expression
+   * @param bindings - Known network module bindings
+   * @returns NetworkCall | undefined - Network call information, if any
+   */
+  private resolveNetworkCall(
+    node: TSESTree.CallExpression | TSESTree.NewExpression,
+    bindings: ModuleBindings
+  ): NetworkCall | undefined {
+    const callee = unwrapExpression(node.callee);
+    const destination = this.extractDestination(node);
+
+    const reference = resolveModuleReference(callee, bindings, isNetworkModule);
+    if (reference) {
+      const api = this.classifyModuleReference(reference);
+      if (!api) return undefined;
+      const calleeName = reference.member ? `${reference.module}.${reference.member}` : reference.module;
+      return { node, api, callee: calleeName, destination };
+    }
+
+    // Browser/Node globals
+    if (callee.type === 'Identifier') {
+      if (callee.name === 'fetch' && node.type === 'CallExpression') {
+        return { node, api: 'fetch', callee: 'fetch', destination };
+      }
+      if (node.type === 'NewExpression' && ['WebSocket', 'EventSource'].includes(callee.name)) {
+        return { node, api: 'websocket', callee: callee.name, destination };
+      }
+      if (node.type === 'NewExpression' && callee.name === 'XMLHttpRequest') {
+        return { node, api: 'http_request', callee: callee.name, destination };
+      }
+    }
+
+    if (callee.type === 'MemberExpression') {
+      const propertyName = getStaticPropertyName(callee);
+      const objectName = callee.object.type === 'Identifier' ? callee.object.name : undefined;
+
+      if (propertyName === 'fetch' && objectName && ['globalThis', 'window', 'self', 'global'].includes(objectName)) {
+        return { node, api: 'fetch', callee: `${objectName}.fetch`, destination };
+      }
+      if (propertyName === 'sendBeacon' && objectName === 'navigator') {
+        return { node, api: 'beacon', callee: 'navigator.sendBeacon', destination };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Determine the network API type for a resolved module reference
+   */
+  private classifyModuleReference(reference: ModuleReference): NetworkApiType | undefined {
+    const coreApi = CORE_NETWORK_APIS[reference.module];
+    if (coreApi) {
+      return reference.member && coreApi.members.includes(reference.member) ? coreApi.api : undefined;
+    }
+
+    return CLIENT_LIBRARIES[reference.module];
+  }
+
+  /**
+   * Extract a statically known destination URL or host from the call arguments
+   */
+  private extractDestination(node: TSESTree.CallExpression | TSESTree.NewExpression): string | undefined {
+    const [firstArg] = node.arguments;
+    if (!firstArg) return undefined;
+
+    const literal = getStaticStringValue(firstArg);
+    if (literal !== undefined) return literal;
+
+    // http.request({ hostname: '...' }) / net.connect({ host: '...' }) / axios({ url: '...' })
+    if (firstArg.type === 'ObjectExpression') {
+      for (const property of firstArg.properties) {
+        if (property.type !== 'Property') continue;
+        const key = property.key.type === 'Identifier' ? property.key.name : getStaticStringValue(property.key);
+        if (key && ['url', 'host', 'hostname'].includes(key)) {
+          return getStaticStringValue(property.value);
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Detect reads of environment variables or files that could be exfiltrated
+   * @param node - Node to inspect
+   * @param bindings - Known fs/os module bindings
+   * @returns SensitiveRead | undefined - Sensitive read information, if any
+   */
+  private resolveSensitiveRead(node: TSESTree.Node, bindings: ModuleBindings): SensitiveRead | undefined {
+    if (
+      node.type === 'MemberExpression' &&
+      node.object.type === 'Identifier' &&
+      node.object.name === 'process' &&
+      getStaticPropertyName(node) === 'env'
+    ) {
+      return { node, source: 'environment', description: 'process.env' };
+    }
+
+    if (node.type === 'CallExpression') {
+      const reference = resolveModuleReference(node.callee, bindings, isSensitiveSourceModule);
+      if (!reference?.member) return undefined;
+
+      if (reference.module.startsWith('fs') && /^(readFile|readFileSync|readdir|readdirSync|createReadStream)$/.test(reference.member)) {
+        return { node, source: 'file_system', description: `${reference.module}.${reference.member}` };
+      }
+      if (reference.module === 'os' && ['homedir', 'userInfo', 'hostname', 'networkInterfaces'].includes(reference.member)) {
+        return { node, source: 'environment', description: `os.${reference.member}` };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the innermost function among the ancestors of a node
+   */
+  private findEnclosingFunction(ancestors: readonly TSESTree.Node[]): TSESTree.Node | undefined {
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+      if (FUNCTION_TYPES.includes(ancestors[i].type)) {
+        return ancestors[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Detect raw IP addresses and known exfiltration endpoints in string literals
+   */
+  private detectSuspiciousDestinations(value: string, node: TSESTree.Node, file: RepositoryFile): ThreatResult[] {
+    const threats: ThreatResult[] = [];
+    const line = node.loc?.start.line;
+
+    for (const destination of SUSPICIOUS_DESTINATIONS) {
+      if (destination.pattern.test(value)) {
+        threats.push({
+          category: this.category,
+          subcategory: 'suspicious_destination',
+          severity: 'CRITICAL',
+          description: `Hard-coded ${destination.name} URL detected - common data exfiltration endpoint`,
+          file: file.path,
+          line,
+          code: extractCodeContext(file.content, line),
+          details: {
+            destinationType: destination.name,
+            value: truncateSample(value)
+          }
+        });
+      }
+    }
+
+    const ipMatch = value.match(IP_URL_PATTERN) || value.trim().match(BARE_IP_PATTERN);
+    if (ipMatch && this.isPublicIpAddress(ipMatch[1])) {
+      threats.push({
+        category: this.category,
+        subcategory: 'raw_ip_address',
+        severity: 'WARNING',
+        description: 'Hard-coded IP address detected - network destination bypasses DNS',
+        file: file.path,
+        line,
+        code: extractCodeContext(file.content, line),
+        details: {
+          ipAddress: ipMatch[1],
+          value: truncateSample(value)
+        }
+      });
+    }
+
+    return threats;
+  }
+
+  /**
+   * Check that an IPv4 address is valid and not loopback, private or unspecified
+   */
+  private isPublicIpAddress(address: string): boolean {
+    const octets = address.split('.').map(Number);
+    if (octets.some(octet => octet > 255)) return false;
+
+    const [a, b] = octets;
+    if (a === 0 || a === 10 || a === 127) return false;
+    if (a === 169 && b === 254) return false;
+    if (a === 172 && b >= 16 && b <= 31) return false;
+    if (a === 192 && b === 168) return false;
+    if (a >= 224) return false;
+
+    return true;
+  }
+
+  private createNetworkCallThreat(call: NetworkCall, file: RepositoryFile): ThreatResult {
+    const line = call.node.loc?.start.line;
+
+    return {
+      category: this.category,
+      subcategory: 'network_request',
+      severity: 'WARNING',
+      description: `Network call via ${call.callee} detected - repository communicates over the network`,
+      file: file.path,
+      line,
+      code: extractCodeContext(file.content, line) || `${call.callee}()`,
+      details: {
+        api: call.api,
+        callee: call.callee,
+        ...(call.destination !== undefined && { destination: call.destination }),
+        isDynamicDestination: call.destination === undefined
+      }
+    };
+  }
+
+  private createExfiltrationThreat(
+    scope: TSESTree.Node,
+    calls: NetworkCall[],
+    reads: SensitiveRead[],
+    file: RepositoryFile
+  ): ThreatResult {
+    const line = calls[0].node.loc?.start.line;
+    const functionName = this.getFunctionName(scope);
+
+    return {
+      category: this.category,
+      subcategory: 'data_exfiltration',
+      severity: 'CRITICAL',
+      description: 'Environment or file data is read and sent over the network in the same function - potential data exfiltration',
+      file: file.path,
+      line,
+      code: extractCodeContext(file.content, line),
+      details: {
+        function: functionName,
+        sources: Array.from(new Set(reads.map(read => read.description))),
+        sourceLines: reads.map(read => read.node.loc?.start.line),
+        sinks: Array.from(new Set(calls.map(call => call.callee))),
+        sinkLines: calls.map(call => call.node.loc?.start.line)
+      }
+    };
+  }
+
+  private getFunctionName(scope: TSESTree.Node): string {
+    if (scope.type === 'Program') return '<module>';
+    if ((scope.type === 'FunctionDeclaration' || scope.type === 'FunctionExpression') && scope.id) {
+      return scope.id.name;
+    }
+    return '<anonymous>';
+  }
+}
@@ -0,0 +1,448 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { parseFile, walkAST, getStaticStringValue, getStaticPropertyName, PARSEABLE_FILE_EXTENSIONS } from '../utils/ast-parser';
+import { extractCodeContext, truncateSample } from '../utils/code-context';
+import { calculateShannonEntropy, roundEntropy } from '../utils/entropy';
+import type { ThreatResult, RepositoryFile } from '../types';
+
+// Lines longer than this are only produced by minifiers, bundlers and packers
+const LONG_LINE_LENGTH = 1000;
+
+// Whole-file entropy above minified code (~5.3) indicates packed or encoded content
+const HIGH_FILE_ENTROPY = 5.6;
+const MIN_FILE_LENGTH_FOR_ENTROPY = 2000;
+
+// String literals are only measured once they are long enough for entropy to be meaningful
+const MIN_STRING_LENGTH = 100;
+const HIGH_STRING_ENTROPY = 5.2;
+const MIN_ENCODED_LITERAL_LENGTH = 200;
+
+const MIN_OBFUSCATED_IDENTIFIERS = 5;
+const MIN_HEX_ESCAPES = 20;
+const MIN_CHAR_CODES = 8;
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/_-]+={0,2}$/;
+const HEX_PATTERN = /^(?:[0-9a-fA-F]{2})+$/;
+const OBFUSCATED_IDENTIFIER_PATTERN = /\b_0x[0-9a-f]{4,}\b/gi;
+
+// javascript-obfuscator rotates its string array with push(shift()) inside while(!![])
+const STRING_ARRAY_ROTATION_PATTERNS = [
+  /\[\s*['"]push['"]\s*\]\s*\(\s*\w+\s*\[\s*['"]shift['"]\s*\]\s*\(\s*\)\s*\)/,
+  /\.push\(\s*\w+\.shift\(\)\s*\)/,
+  /while\s*\(\s*!!\s*\[\s*\]\s*\)/
+];
+
+const DECODE_ENCODINGS = ['base64', 'base64url', 'hex'];
+
+/**
+ * Obfuscation Scanner for detecting packed, encoded and obfuscated code
+ * Measures per-file and per-string Shannon entropy, flags very long lines,
+ * javascript-obfuscator signatures, String.fromCharCode chains, large
+ * base64/hex literals and decoded payloads passed to eval or Function
+ */
+export class ObfuscationScanner {
+  public readonly name = 'obfuscation';
+  public readonly category = 'obfuscation';
+  public readonly subcategory = 'packed_code';
+
+  private readonly supportedExtensions = PARSEABLE_FILE_EXTENSIONS;
+
+  /**
+   * Scan files for obfuscated code
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const threats: ThreatResult[] = [];
+
+    for (const file of files) {
+      if (!this.supportedExtensions.includes(file.extension)) {
+        continue;
+      }
+
+      try {
+        const fileEntropy = roundEntropy(calculateShannonEntropy(file.content));
+        threats.push(...this.analyzeText(file, fileEntropy));
+
+        const parseResult = await parseFile(file);
+        if (parseResult.success && parseResult.ast) {
+          threats.push(...this.analyzeProgram(parseResult.ast, file, fileEntropy));
+        }
+      } catch (error) {
+        console.error(`Error scanning file ${file.path}:`, error);
+      }
+    }
+
+    return threats;
+  }
+
+  /**
+   * Text-level checks that also work on files the parser rejects
+   */
+  private analyzeText(file: RepositoryFile, fileEntropy: number): ThreatResult[] {
+    const threats: ThreatResult[] = [];
+    const lines = file.content.split('\n');
+
+    if (file.content.length >= MIN_FILE_LENGTH_FOR_ENTROPY && fileEntropy >= HIGH_FILE_ENTROPY) {
+      threats.push({
+        category: this.category,
+        subcategory: 'high_entropy_file',
+        severity: 'WARNING',
+        description: `File has unusually high entropy (${fileEntropy} bits/char) - likely packed or encoded content`,
+        file: file.path,
+        line: 1,
+        code: truncateSample(lines[0].trim()),
+        details: { entropy: fileEntropy, fileEntropy, length: file.content.length, sample: truncateSample(file.content) }
+      });
+    }
+
+    const longLines = lines
+      .map((text, index) => ({ text, line: index + 1 }))
+      .filter(({ text }) => text.length > LONG_LINE_LENGTH);
+
+    if (longLines.length > 0) {
+      const longest = longLines.reduce((a, b) => (b.text.length > a.text.length ? b : a));
+      threats.push({
+        category: this.category,
+        subcategory: 'long_line',
+        severity: 'INFO',
+        description: `${longLines.length} line(s) longer than ${LONG_LINE_LENGTH} characters - minified or packed code`,
+        file: file.path,
+        line: longest.line,
+        code: truncateSample(longest.text.trim()),
+        details: {
+          entropy: roundEntropy(calculateShannonEntropy(longest.text)),
+          fileEntropy,
+          longestLineLength: longest.text.length,
+          longLineCount: longLines.length,
+          sample: truncateSample(longest.text.trim())
+        }
+      });
+    }
+
+    const identifiers = new Set(file.content.match(OBFUSCATED_IDENTIFIER_PATTERN) || []);
+    if (identifiers.size >= MIN_OBFUSCATED_IDENTIFIERS) {
+      const line = this.getLineOfIndex(file.content, file.content.search(OBFUSCATED_IDENTIFIER_PATTERN));
+      threats.push({
+        category: this.category,
+        subcategory: 'obfuscator_identifiers',
+        severity: 'WARNING',
+        description: `${identifiers.size} _0x-style identifiers - output of javascript-obfuscator`,
+        file: file.path,
+        line,
+        code: truncateSample(lines[line - 1].trim()),
+        details: {
+          entropy: fileEntropy,
+          fileEntropy,
+          identifierCount: identifiers.size,
+          identifiers: Array.from(identifiers).slice(0, 10),
+          sample: truncateSample(lines[line - 1].trim())
+        }
+      });
+    }
+
+    const rotation = STRING_ARRAY_ROTATION_PATTERNS
+      .map(pattern => file.content.search(pattern))
+      .filter(index => index !== -1);
+    if (rotation.length >= 2) {
+      const line = this.getLineOfIndex(file.content, Math.min(...rotation));
+      threats.push({
+        category: this.category,
+        subcategory: 'string_array_rotation',
+        severity: 'WARNING',
+        description: 'String array rotation routine - javascript-obfuscator string encoding',
+        file: file.path,
+        line,
+        code: truncateSample(lines[line - 1].trim()),
+        details: { entropy: fileEntropy, fileEntropy, sample: truncateSample(lines[line - 1].trim()) }
+      });
+    }
+
+    return threats;
+  }
+
+  /**
+   * AST-level checks for string literals, char code chains and decoded code execution
+   */
+  private analyzeProgram(ast: TSESTree.Program, file: RepositoryFile, fileEntropy: number): ThreatResult[] {
+    const threats: ThreatResult[] = [];
+    const decodedVariables = new Set<string>();
+
+    walkAST(ast, (node, parent) => {
+      switch (node.type) {
+        case 'Literal':
+          if (typeof node.value === 'string') {
+            const threat = this.analyzeStringLiteral(node.value, node.raw, node, file, fileEntropy);
+            if (threat) threats.push(threat);
+          }
+          break;
+
+        case 'TemplateElement': {
+          const value = node.value.cooked ?? node.value.raw;
+          const threat = this.analyzeStringLiteral(value, node.value.raw, node, file, fileEntropy);
+          if (threat) threats.push(threat);
+          break;
+        }
+
+        case 'VariableDeclarator':
+          if (node.id.type === 'Identifier' && node.init && this.containsDecodedData(node.init, decodedVariables)) {
+            decodedVariables.add(node.id.name);
+          }
+          break;
+
+        case 'AssignmentExpression':
+          if (node.left.type === 'Identifier' && this.containsDecodedData(node.right, decodedVariables)) {
+            decodedVariables.add(node.left.name);
+          }
+          break;
+
+        case 'CallExpression':
+        case 'NewExpression': {
+          if (this.isFromCharCodeCall(node) && !(parent && this.isFromCharCodeChainPart(parent))) {
+            const threat = this.analyzeCharCodeChain(node, file, fileEntropy);
+            if (threat) threats.push(threat);
+          }
+
+          const sink = this.getExecutionSink(node);
+          if (sink && node.arguments.some(argument => this.containsDecodedData(argument, decodedVariables))) {
+            threats.push(this.createDecodedExecutionThreat(node, sink, file, fileEntropy));
+          }
+          break;
+        }
+
+        case 'BinaryExpression':
+          if (node.operator === '+' && !(parent && this.isFromCharCodeChainPart(parent))) {
+            const threat = this.analyzeCharCodeChain(node, file, fileEntropy);
+            if (threat) threats.push(threat);
+          }
+          break;
+      }
+    });
+
+    return threats;
+  }
+
+  private analyzeStringLiteral(
+    value: string,
+    raw: string,
+    node: TSESTree.Node,
+    file: RepositoryFile,
+    fileEntropy: number
+  ): ThreatResult | undefined {
+    const line = node.loc?.start.line;
+    const hexEscapes = (raw.match(/\\x[0-9a-fA-F]{2}|\\u[0-9a-fA-F]{4}/g) || []).length;
+
+    if (hexEscapes >= MIN_HEX_ESCAPES) {
+      return this.createStringThreat('hex_escaped_string', 'WARNING',
+        `String literal built from ${hexEscapes} hex/unicode escapes`, value, file, line, fileEntropy, { escapeCount: hexEscapes });
+    }
+
+    if (value.length < MIN_STRING_LENGTH) return undefined;
+
+    const compact = value.replace(/\s+/g, '');
+    if (compact.length >= MIN_ENCODED_LITERAL_LENGTH && HEX_PATTERN.test(compact)) {
+      return this.createStringThreat('encoded_literal', 'WARNING',
+        `Large hex-encoded string literal (${compact.length} characters)`, value, file, line, fileEntropy, { encoding: 'hex' });
+    }
+
+    // Long identifier-like strings (e.g. CSS class lists) match the alphabet but have mixed case and digits in base64
+    if (compact.length >= MIN_ENCODED_LITERAL_LENGTH && BASE64_PATTERN.test(compact) && /\d/.test(compact) &&
+      /[a-z]/.test(compact) && /[A-Z]/.test(compact)) {
+      return this.createStringThreat('encoded_literal', 'WARNING',
+        `Large base64-encoded string literal (${compact.length} characters)`, value, file, line, fileEntropy, { encoding: 'base64' });
+    }
+
+    const entropy = calculateShannonEntropy(value);
+    if (entropy >= HIGH_STRING_ENTROPY) {
+      return this.createStringThreat('high_entropy_string', 'INFO',
+        `High-entropy string literal (${roundEntropy(entropy)} bits/char)`, value, file, line, fileEntropy);
+    }
+
+    return undefined;
+  }
+
+  private createStringThreat(
+    subcategory: string,
+    severity: ThreatResult['severity'],
+    description: string,
+    value: string,
+    file: RepositoryFile,
+    line: number | undefined,
+    fileEntropy: number,
+    details: Record<string, unknown> = {}
+  ): ThreatResult {
+    return {
+      category: this.category,
+      subcategory,
+      severity,
+      description,
+      file: file.path,
+      line,
+      code: truncateSample(extractCodeContext(file.content, line, 0, 0)),
+      details: {
+        entropy: roundEntropy(calculateShannonEntropy(value)),
+        fileEntropy,
+        length: value.length,
+        sample: truncateSample(value),
+        ...details
+      }
+    };
+  }
+
+  /**
+   * Report a String.fromCharCode call with many codes, or a concatenation of several calls
+   */
+  private analyzeCharCodeChain(
+    node: TSESTree.CallExpression | TSESTree.NewExpression | TSESTree.BinaryExpression,
+    file: RepositoryFile,
+    fileEntropy: number
+  ): ThreatResult | undefined {
+    const calls = this.collectFromCharCodeCalls(node);
+    const codeCount = calls.reduce((count, call) => count + call.arguments.length, 0);
+
+    // A `+` chain is reported for many short calls or for a long call joined to plain strings
+    if (codeCount < MIN_CHAR_CODES && (node.type !== 'BinaryExpression' || calls.length < 3)) {
+      return undefined;
+    }
+
+    const codes = calls.flatMap(call => call.arguments.map(argument =>
+      argument.type === 'Literal' && typeof argument.value === 'number' ? argument.value : undefined
+    ));
+    const decoded = codes.every(code => code !== undefined)
+      ? String.fromCharCode(...(codes as number[]))
+      : undefined;
+    const line = node.loc?.start.line;
+
+    return {
+      category: this.category,
+      subcategory: 'char_code_string',
+      severity: 'WARNING',
+      description: `String assembled from ${codeCount} character codes with String.fromCharCode`,
+      file: file.path,
+      line,
+      code: truncateSample(extractCodeContext(file.content, line, 0, 0)),
+      details: {
+        entropy: decoded ? roundEntropy(calculateShannonEntropy(decoded)) : fileEntropy,
+        fileEntropy,
+        callCount: calls.length,
+        codeCount,
+        sample: truncateSample(decoded ?? file.content.slice(node.range[0], node.range[1])),
+        ...(decoded !== undefined && { decoded: truncateSample(decoded) })
+      }
+    };
+  }
+
+  private collectFromCharCodeCalls(node: TSESTree.Node): TSESTree.CallExpression[] {
+    if (node.type === 'CallExpression' && this.isFromCharCodeCall(node)) return [node];
+    if (node.type === 'BinaryExpression' && node.operator === '+') {
+      return [...this.collectFromCharCodeCalls(node.left), ...this.collectFromCharCodeCalls(node.right)];
+    }
+    return [];
+  }
+
+  private isFromCharCodeCall(node: TSESTree.Node): node is TSESTree.CallExpression {
+    return node.type === 'CallExpression' &&
+      node.callee.type === 'MemberExpression' &&
+      node.callee.object.type === 'Identifier' &&
+      node.callee.object.name === 'String' &&
+      getStaticPropertyName(node.callee) === 'fromCharCode';
+  }
+
+  // Only the outermost node of a `String.fromCharCode(..) + ...` chain is reported
+  private isFromCharCodeChainPart(parent: TSESTree.Node): boolean {
+    return parent.type === 'BinaryExpression' && parent.operator === '+';
+  }
+
+  /**
+   * Whether an expression decodes base64/hex data or refers to a variable that holds decoded data
+   */
+  private containsDecodedData(node: TSESTree.Node, decodedVariables: Set<string>): boolean {
+    let found = false;
+
+    walkAST(node, (child) => {
+      if (found) return;
+      if (child.type === 'Identifier' && decodedVariables.has(child.name)) found = true;
+      if (child.type === 'CallExpression' && this.isDecodeCall(child)) found = true;
+    });
+
+    return found;
+  }
+
+  /**
+   * `atob(x)`, `Buffer.from(x, 'base64')` and `Buffer.from(x, 'hex')`
+   */
+  private isDecodeCall(node: TSESTree.CallExpression): boolean {
+    const callee = node.callee;
+
+    if (callee.type === 'Identifier') return callee.name === 'atob';
+    if (callee.type !== 'MemberExpression') return false;
+
+    const property = getStaticPropertyName(callee);
+    if (property === 'atob') return true;
+
+    if (property === 'from' && callee.object.type === 'Identifier' && callee.object.name === 'Buffer') {
+      const encoding = getStaticStringValue(node.arguments[1]);
+      return encoding !== undefined && DECODE_ENCODINGS.includes(encoding);
+    }
+
+    return false;
+  }
+
+  /**
+   * Resolve eval / Function / setTimeout style sinks that execute strings as code
+   */
+  private getExecutionSink(node: TSESTree.CallExpression | TSESTree.NewExpression): string | undefined {
+    let callee: TSESTree.Node = node.callee;
+
+    // Indirect eval: (0, eval)(code)
+    if (callee.type === 'SequenceExpression') {
+      callee = callee.expressions[callee.expressions.length - 1];
+    }
+
+    let name: string | undefined;
+    if (callee.type === 'Identifier') {
+      name = callee.name;
+    } else if (callee.type === 'MemberExpression' && callee.object.type === 'Identifier' &&
+      ['window', 'globalThis', 'global', 'self'].includes(callee.object.name)) {
+      name = getStaticPropertyName(callee);
+    }
+
+    if (!name) return undefined;
+    if (name === 'eval' || name === 'Function') return name;
+    if ((name === 'setTimeout' || name === 'setInterval') && node.type === 'CallExpression') return name;
+
+    return undefined;
+  }
+
+  private createDecodedExecutionThreat(
+    node: TSESTree.CallExpression | TSESTree.NewExpression,
+    sink: string,
+    file: RepositoryFile,
+    fileEntropy: number
+  ): ThreatResult {
+    const line = node.loc?.start.line;
+    const source = file.content.slice(node.range[0], node.range[1]);
+    const payload = node.arguments
+      .map(argument => getStaticStringValue(argument.type === 'CallExpression' ? argument.arguments[0] : argument))
+      .find((value): value is string => value !== undefined);
+
+    return {
+      category: this.category,
+      subcategory: 'decoded_code_execution',
+      severity: 'CRITICAL',
+      description: `Decoded base64/hex data passed to ${sink} - executes a hidden payload`,
+      file: file.path,
+      line,
+      code: extractCodeContext(file.content, line) || truncateSample(source),
+      details: {
+        sink,
+        entropy: roundEntropy(calculateShannonEntropy(payload ?? source)),
+        fileEntropy,
+        sample: truncateSample(source)
+      }
+    };
+  }
+
+  private getLineOfIndex(content: string, index: number): number {
+    return content.slice(0, Math.max(0, index)).split('\n').length;
+  }
+}
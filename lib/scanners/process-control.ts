@@ -0,0 +1,209 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { parseFile, walkAST, getStaticStringValue, PARSEABLE_FILE_EXTENSIONS } from '../utils/ast-parser';
+import {
+  collectModuleBindings,
+  resolveModuleReference,
+  type ModuleBindings
+} from '../utils/module-bindings';
+import { analyzeScope } from '../utils/scope-analysis';
+import { analyzeTaint, extendFlow, formatTaintPath, type TaintFlow } from '../utils/taint-analysis';
+import { extractCodeContext } from '../utils/code-context';
+import type { ThreatResult, RepositoryFile } from '../types';
+
+const isChildProcessModule = (moduleName: string) => moduleName === 'child_process';
+
+// child_process functions that spawn processes, and whether they always run through a shell
+const PROCESS_FUNCTIONS: Record<string, { usesShell: boolean }> = {
+  exec: { usesShell: true },
+  execSync: { usesShell: true },
+  execFile: { usesShell: false },
+  execFileSync: { usesShell: false },
+  spawn: { usesShell: false },
+  spawnSync: { usesShell: false },
+  fork: { usesShell: false }
+};
+
+export interface CommandAnalysis {
+  commandType: 'literal' | 'dynamic' | 'missing';
+  command?: string;
+  argumentsType: 'literal' | 'dynamic' | 'none';
+  usesShell: boolean;
+  shellOption: boolean;
+}
+
+/**
+ * Process Control Scanner for detecting child_process usage
+ * Resolves child_process imports and requires through aliases, destructuring,
+ * member access and computed names so only calls that really spawn processes
+ * are reported, and traces untrusted data into their commands
+ */
+export class ProcessControlScanner {
+  public readonly name = 'process-control';
+  public readonly category = 'process_control';
+  public readonly subcategory = 'child_process';
+
+  private readonly supportedExtensions = PARSEABLE_FILE_EXTENSIONS;
+
+  /**
+   * Scan files for child_process calls
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const threats: ThreatResult[] = [];
+
+    for (const file of files) {
+      if (!this.supportedExtensions.includes(file.extension)) {
+        continue;
+      }
+
+      try {
+        const parseResult = await parseFile(file);
+
+        if (!parseResult.success || !parseResult.ast) {
+          continue;
+        }
+
+        threats.push(...this.analyzeProgram(parseResult.ast, file));
+      } catch (error) {
+        console.error(`Error scanning file ${file.path}:`, error);
+      }
+    }
+
+    return threats;
+  }
+
+  /**
+   * Collect child_process bindings and report calls made through them
+   * @param ast - Parsed program
+   * @param file - Repository file being analyzed
+   * @returns ThreatResult[] - Array of process execution threats
+   */
+  private analyzeProgram(ast: TSESTree.Program, file: RepositoryFile): ThreatResult[] {
+    const scope = analyzeScope(ast);
+    const bindings = collectModuleBindings(ast, isChildProcessModule, scope);
+    const taint = analyzeTaint(ast, scope);
+    const threats: ThreatResult[] = [];
+
+    walkAST(ast, (node) => {
+      if (node.type !== 'CallExpression') return;
+
+      const functionName = this.resolveProcessFunction(node.callee, bindings);
+      if (!functionName) return;
+
+      const analysis = this.analyzeCommandArguments(node, functionName);
+      const isDynamic = analysis.commandType === 'dynamic' ||
+        (analysis.usesShell && analysis.argumentsType === 'dynamic');
+      // The command and its argument list are where untrusted data turns into command injection
+      const flow = node.arguments.slice(0, 2).map(argument => taint.getTaint(argument)).find(Boolean);
+
+      threats.push({
+        category: this.category,
+        subcategory: 'child_process_execution',
+        severity: isDynamic || flow ? 'CRITICAL' : 'WARNING',
+        description: flow
+          ? `child_process.${functionName} receives untrusted data from ${flow.source.name} - command injection vulnerability`
+          : isDynamic
+            ? `child_process.${functionName} called with a dynamic command - potential command injection vulnerability`
+            : `child_process.${functionName} call detected - repository spawns external processes`,
+        file: file.path,
+        line: node.loc?.start.line,
+        code: extractCodeContext(file.content, node.loc?.start.line) || `${functionName}()`,
+        details: {
+          functionName,
+          commandType: analysis.commandType,
+          ...(analysis.command !== undefined && { command: analysis.command }),
+          argumentsType: analysis.argumentsType,
+          usesShell: analysis.usesShell,
+          shellOption: analysis.shellOption,
+          isDynamic,
+          ...this.describeTaint(flow, functionName, node)
+        }
+      });
+    });
+
+    return threats;
+  }
+
+  /**
+   * Resolve a callee to the child_process function it refers to
+   * The bindings resolve through the file's scopes first, which also fold computed
+   * names such as `cp[atob('ZXhlYw==')]` and tell shadowing parameters apart
+   * @param callee - Callee expression of a call
+   * @param bindings - Known child_process bindings
+   * @returns string | undefined - Original child_process function name
+   */
+  private resolveProcessFunction(callee: TSESTree.Node, bindings: ModuleBindings): string | undefined {
+    const member = resolveModuleReference(callee, bindings, isChildProcessModule)?.member;
+
+    if (member && Object.hasOwn(PROCESS_FUNCTIONS, member)) {
+      return member;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Describe a source-to-command flow for threat details
+   * @param flow - Flow into the command, if any
+   * @param functionName - child_process function being called
+   * @param node - Call expression
+   * @returns Record<string, unknown> - Taint details; only `isTainted: false` when the command is untainted
+   */
+  private describeTaint(flow: TaintFlow | undefined, functionName: string, node: TSESTree.CallExpression): Record<string, unknown> {
+    if (!flow) return { isTainted: false };
+
+    const fullFlow = extendFlow(flow, functionName, node.loc?.start.line);
+    return {
+      isTainted: true,
+      taintSource: flow.source.name,
+      taintSourceType: flow.source.type,
+      taintPath: formatTaintPath(fullFlow),
+      taintSteps: fullFlow.path
+    };
+  }
+
+  /**
+   * Classify the command and arguments passed to a child_process call
+   * @param node - Call expression
+   * @param functionName - child_process function being called
+   * @returns CommandAnalysis - Literal vs dynamic command and shell usage
+   */
+  private analyzeCommandArguments(node: TSESTree.CallExpression, functionName: string): CommandAnalysis {
+    const [commandArg, ...restArgs] = node.arguments;
+    const command = getStaticStringValue(commandArg);
+
+    const argsArray = restArgs.find(arg => arg.type === 'ArrayExpression') as TSESTree.ArrayExpression | undefined;
+    let argumentsType: CommandAnalysis['argumentsType'] = 'none';
+    if (argsArray) {
+      const allLiteral = argsArray.elements.every(element => element !== null && getStaticStringValue(element) !== undefined);
+      argumentsType = allLiteral ? 'literal' : 'dynamic';
+    } else if (restArgs.some(arg => arg.type === 'Identifier' || arg.type === 'SpreadElement')) {
+      argumentsType = 'dynamic';
+    }
+
+    const shellOption = restArgs.some(arg => arg.type === 'ObjectExpression' && this.hasShellOption(arg));
+
+    return {
+      commandType: !commandArg ? 'missing' : command !== undefined ? 'literal' : 'dynamic',
+      command,
+      argumentsType,
+      usesShell: PROCESS_FUNCTIONS[functionName].usesShell || shellOption,
+      shellOption
+    };
+  }
+
+  /**
+   * Check whether an options object enables `shell`
+   */
+  private hasShellOption(options: TSESTree.ObjectExpression): boolean {
+    return options.properties.some(property => {
+      if (property.type !== 'Property') return false;
+      const key = property.key.type === 'Identifier' ? property.key.name : getStaticStringValue(property.key);
+      if (key !== 'shell') return false;
+
+      // shell: false disables the shell; anything else (true, '/bin/sh', variables) enables it
+      return !(property.value.type === 'Literal' && property.value.value === false);
+    });
+  }
+}
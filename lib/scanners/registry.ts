@@ -0,0 +1,199 @@
+import type {
+  ThreatScanner,
+  ThreatResult,
+  RepositoryFile,
+  ScannerRunSummary
+} from '../types';
+import { CodeExecutionScanner } from './code-execution';
+import { ProcessControlScanner } from './process-control';
+import { NetworkCommunicationsScanner } from './network-communications';
+import { EnvironmentAccessScanner } from './environment-access';
+import { FileSystemAccessScanner } from './file-system-access';
+import { LifecycleScriptScanner } from './lifecycle-scripts';
+import { DependencyScanner } from './dependencies';
+import { TyposquattingScanner } from './typosquatting';
+import { LockfileIntegrityScanner } from './lockfile-integrity';
+import { ObfuscationScanner } from './obfuscation';
+import { CallGraphScanner } from './call-graph';
+import { HtmlScanner } from './html';
+import { NativeBinaryScanner } from './native-binaries';
+
+export interface ScannerRegistrationOptions {
+  order?: number;
+  enabledByDefault?: boolean;
+}
+
+export interface RegisteredScanner {
+  scanner: ThreatScanner;
+  order: number;
+  enabledByDefault: boolean;
+}
+
+export interface ScannerSelection {
+  enabledScanners?: string[];
+  disabledScanners?: string[];
+}
+
+export interface ScannerRunResult {
+  threats: ThreatResult[];
+  errors: string[];
+  scanners: ScannerRunSummary[];
+}
+
+/**
+ * Registry of threat scanners used by scanRepository
+ * Any module implementing ThreatScanner can be registered, ordered and
+ * enabled/disabled per scan
+ */
+export class ScannerRegistry {
+  private readonly scanners = new Map<string, RegisteredScanner>();
+
+  /**
+   * Register a scanner, replacing any scanner already registered under the same name
+   * @param scanner - Scanner implementing the ThreatScanner interface
+   * @param options - Ordering and default enablement
+   */
+  register(scanner: ThreatScanner, options: ScannerRegistrationOptions = {}): void {
+    if (!scanner.name) {
+      throw new Error('Scanner must have a name to be registered');
+    }
+
+    this.scanners.set(scanner.name, {
+      scanner,
+      order: options.order ?? (this.scanners.size + 1) * 100,
+      enabledByDefault: options.enabledByDefault ?? true
+    });
+  }
+
+  /**
+   * Remove a scanner from the registry
+   * @param name - Name of the scanner to remove
+   * @returns boolean - True if a scanner was removed
+   */
+  unregister(name: string): boolean {
+    return this.scanners.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.scanners.has(name);
+  }
+
+  get(name: string): ThreatScanner | undefined {
+    return this.scanners.get(name)?.scanner;
+  }
+
+  /**
+   * List registered scanners sorted by their order
+   */
+  list(): RegisteredScanner[] {
+    return Array.from(this.scanners.values()).sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Resolve which scanners should run for a given selection
+   * An explicit enabled list overrides default enablement; the disabled list always wins
+   * @param selection - Scanner names to enable or disable
+   * @returns ThreatScanner[] - Scanners to run, in order
+   */
+  resolve(selection: ScannerSelection = {}): ThreatScanner[] {
+    const { enabledScanners, disabledScanners = [] } = selection;
+
+    return this.list()
+      .filter(entry => {
+        if (disabledScanners.includes(entry.scanner.name)) return false;
+        if (enabledScanners) return enabledScanners.includes(entry.scanner.name);
+        return entry.enabledByDefault;
+      })
+      .map(entry => entry.scanner);
+  }
+
+  /**
+   * Run the selected scanners against a set of files
+   * Each scanner is timed and isolated, so a failure in one scanner is
+   * reported in errors without discarding the results of the others.
+   * Scanners implementing refineThreats then get a pass over all findings
+   * @param files - Repository files to scan
+   * @param selection - Scanner names to enable or disable
+   * @returns Promise<ScannerRunResult> - Combined threats, errors and per-scanner summaries
+   */
+  async run(files: RepositoryFile[], selection: ScannerSelection = {}): Promise<ScannerRunResult> {
+    const result: ScannerRunResult = { threats: [], errors: [], scanners: [] };
+
+    const unknownScanners = (selection.enabledScanners || []).filter(name => !this.scanners.has(name));
+    for (const name of unknownScanners) {
+      result.errors.push(`Unknown scanner requested: ${name}`);
+    }
+
+    const scanners = this.resolve(selection);
+
+    for (const scanner of scanners) {
+      const startTime = Date.now();
+
+      try {
+        const threats = await scanner.scan(files);
+        result.threats.push(...threats);
+        result.scanners.push({
+          name: scanner.name,
+          category: scanner.category,
+          threatCount: threats.length,
+          duration: Date.now() - startTime,
+          success: true
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        result.errors.push(`Scanner ${scanner.name} failed: ${errorMessage}`);
+        result.scanners.push({
+          name: scanner.name,
+          category: scanner.category,
+          threatCount: 0,
+          duration: Date.now() - startTime,
+          success: false,
+          error: errorMessage
+        });
+      }
+    }
+
+    // Let scanners refine the combined findings once every scanner has run
+    for (const scanner of scanners) {
+      if (!scanner.refineThreats) continue;
+
+      try {
+        result.threats = await scanner.refineThreats(result.threats, files);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        result.errors.push(`Scanner ${scanner.name} failed to refine threats: ${errorMessage}`);
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Create a registry pre-populated with the built-in scanners
+ */
+export function createDefaultScannerRegistry(): ScannerRegistry {
+  const registry = new ScannerRegistry();
+  const lifecycleScanner = new LifecycleScriptScanner();
+  // Private registries and mirrors are trusted only when the server lists them, comma separated
+  const registryHosts = process.env.TRUSTED_REGISTRY_HOSTS?.split(',').map(host => host.trim()).filter(Boolean);
+  registry.register(new CodeExecutionScanner(), { order: 100 });
+  registry.register(new ProcessControlScanner(), { order: 200 });
+  registry.register(new NetworkCommunicationsScanner(), { order: 300 });
+  registry.register(new EnvironmentAccessScanner(), { order: 400 });
+  registry.register(new FileSystemAccessScanner(), { order: 500 });
+  registry.register(lifecycleScanner, { order: 600 });
+  registry.register(new DependencyScanner(), { order: 700 });
+  registry.register(new TyposquattingScanner(), { order: 800 });
+  registry.register(new LockfileIntegrityScanner({ registryHosts }), { order: 900 });
+  registry.register(new ObfuscationScanner(), { order: 1000 });
+  registry.register(new CallGraphScanner({ lifecycleScanner }), { order: 1100 });
+  registry.register(new HtmlScanner(), { order: 1200 });
+  registry.register(new NativeBinaryScanner(), { order: 1300 });
+  return registry;
+}
+
+/**
+ * Shared registry used by scanRepository; in-house scanners can be added here
+ */
+export const scannerRegistry = createDefaultScannerRegistry();
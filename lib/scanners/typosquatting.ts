@@ -0,0 +1,254 @@
+import path from 'path';
+import type { ThreatResult, RepositoryFile } from '../types';
+import { getDependencyFiles } from '../utils/file-type-utils';
+import popularPackagesData from '../data/popular-packages.json';
+
+export type TyposquattingTechnique =
+  | 'scope_confusion'
+  | 'separator'
+  | 'homoglyph'
+  | 'character_swap'
+  | 'edit_distance';
+
+export interface TyposquattingMatch {
+  intendedPackage: string;
+  technique: TyposquattingTechnique;
+  similarity: number;
+  distance: number;
+}
+
+const DEPENDENCY_GROUPS = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'];
+
+// Specifiers that point at local or workspace code rather than the registry
+const LOCAL_SPECIFIER_PATTERN = /^(workspace:|file:|link:|portal:|\.{0,2}\/)/;
+
+// Look-alike characters and sequences mapped to the character they imitate
+const HOMOGLYPHS: [RegExp, string][] = [
+  [/[0оο]/g, 'o'],
+  [/[1iі]/g, 'l'],
+  [/[3е]/g, 'e'],
+  [/[5ѕ]/g, 's'],
+  [/[а]/g, 'a'],
+  [/[р]/g, 'p'],
+  [/[с]/g, 'c'],
+  [/[у]/g, 'y'],
+  [/[х]/g, 'x'],
+  [/rn/g, 'm'],
+  [/vv/g, 'w']
+];
+
+// Techniques in order of how clearly they indicate deliberate imitation
+const TECHNIQUE_PRIORITY: TyposquattingTechnique[] = [
+  'scope_confusion',
+  'separator',
+  'homoglyph',
+  'character_swap',
+  'edit_distance'
+];
+
+/**
+ * Typosquatting Scanner for detecting dependencies that imitate popular packages
+ * Compares every dependency declared in package.json files against a bundled
+ * list of popular npm package names using edit distance, character swaps,
+ * homoglyphs, scope confusion and separator tricks
+ */
+export class TyposquattingScanner {
+  public readonly name = 'typosquatting';
+  public readonly category = 'dependencies';
+  public readonly subcategory = 'typosquatting';
+
+  private readonly popularPackages: Set<string>;
+
+  constructor(popularPackages: string[] = popularPackagesData.packages) {
+    this.popularPackages = new Set(popularPackages);
+  }
+
+  /**
+   * Scan package.json dependencies for names resembling popular packages
+   * @param files - Array of repository files to scan
+   * @returns Promise<ThreatResult[]> - Array of detected threats
+   */
+  async scan(files: RepositoryFile[]): Promise<ThreatResult[]> {
+    const threats: ThreatResult[] = [];
+    const manifests = getDependencyFiles(files)
+      .filter(file => path.basename(file.relativePath || file.path) === 'package.json');
+    const workspacePackages = new Set(
+      manifests.map(file => this.parseManifest(file.content)?.name).filter((name): name is string => typeof name === 'string')
+    );
+
+    for (const file of manifests) {
+      const manifest = this.parseManifest(file.content);
+      if (!manifest) continue;
+
+      for (const group of DEPENDENCY_GROUPS) {
+        const dependencies = manifest[group];
+        if (!dependencies || typeof dependencies !== 'object') continue;
+
+        for (const [name, specifier] of Object.entries(dependencies as Record<string, unknown>)) {
+          if (workspacePackages.has(name)) continue;
+          if (typeof specifier === 'string' && LOCAL_SPECIFIER_PATTERN.test(specifier)) continue;
+
+          const match = this.findIntendedPackage(name);
+          if (!match) continue;
+
+          const line = this.findDependencyLine(file.content, group, name);
+          threats.push({
+            category: this.category,
+            subcategory: this.subcategory,
+            severity: 'WARNING',
+            description: `Dependency "${name}" resembles popular package "${match.intendedPackage}" (${match.technique.replace('_', ' ')})`,
+            file: file.path,
+            line,
+            code: line ? file.content.split('\n')[line - 1].trim() : undefined,
+            details: {
+              package: name,
+              specifier,
+              dependencyType: group,
+              intendedPackage: match.intendedPackage,
+              technique: match.technique,
+              similarity: match.similarity,
+              distance: match.distance
+            }
+          });
+        }
+      }
+    }
+
+    return threats;
+  }
+
+  /**
+   * Find the popular package a dependency name most likely imitates
+   * @param name - Declared dependency name
+   * @returns TyposquattingMatch | undefined - Best match, or undefined if the name looks legitimate
+   */
+  findIntendedPackage(name: string): TyposquattingMatch | undefined {
+    const normalizedName = name.toLowerCase();
+    if (this.popularPackages.has(normalizedName)) return undefined;
+
+    // `@types-lodash` imitating the `@types/lodash` definitions of a popular package
+    const typesMatch = normalizedName.match(/^@types[-_.]?([a-z0-9][a-z0-9._-]*)$/);
+    if (typesMatch && (this.popularPackages.has(typesMatch[1]) || this.popularPackages.has(`@types/${typesMatch[1]}`))) {
+      return this.createMatch(normalizedName, `@types/${typesMatch[1]}`, 'scope_confusion');
+    }
+
+    let best: TyposquattingMatch | undefined;
+
+    for (const popular of this.popularPackages) {
+      const technique = this.detectTechnique(normalizedName, popular);
+      if (!technique) continue;
+
+      const candidate = this.createMatch(normalizedName, popular, technique);
+
+      if (!best || this.isBetterMatch(candidate, best)) {
+        best = candidate;
+      }
+    }
+
+    return best;
+  }
+
+  private createMatch(name: string, intendedPackage: string, technique: TyposquattingTechnique): TyposquattingMatch {
+    const distance = damerauLevenshtein(name, intendedPackage);
+    const similarity = Math.round((1 - distance / Math.max(name.length, intendedPackage.length)) * 100) / 100;
+    return { intendedPackage, technique, similarity, distance };
+  }
+
+  private isBetterMatch(candidate: TyposquattingMatch, current: TyposquattingMatch): boolean {
+    const priorityDifference = TECHNIQUE_PRIORITY.indexOf(candidate.technique) - TECHNIQUE_PRIORITY.indexOf(current.technique);
+    if (priorityDifference !== 0) return priorityDifference < 0;
+    return candidate.similarity > current.similarity;
+  }
+
+  private detectTechnique(name: string, popular: string): TyposquattingTechnique | undefined {
+    if (this.isScopeConfusion(name, popular)) return 'scope_confusion';
+
+    if (stripSeparators(name) === stripSeparators(popular)) return 'separator';
+
+    if (toSkeleton(name) === toSkeleton(popular)) return 'homoglyph';
+
+    if (isAdjacentSwap(name, popular)) return 'character_swap';
+
+    // Short names sit too close to each other to compare by edit distance alone
+    const maxDistance = popular.length >= 9 ? 2 : popular.length >= 5 ? 1 : 0;
+    if (maxDistance > 0 && Math.abs(name.length - popular.length) <= maxDistance &&
+      damerauLevenshtein(name, popular) <= maxDistance) {
+      return 'edit_distance';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * `@babel-core` style names that fold the scope separator of a popular scoped package such as `@babel/core`
+   */
+  private isScopeConfusion(name: string, popular: string): boolean {
+    if (!popular.startsWith('@') || !name.startsWith('@') || name.includes('/')) return false;
+
+    const [scope, packageName] = popular.slice(1).split('/');
+    return ['-', '_', '.', ''].some(separator => name === `@${scope}${separator}${packageName}`);
+  }
+
+  private findDependencyLine(content: string, group: string, name: string): number | undefined {
+    const lines = content.split('\n');
+    const groupStart = Math.max(0, lines.findIndex(line => line.includes(`"${group}"`)));
+    const index = lines.findIndex((line, i) => i >= groupStart && line.includes(`"${name}"`));
+    return index === -1 ? undefined : index + 1;
+  }
+
+  private parseManifest(content: string): Record<string, unknown> | undefined {
+    try {
+      const manifest = JSON.parse(content);
+      return manifest && typeof manifest === 'object' && !Array.isArray(manifest) ? manifest : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function stripSeparators(name: string): string {
+  return name.replace(/[-_.]/g, '');
+}
+
+function toSkeleton(name: string): string {
+  return HOMOGLYPHS.reduce((skeleton, [pattern, replacement]) => skeleton.replace(pattern, replacement), name);
+}
+
+function isAdjacentSwap(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  const differences: number[] = [];
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) differences.push(i);
+  }
+
+  return differences.length === 2 &&
+    differences[1] === differences[0] + 1 &&
+    a[differences[0]] === b[differences[1]] &&
+    a[differences[1]] === b[differences[0]];
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and adjacent transpositions
+ */
+function damerauLevenshtein(a: string, b: string): number {
+  const distances: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return distances[a.length][b.length];
+}
@@ -0,0 +1,392 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { gunzipSync, inflateRawSync } from 'zlib';
+import { calculateRepositoryStats, type RepositoryInfo } from '../git/repository';
+import { BINARY_HEADER_LENGTH, identifyBinary } from '../utils/binary-detection';
+import { workspaceManager } from '../utils/workspace';
+
+export interface ArchiveOptions {
+  /** Largest archive accepted, in bytes */
+  maxArchiveSize?: number;
+  /** Largest total size of the extracted files, in bytes */
+  maxExtractedSize?: number;
+  /** Most entries an archive may contain */
+  maxEntries?: number;
+  /** Largest extracted to compressed size ratio, checked for outputs over 1 MB */
+  maxCompressionRatio?: number;
+}
+
+export type ArchiveFormat = 'tar' | 'tar.gz' | 'zip';
+
+interface ArchiveEntry {
+  name: string;
+  type: 'file' | 'directory';
+  /** Decompress the entry's contents; only called for files */
+  read: () => Buffer;
+}
+
+const DEFAULT_ARCHIVE_OPTIONS: Required<ArchiveOptions> = {
+  maxArchiveSize: 100 * 1024 * 1024,
+  maxExtractedSize: 500 * 1024 * 1024,
+  maxEntries: 20000,
+  maxCompressionRatio: 100
+};
+
+// Small outputs compress far better than real code (e.g. empty files padded to
+// tar blocks), so the ratio only counts once this much has been produced
+const RATIO_CHECK_THRESHOLD = 1024 * 1024;
+
+const TAR_BLOCK_SIZE = 512;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ARCHIVE_EXTENSION_PATTERN = /\.(?:tgz|tar\.gz|tar|zip)$/i;
+
+/**
+ * Extracts a .tgz/.tar.gz, .tar or .zip archive (e.g. `npm pack` output) to a temporary directory
+ * Entries that would land outside the directory (zip slip) reject the archive, links and
+ * special files are skipped, and sizes, entry counts and compression ratios are bounded
+ * before anything is decompressed where the format allows it
+ * @param archivePath - Path of the archive
+ * @param options - Optional extraction limits
+ * @returns Promise<RepositoryInfo> with the extraction directory, metadata, and cleanup function
+ */
+export async function extractArchive(
+  archivePath: string,
+  options: ArchiveOptions = {}
+): Promise<RepositoryInfo> {
+  const limits = { ...DEFAULT_ARCHIVE_OPTIONS, ...options };
+
+  const stats = await fs.stat(archivePath).catch(() => {
+    throw new Error(`Archive does not exist: ${archivePath}`);
+  });
+  if (!stats.isFile()) {
+    throw new Error(`Not a file: ${archivePath}`);
+  }
+  if (stats.size > limits.maxArchiveSize) {
+    throw new Error(`Archive is larger than the ${limits.maxArchiveSize} byte limit`);
+  }
+
+  const archive = await fs.readFile(archivePath);
+  const format = detectArchiveFormat(archive);
+  if (!format) {
+    throw new Error('Unsupported archive format; expected .tgz, .tar.gz, .tar or .zip');
+  }
+
+  // The extracted files may not outgrow the space left for workspaces
+  const workspace = await workspaceManager.create('repo-archive-');
+  const tempDir = workspace.path;
+  limits.maxExtractedSize = Math.min(limits.maxExtractedSize, workspace.availableSize);
+
+  try {
+    const entries = format === 'zip'
+      ? readZipEntries(archive, limits)
+      : readTarEntries(format === 'tar.gz' ? gunzipArchive(archive, limits) : archive, limits);
+    await writeEntries(tempDir, entries, limits);
+
+    const { size, fileCount } = await calculateRepositoryStats(tempDir);
+    return {
+      path: tempDir,
+      metadata: {
+        source: 'archive',
+        name: path.basename(archivePath).replace(ARCHIVE_EXTENSION_PATTERN, ''),
+        owner: 'local',
+        url: pathToFileURL(path.resolve(archivePath)).href,
+        size,
+        fileCount,
+        commitHash: 'unknown',
+        branch: 'unknown',
+        cloneTime: new Date()
+      },
+      cleanup: options => workspaceManager.release(tempDir, options)
+    };
+  } catch (error) {
+    await workspaceManager.release(tempDir);
+    throw error;
+  }
+}
+
+/**
+ * Identify an archive from its first bytes rather than its extension
+ * @param archive - Archive contents
+ * @returns ArchiveFormat | undefined - The format, or undefined when it is not a supported archive
+ */
+export function detectArchiveFormat(archive: Buffer): ArchiveFormat | undefined {
+  const signature = identifyBinary(archive.subarray(0, BINARY_HEADER_LENGTH));
+  if (signature?.format === 'zip') return 'zip';
+  if (signature?.format === 'gzip') return 'tar.gz';
+  if (archive.length >= TAR_BLOCK_SIZE && archive.toString('latin1', 257, 262) === 'ustar') return 'tar';
+  return undefined;
+}
+
+/**
+ * Resolve where an entry is extracted, rejecting names that escape the root
+ * @returns string | undefined - Target path, or undefined for entries naming the root itself
+ */
+function resolveEntryPath(root: string, name: string): string | undefined {
+  const normalized = name.replace(/\\/g, '/');
+  const segments = normalized.split('/').filter(segment => segment !== '' && segment !== '.');
+  const target = path.join(root, ...segments);
+
+  if (
+    name.includes('\0') ||
+    normalized.startsWith('/') ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    segments.includes('..') ||
+    (segments.length > 0 && !target.startsWith(root + path.sep))
+  ) {
+    throw new Error(`Archive entry escapes the extraction directory: ${name}`);
+  }
+
+  return segments.length > 0 ? target : undefined;
+}
+
+async function writeEntries(root: string, entries: ArchiveEntry[], limits: Required<ArchiveOptions>): Promise<void> {
+  let extractedSize = 0;
+
+  for (const entry of entries) {
+    const target = resolveEntryPath(root, entry.name);
+    if (!target) continue;
+
+    if (entry.type === 'directory') {
+      await fs.mkdir(target, { recursive: true });
+      continue;
+    }
+
+    const data = entry.read();
+    extractedSize += data.length;
+    if (extractedSize > limits.maxExtractedSize) {
+      throw new Error(`Archive expands beyond the ${limits.maxExtractedSize} byte limit`);
+    }
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Modes from the archive are ignored; nothing extracted is executable
+    await fs.writeFile(target, data, { mode: 0o644 });
+  }
+}
+
+function gunzipArchive(archive: Buffer, limits: Required<ArchiveOptions>): Buffer {
+  let tar: Buffer;
+  try {
+    tar = gunzipSync(archive, { maxOutputLength: limits.maxExtractedSize });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Archive expands beyond the ${limits.maxExtractedSize} byte limit`);
+    }
+    throw new Error(`Archive is corrupt: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (tar.length > RATIO_CHECK_THRESHOLD && tar.length / archive.length > limits.maxCompressionRatio) {
+    throw new Error(`Archive compression ratio exceeds ${limits.maxCompressionRatio}:1`);
+  }
+  return tar;
+}
+
+function readTarEntries(tar: Buffer, limits: Required<ArchiveOptions>): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  // Long names arrive in an extra entry before the one they name
+  let longName: string | undefined;
+
+  while (offset + TAR_BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+    if (!hasValidTarChecksum(header)) {
+      throw new Error('Archive is corrupt: invalid tar header');
+    }
+
+    const size = parseTarNumber(header.subarray(124, 136));
+    const type = header[156] === 0 ? '0' : String.fromCharCode(header[156]);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    if (dataStart + size > tar.length) {
+      throw new Error('Archive is corrupt: truncated tar entry');
+    }
+    const data = tar.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (type === 'L') {
+      longName = readNulTerminated(data);
+      continue;
+    }
+    if (type === 'x') {
+      longName = parsePaxPath(data) ?? longName;
+      continue;
+    }
+
+    const name = longName ?? getTarName(header);
+    longName = undefined;
+
+    // Hard and symbolic links, devices and FIFOs are never created
+    if (type !== '0' && type !== '7' && type !== '5') continue;
+
+    if (entries.length >= limits.maxEntries) {
+      throw new Error(`Archive has more than ${limits.maxEntries} entries`);
+    }
+    entries.push({ name, type: type === '5' ? 'directory' : 'file', read: () => data });
+  }
+
+  return entries;
+}
+
+function readZipEntries(zip: Buffer, limits: Required<ArchiveOptions>): ArchiveEntry[] {
+  const end = findEndOfCentralDirectory(zip);
+  if (end === -1) {
+    throw new Error('Archive is corrupt: missing ZIP central directory');
+  }
+
+  const count = zip.readUInt16LE(end + 10);
+  const directoryOffset = zip.readUInt32LE(end + 16);
+  if (count === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+  if (count > limits.maxEntries) {
+    throw new Error(`Archive has more than ${limits.maxEntries} entries`);
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let declaredSize = 0;
+  let offset = directoryOffset;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('Archive is corrupt: invalid ZIP central directory');
+    }
+
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const mode = zip.readUInt32LE(offset + 38) >>> 16;
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Unix symlinks keep their mode in the upper half of the external attributes
+    if ((mode & 0o170000) === 0o120000) continue;
+
+    if (name.endsWith('/')) {
+      entries.push({ name, type: 'directory', read: () => Buffer.alloc(0) });
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Encrypted archive entries are not supported: ${name}`);
+    }
+    if (method !== 0 && method !== 8) {
+      throw new Error(`Unsupported compression method ${method} for archive entry: ${name}`);
+    }
+
+    // Bombs are refused from their declared sizes before anything is inflated;
+    // inflating stops at the declared size, so the declaration cannot understate it
+    declaredSize += size;
+    if (declaredSize > limits.maxExtractedSize) {
+      throw new Error(`Archive expands beyond the ${limits.maxExtractedSize} byte limit`);
+    }
+    if (size > RATIO_CHECK_THRESHOLD && size / Math.max(compressedSize, 1) > limits.maxCompressionRatio) {
+      throw new Error(`Archive compression ratio exceeds ${limits.maxCompressionRatio}:1`);
+    }
+
+    entries.push({ name, type: 'file', read: () => readZipData(zip, localOffset, method, compressedSize, size, name) });
+  }
+
+  return entries;
+}
+
+function readZipData(zip: Buffer, localOffset: number, method: number, compressedSize: number, size: number, name: string): Buffer {
+  if (localOffset + 30 > zip.length || zip.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+    throw new Error(`Archive is corrupt: invalid ZIP entry ${name}`);
+  }
+
+  const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+  if (dataStart + compressedSize > zip.length) {
+    throw new Error(`Archive is corrupt: truncated ZIP entry ${name}`);
+  }
+  const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+  if (method === 0) {
+    if (compressedSize !== size) throw new Error(`Archive is corrupt: invalid ZIP entry ${name}`);
+    return data;
+  }
+  if (size === 0) return Buffer.alloc(0);
+
+  let output: Buffer;
+  try {
+    output = inflateRawSync(data, { maxOutputLength: size });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Archive entry expands beyond its declared size: ${name}`);
+    }
+    throw new Error(`Archive is corrupt: invalid ZIP entry ${name}`);
+  }
+  if (output.length !== size) {
+    throw new Error(`Archive is corrupt: invalid ZIP entry ${name}`);
+  }
+  return output;
+}
+
+function findEndOfCentralDirectory(zip: Buffer): number {
+  // The record is 22 bytes followed by a comment of up to 65535 bytes
+  const lowest = Math.max(0, zip.length - 22 - 0xffff);
+  for (let offset = zip.length - 22; offset >= lowest; offset--) {
+    if (zip.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+}
+
+function getTarName(header: Buffer): string {
+  const name = readNulTerminated(header.subarray(0, 100));
+  const prefix = header.toString('latin1', 257, 262) === 'ustar' ? readNulTerminated(header.subarray(345, 500)) : '';
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+function hasValidTarChecksum(header: Buffer): boolean {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    // The checksum field counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum === parseInt(readNulTerminated(header.subarray(148, 156)).trim(), 8);
+}
+
+/**
+ * Tar numbers are octal text; values too large for the field use base-256
+ */
+function parseTarNumber(field: Buffer): number {
+  if (field[0] & 0x80) {
+    throw new Error('Archive entry is too large');
+  }
+  const value = parseInt(readNulTerminated(field).trim() || '0', 8);
+  if (Number.isNaN(value)) {
+    throw new Error('Archive is corrupt: invalid tar entry size');
+  }
+  return value;
+}
+
+/**
+ * Read the `path` record of a pax extended header (`<length> path=<value>\n`)
+ */
+function parsePaxPath(data: Buffer): string | undefined {
+  let result: string | undefined;
+  let offset = 0;
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = space === -1 ? NaN : parseInt(data.toString('utf8', offset, space), 10);
+    if (!length || length <= 0) break;
+
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const separator = record.indexOf('=');
+    if (record.slice(0, separator) === 'path') result = record.slice(separator + 1);
+    offset += length;
+  }
+
+  return result;
+}
+
+function readNulTerminated(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? field.length : end);
+}
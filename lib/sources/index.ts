@@ -0,0 +1,77 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import {
+  cloneLocalRepository,
+  cloneRepository,
+  type CloneOptions,
+  type RepositoryInfo
+} from '../git/repository';
+import { stripUrlCredentials } from '../git/credentials';
+import { extractArchive, type ArchiveOptions } from './archive';
+import { openLocalDirectory } from './local-directory';
+
+/**
+ * Where the files to scan come from
+ * Every source produces the same RepositoryInfo, so scanners do not depend on it
+ */
+export type RepositorySource =
+  | { type: 'remote'; url: string }
+  | { type: 'bare'; path: string }
+  | { type: 'directory'; path: string }
+  | { type: 'archive'; path: string };
+
+export interface SourceOptions extends CloneOptions, ArchiveOptions {
+  /** Directory that local sources must be inside; any local path is accepted when omitted */
+  localRoot?: string;
+}
+
+/**
+ * Clones, extracts or opens a source for scanning
+ * @param source - Remote URL, local bare repository, directory or archive
+ * @param options - Clone options, archive limits and the allowed local root
+ * @returns Promise<RepositoryInfo> with the files' path, metadata, and cleanup function
+ */
+export async function openRepositorySource(
+  source: RepositorySource,
+  options: SourceOptions = {}
+): Promise<RepositoryInfo> {
+  if (source.type === 'remote') {
+    return cloneRepository(source.url, options);
+  }
+
+  const localPath = await resolveLocalPath(source.path, options.localRoot);
+
+  switch (source.type) {
+    case 'bare':
+      return cloneLocalRepository(localPath, options);
+    case 'directory':
+      return openLocalDirectory(localPath);
+    case 'archive':
+      return extractArchive(localPath, options);
+  }
+}
+
+/**
+ * Describe a source for messages and failed scan results
+ * @param source - Repository source
+ * @returns string - The URL, without any credentials it carries, or local path
+ */
+export function describeRepositorySource(source: RepositorySource): string {
+  return source.type === 'remote' ? stripUrlCredentials(source.url) : source.path;
+}
+
+/**
+ * Resolve a local path, following symlinks, and check that it stays inside the allowed root
+ */
+async function resolveLocalPath(localPath: string, localRoot?: string): Promise<string> {
+  const realPath = await fs.realpath(path.resolve(localPath)).catch(() => {
+    throw new Error(`Path does not exist: ${localPath}`);
+  });
+  if (!localRoot) return realPath;
+
+  const realRoot = await fs.realpath(path.resolve(localRoot));
+  if (realPath !== realRoot && !realPath.startsWith(realRoot + path.sep)) {
+    throw new Error(`Path is outside the allowed directory: ${localPath}`);
+  }
+  return realPath;
+}
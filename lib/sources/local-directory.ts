@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { calculateRepositoryStats, type RepositoryInfo } from '../git/repository';
+
+/**
+ * Opens a directory on the local disk for scanning in place
+ * Nothing is copied, so cleanup leaves the directory untouched
+ * @param directoryPath - Directory to scan
+ * @returns Promise<RepositoryInfo> with the directory's real path and metadata
+ */
+export async function openLocalDirectory(directoryPath: string): Promise<RepositoryInfo> {
+  const realPath = await fs.realpath(path.resolve(directoryPath)).catch(() => {
+    throw new Error(`Directory does not exist: ${directoryPath}`);
+  });
+
+  const stats = await fs.stat(realPath);
+  if (!stats.isDirectory()) {
+    throw new Error(`Not a directory: ${directoryPath}`);
+  }
+
+  const { size, fileCount } = await calculateRepositoryStats(realPath);
+
+  return {
+    path: realPath,
+    metadata: {
+      source: 'directory',
+      name: path.basename(realPath),
+      owner: 'local',
+      url: pathToFileURL(realPath).href,
+      size,
+      fileCount,
+      commitHash: 'unknown',
+      branch: 'unknown',
+      cloneTime: new Date()
+    },
+    // The directory belongs to the caller and is never removed
+    cleanup: async () => {}
+  };
+}
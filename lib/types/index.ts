@@ -14,6 +14,19 @@ export interface RepositoryFileMetadata {
   isSymbolicLink: boolean;
   isFile: boolean;
   extension: string;
+  // Format identified from the file's magic bytes, when traversal inspected it and it is not text
+  binary?: BinarySignature;
+}
+
+/**
+ * A file format recognised from the first bytes of a file
+ */
+export interface BinarySignature {
+  format: 'elf' | 'pe' | 'macho' | 'wasm' | 'java-class' | 'zip' | 'gzip' | 'bzip2' | 'xz' | '7z' | 'rar' | 'png' | 'jpeg' | 'gif' | 'pdf';
+  kind: 'executable' | 'bytecode' | 'archive' | 'image' | 'document';
+  description: string;
+  // Extensions files of this format normally carry ('' for none)
+  extensions: string[];
 }
 
 export interface RepositoryFile extends RepositoryFileMetadata {
@@ -80,6 +93,7 @@ export interface GenericScanResult {
       fileCount?: number;
       commitHash?: string;
       branch?: string;
+      ref?: string;
       cloneTime?: Date;
       [key: string]: unknown;
     };
@@ -118,6 +132,8 @@ export interface ScanResult {
       fileCount: number;
       commitHash: string;
       branch: string;
+      ref?: string;
+      refType?: string;
       cloneTime: Date;
     };
   };
@@ -127,6 +143,16 @@ export interface ScanResult {
   overallStatus: 'SAFE' | 'UNSAFE' | 'WARNING';
   scanTime: number;
   scannedFiles: number;
+  scanners?: ScannerRunSummary[];
+}
+
+export interface ScannerRunSummary {
+  name: string;
+  category: string;
+  threatCount: number;
+  duration: number;
+  success: boolean;
+  error?: string;
 }
 
 export interface ThreatScanner {
@@ -134,4 +160,6 @@ export interface ThreatScanner {
   category: string;
   subcategory: string;
   scan(files: RepositoryFile[]): Promise<ThreatResult[]>;
+  // Optional second pass over the combined findings of every scanner (e.g. to escalate severities)
+  refineThreats?(threats: ThreatResult[], files: RepositoryFile[]): Promise<ThreatResult[]>;
 }
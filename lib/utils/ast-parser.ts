@@ -1,5 +1,8 @@
 import { parse } from '@typescript-eslint/parser';
-import type { TSESTree } from '@typescript-eslint/types';
+import type { TSESTree, ParserOptions as TSESTreeParserOptions } from '@typescript-eslint/types';
+import { visitorKeys } from '@typescript-eslint/visitor-keys';
+import { COMPONENT_FILE_EXTENSIONS, extractScriptBlocks, isComponentFile, maskToScriptBlocks, type ScriptBlock } from './script-blocks';
+import type { RepositoryFile } from '../types';
 
 export interface ASTNode {
   type: string;
@@ -17,8 +20,26 @@ export interface ParseResult {
   nodes?: ASTNode[];
   error?: string;
   filePath: string;
+  /** Script blocks the program was built from, for Vue, Svelte, Astro and HTML files */
+  scriptBlocks?: ScriptBlock[];
+  /** Alternative parser settings that succeeded after the file's own settings failed */
+  fallback?: string;
+  /** Line of the syntax error when parsing failed */
+  errorLine?: number;
 }
 
+// JavaScript and TypeScript sources, including ES module and CommonJS variants
+export const SCRIPT_FILE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Every file parseAST accepts
+export const PARSEABLE_FILE_EXTENSIONS = [...SCRIPT_FILE_EXTENSIONS, ...COMPONENT_FILE_EXTENSIONS];
+
+// Sources larger than this are not re-parsed with fallback settings
+const MAX_FALLBACK_SOURCE_LENGTH = 512 * 1024;
+
+// Parse results of the files being scanned, released together with the file objects
+const fileParseResults = new WeakMap<RepositoryFile, { content: string; result: Promise<ParseResult> }>();
+
 export interface ParserOptions {
   ecmaVersion?: number;
   sourceType?: 'module' | 'script';
@@ -58,10 +79,8 @@ export async function parseAST(
     }
 
     // Determine file type and set appropriate parser options
-    const isTypeScript = filePath.endsWith('.ts') || filePath.endsWith('.tsx');
-    const isJavaScript = filePath.endsWith('.js') || filePath.endsWith('.jsx');
-    
-    if (!isTypeScript && !isJavaScript) {
+    const extension = getFileExtension(filePath);
+    if (!PARSEABLE_FILE_EXTENSIONS.includes(extension)) {
       return {
         success: false,
         error: `Unsupported file type: ${filePath}`,
@@ -69,35 +88,62 @@ export async function parseAST(
       };
     }
 
+    // Component and markup files are parsed from their script blocks, with the
+    // surrounding markup blanked so positions still match the original file
+    const scriptBlocks = isComponentFile(filePath) ? extractScriptBlocks(content, filePath) : undefined;
+    const source = scriptBlocks ? maskToScriptBlocks(content, scriptBlocks) : content;
+    const isJSX = scriptBlocks
+      ? scriptBlocks.some(block => block.lang === 'jsx' || block.lang === 'tsx')
+      : extension === '.tsx' || extension === '.jsx';
+    // CommonJS files run inside a function wrapper: top-level return is allowed
+    const isCommonJS = extension === '.cjs' || extension === '.cts';
+
     // Set default parser options
     const parserOptions: ParserOptions = {
       ecmaVersion: 2022,
-      sourceType: 'module',
+      sourceType: isCommonJS ? 'script' : 'module',
       ecmaFeatures: {
-        jsx: filePath.endsWith('.tsx') || filePath.endsWith('.jsx'),
-        globalReturn: false,
-        impliedStrict: true
+        jsx: isJSX,
+        globalReturn: isCommonJS,
+        impliedStrict: !isCommonJS
       },
       allowImportExportEverywhere: false,
       ...options
     };
 
-    // Parse the content
-    const ast = parse(content, {
-      parser: '@typescript-eslint/parser',
-      parserOptions: {
-        ecmaVersion: parserOptions.ecmaVersion,
-        sourceType: parserOptions.sourceType,
-        ecmaFeatures: parserOptions.ecmaFeatures,
-        allowImportExportEverywhere: parserOptions.allowImportExportEverywhere,
-        // Enable JSX parsing
-        jsx: filePath.endsWith('.tsx') || filePath.endsWith('.jsx'),
-        // Enable TypeScript features
-        project: undefined, // Don't require tsconfig.json
-        tsconfigRootDir: undefined,
-        extraFileExtensions: ['.ts', '.tsx', '.js', '.jsx']
+    // Parse the content, retrying with alternative settings before giving up
+    // (very large files get a single attempt, as every retry costs a full parse)
+    const attempts = source.length > MAX_FALLBACK_SOURCE_LENGTH
+      ? [{ options: parserOptions }]
+      : getFallbackAttempts(parserOptions);
+    let ast: TSESTree.Program | undefined;
+    let fallback: string | undefined;
+    let firstError: unknown;
+
+    for (const attempt of attempts) {
+      try {
+        ast = parse(source, {
+          ecmaVersion: attempt.options.ecmaVersion as TSESTreeParserOptions['ecmaVersion'],
+          sourceType: attempt.options.sourceType,
+          // Enable JSX parsing
+          ecmaFeatures: attempt.options.ecmaFeatures,
+          // Enable TypeScript features
+          project: undefined, // Don't require tsconfig.json
+          tsconfigRootDir: undefined,
+          extraFileExtensions: PARSEABLE_FILE_EXTENSIONS,
+          // Tolerate syntax TypeScript accepts but reports, e.g. misplaced decorators
+          ...(attempt.description && { allowInvalidAST: true })
+        });
+        fallback = attempt.description;
+        break;
+      } catch (error) {
+        firstError ??= error;
       }
-    });
+    }
+
+    if (!ast) {
+      throw firstError;
+    }
 
     // Convert to simplified AST nodes for easier analysis
     const nodes = convertToASTNodes(ast);
@@ -106,27 +152,72 @@ export async function parseAST(
       success: true,
       ast,
       nodes,
-      filePath
+      filePath,
+      ...(scriptBlocks && { scriptBlocks }),
+      ...(fallback && { fallback })
     };
 
   } catch (error) {
+    const errorLine = (error as { lineNumber?: unknown } | undefined)?.lineNumber;
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown parsing error',
-      filePath
+      filePath,
+      ...(typeof errorLine === 'number' && { errorLine })
     };
   }
 }
 
+/**
+ * Parse a repository file once per scan; every scanner asking for the same file
+ * object shares the result, which is re-parsed only if the file content changed
+ * @param file - Repository file to parse
+ * @returns Promise<ParseResult> - Parse result with AST or error information
+ */
+export function parseFile(file: RepositoryFile): Promise<ParseResult> {
+  const cached = fileParseResults.get(file);
+  if (cached?.content === file.content) return cached.result;
+
+  const result = parseAST(file.content, file.path);
+  fileParseResults.set(file, { content: file.content, result });
+  return result;
+}
+
+/**
+ * List the parser settings to try in order: the file's own settings, then the
+ * same settings tolerating invalid AST shapes, the other source type, and JSX toggled
+ */
+function getFallbackAttempts(options: ParserOptions): { options: ParserOptions; description?: string }[] {
+  const isModule = options.sourceType !== 'script';
+  const isJSX = options.ecmaFeatures?.jsx ?? false;
+  const otherSourceType = {
+    sourceType: isModule ? 'script' as const : 'module' as const,
+    ecmaFeatures: { ...options.ecmaFeatures, globalReturn: isModule, impliedStrict: !isModule }
+  };
+
+  return [
+    { options },
+    { options, description: 'invalid AST allowed' },
+    { options: { ...options, ...otherSourceType }, description: `sourceType ${otherSourceType.sourceType}` },
+    { options: { ...options, ecmaFeatures: { ...options.ecmaFeatures, jsx: !isJSX } }, description: `JSX ${isJSX ? 'off' : 'on'}` },
+    {
+      options: { ...options, ...otherSourceType, ecmaFeatures: { ...otherSourceType.ecmaFeatures, jsx: !isJSX } },
+      description: `sourceType ${otherSourceType.sourceType}, JSX ${isJSX ? 'off' : 'on'}`
+    }
+  ];
+}
+
 /**
  * Convert TSESTree AST to simplified AST nodes
+ * Every node reachable through the TSESTree visitor keys is emitted, in
+ * depth-first source order
  * @param ast - The parsed TSESTree AST
  * @returns ASTNode[] - Array of simplified AST nodes
  */
 function convertToASTNodes(ast: TSESTree.Program): ASTNode[] {
   const nodes: ASTNode[] = [];
-  
-  function traverse(node: TSESTree.Node) {
+
+  walkAST(ast, (node) => {
     const simplifiedNode: ASTNode = {
       type: node.type,
       ...(node.loc && {
@@ -140,158 +231,27 @@ function convertToASTNodes(ast: TSESTree.Program): ASTNode[] {
 
     // Add specific properties based on node type
     if (node.type === 'CallExpression') {
-      simplifiedNode.callee = (node as TSESTree.CallExpression).callee;
-      simplifiedNode.arguments = (node as TSESTree.CallExpression).arguments;
+      simplifiedNode.callee = node.callee;
+      simplifiedNode.arguments = node.arguments;
     } else if (node.type === 'VariableDeclaration') {
-      simplifiedNode.declarations = (node as TSESTree.VariableDeclaration).declarations;
-      simplifiedNode.kind = (node as TSESTree.VariableDeclaration).kind;
+      simplifiedNode.declarations = node.declarations;
+      simplifiedNode.kind = node.kind;
     } else if (node.type === 'FunctionDeclaration') {
-      simplifiedNode.id = (node as TSESTree.FunctionDeclaration).id;
-      simplifiedNode.params = (node as TSESTree.FunctionDeclaration).params;
-      simplifiedNode.body = (node as TSESTree.FunctionDeclaration).body;
+      simplifiedNode.id = node.id;
+      simplifiedNode.params = node.params;
+      simplifiedNode.body = node.body;
     } else if (node.type === 'ImportDeclaration') {
-      simplifiedNode.source = (node as TSESTree.ImportDeclaration).source;
-      simplifiedNode.specifiers = (node as TSESTree.ImportDeclaration).specifiers;
+      simplifiedNode.source = node.source;
+      simplifiedNode.specifiers = node.specifiers;
     } else if (node.type === 'NewExpression') {
-      simplifiedNode.callee = (node as TSESTree.NewExpression).callee;
-      simplifiedNode.arguments = (node as TSESTree.NewExpression).arguments;
+      simplifiedNode.callee = node.callee;
+      simplifiedNode.arguments = node.arguments;
     } else if (node.type === 'ImportExpression') {
-      simplifiedNode.source = (node as TSESTree.ImportExpression).source;
+      simplifiedNode.source = node.source;
     }
 
     nodes.push(simplifiedNode);
-
-    // Traverse child nodes recursively
-    traverseChildren(node);
-  }
-
-  function traverseChildren(node: TSESTree.Node) {
-    // Handle different node types and their children
-    switch (node.type) {
-      case 'Program':
-        const program = node as TSESTree.Program;
-        if (program.body) {
-          program.body.forEach(traverse);
-        }
-        break;
-        
-      case 'FunctionDeclaration':
-        const funcDecl = node as TSESTree.FunctionDeclaration;
-        if (funcDecl.id) traverse(funcDecl.id);
-        if (funcDecl.params) funcDecl.params.forEach(traverse);
-        if (funcDecl.body) traverse(funcDecl.body);
-        break;
-        
-      case 'VariableDeclaration':
-        const varDecl = node as TSESTree.VariableDeclaration;
-        if (varDecl.declarations) varDecl.declarations.forEach(traverse);
-        break;
-        
-      case 'VariableDeclarator':
-        const varDeclarator = node as TSESTree.VariableDeclarator;
-        if (varDeclarator.id) traverse(varDeclarator.id);
-        if (varDeclarator.init) traverse(varDeclarator.init);
-        break;
-        
-      case 'CallExpression':
-        const callExpr = node as TSESTree.CallExpression;
-        if (callExpr.callee) traverse(callExpr.callee);
-        if (callExpr.arguments) callExpr.arguments.forEach(traverse);
-        break;
-        
-      case 'NewExpression':
-        const newExpr = node as TSESTree.NewExpression;
-        if (newExpr.callee) traverse(newExpr.callee);
-        if (newExpr.arguments) newExpr.arguments.forEach(traverse);
-        break;
-        
-      case 'ExpressionStatement':
-        const exprStmt = node as TSESTree.ExpressionStatement;
-        if (exprStmt.expression) traverse(exprStmt.expression);
-        break;
-        
-      case 'BlockStatement':
-        const blockStmt = node as TSESTree.BlockStatement;
-        if (blockStmt.body) blockStmt.body.forEach(traverse);
-        break;
-        
-      case 'ReturnStatement':
-        const returnStmt = node as TSESTree.ReturnStatement;
-        if (returnStmt.argument) traverse(returnStmt.argument);
-        break;
-        
-      case 'Identifier':
-        // Leaf node, no children
-        break;
-        
-      case 'Literal':
-        // Leaf node, no children
-        break;
-        
-      case 'TemplateLiteral':
-        const templateLit = node as TSESTree.TemplateLiteral;
-        if (templateLit.quasis) templateLit.quasis.forEach(traverse);
-        if (templateLit.expressions) templateLit.expressions.forEach(traverse);
-        break;
-        
-      case 'BinaryExpression':
-        const binaryExpr = node as TSESTree.BinaryExpression;
-        if (binaryExpr.left) traverse(binaryExpr.left);
-        if (binaryExpr.right) traverse(binaryExpr.right);
-        break;
-        
-      case 'ImportDeclaration':
-        const importDecl = node as TSESTree.ImportDeclaration;
-        if (importDecl.source) traverse(importDecl.source);
-        if (importDecl.specifiers) importDecl.specifiers.forEach(traverse);
-        break;
-        
-      case 'ImportExpression':
-        const importExpr = node as TSESTree.ImportExpression;
-        if (importExpr.source) traverse(importExpr.source);
-        break;
-        
-      case 'JSXElement':
-        const jsxElement = node as TSESTree.JSXElement;
-        if (jsxElement.openingElement) traverse(jsxElement.openingElement);
-        if (jsxElement.children) jsxElement.children.forEach(traverse);
-        if (jsxElement.closingElement) traverse(jsxElement.closingElement);
-        break;
-        
-      case 'JSXExpressionContainer':
-        const jsxExpr = node as TSESTree.JSXExpressionContainer;
-        if (jsxExpr.expression) traverse(jsxExpr.expression);
-        break;
-        
-      case 'ArrowFunctionExpression':
-        const arrowFunc = node as TSESTree.ArrowFunctionExpression;
-        if (arrowFunc.params) arrowFunc.params.forEach(traverse);
-        if (arrowFunc.body) traverse(arrowFunc.body);
-        break;
-        
-      default:
-        // For any other node types, try to traverse common properties
-        if ('body' in node && Array.isArray((node as { body: unknown[] }).body)) {
-          (node as { body: unknown[] }).body.forEach((item) => traverse(item as TSESTree.Node));
-        }
-        if ('declarations' in node && Array.isArray((node as { declarations: unknown[] }).declarations)) {
-          (node as { declarations: unknown[] }).declarations.forEach((item) => traverse(item as TSESTree.Node));
-        }
-        if ('arguments' in node && Array.isArray((node as { arguments: unknown[] }).arguments)) {
-          (node as { arguments: unknown[] }).arguments.forEach((item) => traverse(item as TSESTree.Node));
-        }
-        if ('params' in node && Array.isArray((node as { params: unknown[] }).params)) {
-          (node as { params: unknown[] }).params.forEach((item) => traverse(item as TSESTree.Node));
-        }
-        if ('specifiers' in node && Array.isArray((node as { specifiers: unknown[] }).specifiers)) {
-          (node as { specifiers: unknown[] }).specifiers.forEach((item) => traverse(item as TSESTree.Node));
-        }
-        break;
-    }
-  }
-
-  // Start traversal from the root
-  traverse(ast);
+  });
 
   return nodes;
 }
@@ -317,3 +277,119 @@ export function containsPatterns(nodes: ASTNode[], patterns: string[]): boolean
     nodes.some(node => node.type === pattern)
   );
 }
+
+/**
+ * Walk every node of a TSESTree AST depth-first in source order
+ * Children are found through the TSESTree visitor keys; node types without
+ * visitor keys fall back to every property that holds a node
+ * @param root - Node to start walking from
+ * @param visit - Callback invoked with each node, its parent and the live ancestor stack (root first)
+ */
+export function walkAST(
+  root: TSESTree.Node,
+  visit: (node: TSESTree.Node, parent: TSESTree.Node | null, ancestors: readonly TSESTree.Node[]) => void
+): void {
+  const ancestors: TSESTree.Node[] = [];
+
+  function walk(node: TSESTree.Node) {
+    visit(node, ancestors[ancestors.length - 1] ?? null, ancestors);
+    ancestors.push(node);
+
+    for (const key of getChildKeys(node)) {
+      const value = (node as unknown as Record<string, unknown>)[key];
+
+      if (Array.isArray(value)) {
+        value.forEach((item) => {
+          if (isASTNode(item)) walk(item);
+        });
+      } else if (isASTNode(value)) {
+        walk(value);
+      }
+    }
+
+    ancestors.pop();
+  }
+
+  walk(root);
+}
+
+const NON_CHILD_KEYS = new Set(['parent', 'loc', 'range', 'tokens', 'comments']);
+
+function getChildKeys(node: TSESTree.Node): readonly string[] {
+  return visitorKeys[node.type] ?? Object.keys(node).filter(key => !NON_CHILD_KEYS.has(key));
+}
+
+function isASTNode(value: unknown): value is TSESTree.Node {
+  return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+}
+
+/**
+ * Get the string value of a node when it is statically known
+ * @param node - String literal or template literal without expressions
+ * @returns string | undefined - The literal string, if any
+ */
+export function getStaticStringValue(node: TSESTree.Node | null | undefined): string | undefined {
+  if (!node) return undefined;
+
+  if (node.type === 'Literal' && typeof node.value === 'string') {
+    return node.value;
+  }
+
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+    return node.quasis.map(quasi => quasi.value.cooked ?? quasi.value.raw).join('');
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the property name of a member expression when it is statically known
+ * Handles both `obj.name` and `obj['name']`
+ * @param node - Member expression to inspect
+ * @returns string | undefined - The property name, if any
+ */
+export function getStaticPropertyName(node: TSESTree.MemberExpression): string | undefined {
+  if (!node.computed && node.property.type === 'Identifier') {
+    return node.property.name;
+  }
+
+  if (node.computed) {
+    return getStaticStringValue(node.property);
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the module name from a `require('module')` call
+ * @param node - Node that may be a require call
+ * @returns string | undefined - The required module name, if the node is a static require
+ */
+export function getRequiredModule(node: TSESTree.Node | null | undefined): string | undefined {
+  if (
+    node &&
+    node.type === 'CallExpression' &&
+    node.callee.type === 'Identifier' &&
+    node.callee.name === 'require' &&
+    node.arguments.length > 0
+  ) {
+    return getStaticStringValue(node.arguments[0]);
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether parseAST supports a file
+ * @param filePath - File path
+ * @returns boolean - True for JavaScript/TypeScript sources and files with script blocks
+ */
+export function isParseableFile(filePath: string): boolean {
+  return PARSEABLE_FILE_EXTENSIONS.includes(getFileExtension(filePath));
+}
+
+function getFileExtension(filePath: string): string {
+  const basename = filePath.slice(filePath.lastIndexOf('/') + 1);
+  const dot = basename.lastIndexOf('.');
+  return dot === -1 ? '' : basename.slice(dot).toLowerCase();
+}
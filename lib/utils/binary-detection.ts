@@ -0,0 +1,136 @@
+import type { BinarySignature } from '../types';
+
+// Bytes read from each file to identify it
+export const BINARY_HEADER_LENGTH = 64;
+
+// Extensions of native code loaded by Node.js as an addon
+const NODE_ADDON_EXTENSIONS = ['.node'];
+
+const SIGNATURES: { magic: number[]; signature: BinarySignature }[] = [
+  {
+    magic: [0x7f, 0x45, 0x4c, 0x46],
+    signature: { format: 'elf', kind: 'executable', description: 'ELF executable or shared library', extensions: ['', '.so', '.o', '.bin', '.elf', '.out', ...NODE_ADDON_EXTENSIONS] }
+  },
+  {
+    magic: [0x00, 0x61, 0x73, 0x6d],
+    signature: { format: 'wasm', kind: 'bytecode', description: 'WebAssembly module', extensions: ['.wasm'] }
+  },
+  { magic: [0x50, 0x4b, 0x03, 0x04], signature: { format: 'zip', kind: 'archive', description: 'ZIP archive', extensions: ['.zip', '.jar', '.apk', '.whl', '.nupkg', '.vsix', '.xpi', '.docx', '.xlsx', '.pptx', '.odt'] } },
+  { magic: [0x1f, 0x8b], signature: { format: 'gzip', kind: 'archive', description: 'gzip archive', extensions: ['.gz', '.tgz'] } },
+  { magic: [0x42, 0x5a, 0x68], signature: { format: 'bzip2', kind: 'archive', description: 'bzip2 archive', extensions: ['.bz2', '.tbz2'] } },
+  { magic: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00], signature: { format: 'xz', kind: 'archive', description: 'xz archive', extensions: ['.xz', '.txz'] } },
+  { magic: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], signature: { format: '7z', kind: 'archive', description: '7-Zip archive', extensions: ['.7z'] } },
+  { magic: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07], signature: { format: 'rar', kind: 'archive', description: 'RAR archive', extensions: ['.rar'] } },
+  { magic: [0x89, 0x50, 0x4e, 0x47], signature: { format: 'png', kind: 'image', description: 'PNG image', extensions: ['.png'] } },
+  { magic: [0xff, 0xd8, 0xff], signature: { format: 'jpeg', kind: 'image', description: 'JPEG image', extensions: ['.jpg', '.jpeg'] } },
+  { magic: [0x47, 0x49, 0x46, 0x38], signature: { format: 'gif', kind: 'image', description: 'GIF image', extensions: ['.gif'] } },
+  { magic: [0x25, 0x50, 0x44, 0x46], signature: { format: 'pdf', kind: 'document', description: 'PDF document', extensions: ['.pdf'] } }
+];
+
+const PE_SIGNATURE: BinarySignature = {
+  format: 'pe',
+  kind: 'executable',
+  description: 'Windows PE executable or DLL',
+  extensions: ['.exe', '.dll', '.sys', '.scr', '.ocx', '.cpl', '.efi', '.com', ...NODE_ADDON_EXTENSIONS]
+};
+
+const MACHO_SIGNATURE: BinarySignature = {
+  format: 'macho',
+  kind: 'executable',
+  description: 'Mach-O executable or library',
+  extensions: ['', '.dylib', '.so', '.bundle', '.o', ...NODE_ADDON_EXTENSIONS]
+};
+
+const JAVA_CLASS_SIGNATURE: BinarySignature = {
+  format: 'java-class',
+  kind: 'bytecode',
+  description: 'Java class file',
+  extensions: ['.class']
+};
+
+// Mach-O magics in both byte orders, 32 and 64 bit
+const MACHO_MAGICS = [0xfeedface, 0xfeedfacf, 0xcefaedfe, 0xcffaedfe];
+const FAT_MAGIC = 0xcafebabe;
+
+/**
+ * Identify a file format from the first bytes of a file
+ * Only the header is inspected; nothing is loaded or executed
+ * @param header - First bytes of the file (at least BINARY_HEADER_LENGTH when available)
+ * @returns BinarySignature | undefined - The recognised format, or undefined for text and unknown data
+ */
+export function identifyBinary(header: Buffer): BinarySignature | undefined {
+  if (header.length >= 2 && header[0] === 0x4d && header[1] === 0x5a) {
+    return isPortableExecutable(header) ? PE_SIGNATURE : undefined;
+  }
+
+  if (header.length >= 8) {
+    const magic = header.readUInt32BE(0);
+    if (MACHO_MAGICS.includes(magic)) return MACHO_SIGNATURE;
+    // 0xcafebabe starts both universal Mach-O binaries and Java classes: the
+    // next word is an architecture count for the former and a version for the latter
+    if (magic === FAT_MAGIC) {
+      return header.readUInt32BE(4) < 45 ? MACHO_SIGNATURE : JAVA_CLASS_SIGNATURE;
+    }
+  }
+
+  const match = SIGNATURES.find(({ magic }) =>
+    header.length >= magic.length && magic.every((byte, index) => header[index] === byte)
+  );
+  return match?.signature;
+}
+
+/**
+ * Check whether a file's extension disagrees with the format of its contents
+ * e.g. an ELF binary named `logo.png` or `index.js`
+ * @param signature - Format identified from the file's header
+ * @param filePath - File path
+ * @returns boolean - True when the extension is not one the format normally carries
+ */
+export function isExtensionMismatch(signature: BinarySignature, filePath: string): boolean {
+  return !signature.extensions.includes(getBinaryExtension(filePath));
+}
+
+/**
+ * Check whether a format runs as native code
+ * @param signature - Format identified from the file's header
+ * @returns boolean - True for ELF, PE and Mach-O files
+ */
+export function isNativeExecutable(signature: BinarySignature): boolean {
+  return signature.kind === 'executable';
+}
+
+/**
+ * Check whether a binary's contents should be kept from the text scanners
+ * Native code is never decoded; other formats are read as text when the file claims a
+ * text extension, so a polyglot such as a GIF header on a `.js` file is still code-scanned
+ * @param signature - Format identified from the file's header
+ * @param filePath - File path
+ * @param textExtensions - Extensions, without the dot, of files the scanners read as text
+ * @returns boolean - True when the file should be scanned without its contents
+ */
+export function isOpaqueBinary(signature: BinarySignature, filePath: string, textExtensions: string[]): boolean {
+  return isNativeExecutable(signature) || !textExtensions.includes(getBinaryExtension(filePath).slice(1));
+}
+
+/**
+ * Get the extension used to compare a file against its format
+ * Versioned shared libraries (`libfoo.so.1.2`) count as `.so`
+ */
+function getBinaryExtension(filePath: string): string {
+  const name = filePath.split(/[\\/]/).pop()!.toLowerCase();
+  if (/\.so(?:\.\d+)+$/.test(name)) return '.so';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot) : '';
+}
+
+/**
+ * A DOS `MZ` header is only a PE file when its `e_lfanew` field points at a `PE\0\0` header
+ * Headers too short to reach it are accepted, as MZ alone rarely starts a text file
+ */
+function isPortableExecutable(header: Buffer): boolean {
+  if (header.length < 0x40) return header.length >= 0x20;
+
+  const peOffset = header.readUInt32LE(0x3c);
+  if (peOffset + 4 > header.length) return peOffset < 0x10000;
+  return header.readUInt32BE(peOffset) === 0x50450000;
+}
@@ -0,0 +1,37 @@
+/**
+ * Extract numbered source lines surrounding a finding for threat reporting
+ * @param content - Full file content
+ * @param line - 1-based line of the finding
+ * @param linesBefore - Number of lines to include before the finding
+ * @param linesAfter - Number of lines to include after the finding
+ * @returns string - Numbered code context, or an empty string if the line is unknown
+ */
+export function extractCodeContext(
+  content: string,
+  line: number | undefined,
+  linesBefore = 2,
+  linesAfter = 1
+): string {
+  if (!line || line < 1) {
+    return '';
+  }
+
+  const lines = content.split('\n');
+  const contextStart = Math.max(0, line - 1 - linesBefore);
+  const contextEnd = Math.min(lines.length, line + linesAfter);
+
+  return lines.slice(contextStart, contextEnd).map((text, index) => {
+    const lineNumber = contextStart + index + 1;
+    return `${lineNumber}: ${text.trim()}`;
+  }).join('\n');
+}
+
+/**
+ * Truncate a value for inclusion in threat details
+ * @param value - Text to truncate
+ * @param maxLength - Maximum length before truncation
+ * @returns string - The original or truncated text
+ */
+export function truncateSample(value: string, maxLength = 200): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength)}...` : value;
+}
@@ -0,0 +1,319 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { unwrapExpression } from './module-bindings';
+
+/**
+ * A value known at analysis time
+ */
+export type ConstantValue = string | number | boolean | ConstantValue[];
+
+export interface FoldingContext {
+  /**
+   * Get the constant value an identifier holds
+   * @returns ConstantValue | undefined - undefined when the identifier is not a known constant
+   */
+  foldIdentifier(identifier: TSESTree.Identifier, depth: number): ConstantValue | undefined;
+  /**
+   * Get the global an expression refers to, e.g. `atob` or `String.fromCharCode`
+   * @returns string | undefined - undefined when the expression is not a global
+   */
+  resolveGlobal(node: TSESTree.Node, depth: number): string | undefined;
+}
+
+// Guards against deeply nested or self-referencing expressions
+export const MAX_FOLDING_DEPTH = 32;
+
+// Folded strings longer than this are abandoned (e.g. `'a'.repeat(1e9)`)
+const MAX_FOLDED_LENGTH = 100_000;
+
+const BUFFER_ENCODINGS = new Set(['utf8', 'utf-8', 'ascii', 'latin1', 'binary', 'base64', 'base64url', 'hex', 'ucs2', 'utf16le']);
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const NUMBER_OPERATORS = new Map<string, (a: number, b: number) => number>([
+  ['-', (a, b) => a - b],
+  ['*', (a, b) => a * b],
+  ['/', (a, b) => a / b],
+  ['%', (a, b) => a % b],
+  ['^', (a, b) => a ^ b],
+  ['|', (a, b) => a | b],
+  ['&', (a, b) => a & b],
+  ['<<', (a, b) => a << b],
+  ['>>', (a, b) => a >> b],
+  ['>>>', (a, b) => a >>> b]
+]);
+
+/**
+ * Partially evaluate an expression to the value it always produces
+ * Folds literals, concatenation and arithmetic, template literals, arrays and
+ * indexing, `String.fromCharCode`, `atob`, `decodeURIComponent`,
+ * `Buffer.from(...).toString()` and the string/array methods used to assemble
+ * names at runtime (split, reverse, join, concat, slice, replace...)
+ * @param node - Expression to fold
+ * @param context - Identifier and global lookups of the enclosing program
+ * @param depth - Current recursion depth
+ * @returns ConstantValue | undefined - undefined when any part is not statically known
+ */
+export function foldConstant(node: TSESTree.Node, context: FoldingContext, depth = 0): ConstantValue | undefined {
+  if (depth > MAX_FOLDING_DEPTH) return undefined;
+  const expression = unwrapExpression(node);
+  const fold = (child: TSESTree.Node) => foldConstant(child, context, depth + 1);
+
+  switch (expression.type) {
+    case 'Literal':
+      return typeof expression.value === 'string' || typeof expression.value === 'number' || typeof expression.value === 'boolean'
+        ? expression.value
+        : undefined;
+
+    case 'Identifier':
+      return context.foldIdentifier(expression, depth + 1);
+
+    case 'TemplateLiteral': {
+      let result = expression.quasis[0].value.cooked ?? expression.quasis[0].value.raw;
+      for (let i = 0; i < expression.expressions.length; i++) {
+        const part = fold(expression.expressions[i]);
+        if (part === undefined) return undefined;
+        const quasi = expression.quasis[i + 1];
+        result += toStringValue(part) + (quasi.value.cooked ?? quasi.value.raw);
+      }
+      return limitLength(result);
+    }
+
+    case 'BinaryExpression': {
+      const left = fold(expression.left);
+      const right = left === undefined ? undefined : fold(expression.right);
+      if (left === undefined || right === undefined) return undefined;
+
+      if (expression.operator === '+') {
+        return typeof left === 'number' && typeof right === 'number'
+          ? left + right
+          : limitLength(toStringValue(left) + toStringValue(right));
+      }
+      const operator = NUMBER_OPERATORS.get(expression.operator);
+      return operator && typeof left === 'number' && typeof right === 'number' ? operator(left, right) : undefined;
+    }
+
+    case 'UnaryExpression': {
+      const argument = fold(expression.argument);
+      if (typeof argument !== 'number') return undefined;
+      if (expression.operator === '-') return -argument;
+      if (expression.operator === '+') return argument;
+      if (expression.operator === '~') return ~argument;
+      return undefined;
+    }
+
+    case 'ConditionalExpression': {
+      const test = fold(expression.test);
+      return test === undefined ? undefined : fold(isTruthy(test) ? expression.consequent : expression.alternate);
+    }
+
+    case 'ArrayExpression': {
+      const elements: ConstantValue[] = [];
+      for (const element of expression.elements) {
+        if (!element) return undefined;
+        if (element.type === 'SpreadElement') {
+          // [...'abc'] spreads characters, [...array] spreads elements
+          const spread = fold(element.argument);
+          if (typeof spread === 'string') elements.push(...Array.from(spread));
+          else if (Array.isArray(spread)) elements.push(...spread);
+          else return undefined;
+        } else {
+          const value = fold(element);
+          if (value === undefined) return undefined;
+          elements.push(value);
+        }
+      }
+      return elements;
+    }
+
+    case 'MemberExpression': {
+      const object = fold(expression.object);
+      if (typeof object !== 'string' && !Array.isArray(object)) return undefined;
+
+      const property = expression.computed
+        ? fold(expression.property)
+        : expression.property.type === 'Identifier' ? expression.property.name : undefined;
+
+      if (property === 'length') return object.length;
+      const index = typeof property === 'number' ? property : typeof property === 'string' && /^\d+$/.test(property) ? Number(property) : undefined;
+      return index === undefined ? undefined : object[index];
+    }
+
+    case 'CallExpression':
+      return foldCall(expression, context, depth);
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert a folded value to a string the way JavaScript does
+ * @param value - Folded value
+ * @returns string - String conversion of the value
+ */
+export function toStringValue(value: ConstantValue): string {
+  return Array.isArray(value) ? value.map(toStringValue).join(',') : String(value);
+}
+
+/**
+ * Fold calls to decoding globals and to methods of folded strings, arrays and buffers
+ */
+function foldCall(node: TSESTree.CallExpression, context: FoldingContext, depth: number): ConstantValue | undefined {
+  const fold = (child: TSESTree.Node) => foldConstant(child, context, depth + 1);
+  const args: ConstantValue[] = [];
+  for (const argument of node.arguments) {
+    const value = argument.type === 'SpreadElement' ? fold(argument.argument) : fold(argument);
+    if (value === undefined) return undefined;
+    if (argument.type === 'SpreadElement') {
+      if (!Array.isArray(value)) return undefined;
+      args.push(...value);
+    } else {
+      args.push(value);
+    }
+  }
+
+  const global = context.resolveGlobal(node.callee, depth + 1);
+  if (global) return foldGlobalCall(global, args);
+
+  const callee = unwrapExpression(node.callee);
+  if (callee.type !== 'MemberExpression') return undefined;
+  const method = callee.computed
+    ? fold(callee.property)
+    : callee.property.type === 'Identifier' ? callee.property.name : undefined;
+  if (typeof method !== 'string') return undefined;
+
+  // Buffer.from(data, encoding).toString(encoding)
+  if (method === 'toString') {
+    const buffer = foldBuffer(callee.object, context, depth + 1);
+    if (buffer) {
+      const encoding = args.length > 0 ? args[0] : 'utf8';
+      return typeof encoding === 'string' && BUFFER_ENCODINGS.has(encoding)
+        ? limitLength(buffer.toString(encoding as BufferEncoding))
+        : undefined;
+    }
+  }
+
+  const receiver = fold(callee.object);
+  if (typeof receiver === 'string') return foldStringMethod(receiver, method, args);
+  if (Array.isArray(receiver)) return foldArrayMethod(receiver, method, args);
+  if (typeof receiver === 'number' && method === 'toString') {
+    const radix = args.length > 0 ? args[0] : 10;
+    return typeof radix === 'number' && radix >= 2 && radix <= 36 ? receiver.toString(radix) : undefined;
+  }
+  return undefined;
+}
+
+function foldGlobalCall(name: string, args: ConstantValue[]): ConstantValue | undefined {
+  switch (name) {
+    case 'String':
+      return args.length > 0 ? toStringValue(args[0]) : '';
+
+    case 'String.fromCharCode':
+      return args.every((code): code is number => typeof code === 'number')
+        ? limitLength(String.fromCharCode(...args))
+        : undefined;
+
+    case 'atob': {
+      const encoded = typeof args[0] === 'string' ? args[0].replace(/\s/g, '') : undefined;
+      return encoded !== undefined && BASE64_PATTERN.test(encoded)
+        ? Buffer.from(encoded, 'base64').toString('latin1')
+        : undefined;
+    }
+
+    case 'decodeURIComponent':
+    case 'decodeURI':
+    case 'unescape':
+      if (typeof args[0] !== 'string') return undefined;
+      try {
+        return name === 'unescape' ? unescape(args[0]) : name === 'decodeURI' ? decodeURI(args[0]) : decodeURIComponent(args[0]);
+      } catch {
+        return undefined;
+      }
+
+    default:
+      return undefined;
+  }
+}
+
+function foldStringMethod(value: string, method: string, args: ConstantValue[]): ConstantValue | undefined {
+  const [first, second] = args;
+  const isNumberOrMissing = (arg: ConstantValue | undefined) => arg === undefined || typeof arg === 'number';
+
+  switch (method) {
+    case 'split':
+      return typeof first === 'string' ? value.split(first) : undefined;
+    case 'concat':
+      return limitLength(value + args.map(toStringValue).join(''));
+    case 'slice':
+    case 'substring':
+    case 'substr':
+      if (!isNumberOrMissing(first) || !isNumberOrMissing(second)) return undefined;
+      return value[method]((first as number | undefined) ?? 0, second as number | undefined);
+    case 'charAt':
+      return isNumberOrMissing(first) ? value.charAt((first as number | undefined) ?? 0) : undefined;
+    case 'replace':
+    case 'replaceAll':
+      return typeof first === 'string' && typeof second === 'string' ? limitLength(value[method](first, () => second)) : undefined;
+    case 'repeat':
+      return typeof first === 'number' && first >= 0 && value.length * first <= MAX_FOLDED_LENGTH ? value.repeat(first) : undefined;
+    case 'toLowerCase':
+    case 'toUpperCase':
+    case 'trim':
+    case 'toString':
+      return value[method]();
+    default:
+      return undefined;
+  }
+}
+
+function foldArrayMethod(value: ConstantValue[], method: string, args: ConstantValue[]): ConstantValue | undefined {
+  const [first, second] = args;
+
+  switch (method) {
+    case 'join':
+      return first === undefined || typeof first === 'string'
+        ? limitLength(value.map(toStringValue).join(first ?? ','))
+        : undefined;
+    case 'reverse':
+      return [...value].reverse();
+    case 'concat':
+      return value.concat(...args);
+    case 'slice':
+      return (first === undefined || typeof first === 'number') && (second === undefined || typeof second === 'number')
+        ? value.slice(first, second)
+        : undefined;
+    case 'toString':
+      return toStringValue(value);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Fold `Buffer.from(string, encoding)` and `Buffer.from([bytes])` to the buffer they create
+ */
+function foldBuffer(node: TSESTree.Node, context: FoldingContext, depth: number): Buffer | undefined {
+  const expression = unwrapExpression(node);
+  if (expression.type !== 'CallExpression' || context.resolveGlobal(expression.callee, depth + 1) !== 'Buffer.from') {
+    return undefined;
+  }
+
+  const [data, encoding] = expression.arguments.map(argument => foldConstant(argument, context, depth + 1));
+  if (Array.isArray(data)) {
+    return data.every(byte => typeof byte === 'number') ? Buffer.from(data as number[]) : undefined;
+  }
+  if (typeof data !== 'string') return undefined;
+
+  const bufferEncoding = expression.arguments.length > 1 ? encoding : 'utf8';
+  return typeof bufferEncoding === 'string' && BUFFER_ENCODINGS.has(bufferEncoding)
+    ? Buffer.from(data, bufferEncoding as BufferEncoding)
+    : undefined;
+}
+
+function isTruthy(value: ConstantValue): boolean {
+  return Array.isArray(value) || Boolean(value);
+}
+
+function limitLength(value: string): string | undefined {
+  return value.length > MAX_FOLDED_LENGTH ? undefined : value;
+}
@@ -0,0 +1,36 @@
+/**
+ * Calculate the Shannon entropy of a string in bits per character
+ * Plain source code sits around 4.5, minified code around 5.3 and
+ * base64/encrypted payloads approach 6
+ * @param value - Text to measure
+ * @returns number - Entropy in bits per character (0 for empty strings)
+ */
+export function calculateShannonEntropy(value: string): number {
+  if (value.length === 0) {
+    return 0;
+  }
+
+  const frequencies = new Map<string, number>();
+  for (const character of value) {
+    frequencies.set(character, (frequencies.get(character) || 0) + 1);
+  }
+
+  const length = Array.from(frequencies.values()).reduce((sum, count) => sum + count, 0);
+  let entropy = 0;
+
+  for (const count of frequencies.values()) {
+    const probability = count / length;
+    entropy -= probability * Math.log2(probability);
+  }
+
+  return entropy;
+}
+
+/**
+ * Round an entropy value for reporting
+ * @param entropy - Entropy in bits per character
+ * @returns number - Entropy rounded to two decimals
+ */
+export function roundEntropy(entropy: number): number {
+  return Math.round(entropy * 100) / 100;
+}
@@ -28,6 +28,15 @@ const CODE_EXTENSIONS: Record<string, { language: string; priority: 'high' | 'me
   'tsx': { language: 'TypeScript React', priority: 'high' },
   'js': { language: 'JavaScript', priority: 'high' },
   'jsx': { language: 'JavaScript React', priority: 'high' },
+  'mts': { language: 'TypeScript', priority: 'high' },
+  'cts': { language: 'TypeScript', priority: 'high' },
+  'mjs': { language: 'JavaScript', priority: 'high' },
+  'cjs': { language: 'JavaScript', priority: 'high' },
+  'vue': { language: 'Vue', priority: 'high' },
+  'svelte': { language: 'Svelte', priority: 'high' },
+  'astro': { language: 'Astro', priority: 'high' },
+  'html': { language: 'HTML', priority: 'high' },
+  'htm': { language: 'HTML', priority: 'high' },
   
   // Medium priority - Other code files
   'py': { language: 'Python', priority: 'medium' },
@@ -59,7 +68,9 @@ const CONFIG_EXTENSIONS: Record<string, string> = {
   'cfg': 'Configuration',
   'conf': 'Configuration',
   'xml': 'XML',
-  'properties': 'Properties'
+  'properties': 'Properties',
+  'gyp': 'GYP',
+  'gypi': 'GYP'
 };
 
 const DOCUMENT_EXTENSIONS: Record<string, string> = {
@@ -259,7 +270,7 @@ export function getCodeFiles(files: RepositoryFileMetadata[]): RepositoryFileMet
 /**
  * Gets all dependency-related files
  */
-export function getDependencyFiles(files: RepositoryFileMetadata[]): RepositoryFileMetadata[] {
+export function getDependencyFiles<T extends RepositoryFileMetadata>(files: T[]): T[] {
   return files.filter(file => {
     const fileType = identifyFileType(file.relativePath);
     return fileType.isDependencyFile || fileType.isLockFile;
@@ -1,6 +1,7 @@
 import { promises as fs } from 'fs';
 import { join, resolve, relative, extname } from 'path';
 import { RepositoryFileMetadata } from '../types';
+import { BINARY_HEADER_LENGTH, identifyBinary } from './binary-detection';
 
 export interface TraversalOptions {
   maxDepth?: number;
@@ -8,6 +9,8 @@ export interface TraversalOptions {
   fileExtensions?: string[];
   maxFileSize?: number;
   followSymlinks?: boolean;
+  // Identify binaries by their magic bytes, including files excluded by fileExtensions
+  detectBinaries?: boolean;
 }
 
 export interface TraversalResult {
@@ -15,6 +18,8 @@ export interface TraversalResult {
   directories: RepositoryFileMetadata[];
   errors: string[];
   totalSize: number;
+  // Files whose header matched a binary format (only with detectBinaries)
+  binaries?: RepositoryFileMetadata[];
 }
 
 
@@ -81,14 +86,16 @@ export async function traverseDirectory(
 ): Promise<TraversalResult> {
   const {
     maxDepth = 10,
-    followSymlinks = false
+    followSymlinks = false,
+    detectBinaries = false
   } = options;
 
   const result: TraversalResult = {
     files: [],
     directories: [],
     errors: [],
-    totalSize: 0
+    totalSize: 0,
+    ...(detectBinaries && { binaries: [] })
   };
 
   const basePath = resolve(rootPath);
@@ -126,9 +133,19 @@ export async function traverseDirectory(
                 result.errors.push(`Failed to follow symlink ${fullPath}: ${error}`);
               }
             }
-          } else if (metadata.isFile && shouldIncludeFile(metadata, options)) {
-            result.files.push(metadata);
-            result.totalSize += metadata.size;
+          } else if (metadata.isFile) {
+            // Binaries are identified whatever their extension, since the extension may lie
+            if (detectBinaries && shouldIncludeFile(metadata, { ...options, fileExtensions: [] })) {
+              const binary = identifyBinary(await readFileHeader(fullPath));
+              if (binary) {
+                metadata.binary = binary;
+                result.binaries!.push(metadata);
+              }
+            }
+            if (shouldIncludeFile(metadata, options)) {
+              result.files.push(metadata);
+              result.totalSize += metadata.size;
+            }
           }
         } catch (error) {
           result.errors.push(`Failed to process ${fullPath}: ${error}`);
@@ -167,13 +184,27 @@ export async function readFileBuffer(filePath: string): Promise<Buffer> {
   }
 }
 
+/**
+ * Reads the first bytes of a file without loading the rest of it
+ */
+export async function readFileHeader(filePath: string, length: number = BINARY_HEADER_LENGTH): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
 /**
  * Checks if a file is a text file based on extension
  */
 export function isTextFile(filePath: string): boolean {
   const textExtensions = [
-    'ts', 'tsx', 'js', 'jsx', 'json', 'md', 'txt', 'yml', 'yaml',
-    'xml', 'html', 'css', 'scss', 'less', 'sql', 'sh', 'bat', 'ps1'
+    'ts', 'tsx', 'js', 'jsx', 'mts', 'cts', 'mjs', 'cjs', 'json', 'md', 'txt', 'yml', 'yaml',
+    'xml', 'html', 'htm', 'vue', 'svelte', 'astro', 'css', 'scss', 'less', 'sql', 'sh', 'bat', 'ps1'
   ];
   
   const ext = filePath.split('.').pop()?.toLowerCase();
@@ -0,0 +1,612 @@
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+export type LockfileType = 'npm' | 'pnpm' | 'yarn';
+
+export interface LockfileDependency {
+  name: string;
+  version: string;
+  // Dependency chain from the project root to this package, inclusive
+  path: string[];
+  // Whether the root project depends on this package directly
+  direct: boolean;
+  resolved?: string;
+  integrity?: string;
+  line?: number;
+  dev?: boolean;
+  // Shipped inside its parent's tarball (npm bundleDependencies), so it is never downloaded on its own
+  bundled?: boolean;
+}
+
+export interface ParsedLockfile {
+  type: LockfileType;
+  lockfileVersion?: string | number;
+  dependencies: LockfileDependency[];
+  // Direct dependencies of the root project as recorded in the lockfile (name -> specifier or version);
+  // empty for formats that only list them in package.json (npm lockfileVersion 1, Yarn classic)
+  rootDependencies: Record<string, string>;
+}
+
+export interface PackageManifestDependencies {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+// Internal graph representation shared by every lockfile format
+interface LockfileNode {
+  id: string;
+  name: string;
+  version: string;
+  resolved?: string;
+  integrity?: string;
+  line?: number;
+  dev?: boolean;
+  bundled?: boolean;
+  // Ids of the packages this package depends on
+  edges: string[];
+}
+
+const LOCKFILE_TYPES: Record<string, LockfileType> = {
+  'package-lock.json': 'npm',
+  'npm-shrinkwrap.json': 'npm',
+  'pnpm-lock.yaml': 'pnpm',
+  'yarn.lock': 'yarn'
+};
+
+/**
+ * Determine the lockfile format from a file path
+ * @param filePath - Path of the lockfile
+ * @returns LockfileType | undefined - Lockfile format, if the file is a supported lockfile
+ */
+export function getLockfileType(filePath: string): LockfileType | undefined {
+  return LOCKFILE_TYPES[path.basename(filePath)];
+}
+
+/**
+ * Parse a lockfile into the full resolved dependency list
+ * @param filePath - Path of the lockfile (used to pick the format)
+ * @param content - Lockfile content
+ * @param manifest - The package.json next to the lockfile, used for formats that do not record root dependencies
+ * @returns ParsedLockfile - Resolved dependencies with their path through the dependency tree
+ * @throws Error if the file is not a supported lockfile or cannot be parsed
+ */
+export function parseLockfile(
+  filePath: string,
+  content: string,
+  manifest?: PackageManifestDependencies
+): ParsedLockfile {
+  const type = getLockfileType(filePath);
+
+  switch (type) {
+    case 'npm':
+      return parseNpmLockfile(content, manifest);
+    case 'pnpm':
+      return parsePnpmLockfile(content);
+    case 'yarn':
+      return parseYarnLockfile(content, manifest);
+    default:
+      throw new Error(`Unsupported lockfile: ${filePath}`);
+  }
+}
+
+/**
+ * Parse package-lock.json / npm-shrinkwrap.json (lockfileVersion 1, 2 and 3)
+ */
+function parseNpmLockfile(content: string, manifest?: PackageManifestDependencies): ParsedLockfile {
+  const lockfile = JSON.parse(content) as {
+    lockfileVersion?: number;
+    packages?: Record<string, NpmPackageEntry>;
+    dependencies?: Record<string, NpmV1Entry>;
+  };
+  const lines = content.split('\n');
+
+  if (lockfile.packages) {
+    return parseNpmPackagesSection(lockfile.packages, lockfile.lockfileVersion, lines);
+  }
+
+  return parseNpmV1Dependencies(lockfile.dependencies || {}, lockfile.lockfileVersion, lines, manifest);
+}
+
+interface NpmPackageEntry {
+  name?: string;
+  version?: string;
+  resolved?: string;
+  integrity?: string;
+  dev?: boolean;
+  link?: boolean;
+  inBundle?: boolean;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+interface NpmV1Entry {
+  version?: string;
+  resolved?: string;
+  integrity?: string;
+  dev?: boolean;
+  requires?: Record<string, string>;
+  dependencies?: Record<string, NpmV1Entry>;
+}
+
+/**
+ * lockfileVersion 2/3: packages keyed by install location (node_modules/a/node_modules/b)
+ */
+function parseNpmPackagesSection(
+  packages: Record<string, NpmPackageEntry>,
+  lockfileVersion: number | undefined,
+  lines: string[]
+): ParsedLockfile {
+  const nodes = new Map<string, LockfileNode>();
+  const root = packages[''] || {};
+
+  for (const [location, entry] of Object.entries(packages)) {
+    // Only installed packages; workspace sources (`packages/a`) and the links to them are local code
+    if (entry.link || !isNodeModulesLocation(location)) continue;
+
+    const name = entry.name || getNpmPackageNameFromLocation(location);
+    nodes.set(location, {
+      id: location,
+      name,
+      version: entry.version || 'unknown',
+      resolved: entry.resolved,
+      integrity: entry.integrity,
+      dev: entry.dev,
+      bundled: entry.inBundle,
+      line: findLine(lines, `"${location}": {`),
+      edges: []
+    });
+  }
+
+  const resolveFrom = (location: string, dependency: string) => resolveNodeModulesLocation(nodes, location, dependency);
+
+  for (const [location, node] of nodes) {
+    const entry = packages[location];
+    const dependencyNames = Object.keys({
+      ...entry.dependencies,
+      ...entry.optionalDependencies,
+      ...entry.peerDependencies
+    });
+    node.edges = dependencyNames
+      .map(dependency => resolveFrom(location, dependency))
+      .filter((id): id is string => id !== undefined);
+  }
+
+  const rootDependencies = {
+    ...root.dependencies,
+    ...root.devDependencies,
+    ...root.optionalDependencies
+  };
+  const rootIds = Object.keys(rootDependencies)
+    .map(dependency => resolveFrom('', dependency))
+    .filter((id): id is string => id !== undefined);
+
+  return {
+    type: 'npm',
+    lockfileVersion,
+    dependencies: buildDependencyList(nodes, rootIds),
+    rootDependencies
+  };
+}
+
+/**
+ * lockfileVersion 1: nested dependencies objects with requires maps
+ */
+function parseNpmV1Dependencies(
+  dependencies: Record<string, NpmV1Entry>,
+  lockfileVersion: number | undefined,
+  lines: string[],
+  manifest?: PackageManifestDependencies
+): ParsedLockfile {
+  const nodes = new Map<string, LockfileNode>();
+  const requires = new Map<string, Record<string, string>>();
+
+  const collect = (entries: Record<string, NpmV1Entry>, parentId: string, searchFrom: number) => {
+    for (const [name, entry] of Object.entries(entries)) {
+      const id = parentId ? `${parentId}/node_modules/${name}` : `node_modules/${name}`;
+      const lineIndex = lines.findIndex((line, index) => index >= searchFrom && line.includes(`"${name}": {`));
+
+      nodes.set(id, {
+        id,
+        name,
+        version: entry.version || 'unknown',
+        resolved: entry.resolved,
+        integrity: entry.integrity,
+        dev: entry.dev,
+        line: lineIndex === -1 ? undefined : lineIndex + 1,
+        edges: []
+      });
+      requires.set(id, entry.requires || {});
+
+      if (entry.dependencies) collect(entry.dependencies, id, Math.max(lineIndex, searchFrom));
+    }
+  };
+
+  collect(dependencies, '', 0);
+
+  for (const [id, node] of nodes) {
+    node.edges = Object.keys(requires.get(id) || {})
+      .map(dependency => resolveNodeModulesLocation(nodes, id, dependency))
+      .filter((edge): edge is string => edge !== undefined);
+  }
+
+  // v1 does not record the root's direct dependencies; fall back to every hoisted entry without package.json
+  const rootNames = manifest
+    ? Object.keys({ ...manifest.dependencies, ...manifest.devDependencies, ...manifest.optionalDependencies })
+    : Object.keys(dependencies);
+  const rootIds = rootNames
+    .map(dependency => resolveNodeModulesLocation(nodes, '', dependency))
+    .filter((id): id is string => id !== undefined);
+
+  return {
+    type: 'npm',
+    lockfileVersion,
+    dependencies: buildDependencyList(nodes, rootIds),
+    rootDependencies: {}
+  };
+}
+
+/**
+ * Resolve a dependency the way Node does: the nearest node_modules directory up the tree
+ */
+function resolveNodeModulesLocation(
+  nodes: Map<string, LockfileNode>,
+  location: string,
+  dependency: string
+): string | undefined {
+  let base = location;
+  while (true) {
+    const candidate = base ? `${base}/node_modules/${dependency}` : `node_modules/${dependency}`;
+    if (nodes.has(candidate)) return candidate;
+    if (!base) return undefined;
+    const index = base.lastIndexOf('/node_modules/');
+    base = index === -1 ? '' : base.slice(0, index);
+  }
+}
+
+function isNodeModulesLocation(location: string): boolean {
+  return location.startsWith('node_modules/') || location.includes('/node_modules/');
+}
+
+function getNpmPackageNameFromLocation(location: string): string {
+  const index = location.lastIndexOf('node_modules/');
+  return index === -1 ? location : location.slice(index + 'node_modules/'.length);
+}
+
+interface PnpmPackageEntry {
+  resolution?: { integrity?: string; tarball?: string; repo?: string; commit?: string };
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  dev?: boolean;
+  name?: string;
+  version?: string;
+}
+
+interface PnpmImporter {
+  dependencies?: Record<string, string | { version: string; specifier?: string }>;
+  devDependencies?: Record<string, string | { version: string; specifier?: string }>;
+  optionalDependencies?: Record<string, string | { version: string; specifier?: string }>;
+  specifiers?: Record<string, string>;
+}
+
+/**
+ * Parse pnpm-lock.yaml (lockfile versions 5.x, 6.x and 9.x)
+ */
+function parsePnpmLockfile(content: string): ParsedLockfile {
+  const lockfile = (parseYaml(content) || {}) as {
+    lockfileVersion?: string | number;
+    importers?: Record<string, PnpmImporter>;
+    packages?: Record<string, PnpmPackageEntry>;
+    snapshots?: Record<string, PnpmPackageEntry>;
+  } & PnpmImporter;
+  const lines = content.split('\n');
+  const nodes = new Map<string, LockfileNode>();
+
+  const packages = lockfile.packages || {};
+  const snapshots = lockfile.snapshots;
+
+  // v9 splits metadata (packages) from the dependency graph (snapshots)
+  const graphEntries = snapshots || packages;
+
+  for (const [key, entry] of Object.entries(graphEntries)) {
+    const id = normalizePnpmKey(key);
+    const { name, version } = parsePnpmPackageKey(id);
+    const metadata = snapshots ? packages[stripPnpmPeerSuffix(id)] || {} : entry;
+
+    nodes.set(id, {
+      id,
+      name: metadata.name || name,
+      version: metadata.version || version,
+      resolved: metadata.resolution?.tarball || metadata.resolution?.repo,
+      integrity: metadata.resolution?.integrity,
+      dev: entry.dev ?? metadata.dev,
+      line: findPnpmKeyLine(lines, key),
+      edges: []
+    });
+  }
+
+  const toNodeId = (dependency: string, reference: string): string | undefined => {
+    // Local links (link:../pkg) and workspace references are not packages in the graph
+    if (reference.startsWith('link:')) return undefined;
+    // v5 references carry peer suffixes after `_`; aliased references name the real package
+    const version = reference.replace(/_.+$/, '');
+    const candidates = reference.startsWith('/')
+      ? [normalizePnpmKey(reference)]
+      : [`${dependency}@${reference}`, `${dependency}@${version}`, normalizePnpmKey(reference)];
+    return candidates.find(candidate => nodes.has(candidate));
+  };
+
+  for (const [key, entry] of Object.entries(graphEntries)) {
+    const node = nodes.get(normalizePnpmKey(key));
+    if (!node) continue;
+    node.edges = Object.entries({ ...entry.dependencies, ...entry.optionalDependencies })
+      .map(([dependency, reference]) => toNodeId(dependency, String(reference)))
+      .filter((id): id is string => id !== undefined);
+  }
+
+  // v5 single-project lockfiles put the root dependencies at the top level
+  const importers = lockfile.importers || { '.': lockfile };
+  const rootDependencies: Record<string, string> = {};
+  const rootIds: string[] = [];
+
+  for (const [importerPath, importer] of Object.entries(importers)) {
+    const declared = { ...importer.dependencies, ...importer.devDependencies, ...importer.optionalDependencies };
+    for (const [dependency, value] of Object.entries(declared)) {
+      const reference = typeof value === 'string' ? value : value.version;
+      const specifier = typeof value === 'string' ? importer.specifiers?.[dependency] : value.specifier;
+      if (importerPath === '.') {
+        rootDependencies[dependency] = specifier || reference;
+      }
+      const id = toNodeId(dependency, reference);
+      if (id) rootIds.push(id);
+    }
+  }
+
+  return {
+    type: 'pnpm',
+    lockfileVersion: lockfile.lockfileVersion,
+    dependencies: buildDependencyList(nodes, rootIds),
+    rootDependencies
+  };
+}
+
+/**
+ * Normalize pnpm package keys across versions: drop the leading slash and v5 peer suffixes
+ */
+function normalizePnpmKey(key: string): string {
+  let normalized = key.startsWith('/') ? key.slice(1) : key;
+
+  // v5: name/1.0.0_peer@2.0.0 -> name/1.0.0
+  const v5Match = normalized.match(/^((?:@[^/]+\/)?[^/@]+)\/([^/_]+)(?:_.+)?$/);
+  if (v5Match) {
+    normalized = `${v5Match[1]}@${v5Match[2]}`;
+  }
+
+  return normalized;
+}
+
+function stripPnpmPeerSuffix(key: string): string {
+  const index = key.indexOf('(');
+  return index === -1 ? key : key.slice(0, index);
+}
+
+function parsePnpmPackageKey(key: string): { name: string; version: string } {
+  const withoutPeers = stripPnpmPeerSuffix(key);
+  const separator = withoutPeers.lastIndexOf('@');
+
+  if (separator <= 0) {
+    return { name: withoutPeers, version: 'unknown' };
+  }
+
+  return { name: withoutPeers.slice(0, separator), version: withoutPeers.slice(separator + 1) };
+}
+
+function findPnpmKeyLine(lines: string[], key: string): number | undefined {
+  const candidates = [`  ${key}:`, `  '${key}':`, `  "${key}":`];
+  const index = lines.findIndex(line => candidates.some(candidate => line.startsWith(candidate)));
+  return index === -1 ? undefined : index + 1;
+}
+
+interface YarnEntry {
+  descriptors: string[];
+  version?: string;
+  resolved?: string;
+  integrity?: string;
+  dependencies: Record<string, string>;
+  line: number;
+}
+
+/**
+ * Parse yarn.lock for both Yarn classic (v1) and Yarn Berry (v2+) formats
+ */
+function parseYarnLockfile(content: string, manifest?: PackageManifestDependencies): ParsedLockfile {
+  const lines = content.split('\n');
+  const entries: YarnEntry[] = [];
+  let current: YarnEntry | undefined;
+  let inDependencies = false;
+  let lockfileVersion: string | undefined;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line.trim() || line.trimStart().startsWith('#')) {
+      const versionMatch = line.match(/yarn lockfile v(\d+)/);
+      if (versionMatch) lockfileVersion = versionMatch[1];
+      return;
+    }
+
+    const indent = line.length - line.trimStart().length;
+
+    if (indent === 0) {
+      inDependencies = false;
+      if (line.startsWith('__metadata')) {
+        current = undefined;
+        return;
+      }
+      const descriptors = line
+        .replace(/:$/, '')
+        .split(/,\s*/)
+        .map(descriptor => unquote(descriptor.trim()));
+      current = { descriptors, dependencies: {}, line: index + 1 };
+      entries.push(current);
+      return;
+    }
+
+    if (!current) {
+      // __metadata section of Berry lockfiles
+      const versionMatch = line.match(/^\s+version:\s*(\S+)/);
+      if (versionMatch) lockfileVersion = versionMatch[1];
+      return;
+    }
+
+    const { key, value } = splitYarnProperty(line.trim());
+
+    if (indent <= 2) {
+      inDependencies = ['dependencies', 'optionalDependencies'].includes(key) && value === '';
+      if (key === 'version') current.version = value;
+      if (key === 'resolved' || key === 'resolution') current.resolved = value;
+      if (key === 'integrity' || key === 'checksum') current.integrity = value;
+    } else if (inDependencies) {
+      current.dependencies[key] = value;
+    }
+  });
+
+  const nodes = new Map<string, LockfileNode>();
+  const descriptorIndex = new Map<string, string>();
+
+  for (const entry of entries) {
+    const name = getYarnDescriptorName(entry.descriptors[0]);
+    const id = getYarnEntryId(entry);
+    if (!nodes.has(id)) {
+      nodes.set(id, {
+        id,
+        name,
+        version: entry.version || 'unknown',
+        resolved: entry.resolved,
+        integrity: entry.integrity,
+        line: entry.line,
+        edges: []
+      });
+    }
+    for (const descriptor of entry.descriptors) {
+      descriptorIndex.set(normalizeYarnDescriptor(descriptor), id);
+    }
+  }
+
+  const resolveDescriptor = (name: string, range: string) =>
+    descriptorIndex.get(normalizeYarnDescriptor(`${name}@${range}`));
+
+  for (const entry of entries) {
+    const node = nodes.get(getYarnEntryId(entry));
+    if (!node) continue;
+    const edges = Object.entries(entry.dependencies)
+      .map(([dependency, range]) => resolveDescriptor(dependency, range))
+      .filter((edge): edge is string => edge !== undefined);
+    node.edges = Array.from(new Set([...node.edges, ...edges]));
+  }
+
+  // Berry records the root workspace as `name@workspace:.`; classic needs package.json
+  const workspaceRoot = entries.find(entry => entry.descriptors.some(descriptor => descriptor.endsWith('@workspace:.')));
+  const rootDependencies: Record<string, string> = workspaceRoot ? { ...workspaceRoot.dependencies } : {};
+  const declared = workspaceRoot
+    ? workspaceRoot.dependencies
+    : { ...manifest?.dependencies, ...manifest?.devDependencies, ...manifest?.optionalDependencies };
+
+  const rootIds = Object.entries(declared)
+    .map(([dependency, range]) => resolveDescriptor(dependency, range))
+    .filter((id): id is string => id !== undefined);
+
+  // Workspace packages themselves are not installed dependencies
+  for (const entry of entries) {
+    if (entry.descriptors.some(descriptor => descriptor.includes('@workspace:'))) {
+      nodes.delete(getYarnEntryId(entry));
+    }
+  }
+
+  return {
+    type: 'yarn',
+    lockfileVersion,
+    dependencies: buildDependencyList(nodes, rootIds.filter(id => nodes.has(id))),
+    rootDependencies
+  };
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/, '$1');
+}
+
+function splitYarnProperty(text: string): { key: string; value: string } {
+  // Berry: key: value / classic: key value (either side may be quoted)
+  const match = text.match(/^("(?:[^"\\]|\\.)*"|[^\s:]+):?\s*(.*)$/);
+  if (!match) return { key: text, value: '' };
+  return { key: unquote(match[1]), value: unquote(match[2].trim()) };
+}
+
+function getYarnEntryId(entry: YarnEntry): string {
+  return `${getYarnDescriptorName(entry.descriptors[0])}@${entry.version || 'unknown'}`;
+}
+
+function getYarnDescriptorName(descriptor: string): string {
+  const separator = descriptor.indexOf('@', 1);
+  return separator === -1 ? descriptor : descriptor.slice(0, separator);
+}
+
+/**
+ * Berry prefixes npm ranges with `npm:` in entry keys but not always in dependency maps
+ */
+function normalizeYarnDescriptor(descriptor: string): string {
+  const name = getYarnDescriptorName(descriptor);
+  const range = descriptor.slice(name.length + 1);
+  return `${name}@${range.startsWith('npm:') ? range.slice(4) : range}`;
+}
+
+/**
+ * Walk the dependency graph breadth-first from the root dependencies so each
+ * package gets the shortest path through the tree; unreachable packages keep
+ * a single-element path
+ */
+function buildDependencyList(nodes: Map<string, LockfileNode>, rootIds: string[]): LockfileDependency[] {
+  const paths = new Map<string, string[]>();
+  const queue: string[] = [];
+
+  for (const id of rootIds) {
+    const node = nodes.get(id);
+    if (node && !paths.has(id)) {
+      paths.set(id, [node.name]);
+      queue.push(id);
+    }
+  }
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const node = nodes.get(id)!;
+    const nodePath = paths.get(id)!;
+
+    for (const edge of node.edges) {
+      const child = nodes.get(edge);
+      if (child && !paths.has(edge)) {
+        paths.set(edge, [...nodePath, child.name]);
+        queue.push(edge);
+      }
+    }
+  }
+
+  return Array.from(nodes.values()).map(node => ({
+    name: node.name,
+    version: node.version,
+    path: paths.get(node.id) || [node.name],
+    direct: rootIds.includes(node.id),
+    ...(node.resolved !== undefined && { resolved: node.resolved }),
+    ...(node.integrity !== undefined && { integrity: node.integrity }),
+    ...(node.line !== undefined && { line: node.line }),
+    ...(node.dev !== undefined && { dev: node.dev }),
+    ...(node.bundled && { bundled: true })
+  }));
+}
+
+function findLine(lines: string[], text: string): number | undefined {
+  const index = lines.findIndex(line => line.includes(text));
+  return index === -1 ? undefined : index + 1;
+}
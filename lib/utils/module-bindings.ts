@@ -0,0 +1,236 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import {
+  walkAST,
+  getStaticPropertyName,
+  getStaticStringValue,
+  getRequiredModule
+} from './ast-parser';
+import type { ScopeAnalysis } from './scope-analysis';
+
+export interface ModuleReference {
+  module: string;
+  member?: string;
+}
+
+export interface ModuleBindings {
+  // Local names bound to a whole module, mapped to the module name
+  modules: Map<string, string>;
+  // Local names bound to a module export, mapped to the module and export name
+  members: Map<string, ModuleReference>;
+  // Scopes of the file, consulted before the names above
+  scope?: ScopeAnalysis;
+}
+
+/**
+ * Normalize a module specifier so `node:fs` and `fs` are treated alike
+ * @param moduleName - Module specifier from an import or require
+ * @returns string - Module name without the `node:` prefix
+ */
+export function normalizeModuleName(moduleName: string): string {
+  return moduleName.startsWith('node:') ? moduleName.slice(5) : moduleName;
+}
+
+/**
+ * Collect local names that refer to tracked modules or their exports
+ * Handles ES imports, require calls, destructuring and re-assignment
+ * @param ast - Parsed program
+ * @param isTrackedModule - Predicate selecting the (normalized) modules to track
+ * @param scope - Scope analysis of the program; when given, references are resolved
+ *   through it first, so a parameter or local shadowing an alias is not mistaken for it
+ * @returns ModuleBindings - Module and export aliases
+ */
+export function collectModuleBindings(
+  ast: TSESTree.Program,
+  isTrackedModule: (moduleName: string) => boolean,
+  scope?: ScopeAnalysis
+): ModuleBindings {
+  const bindings: ModuleBindings = { modules: new Map(), members: new Map(), ...(scope && { scope }) };
+
+  walkAST(ast, (node) => {
+    if (node.type === 'ImportDeclaration') {
+      const moduleName = normalizeModuleName(String(node.source.value));
+      if (!isTrackedModule(moduleName)) return;
+
+      for (const specifier of node.specifiers) {
+        if (specifier.type === 'ImportDefaultSpecifier' || specifier.type === 'ImportNamespaceSpecifier') {
+          bindings.modules.set(specifier.local.name, moduleName);
+        } else {
+          const imported = specifier.imported.type === 'Identifier'
+            ? specifier.imported.name
+            : String(specifier.imported.value);
+          if (imported === 'default') {
+            bindings.modules.set(specifier.local.name, moduleName);
+          } else {
+            bindings.members.set(specifier.local.name, { module: moduleName, member: imported });
+          }
+        }
+      }
+    }
+
+    if (node.type === 'VariableDeclarator' && node.init) {
+      bindPattern(node.id, node.init, bindings, isTrackedModule);
+    }
+
+    if (node.type === 'AssignmentExpression' && node.left.type === 'Identifier') {
+      bindPattern(node.left, node.right, bindings, isTrackedModule);
+    }
+  });
+
+  return bindings;
+}
+
+/**
+ * Resolve an expression to the tracked module or module export it refers to
+ * With a scope analysis in the bindings, a module the scopes resolve to wins; the bound
+ * names are only a fallback for globals and values the scopes cannot follow, and not
+ * for expressions starting from a declared variable that is not the module
+ * @param node - Expression to resolve (identifier, member access, require call...)
+ * @param bindings - Known module bindings
+ * @param isTrackedModule - Predicate selecting the (normalized) modules to track
+ * @returns ModuleReference | undefined - The referenced module and export, if any
+ */
+export function resolveModuleReference(
+  node: TSESTree.Node,
+  bindings: ModuleBindings,
+  isTrackedModule: (moduleName: string) => boolean
+): ModuleReference | undefined {
+  const { scope } = bindings;
+  if (!scope) return resolveBoundReference(node, bindings, isTrackedModule);
+
+  const symbol = scope.resolve(node);
+  if (symbol?.kind === 'module') {
+    if (!isTrackedModule(symbol.module)) return undefined;
+    return symbol.member === undefined ? { module: symbol.module } : { module: symbol.module, member: symbol.member };
+  }
+  if (symbol?.kind === 'local') return undefined;
+
+  const root = getRootIdentifier(node);
+  if (root && scope.resolve(root)?.kind === 'local') return undefined;
+
+  return resolveBoundReference(node, bindings, isTrackedModule);
+}
+
+/**
+ * Resolve an expression through the bound names only
+ */
+function resolveBoundReference(
+  node: TSESTree.Node,
+  bindings: ModuleBindings,
+  isTrackedModule: (moduleName: string) => boolean
+): ModuleReference | undefined {
+  const expression = unwrapExpression(node);
+
+  if (expression.type === 'Identifier') {
+    const moduleName = bindings.modules.get(expression.name);
+    if (moduleName) return { module: moduleName };
+    return bindings.members.get(expression.name);
+  }
+
+  const required = getRequiredModule(expression);
+  if (required !== undefined) {
+    const moduleName = normalizeModuleName(required);
+    return isTrackedModule(moduleName) ? { module: moduleName } : undefined;
+  }
+
+  // await import('module')
+  if (expression.type === 'ImportExpression') {
+    const source = getStaticStringValue(expression.source);
+    if (source === undefined) return undefined;
+    const moduleName = normalizeModuleName(source);
+    return isTrackedModule(moduleName) ? { module: moduleName } : undefined;
+  }
+
+  if (expression.type === 'MemberExpression') {
+    const propertyName = getStaticPropertyName(expression);
+    if (!propertyName) return undefined;
+
+    const objectReference = resolveBoundReference(expression.object, bindings, isTrackedModule);
+    if (!objectReference) return undefined;
+
+    // fn.call(...) / fn.apply(...) / fn.bind(...) refer to fn itself
+    if (objectReference.member && ['call', 'apply', 'bind'].includes(propertyName)) {
+      return objectReference;
+    }
+
+    // mod.default is the module itself for CommonJS interop
+    if (!objectReference.member && propertyName === 'default') {
+      return objectReference;
+    }
+
+    if (!objectReference.member) {
+      return { module: objectReference.module, member: propertyName };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Strip wrappers that do not change the value of an expression
+ * @param node - Expression to unwrap
+ * @returns TSESTree.Node - The innermost wrapped expression
+ */
+export function unwrapExpression(node: TSESTree.Node): TSESTree.Node {
+  let current = node;
+
+  while (
+    current.type === 'AwaitExpression' ||
+    current.type === 'TSAsExpression' ||
+    current.type === 'TSNonNullExpression' ||
+    current.type === 'ChainExpression'
+  ) {
+    current = current.type === 'AwaitExpression' ? current.argument : current.expression;
+  }
+
+  return current;
+}
+
+/**
+ * Find the identifier a chain of member accesses starts from, e.g. `cp` in `cp.exec.call`
+ */
+function getRootIdentifier(node: TSESTree.Node): TSESTree.Identifier | undefined {
+  let expression = unwrapExpression(node);
+  while (expression.type === 'MemberExpression') {
+    expression = unwrapExpression(expression.object);
+  }
+  return expression.type === 'Identifier' ? expression : undefined;
+}
+
+/**
+ * Record bindings created by `id = init` when init refers to a tracked module
+ */
+function bindPattern(
+  id: TSESTree.Node,
+  init: TSESTree.Node,
+  bindings: ModuleBindings,
+  isTrackedModule: (moduleName: string) => boolean
+): void {
+  const reference = resolveBoundReference(init, bindings, isTrackedModule);
+  if (!reference) return;
+
+  if (id.type === 'Identifier') {
+    if (reference.member) {
+      bindings.members.set(id.name, reference);
+    } else {
+      bindings.modules.set(id.name, reference.module);
+    }
+    return;
+  }
+
+  if (id.type === 'ObjectPattern' && !reference.member) {
+    for (const property of id.properties) {
+      if (property.type !== 'Property') continue;
+      const key = property.key.type === 'Identifier' && !property.computed
+        ? property.key.name
+        : getStaticStringValue(property.key);
+      const value = property.value.type === 'AssignmentPattern' ? property.value.left : property.value;
+      if (key && value.type === 'Identifier') {
+        if (key === 'default') {
+          bindings.modules.set(value.name, reference.module);
+        } else {
+          bindings.members.set(value.name, { module: reference.module, member: key });
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,577 @@
+import path from 'path';
+import type { TSESTree } from '@typescript-eslint/types';
+import type { RepositoryFile } from '../types';
+import { parseFile, walkAST, PARSEABLE_FILE_EXTENSIONS } from './ast-parser';
+import { analyzeScope, isGlobalSymbol, type ScopeAnalysis } from './scope-analysis';
+import { analyzeTaint, extendFlow, type TaintAnalysis, type TaintFlow } from './taint-analysis';
+import {
+  createResolutionContext,
+  getPackageExportFiles,
+  normalizeRelativePath,
+  resolveModuleSpecifier,
+  resolvePackageExport,
+  type ResolutionContext
+} from './module-resolution';
+
+export type ModuleImportKind = 'import' | 'require' | 'dynamic_import' | 're_export';
+
+export interface ModuleImport {
+  specifier: string;
+  kind: ModuleImportKind;
+  line?: number;
+  // Relative path of the imported repository file; undefined for packages and built-ins
+  resolvedPath?: string;
+}
+
+/**
+ * What an exported name refers to: a local binding, or a name re-exported
+ * from another module (`imported` is '*' for `export * as ns from`)
+ */
+export type ModuleExport =
+  | { local: string }
+  | { specifier: string; imported: string };
+
+export interface ModuleInfo {
+  // Path as reported in threat results
+  path: string;
+  relativePath: string;
+  imports: ModuleImport[];
+  exports: Map<string, ModuleExport>;
+  // Specifiers of `export * from` declarations
+  starExports: string[];
+  // Functions declared in the module, by binding name ('default' for anonymous default exports)
+  functions: string[];
+}
+
+export type EntryPointKind = 'install_script' | 'bin' | 'main' | 'exports';
+
+export interface EntryPoint {
+  relativePath: string;
+  kind: EntryPointKind;
+  description: string;
+}
+
+export interface CallEdge {
+  // Function ids are `relativePath#name`; top-level code is `relativePath#<module>`
+  caller: string;
+  callee: string;
+  line?: number;
+}
+
+export interface ModuleReachability {
+  // Highest-priority entry point the module is reachable from
+  entryPoint: EntryPoint;
+  // Import chain from that entry point to the module, as relative paths
+  chain: string[];
+  // Every kind of entry point the module is reachable from
+  entryKinds: EntryPointKind[];
+}
+
+export interface ModuleGraph {
+  // Parsed modules by relative path
+  modules: Map<string, ModuleInfo>;
+  entryPoints: EntryPoint[];
+  callEdges: CallEdge[];
+  getModule(filePath: string): ModuleInfo | undefined;
+  getReachability(filePath: string): ModuleReachability | undefined;
+  findImportChain(fromPath: string, toPath: string): string[] | undefined;
+  resolveExport(filePath: string, exportName: string): { relativePath: string; local: string } | undefined;
+  getCallers(functionId: string): CallEdge[];
+  getCallees(functionId: string): CallEdge[];
+  getAnalysis(filePath: string): { ast: TSESTree.Program; scope: ScopeAnalysis } | undefined;
+  /**
+   * Taint of an expression in a module, following values returned by functions imported from other modules
+   */
+  getTaint(filePath: string, node: TSESTree.Node): TaintFlow | undefined;
+}
+
+export interface ModuleGraphOptions {
+  // Additional entry points, such as files run by install hooks (paths may be absolute or relative)
+  entryPoints?: { path: string; kind: EntryPointKind; description: string }[];
+}
+
+// Source files the AST parser understands
+export const MODULE_FILE_EXTENSIONS = PARSEABLE_FILE_EXTENSIONS;
+
+// Entry point kinds from most to least significant for prioritizing findings
+export const ENTRY_POINT_PRIORITY: EntryPointKind[] = ['install_script', 'bin', 'main', 'exports'];
+
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression']);
+
+const MODULE_CALLER = '<module>';
+
+type FunctionNode = TSESTree.FunctionDeclaration | TSESTree.FunctionExpression | TSESTree.ArrowFunctionExpression;
+
+interface ParsedModule {
+  info: ModuleInfo;
+  ast: TSESTree.Program;
+  scope: ScopeAnalysis;
+  functionNodes: Map<string, FunctionNode>;
+  functionNames: Map<TSESTree.Node, string>;
+  // Local names bound by ES imports, for following `import { a } from './a'; export { a }`
+  importBindings: Map<string, { specifier: string; imported: string }>;
+  taint?: TaintAnalysis;
+}
+
+/**
+ * Build the repository-wide module graph and call graph
+ * Imports, requires, dynamic imports and re-exports are resolved to repository files
+ * through relative paths, tsconfig `paths` and local package `main`/`exports`; entry
+ * points come from package.json `main`, `exports` and `bin` plus any extra entry points
+ * @param files - Repository files
+ * @param options - Extra entry points
+ * @returns Promise<ModuleGraph> - Module graph of the repository
+ */
+export async function buildModuleGraph(files: RepositoryFile[], options: ModuleGraphOptions = {}): Promise<ModuleGraph> {
+  const context = createResolutionContext(files);
+  const parsed = new Map<string, ParsedModule>();
+  const relativePaths = new Map<string, string>();
+
+  for (const file of files) {
+    const relativePath = normalizeRelativePath(file.relativePath || file.path);
+    relativePaths.set(file.path, relativePath);
+    if (!isModuleFile(relativePath)) continue;
+
+    const result = await parseFile(file);
+    if (!result.success || !result.ast) continue;
+
+    parsed.set(relativePath, collectModule(file.path, relativePath, result.ast, context));
+  }
+
+  const toRelative = (filePath: string) => relativePaths.get(filePath) ?? normalizeRelativePath(filePath);
+
+  function resolveExport(relativePath: string, exportName: string, visited = new Set<string>()): { relativePath: string; local: string } | undefined {
+    const key = `${relativePath}#${exportName}`;
+    const parsedModule = parsed.get(relativePath);
+    if (!parsedModule || visited.has(key)) return undefined;
+    visited.add(key);
+
+    const exported = parsedModule.info.exports.get(exportName);
+    if (exported && 'local' in exported) {
+      // `import { a } from './a'; export { a }` re-exports through a local binding
+      const binding = parsedModule.importBindings.get(exported.local);
+      if (binding && !parsedModule.functionNodes.has(exported.local)) {
+        const target = resolveModuleSpecifier(binding.specifier, relativePath, context);
+        return target ? resolveExport(target, binding.imported, visited) : undefined;
+      }
+      return { relativePath, local: exported.local };
+    }
+
+    if (exported) {
+      const target = resolveModuleSpecifier(exported.specifier, relativePath, context);
+      return target && exported.imported !== '*' ? resolveExport(target, exported.imported, visited) : undefined;
+    }
+
+    if (exportName === 'default') return undefined;
+    for (const specifier of parsedModule.info.starExports) {
+      const target = resolveModuleSpecifier(specifier, relativePath, context);
+      const resolved = target && resolveExport(target, exportName, visited);
+      if (resolved) return resolved;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve a callee imported from another module to the function it refers to
+   */
+  function resolveImportedFunction(relativePath: string, symbol: { module: string; member?: string }) {
+    const target = resolveModuleSpecifier(symbol.module, relativePath, context);
+    if (!target) return undefined;
+
+    const exportName = symbol.member ? symbol.member.split('.')[0] : 'default';
+    const resolved = resolveExport(target, exportName);
+    const fn = resolved && parsed.get(resolved.relativePath)?.functionNodes.get(resolved.local);
+    return resolved && fn ? { ...resolved, fn } : undefined;
+  }
+
+  const callEdges = collectCallEdges(parsed, resolveImportedFunction);
+  const entryPoints = collectEntryPoints(context, options, toRelative);
+  const reachability = computeReachability(parsed, entryPoints);
+
+  // Cross-module taint: returns of imported functions are analyzed in their own module
+  const pendingReturns = new Set<string>();
+
+  function getModuleTaint(parsedModule: ParsedModule): TaintAnalysis {
+    parsedModule.taint ??= analyzeTaint(parsedModule.ast, parsedModule.scope, {
+      resolveImportedCall: (symbol) => {
+        const target = resolveImportedFunction(parsedModule.info.relativePath, symbol);
+        if (!target) return undefined;
+
+        const key = `${target.relativePath}#${target.local}`;
+        if (pendingReturns.has(key)) return undefined;
+        pendingReturns.add(key);
+        const flow = getModuleTaint(parsed.get(target.relativePath)!).getReturnTaint(target.fn);
+        pendingReturns.delete(key);
+        if (!flow) return undefined;
+
+        const located: TaintFlow = {
+          source: flow.source,
+          path: flow.path.map(step => step.file ? step : { ...step, file: target.relativePath })
+        };
+        return extendFlow(located, `${target.local}()`, target.fn.loc.start.line, target.relativePath);
+      }
+    });
+    return parsedModule.taint;
+  }
+
+  return {
+    modules: new Map(Array.from(parsed, ([relativePath, parsedModule]) => [relativePath, parsedModule.info])),
+    entryPoints,
+    callEdges,
+    getModule: (filePath) => parsed.get(toRelative(filePath))?.info,
+    getReachability: (filePath) => reachability.get(toRelative(filePath)),
+    findImportChain: (fromPath, toPath) => findImportChain(parsed, toRelative(fromPath), toRelative(toPath)),
+    resolveExport: (filePath, exportName) => resolveExport(toRelative(filePath), exportName),
+    getCallers: (functionId) => callEdges.filter(edge => edge.callee === functionId),
+    getCallees: (functionId) => callEdges.filter(edge => edge.caller === functionId),
+    getAnalysis: (filePath) => {
+      const parsedModule = parsed.get(toRelative(filePath));
+      return parsedModule && { ast: parsedModule.ast, scope: parsedModule.scope };
+    },
+    getTaint: (filePath, node) => {
+      const parsedModule = parsed.get(toRelative(filePath));
+      return parsedModule ? getModuleTaint(parsedModule).getTaint(node) : undefined;
+    }
+  };
+}
+
+/**
+ * Check whether a file is a source module the graph parses (declaration files are skipped)
+ * @param filePath - File path
+ * @returns boolean - True for parseable source files outside node_modules
+ */
+export function isModuleFile(filePath: string): boolean {
+  return MODULE_FILE_EXTENSIONS.includes(path.posix.extname(filePath)) &&
+    !/\.d\.[mc]?ts$/.test(filePath) &&
+    !filePath.split('/').includes('node_modules');
+}
+
+/**
+ * Collect imports, exports and functions of one module
+ */
+function collectModule(filePath: string, relativePath: string, ast: TSESTree.Program, context: ResolutionContext): ParsedModule {
+  const scope = analyzeScope(ast);
+  const info: ModuleInfo = { path: filePath, relativePath, imports: [], exports: new Map(), starExports: [], functions: [] };
+  const parsedModule: ParsedModule = { info, ast, scope, functionNodes: new Map(), functionNames: new Map(), importBindings: new Map() };
+
+  const addImport = (specifier: string, kind: ModuleImportKind, node: TSESTree.Node) => {
+    info.imports.push({
+      specifier,
+      kind,
+      line: node.loc.start.line,
+      resolvedPath: resolveModuleSpecifier(specifier, relativePath, context)
+    });
+  };
+
+  const addFunction = (name: string, node: TSESTree.Node) => {
+    if (!FUNCTION_TYPES.has(node.type) || parsedModule.functionNodes.has(name)) return;
+    parsedModule.functionNodes.set(name, node as FunctionNode);
+    parsedModule.functionNames.set(node, name);
+  };
+
+  walkAST(ast, (node) => {
+    switch (node.type) {
+      case 'ImportDeclaration': {
+        if (node.importKind === 'type') break;
+        const specifier = String(node.source.value);
+        addImport(specifier, 'import', node);
+        for (const importSpecifier of node.specifiers) {
+          const imported = importSpecifier.type === 'ImportSpecifier'
+            ? importSpecifier.imported.type === 'Identifier' ? importSpecifier.imported.name : String(importSpecifier.imported.value)
+            : importSpecifier.type === 'ImportDefaultSpecifier' ? 'default' : '*';
+          parsedModule.importBindings.set(importSpecifier.local.name, { specifier, imported });
+        }
+        break;
+      }
+
+      case 'ImportExpression': {
+        const specifier = scope.evaluateString(node.source);
+        if (specifier !== undefined) addImport(specifier, 'dynamic_import', node);
+        break;
+      }
+
+      case 'CallExpression': {
+        const callee = scope.resolve(node.callee);
+        if (callee?.kind === 'global' && callee.name === 'require' && node.arguments.length > 0) {
+          const specifier = scope.evaluateString(node.arguments[0]);
+          if (specifier !== undefined) addImport(specifier, 'require', node);
+        }
+        break;
+      }
+
+      case 'FunctionDeclaration':
+        if (node.id) addFunction(node.id.name, node);
+        break;
+
+      case 'VariableDeclarator':
+        if (node.id.type === 'Identifier' && node.init) addFunction(node.id.name, node.init);
+        break;
+
+      case 'ExportNamedDeclaration':
+        collectNamedExport(node, parsedModule, addImport);
+        break;
+
+      case 'ExportAllDeclaration': {
+        const specifier = String(node.source.value);
+        addImport(specifier, 're_export', node);
+        if (node.exported) {
+          info.exports.set(getExportedName(node.exported), { specifier, imported: '*' });
+        } else {
+          info.starExports.push(specifier);
+        }
+        break;
+      }
+
+      case 'ExportDefaultDeclaration': {
+        const declaration = node.declaration;
+        if (declaration.type === 'Identifier') {
+          info.exports.set('default', { local: declaration.name });
+        } else if ((declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') && declaration.id) {
+          info.exports.set('default', { local: declaration.id.name });
+        } else {
+          addFunction('default', declaration);
+          info.exports.set('default', { local: 'default' });
+        }
+        break;
+      }
+
+      case 'AssignmentExpression':
+        if (node.operator === '=' && node.left.type === 'MemberExpression') {
+          collectCommonJsExport(node.left, node.right, parsedModule, addFunction);
+        }
+        break;
+    }
+  });
+
+  info.functions = Array.from(parsedModule.functionNodes.keys());
+  return parsedModule;
+}
+
+function collectNamedExport(
+  node: TSESTree.ExportNamedDeclaration,
+  parsedModule: ParsedModule,
+  addImport: (specifier: string, kind: ModuleImportKind, node: TSESTree.Node) => void
+): void {
+  if (node.exportKind === 'type') return;
+  const { info } = parsedModule;
+
+  if (node.source) {
+    const specifier = String(node.source.value);
+    addImport(specifier, 're_export', node);
+    for (const exportSpecifier of node.specifiers) {
+      info.exports.set(getExportedName(exportSpecifier.exported), { specifier, imported: getExportedName(exportSpecifier.local) });
+    }
+    return;
+  }
+
+  for (const exportSpecifier of node.specifiers) {
+    info.exports.set(getExportedName(exportSpecifier.exported), { local: getExportedName(exportSpecifier.local) });
+  }
+
+  const declaration = node.declaration;
+  if (!declaration) return;
+
+  if ((declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') && declaration.id) {
+    info.exports.set(declaration.id.name, { local: declaration.id.name });
+  } else if (declaration.type === 'VariableDeclaration') {
+    for (const declarator of declaration.declarations) {
+      if (declarator.id.type === 'Identifier') {
+        info.exports.set(declarator.id.name, { local: declarator.id.name });
+      }
+    }
+  }
+}
+
+/**
+ * Record `module.exports = ...`, `module.exports.x = ...` and `exports.x = ...`
+ */
+function collectCommonJsExport(
+  target: TSESTree.MemberExpression,
+  value: TSESTree.Expression,
+  parsedModule: ParsedModule,
+  addFunction: (name: string, node: TSESTree.Node) => void
+): void {
+  const symbol = parsedModule.scope.resolve(target);
+  if (symbol?.kind !== 'global') return;
+
+  const match = symbol.name.match(/^(?:module\.exports|exports)(?:\.([^.]+))?$/);
+  if (!match || symbol.name === 'exports') return;
+
+  const exportBinding = (name: string, expression: TSESTree.Node) => {
+    if (expression.type === 'Identifier') {
+      parsedModule.info.exports.set(name, { local: expression.name });
+    } else if (FUNCTION_TYPES.has(expression.type)) {
+      addFunction(name, expression);
+      parsedModule.info.exports.set(name, { local: name });
+    }
+  };
+
+  // module.exports.x = ... / exports.x = ...
+  if (match[1]) {
+    exportBinding(match[1], value);
+    return;
+  }
+
+  // module.exports = { a, b: c, run() {} }
+  if (value.type === 'ObjectExpression') {
+    for (const property of value.properties) {
+      if (property.type !== 'Property' || property.computed) continue;
+      const key = property.key.type === 'Identifier' ? property.key.name : String((property.key as TSESTree.Literal).value);
+      exportBinding(key, property.value);
+    }
+    return;
+  }
+
+  // module.exports = require('./other') re-exports everything of the other module
+  const required = value.type === 'CallExpression' && value.arguments.length > 0 && isGlobalSymbol(parsedModule.scope.resolve(value.callee), ['require'])
+    ? parsedModule.scope.evaluateString(value.arguments[0])
+    : undefined;
+  if (required !== undefined) {
+    parsedModule.info.starExports.push(required);
+    return;
+  }
+
+  // module.exports = fn
+  exportBinding('default', value);
+}
+
+/**
+ * Build call edges between functions of the repository, including calls to imported functions
+ */
+function collectCallEdges(
+  parsed: Map<string, ParsedModule>,
+  resolveImportedFunction: (relativePath: string, symbol: { module: string; member?: string }) => { relativePath: string; local: string } | undefined
+): CallEdge[] {
+  const edges: CallEdge[] = [];
+
+  for (const [relativePath, parsedModule] of parsed) {
+    walkAST(parsedModule.ast, (node, _parent, ancestors) => {
+      if (node.type !== 'CallExpression' && node.type !== 'NewExpression') return;
+
+      const symbol = parsedModule.scope.resolve(node.callee);
+      let callee: string | undefined;
+
+      if (symbol?.kind === 'local' && parsedModule.functionNodes.has(symbol.name)) {
+        callee = `${relativePath}#${symbol.name}`;
+      } else if (symbol?.kind === 'module') {
+        const target = resolveImportedFunction(relativePath, symbol);
+        if (target) callee = `${target.relativePath}#${target.local}`;
+      }
+      if (!callee) return;
+
+      const owner = [...ancestors].reverse().find(ancestor => parsedModule.functionNames.has(ancestor));
+      edges.push({
+        caller: `${relativePath}#${owner ? parsedModule.functionNames.get(owner) : MODULE_CALLER}`,
+        callee,
+        line: node.loc.start.line
+      });
+    });
+  }
+
+  return edges;
+}
+
+/**
+ * Collect package.json `bin`, `main` and `exports` targets plus the extra entry points
+ */
+function collectEntryPoints(
+  context: ResolutionContext,
+  options: ModuleGraphOptions,
+  toRelative: (filePath: string) => string
+): EntryPoint[] {
+  const entryPoints: EntryPoint[] = (options.entryPoints ?? []).map(entry => ({
+    relativePath: toRelative(entry.path),
+    kind: entry.kind,
+    description: entry.description
+  }));
+
+  for (const pkg of context.packages) {
+    const packageName = pkg.name ?? (pkg.directory || 'root package');
+    const { bin, main, exports } = pkg.manifest;
+
+    const binTargets = typeof bin === 'string' ? [bin] : bin && typeof bin === 'object' ? Object.values(bin) : [];
+    for (const target of binTargets) {
+      if (typeof target !== 'string') continue;
+      const resolved = resolveModuleSpecifier(`./${normalizeRelativePath(target)}`, pkg.directory ? `${pkg.directory}/package.json` : 'package.json', context);
+      if (resolved) entryPoints.push({ relativePath: resolved, kind: 'bin', description: `bin of ${packageName}` });
+    }
+
+    if (typeof main === 'string' || exports !== undefined) {
+      const resolved = resolvePackageExport(pkg, '.', context);
+      if (resolved) entryPoints.push({ relativePath: resolved, kind: 'main', description: `main of ${packageName}` });
+    }
+
+    for (const resolved of getPackageExportFiles(pkg, context)) {
+      entryPoints.push({ relativePath: resolved, kind: 'exports', description: `exports of ${packageName}` });
+    }
+  }
+
+  const seen = new Set<string>();
+  return entryPoints
+    .filter(entry => {
+      const key = `${entry.kind}:${entry.relativePath}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => ENTRY_POINT_PRIORITY.indexOf(a.kind) - ENTRY_POINT_PRIORITY.indexOf(b.kind));
+}
+
+/**
+ * Breadth-first walk of the import graph from each entry point, most significant entry points first
+ */
+function computeReachability(parsed: Map<string, ParsedModule>, entryPoints: EntryPoint[]): Map<string, ModuleReachability> {
+  const reachability = new Map<string, ModuleReachability>();
+
+  for (const entryPoint of entryPoints) {
+    const chains = new Map<string, string[]>([[entryPoint.relativePath, [entryPoint.relativePath]]]);
+    const queue = [entryPoint.relativePath];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const chain = chains.get(current)!;
+
+      const existing = reachability.get(current);
+      if (!existing) {
+        reachability.set(current, { entryPoint, chain, entryKinds: [entryPoint.kind] });
+      } else if (!existing.entryKinds.includes(entryPoint.kind)) {
+        existing.entryKinds.push(entryPoint.kind);
+      }
+
+      for (const moduleImport of parsed.get(current)?.info.imports ?? []) {
+        const next = moduleImport.resolvedPath;
+        if (next && !chains.has(next)) {
+          chains.set(next, [...chain, next]);
+          queue.push(next);
+        }
+      }
+    }
+  }
+
+  return reachability;
+}
+
+function findImportChain(parsed: Map<string, ParsedModule>, fromPath: string, toPath: string): string[] | undefined {
+  const chains = new Map<string, string[]>([[fromPath, [fromPath]]]);
+  const queue = [fromPath];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === toPath) return chains.get(current);
+
+    for (const moduleImport of parsed.get(current)?.info.imports ?? []) {
+      const next = moduleImport.resolvedPath;
+      if (next && !chains.has(next)) {
+        chains.set(next, [...chains.get(current)!, next]);
+        queue.push(next);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function getExportedName(node: TSESTree.Identifier | TSESTree.StringLiteral): string {
+  return node.type === 'Identifier' ? node.name : node.value;
+}
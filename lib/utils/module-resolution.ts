@@ -0,0 +1,372 @@
+import path from 'path';
+import type { RepositoryFileMetadata } from '../types';
+
+// Extensions tried, in order, for extensionless specifiers and index files
+export const MODULE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+// package.json `exports` conditions understood by Node, in order of preference
+const EXPORT_CONDITIONS = ['node', 'import', 'require', 'default'];
+
+interface PackageManifest {
+  name?: unknown;
+  main?: unknown;
+  module?: unknown;
+  exports?: unknown;
+  bin?: unknown;
+}
+
+export interface LocalPackage {
+  name?: string;
+  // Directory of the package.json, relative to the repository root ('' for the root)
+  directory: string;
+  manifest: PackageManifest;
+}
+
+interface PathMapping {
+  // Directory of the tsconfig/jsconfig that declares the mapping
+  directory: string;
+  baseUrl?: string;
+  paths: Record<string, string[]>;
+}
+
+export interface ResolutionContext {
+  // Repository files by normalized relative path
+  files: Map<string, RepositoryFileMetadata>;
+  // Packages declared in the repository (workspaces and the root), by directory
+  packages: LocalPackage[];
+  pathMappings: PathMapping[];
+}
+
+/**
+ * Normalize a repository-relative path to forward slashes without a leading `./`
+ * @param filePath - Relative path as reported by the file system
+ * @returns string - Normalized posix path
+ */
+export function normalizeRelativePath(filePath: string): string {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/'));
+  return normalized === '.' ? '' : normalized.replace(/^\.\//, '');
+}
+
+/**
+ * Index the repository for module resolution: files, local package manifests
+ * and tsconfig/jsconfig `baseUrl` and `paths` mappings
+ * @param files - Repository files (package.json and tsconfig contents are read from them)
+ * @returns ResolutionContext - Context for resolveModuleSpecifier
+ */
+export function createResolutionContext(files: (RepositoryFileMetadata & { content?: string })[]): ResolutionContext {
+  const context: ResolutionContext = { files: new Map(), packages: [], pathMappings: [] };
+
+  for (const file of files) {
+    const relativePath = normalizeRelativePath(file.relativePath || file.path);
+    if (relativePath.split('/').includes('node_modules')) continue;
+    context.files.set(relativePath, file);
+
+    const basename = path.posix.basename(relativePath);
+    const directory = directoryOf(relativePath);
+
+    if (basename === 'package.json' && file.content !== undefined) {
+      const manifest = parseJsonWithComments(file.content) as PackageManifest | undefined;
+      if (manifest && typeof manifest === 'object' && !Array.isArray(manifest)) {
+        context.packages.push({
+          name: typeof manifest.name === 'string' ? manifest.name : undefined,
+          directory,
+          manifest
+        });
+      }
+    }
+
+    if ((basename === 'tsconfig.json' || basename === 'jsconfig.json') && file.content !== undefined) {
+      const config = parseJsonWithComments(file.content) as { compilerOptions?: { baseUrl?: unknown; paths?: unknown } } | undefined;
+      const options = config?.compilerOptions;
+      if (options && (typeof options.baseUrl === 'string' || isPathsObject(options.paths))) {
+        context.pathMappings.push({
+          directory,
+          baseUrl: typeof options.baseUrl === 'string' ? options.baseUrl : undefined,
+          paths: isPathsObject(options.paths) ? options.paths : {}
+        });
+      }
+    }
+  }
+
+  // Deepest configuration first, so the nearest one applies
+  context.pathMappings.sort((a, b) => b.directory.length - a.directory.length);
+
+  return context;
+}
+
+/**
+ * Resolve an import or require specifier to a file in the repository
+ * Follows relative paths, tsconfig `paths`/`baseUrl` and packages declared in the
+ * repository (through their `exports`, `main` or index file); third-party packages
+ * and Node built-ins are not resolved
+ * @param specifier - Module specifier as written in the source
+ * @param fromPath - Relative path of the importing file
+ * @param context - Resolution context of the repository
+ * @returns string | undefined - Relative path of the resolved file
+ */
+export function resolveModuleSpecifier(specifier: string, fromPath: string, context: ResolutionContext): string | undefined {
+  const from = normalizeRelativePath(fromPath);
+
+  if (specifier.startsWith('.') || specifier.startsWith('/')) {
+    const base = specifier.startsWith('/')
+      ? normalizeRelativePath(specifier.slice(1))
+      : normalizeRelativePath(path.posix.join(directoryOf(from), specifier));
+    return resolveFileOrDirectory(base, context);
+  }
+
+  const mapping = context.pathMappings.find(candidate => isInside(from, candidate.directory));
+  if (mapping) {
+    const mapped = resolvePathMapping(specifier, mapping, context);
+    if (mapped) return mapped;
+  }
+
+  return resolveLocalPackage(specifier, context);
+}
+
+/**
+ * Resolve a path inside a package's `exports` map (or the map's `.` entry)
+ * @param pkg - Local package
+ * @param subpath - Export subpath such as `.` or `./utils`
+ * @param context - Resolution context of the repository
+ * @returns string | undefined - Relative path of the exported file
+ */
+export function resolvePackageExport(pkg: LocalPackage, subpath: string, context: ResolutionContext): string | undefined {
+  const { exports } = pkg.manifest;
+
+  if (exports !== undefined && exports !== null) {
+    const target = getExportTarget(exports, subpath);
+    return target === undefined ? undefined : resolveFileOrDirectory(normalizeRelativePath(path.posix.join(pkg.directory, target)), context);
+  }
+
+  if (subpath !== '.') {
+    return resolveFileOrDirectory(normalizeRelativePath(path.posix.join(pkg.directory, subpath)), context);
+  }
+
+  const main = typeof pkg.manifest.main === 'string' ? pkg.manifest.main : 'index';
+  return resolveFileOrDirectory(normalizeRelativePath(path.posix.join(pkg.directory, main)), context);
+}
+
+/**
+ * List every file a package exposes through `exports`
+ * @param pkg - Local package
+ * @param context - Resolution context of the repository
+ * @returns string[] - Relative paths of exported files
+ */
+export function getPackageExportFiles(pkg: LocalPackage, context: ResolutionContext): string[] {
+  const targets: string[] = [];
+  collectExportTargets(pkg.manifest.exports, targets);
+
+  return targets
+    .filter(target => !target.includes('*'))
+    .map(target => resolveFileOrDirectory(normalizeRelativePath(path.posix.join(pkg.directory, target)), context))
+    .filter((resolved): resolved is string => resolved !== undefined);
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas (tsconfig.json style)
+ * @param content - JSON text
+ * @returns unknown - Parsed value, or undefined when the text is not valid
+ */
+export function parseJsonWithComments(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    // Fall through to the lenient parse
+  }
+
+  let stripped = '';
+  let inString = false;
+  for (let i = 0; i < content.length; i++) {
+    const character = content[i];
+
+    if (inString) {
+      stripped += character;
+      if (character === '\\') {
+        stripped += content[++i] ?? '';
+      } else if (character === '"') {
+        inString = false;
+      }
+    } else if (character === '"') {
+      inString = true;
+      stripped += character;
+    } else if (character === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+      stripped += '\n';
+    } else if (character === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 1;
+    } else {
+      stripped += character;
+    }
+  }
+
+  try {
+    return JSON.parse(stripped.replace(/,(\s*[}\]])/g, '$1'));
+  } catch {
+    return undefined;
+  }
+}
+
+function resolvePathMapping(specifier: string, mapping: PathMapping, context: ResolutionContext): string | undefined {
+  const baseDirectory = normalizeRelativePath(path.posix.join(mapping.directory, mapping.baseUrl ?? '.'));
+
+  for (const [pattern, targets] of Object.entries(mapping.paths)) {
+    const wildcard = matchWildcard(pattern, specifier);
+    if (wildcard === undefined) continue;
+
+    for (const target of targets) {
+      const resolved = resolveFileOrDirectory(
+        normalizeRelativePath(path.posix.join(baseDirectory, target.replace('*', wildcard))),
+        context
+      );
+      if (resolved) return resolved;
+    }
+  }
+
+  return mapping.baseUrl !== undefined
+    ? resolveFileOrDirectory(normalizeRelativePath(path.posix.join(baseDirectory, specifier)), context)
+    : undefined;
+}
+
+function resolveLocalPackage(specifier: string, context: ResolutionContext): string | undefined {
+  const segments = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  const name = segments.slice(0, nameLength).join('/');
+  const subpath = segments.length > nameLength ? `./${segments.slice(nameLength).join('/')}` : '.';
+
+  const pkg = context.packages.find(candidate => candidate.name === name);
+  return pkg ? resolvePackageExport(pkg, subpath, context) : undefined;
+}
+
+/**
+ * Resolve a path the way Node and TypeScript do: exact file, added extension,
+ * `.js` written for a `.ts` source, then a directory's package.json main or index file
+ */
+function resolveFileOrDirectory(base: string, context: ResolutionContext): string | undefined {
+  return resolveFile(base, context) ?? resolveDirectory(base, context);
+}
+
+function resolveFile(base: string, context: ResolutionContext): string | undefined {
+  if (context.files.has(base) && !isDirectoryEntry(base, context)) return base;
+
+  for (const extension of MODULE_EXTENSIONS) {
+    if (context.files.has(`${base}${extension}`)) return `${base}${extension}`;
+  }
+
+  // TypeScript ESM imports name the compiled file: './util.js' for util.ts
+  const compiled = base.match(/^(.*)\.(m|c)?js$/);
+  if (compiled) {
+    for (const extension of ['.ts', '.tsx', `.${compiled[2] ?? ''}ts`]) {
+      if (context.files.has(`${compiled[1]}${extension}`)) return `${compiled[1]}${extension}`;
+    }
+  }
+
+  return undefined;
+}
+
+function resolveDirectory(base: string, context: ResolutionContext): string | undefined {
+  const pkg = context.packages.find(candidate => candidate.directory === base);
+  if (pkg && typeof pkg.manifest.main === 'string') {
+    const main = resolveFile(normalizeRelativePath(path.posix.join(base, pkg.manifest.main)), context);
+    if (main) return main;
+  }
+
+  return resolveFile(base ? `${base}/index` : 'index', context);
+}
+
+function isDirectoryEntry(relativePath: string, context: ResolutionContext): boolean {
+  return Boolean((context.files.get(relativePath) as { isDirectory?: boolean } | undefined)?.isDirectory);
+}
+
+/**
+ * Find the target of an `exports` entry for a subpath, applying conditions and `*` patterns
+ */
+function getExportTarget(exports: unknown, subpath: string): string | undefined {
+  if (typeof exports === 'string' || Array.isArray(exports)) {
+    return subpath === '.' ? pickCondition(exports) : undefined;
+  }
+  if (!exports || typeof exports !== 'object') return undefined;
+
+  const entries = exports as Record<string, unknown>;
+  const isSubpathMap = Object.keys(entries).some(key => key.startsWith('.'));
+  if (!isSubpathMap) {
+    return subpath === '.' ? pickCondition(entries) : undefined;
+  }
+
+  if (entries[subpath] !== undefined) return pickCondition(entries[subpath]);
+
+  for (const [key, value] of Object.entries(entries)) {
+    const wildcard = matchWildcard(key, subpath);
+    if (wildcard !== undefined) {
+      return pickCondition(value)?.replace('*', wildcard);
+    }
+  }
+
+  return undefined;
+}
+
+function pickCondition(target: unknown): string | undefined {
+  if (typeof target === 'string') return target;
+
+  if (Array.isArray(target)) {
+    for (const candidate of target) {
+      const picked = pickCondition(candidate);
+      if (picked) return picked;
+    }
+    return undefined;
+  }
+
+  if (target && typeof target === 'object') {
+    const conditions = target as Record<string, unknown>;
+    for (const condition of EXPORT_CONDITIONS) {
+      if (conditions[condition] !== undefined) {
+        const picked = pickCondition(conditions[condition]);
+        if (picked) return picked;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function collectExportTargets(exports: unknown, targets: string[]): void {
+  if (typeof exports === 'string') {
+    targets.push(exports);
+  } else if (Array.isArray(exports)) {
+    exports.forEach(entry => collectExportTargets(entry, targets));
+  } else if (exports && typeof exports === 'object') {
+    Object.values(exports).forEach(entry => collectExportTargets(entry, targets));
+  }
+}
+
+/**
+ * Match a pattern containing at most one `*`
+ * @returns string | undefined - The text matched by `*` ('' for exact matches), or undefined
+ */
+function matchWildcard(pattern: string, value: string): string | undefined {
+  const star = pattern.indexOf('*');
+  if (star === -1) return pattern === value ? '' : undefined;
+
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (value.length < prefix.length + suffix.length || !value.startsWith(prefix) || !value.endsWith(suffix)) {
+    return undefined;
+  }
+  return value.slice(prefix.length, value.length - suffix.length);
+}
+
+function isPathsObject(value: unknown): value is Record<string, string[]> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value as Record<string, unknown>).every(targets =>
+      Array.isArray(targets) && targets.every(target => typeof target === 'string')
+    );
+}
+
+function directoryOf(relativePath: string): string {
+  const directory = path.posix.dirname(relativePath);
+  return directory === '.' ? '' : directory;
+}
+
+function isInside(filePath: string, directory: string): boolean {
+  return directory === '' || filePath.startsWith(`${directory}/`);
+}
@@ -0,0 +1,410 @@
+import { analyze, DefinitionType, type Reference, type Variable } from '@typescript-eslint/scope-manager';
+import type { TSESTree } from '@typescript-eslint/types';
+import { walkAST, getStaticStringValue, getStaticPropertyName } from './ast-parser';
+import { normalizeModuleName, unwrapExpression } from './module-bindings';
+import { foldConstant, type ConstantValue, type FoldingContext } from './constant-folding';
+
+/**
+ * What an expression refers to once local bindings are followed
+ * - global: a built-in or undeclared global, e.g. `eval` or `Buffer.from`
+ * - module: a module or one of its exports, e.g. `child_process` / `exec`
+ * - local: a binding declared in the file whose value is not a known symbol
+ */
+export type ResolvedSymbol =
+  | { kind: 'global'; name: string }
+  | { kind: 'module'; module: string; member?: string }
+  | { kind: 'local'; name: string };
+
+export interface ScopeAnalysis {
+  /**
+   * Resolve an expression (identifier, member access, require call...) to the symbol it refers to
+   * @returns ResolvedSymbol | undefined - undefined when the value cannot be determined statically
+   */
+  resolve(node: TSESTree.Node): ResolvedSymbol | undefined;
+  /**
+   * Fold an expression to a string when every part of it is statically known
+   * Handles literals, concatenation, template literals, constant identifiers and
+   * the decoding calls folded by foldConstant (atob, String.fromCharCode, joins...)
+   */
+  evaluateString(node: TSESTree.Node): string | undefined;
+  /**
+   * Fold an expression to the constant value it always produces
+   * @returns ConstantValue | undefined - undefined when any part is not statically known
+   */
+  evaluate(node: TSESTree.Node): ConstantValue | undefined;
+  /**
+   * Get the variable declared in this file that an identifier refers to
+   * @returns Variable | undefined - undefined for globals and non-reference identifiers
+   */
+  getVariable(identifier: TSESTree.Identifier): Variable | undefined;
+  /**
+   * Get the variables declared by a declaration node (function, variable declarator, import...)
+   */
+  getDeclaredVariables(node: TSESTree.Node): Variable[];
+  /**
+   * Get every expression written to a variable: initializers, assignments and loop heads
+   * Destructuring writes give the whole destructured value
+   */
+  getAssignedValues(variable: Variable): TSESTree.Node[];
+}
+
+// Names under which the global object itself is reachable
+const GLOBAL_OBJECT_NAMES = new Set(['globalThis', 'window', 'global', 'self']);
+
+// Members that invoke the function they are accessed on; `bind` is followed through its call instead
+const FUNCTION_FORWARDING_MEMBERS = new Set(['call', 'apply']);
+
+// Array methods whose callback receives each element as its first parameter
+const ITERATION_METHODS = new Set(['map', 'forEach', 'flatMap', 'filter', 'find', 'some', 'every']);
+
+// Guards against pathological alias chains
+const MAX_RESOLUTION_DEPTH = 32;
+
+// Scope analyses of the programs being scanned; scanners sharing a parsed file share its analysis
+const scopeAnalyses = new WeakMap<TSESTree.Program, ScopeAnalysis>();
+
+/**
+ * Build a scope-aware symbol resolver for a parsed program
+ * Bindings, imports, destructuring and re-assignments are followed so that
+ * `const e = eval; e(x)` resolves to the global eval while a local function
+ * or parameter named `eval` does not
+ * @param ast - Parsed program
+ * @returns ScopeAnalysis - Resolver for expressions of this program
+ */
+export function analyzeScope(ast: TSESTree.Program): ScopeAnalysis {
+  let analysis = scopeAnalyses.get(ast);
+  if (!analysis) {
+    analysis = createScopeAnalysis(ast);
+    scopeAnalyses.set(ast, analysis);
+  }
+  return analysis;
+}
+
+function createScopeAnalysis(ast: TSESTree.Program): ScopeAnalysis {
+  const scopeManager = analyze(ast, { sourceType: ast.sourceType });
+
+  const references = new Map<TSESTree.Node, Reference>();
+  for (const scope of scopeManager.scopes) {
+    for (const reference of scope.references) {
+      references.set(reference.identifier, reference);
+    }
+  }
+
+  // Plain `name = value` assignments; other writes (destructuring, compound, loops) are opaque
+  const assignedValues = new Map<TSESTree.Node, TSESTree.Expression>();
+  // Callbacks of `array.map(fn)` and similar calls, keyed by the callback function
+  const iterationCallbacks = new Map<TSESTree.Node, TSESTree.CallExpression>();
+  walkAST(ast, (node) => {
+    if (node.type === 'AssignmentExpression' && node.operator === '=' && node.left.type === 'Identifier') {
+      assignedValues.set(node.left, node.right);
+    }
+    if (node.type === 'CallExpression' && getIterationMethod(node) && node.arguments.length > 0) {
+      iterationCallbacks.set(node.arguments[0], node);
+    }
+  });
+
+  const folding: FoldingContext = {
+    foldIdentifier: (identifier, depth) => foldIdentifier(identifier, depth),
+    resolveGlobal: (node, depth) => {
+      const symbol = resolve(node, depth);
+      return symbol?.kind === 'global' ? symbol.name : undefined;
+    }
+  };
+
+  function resolve(node: TSESTree.Node, depth: number): ResolvedSymbol | undefined {
+    if (depth > MAX_RESOLUTION_DEPTH) return undefined;
+    const expression = unwrapExpression(node);
+
+    switch (expression.type) {
+      case 'Identifier':
+        return resolveIdentifier(expression, depth);
+
+      // (0, eval) evaluates to its last expression
+      case 'SequenceExpression':
+        return resolve(expression.expressions[expression.expressions.length - 1], depth + 1);
+
+      case 'MemberExpression': {
+        const propertyName = expression.computed
+          ? evaluate(expression.property, depth + 1)
+          : expression.property.type === 'Identifier' ? expression.property.name : undefined;
+        if (propertyName === undefined) return undefined;
+
+        // ['exec'].map(f => cp[f])[0] is whatever the callback returns
+        const mapped = unwrapExpression(expression.object);
+        if (mapped.type === 'CallExpression' && getIterationMethod(mapped) === 'map' && /^\d+$/.test(propertyName)) {
+          const returned = getReturnedExpression(mapped.arguments[0]);
+          return returned ? resolve(returned, depth + 1) : undefined;
+        }
+
+        const object = resolve(expression.object, depth + 1);
+        return object ? resolveMember(object, propertyName) : undefined;
+      }
+
+      case 'CallExpression': {
+        const callee = resolve(expression.callee, depth + 1);
+        if (callee?.kind === 'global' && callee.name === 'require' && expression.arguments.length > 0) {
+          const moduleName = evaluate(expression.arguments[0], depth + 1);
+          return moduleName === undefined ? undefined : { kind: 'module', module: normalizeModuleName(moduleName) };
+        }
+
+        // fn.bind(thisArg) still refers to fn
+        const target = unwrapExpression(expression.callee);
+        if (target.type === 'MemberExpression' && !target.computed &&
+            target.property.type === 'Identifier' && target.property.name === 'bind') {
+          return resolve(target.object, depth + 1);
+        }
+        return undefined;
+      }
+
+      case 'ImportExpression': {
+        const moduleName = evaluate(expression.source, depth + 1);
+        return moduleName === undefined ? undefined : { kind: 'module', module: normalizeModuleName(moduleName) };
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  function resolveIdentifier(identifier: TSESTree.Identifier, depth: number): ResolvedSymbol | undefined {
+    const reference = references.get(identifier);
+    if (!reference) return undefined;
+
+    const variable = reference.resolved;
+    if (!variable || isGlobalVariable(variable)) {
+      return { kind: 'global', name: identifier.name };
+    }
+
+    return resolveVariable(variable, depth + 1) ?? { kind: 'local', name: variable.name };
+  }
+
+  /**
+   * Resolve a declared variable from its definitions and every value written to it
+   * Returns undefined unless all of them agree on one symbol
+   */
+  function resolveVariable(variable: Variable, depth: number): ResolvedSymbol | undefined {
+    const candidates: (ResolvedSymbol | undefined)[] = [];
+
+    for (const definition of variable.defs) {
+      if (definition.type === DefinitionType.ImportBinding) {
+        candidates.push(resolveImport(definition.node));
+      } else if (definition.type === DefinitionType.Variable) {
+        const { id, init } = definition.node;
+        if (!init) continue;
+        const path = getPatternPath(id, definition.name, depth);
+        const base = path && resolve(init, depth + 1);
+        candidates.push(base ? path.reduce<ResolvedSymbol | undefined>(
+          (symbol, key) => symbol && resolveMember(symbol, key), base
+        ) : undefined);
+      } else {
+        // Functions, classes, parameters, catch clauses, enums...
+        return undefined;
+      }
+    }
+
+    for (const reference of variable.references) {
+      if (!reference.isWrite() || reference.init) continue;
+      const value = assignedValues.get(reference.identifier);
+      candidates.push(value && !reference.isRead() ? resolve(value, depth + 1) : undefined);
+    }
+
+    const [first, ...rest] = candidates;
+    if (!first || rest.some(candidate => !candidate || !isSameSymbol(candidate, first))) {
+      return undefined;
+    }
+    return first;
+  }
+
+  function resolveImport(node: TSESTree.Node): ResolvedSymbol | undefined {
+    if (node.type === 'TSImportEqualsDeclaration') {
+      const reference = node.moduleReference;
+      if (reference.type !== 'TSExternalModuleReference') return undefined;
+      const moduleName = getStaticStringValue(reference.expression);
+      return moduleName === undefined ? undefined : { kind: 'module', module: normalizeModuleName(moduleName) };
+    }
+
+    if (node.type === 'ImportDefaultSpecifier' || node.type === 'ImportNamespaceSpecifier' || node.type === 'ImportSpecifier') {
+      const declaration = findImportDeclaration(node);
+      if (!declaration) return undefined;
+      const moduleName = normalizeModuleName(String(declaration.source.value));
+
+      if (node.type !== 'ImportSpecifier') {
+        return { kind: 'module', module: moduleName };
+      }
+      const imported = node.imported.type === 'Identifier' ? node.imported.name : String(node.imported.value);
+      return imported === 'default'
+        ? { kind: 'module', module: moduleName }
+        : { kind: 'module', module: moduleName, member: imported };
+    }
+
+    return undefined;
+  }
+
+  function findImportDeclaration(specifier: TSESTree.Node): TSESTree.ImportDeclaration | undefined {
+    return ast.body.find((statement): statement is TSESTree.ImportDeclaration =>
+      statement.type === 'ImportDeclaration' && (statement.specifiers as TSESTree.Node[]).includes(specifier)
+    );
+  }
+
+  /**
+   * Find the chain of property keys leading from a destructuring pattern to one of its identifiers
+   * `const { a: { b } } = x` gives ['a', 'b'] for b; array and rest patterns are not followed
+   */
+  function getPatternPath(pattern: TSESTree.Node, target: TSESTree.Identifier, depth: number): string[] | undefined {
+    if (pattern === target) return [];
+    if (pattern.type === 'AssignmentPattern') return getPatternPath(pattern.left, target, depth);
+    if (pattern.type !== 'ObjectPattern') return undefined;
+
+    for (const property of pattern.properties) {
+      if (property.type !== 'Property') continue;
+      const key = property.computed
+        ? evaluate(property.key, depth + 1)
+        : property.key.type === 'Identifier' ? property.key.name : getStaticStringValue(property.key);
+      if (key === undefined) continue;
+
+      const path = getPatternPath(property.value, target, depth);
+      if (path) return [key, ...path];
+    }
+
+    return undefined;
+  }
+
+  function evaluate(node: TSESTree.Node, depth: number): string | undefined {
+    const value = foldConstant(node, folding, depth);
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+  }
+
+  /**
+   * Fold an identifier bound once to a constant, or the element parameter of a
+   * callback iterating over a constant array whose elements are all the same
+   */
+  function foldIdentifier(identifier: TSESTree.Identifier, depth: number): ConstantValue | undefined {
+    const variable = references.get(identifier)?.resolved;
+    const definition = variable?.defs.length === 1 ? variable.defs[0] : undefined;
+    if (!variable || !definition || variable.references.some(reference => reference.isWrite() && !reference.init)) {
+      return undefined;
+    }
+
+    if (definition.type === DefinitionType.Variable) {
+      return definition.node.id === definition.name && definition.node.init
+        ? foldConstant(definition.node.init, folding, depth + 1)
+        : undefined;
+    }
+
+    if (definition.type === DefinitionType.Parameter && definition.node.params[0] === definition.name) {
+      const call = iterationCallbacks.get(definition.node);
+      const callee = call && unwrapExpression(call.callee);
+      const elements = callee?.type === 'MemberExpression' ? foldConstant(callee.object, folding, depth + 1) : undefined;
+      if (!Array.isArray(elements) || elements.length === 0) return undefined;
+
+      const [first, ...rest] = elements;
+      return rest.every(element => element === first) ? first : undefined;
+    }
+
+    return undefined;
+  }
+
+  return {
+    resolve: (node) => resolve(node, 0),
+    evaluateString: (node) => evaluate(node, 0),
+    evaluate: (node) => foldConstant(node, folding),
+    getVariable: (identifier) => {
+      const variable = references.get(identifier)?.resolved;
+      return variable && !isGlobalVariable(variable) ? variable : undefined;
+    },
+    getDeclaredVariables: (node) => scopeManager.getDeclaredVariables(node),
+    getAssignedValues: (variable) => {
+      const values = new Set<TSESTree.Node>();
+      for (const reference of variable.references) {
+        if (reference.isWrite() && reference.writeExpr) values.add(reference.writeExpr);
+      }
+      return Array.from(values);
+    }
+  };
+}
+
+/**
+ * Check whether a symbol is one of the given globals
+ * @param symbol - Resolved symbol
+ * @param names - Global names such as `eval` or `Buffer.from`
+ * @returns boolean - True when the symbol is one of the globals
+ */
+export function isGlobalSymbol(
+  symbol: ResolvedSymbol | undefined,
+  names: readonly string[]
+): symbol is Extract<ResolvedSymbol, { kind: 'global' }> {
+  return symbol?.kind === 'global' && names.includes(symbol.name);
+}
+
+/**
+ * Describe a symbol for reporting, e.g. `eval` or `child_process.exec`
+ * @param symbol - Resolved symbol
+ * @returns string - Display name of the symbol
+ */
+export function formatSymbol(symbol: ResolvedSymbol): string {
+  if (symbol.kind === 'module') {
+    return symbol.member ? `${symbol.module}.${symbol.member}` : symbol.module;
+  }
+  return symbol.name;
+}
+
+/**
+ * Globals come from the environment (TypeScript lib definitions) or are never declared at all
+ */
+function isGlobalVariable(variable: Variable): boolean {
+  return variable.defs.length === 0 ||
+    variable.defs.every(definition => definition.type === DefinitionType.ImplicitGlobalVariable);
+}
+
+/**
+ * Resolve `symbol.propertyName`
+ */
+function resolveMember(symbol: ResolvedSymbol, propertyName: string): ResolvedSymbol | undefined {
+  if (symbol.kind === 'local') return undefined;
+
+  // fn.call(...) / fn.apply(...) invoke fn itself
+  if (FUNCTION_FORWARDING_MEMBERS.has(propertyName) && (symbol.kind === 'module' ? symbol.member : !GLOBAL_OBJECT_NAMES.has(symbol.name))) {
+    return symbol;
+  }
+
+  if (symbol.kind === 'global') {
+    return GLOBAL_OBJECT_NAMES.has(symbol.name)
+      ? { kind: 'global', name: propertyName }
+      : { kind: 'global', name: `${symbol.name}.${propertyName}` };
+  }
+
+  if (!symbol.member) {
+    // mod.default is the module itself for CommonJS interop
+    return propertyName === 'default' ? symbol : { kind: 'module', module: symbol.module, member: propertyName };
+  }
+  return { kind: 'module', module: symbol.module, member: `${symbol.member}.${propertyName}` };
+}
+
+function isSameSymbol(a: ResolvedSymbol, b: ResolvedSymbol): boolean {
+  if (a.kind === 'module' && b.kind === 'module') {
+    return a.module === b.module && a.member === b.member;
+  }
+  return a.kind === b.kind && (a as { name: string }).name === (b as { name: string }).name;
+}
+
+/**
+ * Get the array method of an iteration call such as `list.map(fn)`
+ */
+function getIterationMethod(node: TSESTree.CallExpression): string | undefined {
+  const callee = unwrapExpression(node.callee);
+  const method = callee.type === 'MemberExpression' ? getStaticPropertyName(callee) : undefined;
+  return method && ITERATION_METHODS.has(method) ? method : undefined;
+}
+
+/**
+ * Get the expression a callback returns when its body is a single expression or return
+ */
+function getReturnedExpression(node: TSESTree.Node | undefined): TSESTree.Node | undefined {
+  if (node?.type !== 'ArrowFunctionExpression' && node?.type !== 'FunctionExpression') return undefined;
+  if (node.body.type !== 'BlockStatement') return node.body;
+
+  const [statement] = node.body.body;
+  return node.body.body.length === 1 && statement.type === 'ReturnStatement' && statement.argument
+    ? statement.argument
+    : undefined;
+}
@@ -0,0 +1,378 @@
+/**
+ * A script embedded in a component or markup file
+ */
+export interface ScriptBlock {
+  /** Source code of the block */
+  content: string;
+  /** Language of the block, from its `lang`/`type` attribute */
+  lang: 'js' | 'jsx' | 'ts' | 'tsx';
+  /** Offsets of the code in the original file */
+  range: [number, number];
+  /** 1-based line of the first character of the code in the original file */
+  startLine: number;
+  /** Attributes of the `<script>` tag (empty for Astro frontmatter) */
+  attributes: Record<string, string>;
+}
+
+/**
+ * Code run from an HTML attribute: an `on*=` event handler or a `javascript:` URL
+ */
+export interface InlineHandler {
+  kind: 'event_handler' | 'javascript_url';
+  /** Attribute holding the code, e.g. `onclick` or `href` */
+  attribute: string;
+  /** Tag the attribute belongs to */
+  tag: string;
+  /**
+   * Decoded code, padded with spaces to the length of the raw attribute text so
+   * each line keeps its length and position
+   */
+  code: string;
+  /** Offsets of the code in the original file */
+  range: [number, number];
+  /** 1-based line of the first character of the code in the original file */
+  line: number;
+}
+
+/**
+ * A `<script src>` tag
+ */
+export interface ExternalScript {
+  src: string;
+  attributes: Record<string, string>;
+  line: number;
+}
+
+// Files whose code lives in `<script>` blocks (and, for Astro, a frontmatter fence)
+export const COMPONENT_FILE_EXTENSIONS = ['.vue', '.svelte', '.astro', '.html', '.htm'];
+
+// Plain markup files, whose attributes can also hold code
+export const HTML_FILE_EXTENSIONS = ['.html', '.htm'];
+
+// `type` values of `<script>` tags browsers and bundlers execute as JavaScript
+const JAVASCRIPT_SCRIPT_TYPES = new Set([
+  '',
+  'module',
+  'text/javascript',
+  'application/javascript',
+  'application/x-javascript',
+  'text/ecmascript',
+  'application/ecmascript',
+  'text/babel',
+  'text/jsx',
+  'text/typescript',
+  'application/typescript'
+]);
+
+const SCRIPT_TAG_PATTERN = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+const ATTRIBUTE_PATTERN = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?-->/g;
+const FRONTMATTER_PATTERN = /^(\uFEFF?\s*---[^\S\r\n]*\r?\n)([\s\S]*?)\r?\n---[^\S\r\n]*(?:\r?\n|$)/;
+const START_TAG_PATTERN = /<([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+// Elements whose content is raw text, not markup
+const RAW_TEXT_PATTERN = /<(script|style|textarea|title)\b(?:[^>"']|"[^"]*"|'[^']*')*>([\s\S]*?)<\/\1\s*>/gi;
+
+// Attributes whose value is a URL that a `javascript:` scheme turns into code
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction', 'xlink:href', 'data']);
+const JAVASCRIPT_URL_PATTERN = /^\s*javascript\s*:/i;
+
+const HTML_ENTITIES: Record<string, string> = { quot: '"', apos: '\'', amp: '&', lt: '<', gt: '>', nbsp: ' ', tab: '\t', colon: ':', lpar: '(', rpar: ')' };
+const HTML_ENTITY_PATTERN = /&(?:#(\d+)|#x([\da-f]+)|(\w+));?/gi;
+
+/**
+ * Check whether a file keeps its code in script blocks
+ * @param filePath - File path
+ * @returns boolean - True for Vue, Svelte, Astro and HTML files
+ */
+export function isComponentFile(filePath: string): boolean {
+  const lowerPath = filePath.toLowerCase();
+  return COMPONENT_FILE_EXTENSIONS.some(extension => lowerPath.endsWith(extension));
+}
+
+/**
+ * Check whether a file is plain HTML markup
+ * @param filePath - File path
+ * @returns boolean - True for .html and .htm files
+ */
+export function isHtmlFile(filePath: string): boolean {
+  const lowerPath = filePath.toLowerCase();
+  return HTML_FILE_EXTENSIONS.some(extension => lowerPath.endsWith(extension));
+}
+
+/**
+ * Extract the executable script blocks of a Vue, Svelte, Astro or HTML file
+ * Blocks of non-JavaScript types (JSON, templates...) and blocks inside HTML
+ * comments are skipped
+ * @param content - File content
+ * @param filePath - File path, used to recognise Astro frontmatter
+ * @returns ScriptBlock[] - Script blocks in source order
+ */
+export function extractScriptBlocks(content: string, filePath: string): ScriptBlock[] {
+  const blocks: ScriptBlock[] = [];
+
+  if (filePath.toLowerCase().endsWith('.astro')) {
+    const frontmatter = FRONTMATTER_PATTERN.exec(content);
+    if (frontmatter) {
+      const start = frontmatter[1].length;
+      blocks.push(createBlock(content, start, frontmatter[2], 'ts', {}));
+    }
+  }
+
+  const comments = getRanges(content, HTML_COMMENT_PATTERN);
+
+  for (const match of content.matchAll(SCRIPT_TAG_PATTERN)) {
+    const tagStart = match.index!;
+    if (isInRanges(comments, tagStart)) continue;
+
+    const attributes = parseAttributes(match[1]);
+    const type = (attributes.type ?? '').trim().toLowerCase();
+    if (!JAVASCRIPT_SCRIPT_TYPES.has(type)) continue;
+
+    const codeStart = tagStart + match[0].indexOf('>') + 1;
+    blocks.push(createBlock(content, codeStart, match[2], getBlockLanguage(attributes, type), attributes));
+  }
+
+  return blocks.sort((a, b) => a.range[0] - b.range[0]);
+}
+
+/**
+ * Extract the code of event handler attributes (`onclick="..."`) and
+ * `javascript:` URLs of an HTML file
+ * Tags inside comments and raw-text elements (script, style...) are skipped;
+ * entities and, for URLs, percent-encoding are decoded
+ * @param content - File content
+ * @returns InlineHandler[] - Handlers in source order
+ */
+export function extractInlineHandlers(content: string): InlineHandler[] {
+  const handlers: InlineHandler[] = [];
+
+  for (const tag of getStartTags(content)) {
+    for (const attribute of tag.attributes) {
+      if (attribute.value === undefined) continue;
+
+      if (/^on[a-z]+$/.test(attribute.name)) {
+        handlers.push(createHandler(content, 'event_handler', tag.name, attribute.name, attribute.start, attribute.value, decodeEntities));
+        continue;
+      }
+
+      if (!URL_ATTRIBUTES.has(attribute.name) || !JAVASCRIPT_URL_PATTERN.test(decodeEntities(attribute.value))) continue;
+
+      // Skip the raw text of the `javascript:` prefix, which may itself be encoded
+      let rawPrefixLength = 0;
+      while (rawPrefixLength < attribute.value.length && !JAVASCRIPT_URL_PATTERN.test(decodeEntities(attribute.value.slice(0, rawPrefixLength)))) {
+        rawPrefixLength++;
+      }
+      handlers.push(createHandler(
+        content,
+        'javascript_url',
+        tag.name,
+        attribute.name,
+        attribute.start + rawPrefixLength,
+        attribute.value.slice(rawPrefixLength),
+        text => decodePercent(decodeEntities(text))
+      ));
+    }
+  }
+
+  return handlers;
+}
+
+/**
+ * Find the `<script src>` tags of an HTML file, skipping those inside comments
+ * @param content - File content
+ * @returns ExternalScript[] - Script tags with a src attribute, in source order
+ */
+export function extractExternalScripts(content: string): ExternalScript[] {
+  const comments = getRanges(content, HTML_COMMENT_PATTERN);
+  const scripts: ExternalScript[] = [];
+
+  for (const match of content.matchAll(SCRIPT_TAG_PATTERN)) {
+    if (isInRanges(comments, match.index!)) continue;
+    const attributes = parseAttributes(match[1]);
+    if (!attributes.src) continue;
+    scripts.push({
+      src: decodeEntities(attributes.src.trim()),
+      attributes,
+      line: getLineNumber(content, match.index!)
+    });
+  }
+
+  return scripts;
+}
+
+/**
+ * Blank out everything but the inline handlers' code, keeping line breaks, so
+ * that the result parses as one program whose positions match the original file
+ * @param content - File content
+ * @param handlers - Inline handlers of the file
+ * @returns string - Content of the same length with only the handlers' code left
+ */
+export function maskToInlineHandlers(content: string, handlers: InlineHandler[]): string {
+  const masked = content.replace(/[^\r\n]/g, ' ').split('');
+
+  for (const handler of handlers) {
+    for (let i = 0; i < handler.code.length; i++) {
+      masked[handler.range[0] + i] = handler.code[i];
+    }
+    // The closing quote becomes a statement terminator between handlers
+    if (handler.range[1] < masked.length && masked[handler.range[1]] === ' ') {
+      masked[handler.range[1]] = ';';
+    }
+  }
+
+  return masked.join('');
+}
+
+/**
+ * Blank out everything but the script blocks, keeping line breaks, so that the
+ * result parses as one program whose positions match the original file
+ * @param content - File content
+ * @param blocks - Script blocks of the file
+ * @returns string - Content of the same length with only the blocks' code left
+ */
+export function maskToScriptBlocks(content: string, blocks: ScriptBlock[]): string {
+  const masked = content.replace(/[^\r\n]/g, ' ').split('');
+
+  for (const block of blocks) {
+    for (let i = block.range[0]; i < block.range[1]; i++) {
+      masked[i] = content[i];
+    }
+    // Terminate each block so a missing semicolon does not join it with the next one
+    if (block.range[1] < masked.length && masked[block.range[1]] === ' ') {
+      masked[block.range[1]] = ';';
+    }
+  }
+
+  return masked.join('');
+}
+
+function createBlock(
+  content: string,
+  start: number,
+  code: string,
+  lang: ScriptBlock['lang'],
+  attributes: Record<string, string>
+): ScriptBlock {
+  return {
+    content: code,
+    lang,
+    range: [start, start + code.length],
+    startLine: getLineNumber(content, start),
+    attributes
+  };
+}
+
+function createHandler(
+  content: string,
+  kind: InlineHandler['kind'],
+  tag: string,
+  attribute: string,
+  start: number,
+  raw: string,
+  decode: (text: string) => string
+): InlineHandler {
+  // Decode line by line so every line of code stays on its original line
+  const code = raw.split('\n').map(line => {
+    const decoded = decode(line).replace(/[\r\n]/g, ' ');
+    return decoded.length <= line.length ? decoded.padEnd(line.length) : line;
+  }).join('\n');
+
+  return {
+    kind,
+    attribute,
+    tag,
+    code,
+    range: [start, start + raw.length],
+    line: getLineNumber(content, start)
+  };
+}
+
+interface StartTagAttribute {
+  name: string;
+  value?: string;
+  /** Offset of the value (inside its quotes) in the file */
+  start: number;
+}
+
+/**
+ * Find the start tags of a markup file with the offsets of their attribute values
+ */
+function getStartTags(content: string): { name: string; attributes: StartTagAttribute[] }[] {
+  const skipped = [...getRanges(content, HTML_COMMENT_PATTERN), ...getRawTextRanges(content)];
+  const tags: { name: string; attributes: StartTagAttribute[] }[] = [];
+
+  for (const match of content.matchAll(START_TAG_PATTERN)) {
+    if (isInRanges(skipped, match.index!)) continue;
+
+    const attributesStart = match.index! + 1 + match[1].length;
+    const attributes: StartTagAttribute[] = [];
+    for (const attribute of match[2].matchAll(ATTRIBUTE_PATTERN)) {
+      const value = attribute[2] ?? attribute[3] ?? attribute[4];
+      const valueOffset = value === undefined
+        ? 0
+        : attribute[0].length - value.length - (attribute[4] === undefined ? 1 : 0);
+      attributes.push({
+        name: attribute[1].toLowerCase(),
+        value,
+        start: attributesStart + attribute.index! + valueOffset
+      });
+    }
+    tags.push({ name: match[1].toLowerCase(), attributes });
+  }
+
+  return tags;
+}
+
+// Contents of raw-text elements, where `<tag` is text rather than markup
+function getRawTextRanges(content: string): [number, number][] {
+  return Array.from(content.matchAll(RAW_TEXT_PATTERN), match => {
+    const start = match.index! + match[0].length - match[2].length - match[0].slice(match[0].lastIndexOf('</')).length;
+    return [start, start + match[2].length] as [number, number];
+  });
+}
+
+function getRanges(content: string, pattern: RegExp): [number, number][] {
+  return Array.from(content.matchAll(pattern), match => [match.index!, match.index! + match[0].length] as [number, number]);
+}
+
+function isInRanges(ranges: [number, number][], offset: number): boolean {
+  return ranges.some(([start, end]) => offset >= start && offset < end);
+}
+
+function getLineNumber(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(HTML_ENTITY_PATTERN, (entity, decimal, hex, name) => {
+    if (decimal || hex) {
+      const codePoint = parseInt(decimal ?? hex, decimal ? 10 : 16);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function decodePercent(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+function getBlockLanguage(attributes: Record<string, string>, type: string): ScriptBlock['lang'] {
+  const lang = (attributes.lang ?? '').toLowerCase();
+  if (lang === 'ts' || lang === 'typescript' || type.endsWith('/typescript')) return 'ts';
+  if (lang === 'tsx') return 'tsx';
+  if (lang === 'jsx' || type === 'text/jsx' || type === 'text/babel') return 'jsx';
+  return 'js';
+}
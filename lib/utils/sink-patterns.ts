@@ -0,0 +1,151 @@
+/**
+ * An execution sink found by pattern matching rather than by parsing
+ */
+export interface SinkPatternMatch {
+  kind: 'eval' | 'function_constructor' | 'timer' | 'shell' | 'vm';
+  /** Name of the sink as written, e.g. `execSync` or `new Function` */
+  name: string;
+  line: number;
+  /** Offset of the match in the content */
+  index: number;
+}
+
+interface SinkPattern {
+  kind: SinkPatternMatch['kind'];
+  pattern: RegExp;
+  /** Only report when the raw content mentions this module */
+  requiresModule?: RegExp;
+}
+
+// Patterns run on code whose comments and string contents are blanked, so the
+// quotes of a string argument are still visible but its text is not
+const SINK_PATTERNS: SinkPattern[] = [
+  { kind: 'eval', pattern: /(?<![\w$.])eval\s*\(/g },
+  { kind: 'eval', pattern: /\b(?:globalThis|window|global|self)\s*\.\s*eval\s*\(/g },
+  { kind: 'function_constructor', pattern: /(?:\bnew\s+)?(?<![\w$.])Function\s*\(/g },
+  { kind: 'timer', pattern: /(?<![\w$.])(?:setTimeout|setInterval)\s*\(\s*['"`]/g },
+  {
+    kind: 'shell',
+    pattern: /(?<![\w$])(?:exec|execSync|spawn|spawnSync|execFile|execFileSync)\s*\(/g,
+    requiresModule: /child_process/
+  },
+  {
+    kind: 'vm',
+    pattern: /(?<![\w$])(?:runInContext|runInNewContext|runInThisContext|compileFunction)\s*\(|\bnew\s+(?:vm\s*\.\s*)?Script\s*\(/g,
+    requiresModule: /['"`](?:node:)?vm['"`]/
+  }
+];
+
+/**
+ * Find execution sinks in source code that could not be parsed
+ * Comments and string contents are ignored, so sink names mentioned in text do not match
+ * @param content - Raw file content
+ * @returns SinkPatternMatch[] - Matches in source order
+ */
+export function findSinkPatterns(content: string): SinkPatternMatch[] {
+  const code = maskCommentsAndStrings(content);
+  const lineStarts = getLineStarts(content);
+  const matches: SinkPatternMatch[] = [];
+
+  for (const { kind, pattern, requiresModule } of SINK_PATTERNS) {
+    if (requiresModule && !requiresModule.test(content)) continue;
+
+    for (const match of code.matchAll(pattern)) {
+      const name = match[0].replace(/\s*\([\s\S]*$/, '').replace(/\s+/g, ' ');
+      if (matches.some(existing => existing.index === match.index)) continue;
+      matches.push({ kind, name, line: getLine(lineStarts, match.index!), index: match.index! });
+    }
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Blank comments and the text of string and template literals, keeping quotes,
+ * template substitutions and line breaks so offsets and lines are unchanged
+ * The scanner is lenient: an unterminated single-line string ends at the line break
+ * @param content - Source code
+ * @returns string - Masked code of the same length
+ */
+export function maskCommentsAndStrings(content: string): string {
+  const result = content.split('');
+  // Open template literals and the `${` depth of the substitution being scanned in each
+  const templates: number[] = [];
+  let i = 0;
+
+  const blank = (start: number, end: number) => {
+    for (let j = start; j < end; j++) {
+      if (result[j] !== '\n' && result[j] !== '\r') result[j] = ' ';
+    }
+  };
+
+  // Scan template text from i until its end or a substitution
+  const scanTemplateText = () => {
+    const start = i;
+    while (i < content.length && content[i] !== '`' && !(content[i] === '$' && content[i + 1] === '{')) {
+      i += content[i] === '\\' ? 2 : 1;
+    }
+    blank(start, Math.min(i, content.length));
+    if (content[i] === '`') {
+      templates.pop();
+      i++;
+    } else if (i < content.length) {
+      templates[templates.length - 1] = 1;
+      i += 2;
+    }
+  };
+
+  while (i < content.length) {
+    const char = content[i];
+    const next = content[i + 1];
+
+    if (char === '/' && next === '/') {
+      const end = content.indexOf('\n', i);
+      blank(i, end === -1 ? content.length : end);
+      i = end === -1 ? content.length : end;
+    } else if (char === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      blank(i, end === -1 ? content.length : end + 2);
+      i = end === -1 ? content.length : end + 2;
+    } else if (char === '"' || char === '\'') {
+      const start = ++i;
+      while (i < content.length && content[i] !== char && content[i] !== '\n') {
+        i += content[i] === '\\' ? 2 : 1;
+      }
+      blank(start, Math.min(i, content.length));
+      if (content[i] === char) i++;
+    } else if (char === '`') {
+      templates.push(0);
+      i++;
+      scanTemplateText();
+    } else if (templates.length > 0 && templates[templates.length - 1] > 0 && (char === '{' || char === '}')) {
+      // Braces inside a template substitution; the closing one resumes the template text
+      templates[templates.length - 1] += char === '{' ? 1 : -1;
+      i++;
+      if (templates[templates.length - 1] === 0) scanTemplateText();
+    } else {
+      i++;
+    }
+  }
+
+  return result.join('');
+}
+
+function getLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function getLine(lineStarts: number[], index: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= index) low = middle;
+    else high = middle - 1;
+  }
+  return low + 1;
+}
@@ -0,0 +1,447 @@
+import type { TSESTree } from '@typescript-eslint/types';
+import { DefinitionType, type Variable } from '@typescript-eslint/scope-manager';
+import { walkAST } from './ast-parser';
+import { formatSymbol, type ResolvedSymbol, type ScopeAnalysis } from './scope-analysis';
+
+export type TaintSourceType = 'environment' | 'command_line' | 'user_input' | 'file' | 'network' | 'decoded_data';
+
+export interface TaintSource {
+  type: TaintSourceType;
+  // Readable name of the source expression, e.g. `process.env.CMD` or `req.body`
+  name: string;
+  line?: number;
+}
+
+export interface TaintStep {
+  name: string;
+  line?: number;
+  // Set when the step lies in another file than the one being analyzed
+  file?: string;
+}
+
+export interface TaintFlow {
+  source: TaintSource;
+  // Source first, then every variable, parameter or function return the value passed through
+  path: TaintStep[];
+}
+
+export interface TaintAnalysis {
+  /**
+   * Find the untrusted source an expression's value may come from
+   * @returns TaintFlow | undefined - The first flow found, or undefined when the value is untainted
+   */
+  getTaint(node: TSESTree.Node): TaintFlow | undefined;
+  /**
+   * Find the untrusted source one of a function's return values may come from
+   * @returns TaintFlow | undefined - The first flow found, or undefined when every return value is untainted
+   */
+  getReturnTaint(fn: TSESTree.Node): TaintFlow | undefined;
+}
+
+export interface TaintOptions {
+  /**
+   * Look up the taint of a value returned by a function imported from another module
+   * Without it, values returned by imported functions are treated as untainted
+   */
+  resolveImportedCall?(symbol: { module: string; member?: string }, call: TSESTree.CallExpression): TaintFlow | undefined;
+}
+
+type FunctionNode = TSESTree.FunctionDeclaration | TSESTree.FunctionExpression | TSESTree.ArrowFunctionExpression;
+
+// Properties of an HTTP request object that carry client-controlled data
+const REQUEST_PROPERTIES = new Set(['body', 'query', 'params', 'headers', 'cookies']);
+const REQUEST_OBJECT_NAMES = new Set(['req', 'request']);
+
+const FILE_READ_FUNCTIONS: Record<string, Set<string>> = {
+  fs: new Set(['readFileSync', 'readFile', 'promises.readFile']),
+  'fs/promises': new Set(['readFile'])
+};
+const NETWORK_MODULES = new Set(['axios', 'got', 'node-fetch', 'undici']);
+const HTTP_MODULES = new Set(['http', 'https']);
+const HTTP_REQUEST_FUNCTIONS = new Set(['get', 'request']);
+
+// Global functions that return a value derived from their arguments
+const PASS_THROUGH_GLOBALS = new Set([
+  'String', 'decodeURIComponent', 'decodeURI', 'unescape', 'JSON.parse', 'JSON.stringify', 'Buffer.from', 'Buffer.concat'
+]);
+
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression']);
+
+/**
+ * Build an intra-file taint tracker on top of the scope analysis
+ * Values are followed from untrusted sources (environment, request data, file and
+ * network reads, decoded base64) through variables, concatenation, method calls,
+ * callbacks, parameters and return values of functions declared in the file
+ * @param ast - Parsed program
+ * @param scope - Scope analysis of the same program
+ * @param options - Hooks for following values across modules
+ * @returns TaintAnalysis - Taint lookup for expressions of this program
+ */
+export function analyzeTaint(ast: TSESTree.Program, scope: ScopeAnalysis, options: TaintOptions = {}): TaintAnalysis {
+  // Call sites by callee, and the call and argument index of every inline callback
+  const callsByCallee = new Map<TSESTree.Node, TSESTree.CallExpression>();
+  const callbackSites = new Map<TSESTree.Node, { call: TSESTree.CallExpression; index: number }>();
+  // Variable declarators that bind a function expression (`const f = () => ...`)
+  const functionDeclarators = new Map<TSESTree.Node, TSESTree.VariableDeclarator>();
+  // Return values of each function, excluding those of nested functions
+  const returnValues = new Map<TSESTree.Node, TSESTree.Node[]>();
+
+  walkAST(ast, (node, _parent, ancestors) => {
+    if (node.type === 'CallExpression') {
+      callsByCallee.set(node.callee, node);
+      node.arguments.forEach((argument, index) => {
+        if (FUNCTION_TYPES.has(argument.type)) callbackSites.set(argument, { call: node, index });
+      });
+    }
+
+    if (node.type === 'VariableDeclarator' && node.init && FUNCTION_TYPES.has(node.init.type)) {
+      functionDeclarators.set(node.init, node);
+    }
+
+    if (node.type === 'ArrowFunctionExpression' && node.expression) {
+      returnValues.set(node, [node.body]);
+    }
+
+    if (node.type === 'ReturnStatement' && node.argument) {
+      const owner = [...ancestors].reverse().find(ancestor => FUNCTION_TYPES.has(ancestor.type));
+      if (owner) returnValues.set(owner, [...(returnValues.get(owner) ?? []), node.argument]);
+    }
+  });
+
+  const cache = new Map<TSESTree.Node, TaintFlow | null>();
+
+  function getTaint(node: TSESTree.Node): TaintFlow | undefined {
+    const cached = cache.get(node);
+    if (cached !== undefined) return cached ?? undefined;
+
+    // Mark in progress so cycles (recursion, `x = x + y`) end as untainted
+    cache.set(node, null);
+    const flow = computeTaint(node);
+    cache.set(node, flow ?? null);
+    return flow;
+  }
+
+  function computeTaint(node: TSESTree.Node): TaintFlow | undefined {
+    const source = getSource(node);
+    if (source) return { source, path: [{ name: source.name, line: source.line }] };
+
+    switch (node.type) {
+      case 'Identifier':
+        return getIdentifierTaint(node);
+
+      case 'MemberExpression':
+        return getTaint(node.object);
+
+      case 'CallExpression':
+        return getCallTaint(node);
+
+      case 'TemplateLiteral':
+        return firstTaint(node.expressions);
+
+      case 'TaggedTemplateExpression':
+        return firstTaint(node.quasi.expressions);
+
+      case 'BinaryExpression':
+      case 'LogicalExpression':
+        return firstTaint([node.left, node.right]);
+
+      case 'ConditionalExpression':
+        return firstTaint([node.consequent, node.alternate]);
+
+      case 'AssignmentExpression':
+        return getTaint(node.right);
+
+      case 'SequenceExpression':
+        return getTaint(node.expressions[node.expressions.length - 1]);
+
+      case 'ArrayExpression':
+        return firstTaint(node.elements.filter((element): element is TSESTree.Expression | TSESTree.SpreadElement => element !== null));
+
+      case 'ObjectExpression':
+        return firstTaint(node.properties.map(property => property.type === 'Property' ? property.value : property));
+
+      case 'SpreadElement':
+      case 'AwaitExpression':
+        return getTaint(node.argument);
+
+      case 'TSAsExpression':
+      case 'TSNonNullExpression':
+      case 'TSSatisfiesExpression':
+      case 'ChainExpression':
+        return getTaint(node.expression);
+
+      default:
+        return undefined;
+    }
+  }
+
+  function firstTaint(nodes: TSESTree.Node[]): TaintFlow | undefined {
+    for (const node of nodes) {
+      const flow = getTaint(node);
+      if (flow) return flow;
+    }
+    return undefined;
+  }
+
+  function getIdentifierTaint(identifier: TSESTree.Identifier): TaintFlow | undefined {
+    const variable = scope.getVariable(identifier);
+    if (!variable) return undefined;
+
+    const flow = getVariableTaint(variable);
+    return flow && extendFlow(flow, variable.name, variable.defs[0]?.name.loc.start.line);
+  }
+
+  function getVariableTaint(variable: Variable): TaintFlow | undefined {
+    for (const definition of variable.defs) {
+      if (definition.type === DefinitionType.Parameter) {
+        const flow = getParameterTaint(definition.node as FunctionNode, definition.name);
+        if (flow) return flow;
+      }
+    }
+
+    return firstTaint(scope.getAssignedValues(variable));
+  }
+
+  /**
+   * A parameter is tainted when a call site passes a tainted argument, or when the
+   * function is a callback of a source (`fs.readFile(p, (err, data) => ...)`) or of
+   * a method on a tainted value (`res.on('data', chunk => ...)`, `promise.then(...)`)
+   */
+  function getParameterTaint(fn: FunctionNode, name: TSESTree.Node): TaintFlow | undefined {
+    const index = fn.params.findIndex(param => param.range[0] <= name.range[0] && name.range[1] <= param.range[1]);
+    if (index < 0) return undefined;
+
+    const callback = callbackSites.get(fn);
+    if (callback) {
+      const source = getCallbackSource(callback.call, callback.index, index);
+      if (source) return { source, path: [{ name: source.name, line: source.line }] };
+
+      const callee = callback.call.callee;
+      if (callee.type === 'MemberExpression') {
+        const flow = getTaint(callee.object);
+        if (flow) return flow;
+      }
+    }
+
+    for (const call of getCallSites(fn)) {
+      const argument = call.arguments[index];
+      const flow = argument && getTaint(argument);
+      if (flow) return flow;
+    }
+
+    return undefined;
+  }
+
+  function getCallSites(fn: FunctionNode): TSESTree.CallExpression[] {
+    const calls: TSESTree.CallExpression[] = [];
+
+    for (const variable of getFunctionVariables(fn)) {
+      for (const reference of variable.references) {
+        const call = callsByCallee.get(reference.identifier);
+        if (call) calls.push(call);
+      }
+    }
+
+    return calls;
+  }
+
+  /**
+   * Variables a function is bound to: its declaration name or `const f = () => ...`
+   */
+  function getFunctionVariables(fn: FunctionNode): Variable[] {
+    if (fn.type === 'FunctionDeclaration') {
+      return scope.getDeclaredVariables(fn);
+    }
+
+    // Named function expressions can also call themselves
+    const declarator = functionDeclarators.get(fn);
+    return scope.getDeclaredVariables(fn).concat(declarator ? scope.getDeclaredVariables(declarator) : []);
+  }
+
+  function getCallTaint(call: TSESTree.CallExpression): TaintFlow | undefined {
+    const callee = call.callee;
+
+    // Functions declared in this file: tainted when one of their return values is
+    const fn = getLocalFunction(callee);
+    if (fn) {
+      const flow = firstTaint(returnValues.get(fn) ?? []);
+      return flow && extendFlow(flow, `${getCalleeName(callee)}()`, call.loc.start.line);
+    }
+
+    // Methods of tainted values (`data.toString()`, `res.json()`) return tainted values
+    if (callee.type === 'MemberExpression') {
+      const flow = getTaint(callee.object);
+      if (flow) return flow;
+    }
+
+    const symbol = scope.resolve(callee);
+    if (symbol?.kind === 'global' && PASS_THROUGH_GLOBALS.has(symbol.name)) {
+      return firstTaint(call.arguments);
+    }
+
+    if (symbol?.kind === 'module' && options.resolveImportedCall) {
+      return options.resolveImportedCall(symbol, call);
+    }
+
+    return undefined;
+  }
+
+  function getLocalFunction(callee: TSESTree.Node): FunctionNode | undefined {
+    if (FUNCTION_TYPES.has(callee.type)) return callee as FunctionNode;
+    if (callee.type !== 'Identifier') return undefined;
+
+    const variable = scope.getVariable(callee);
+    for (const definition of variable?.defs ?? []) {
+      if (definition.type === DefinitionType.FunctionName) {
+        return definition.node as FunctionNode;
+      }
+      if (definition.type === DefinitionType.Variable && definition.node.init && FUNCTION_TYPES.has(definition.node.init.type)) {
+        return definition.node.init as FunctionNode;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Classify an expression that produces untrusted data by itself
+   */
+  function getSource(node: TSESTree.Node): TaintSource | undefined {
+    const line = node.loc.start.line;
+
+    // Aliases of sources (`const env = process.env`) are followed as variables instead, to keep them in the path
+    if (node.type === 'MemberExpression' && !isLocalRoot(node)) {
+      const symbol = scope.resolve(node);
+      if (symbol?.kind === 'global' && /^process\.(env|argv)\b/.test(symbol.name)) {
+        return symbol.name.startsWith('process.env')
+          ? { type: 'environment', name: symbol.name, line }
+          : { type: 'command_line', name: 'process.argv', line };
+      }
+    }
+
+    if (node.type === 'MemberExpression' && isRequestData(node)) {
+      return { type: 'user_input', name: getExpressionName(node), line };
+    }
+
+    if (node.type === 'CallExpression') {
+      const symbol = scope.resolve(node.callee);
+      if (!symbol) return undefined;
+      const name = formatSymbol(symbol);
+
+      if (isFileRead(symbol)) {
+        return { type: 'file', name, line };
+      }
+
+      if (isNetworkRequest(symbol)) {
+        return { type: 'network', name, line };
+      }
+
+      if (symbol.kind === 'global' && symbol.name === 'atob') {
+        return { type: 'decoded_data', name: 'atob', line };
+      }
+
+      if (symbol.kind === 'global' && symbol.name === 'Buffer.from' && node.arguments.length > 1) {
+        const encoding = scope.evaluateString(node.arguments[1]);
+        if (encoding === 'base64' || encoding === 'hex') {
+          return { type: 'decoded_data', name: `Buffer.from(…, '${encoding}')`, line };
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Sources that hand their data to a callback instead of returning it
+   */
+  function getCallbackSource(call: TSESTree.CallExpression, callbackIndex: number, paramIndex: number): TaintSource | undefined {
+    const symbol = scope.resolve(call.callee);
+    if (!symbol) return undefined;
+    const line = call.loc.start.line;
+
+    // fs.readFile(path, (err, data) => ...)
+    if (isFileRead(symbol) && callbackIndex > 0 && paramIndex === 1) {
+      return { type: 'file', name: formatSymbol(symbol), line };
+    }
+
+    // http.get(url, (res) => ...)
+    if (symbol.kind === 'module' && HTTP_MODULES.has(symbol.module) && HTTP_REQUEST_FUNCTIONS.has(symbol.member ?? '') && paramIndex === 0) {
+      return { type: 'network', name: formatSymbol(symbol), line };
+    }
+
+    return undefined;
+  }
+
+  function isLocalRoot(node: TSESTree.MemberExpression): boolean {
+    let root: TSESTree.Node = node;
+    while (root.type === 'MemberExpression') root = root.object;
+    return root.type !== 'Identifier' || scope.getVariable(root) !== undefined;
+  }
+
+  function isRequestData(node: TSESTree.MemberExpression): boolean {
+    if (node.computed || node.property.type !== 'Identifier' || !REQUEST_PROPERTIES.has(node.property.name)) {
+      return false;
+    }
+
+    const object = node.object;
+    return (object.type === 'Identifier' && REQUEST_OBJECT_NAMES.has(object.name)) ||
+      (object.type === 'MemberExpression' && !object.computed &&
+        object.property.type === 'Identifier' && REQUEST_OBJECT_NAMES.has(object.property.name));
+  }
+
+  function isNetworkRequest(symbol: ResolvedSymbol): boolean {
+    if (symbol.kind === 'global') return symbol.name === 'fetch';
+    if (symbol.kind !== 'module') return false;
+
+    return NETWORK_MODULES.has(symbol.module) ||
+      (HTTP_MODULES.has(symbol.module) && HTTP_REQUEST_FUNCTIONS.has(symbol.member ?? ''));
+  }
+
+  return {
+    getTaint,
+    getReturnTaint: (fn) => firstTaint(returnValues.get(fn) ?? [])
+  };
+}
+
+/**
+ * Render a taint flow as a readable chain, e.g. `process.env.CMD (line 2) -> cmd (line 2) -> exec (line 5)`
+ * Steps in other files read `decode() (utils/decode.js:3)`
+ * @param flow - Taint flow to describe
+ * @returns string - Source-to-sink chain
+ */
+export function formatTaintPath(flow: TaintFlow): string {
+  return flow.path.map(step => {
+    if (step.file) return `${step.name} (${step.file}${step.line ? `:${step.line}` : ''})`;
+    return step.line ? `${step.name} (line ${step.line})` : step.name;
+  }).join(' -> ');
+}
+
+/**
+ * Add a step to a flow unless it repeats the last one
+ * @param flow - Flow reaching the step
+ * @param name - Variable, parameter, function or sink the value reaches
+ * @param line - Line of the step
+ * @param file - File of the step, when it is not the file being analyzed
+ * @returns TaintFlow - Flow including the step
+ */
+export function extendFlow(flow: TaintFlow, name: string, line?: number, file?: string): TaintFlow {
+  const last = flow.path[flow.path.length - 1];
+  if (last && last.name === name && last.line === line && last.file === file) return flow;
+  return { source: flow.source, path: [...flow.path, file ? { name, line, file } : { name, line }] };
+}
+
+function isFileRead(symbol: ResolvedSymbol): boolean {
+  return symbol.kind === 'module' && Boolean(FILE_READ_FUNCTIONS[symbol.module]?.has(symbol.member ?? ''));
+}
+
+function getCalleeName(callee: TSESTree.Node): string {
+  return callee.type === 'Identifier' ? callee.name : 'function';
+}
+
+function getExpressionName(node: TSESTree.Node): string {
+  if (node.type === 'Identifier') return node.name;
+  if (node.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier') {
+    return `${getExpressionName(node.object)}.${node.property.name}`;
+  }
+  return node.type === 'ThisExpression' ? 'this' : '…';
+}
@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+
+export type WorkspacePrefix = 'repo-clone-' | 'repo-archive-' | 'repo-credentials-';
+
+export interface WorkspaceOptions {
+  /** Directory workspaces are created in */
+  root?: string;
+  /** Milliseconds after which an unused workspace is stale and swept */
+  maxAge?: number;
+  /** Most bytes all workspaces together may take */
+  maxTotalSize?: number;
+}
+
+export interface Workspace {
+  path: string;
+  /** Bytes this workspace may use before the total size limit is reached */
+  availableSize: number;
+}
+
+export interface ReleaseOptions {
+  /** Leave the workspace on disk for debugging; it is then never swept */
+  keep?: boolean;
+}
+
+const WORKSPACE_PREFIXES: WorkspacePrefix[] = ['repo-clone-', 'repo-archive-', 'repo-credentials-'];
+
+// Marks a workspace kept for debugging so the stale sweep leaves it alone
+const KEEP_MARKER = '.keep-workspace';
+
+const DEFAULT_WORKSPACE_OPTIONS = {
+  maxAge: 60 * 60 * 1000,
+  maxTotalSize: 2 * 1024 * 1024 * 1024
+};
+
+/**
+ * Owns the temporary directories repositories are cloned and extracted into
+ * Workspaces are removed when released, workspaces left behind by crashed or
+ * restarted processes are swept once they are stale, and new workspaces are
+ * refused while the existing ones use up the disk budget
+ */
+export class WorkspaceManager {
+  private readonly root: string;
+  private readonly maxAge: number;
+  private readonly maxTotalSize: number;
+  private readonly active = new Set<string>();
+  private initialization?: Promise<void>;
+
+  constructor(options: WorkspaceOptions = {}) {
+    this.root = options.root ?? os.tmpdir();
+    this.maxAge = options.maxAge ?? DEFAULT_WORKSPACE_OPTIONS.maxAge;
+    this.maxTotalSize = options.maxTotalSize ?? DEFAULT_WORKSPACE_OPTIONS.maxTotalSize;
+  }
+
+  /**
+   * Sweep stale workspaces once per process; later calls wait for the first sweep
+   * @returns Promise<void>
+   */
+  initialize(): Promise<void> {
+    this.initialization ??= this.sweepStale().then(() => undefined);
+    return this.initialization;
+  }
+
+  /**
+   * Create a workspace, sweeping stale ones first when the disk budget is used up
+   * @param prefix - Directory name prefix identifying what the workspace holds
+   * @returns Promise<Workspace> - The new directory and the space left for it
+   * @throws Error when the workspaces in use leave no space
+   */
+  async create(prefix: WorkspacePrefix): Promise<Workspace> {
+    await this.initialize();
+
+    let usedSize = await this.getUsedSize();
+    if (usedSize >= this.maxTotalSize) {
+      await this.sweepStale();
+      usedSize = await this.getUsedSize();
+    }
+    if (usedSize >= this.maxTotalSize) {
+      throw new Error('Workspace disk limit reached; try again when running scans finish');
+    }
+
+    const workspacePath = await fs.mkdtemp(path.join(this.root, prefix));
+    this.active.add(workspacePath);
+    return { path: workspacePath, availableSize: this.maxTotalSize - usedSize };
+  }
+
+  /**
+   * Remove a workspace, or keep it for debugging
+   * Failures are logged rather than thrown so cleanup never masks a scan result
+   * @param workspacePath - Path returned by create
+   * @param options - Whether to keep the workspace
+   * @returns Promise<void>
+   */
+  async release(workspacePath: string, options: ReleaseOptions = {}): Promise<void> {
+    this.active.delete(workspacePath);
+
+    try {
+      if (options.keep) {
+        await fs.writeFile(path.join(workspacePath, KEEP_MARKER), `${new Date().toISOString()}\n`);
+        console.log('Keeping workspace for debugging:', workspacePath);
+      } else {
+        await fs.rm(workspacePath, { recursive: true, force: true });
+      }
+    } catch (error) {
+      console.error('Failed to cleanup temporary directory:', error);
+    }
+  }
+
+  /**
+   * Remove workspaces that are not in use by this process and older than the maximum age
+   * Kept workspaces are left alone
+   * @returns Promise<string[]> - Paths of the removed workspaces
+   */
+  async sweepStale(): Promise<string[]> {
+    const removed: string[] = [];
+    const cutoff = Date.now() - this.maxAge;
+
+    for (const workspacePath of await this.listWorkspaces()) {
+      if (this.active.has(workspacePath)) continue;
+
+      try {
+        const stats = await fs.stat(workspacePath);
+        if (!(stats.mtimeMs < cutoff) || await this.isKept(workspacePath)) continue;
+
+        await fs.rm(workspacePath, { recursive: true, force: true });
+        removed.push(workspacePath);
+      } catch (error) {
+        console.error('Failed to sweep stale workspace:', workspacePath, error);
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Get the paths of the workspaces this process is using
+   * @returns string[] - Active workspace paths
+   */
+  getActiveWorkspaces(): string[] {
+    return [...this.active];
+  }
+
+  private async listWorkspaces(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.root, { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isDirectory() && WORKSPACE_PREFIXES.some(prefix => entry.name.startsWith(prefix)))
+        .map(entry => path.join(this.root, entry.name));
+    } catch {
+      return [];
+    }
+  }
+
+  private async isKept(workspacePath: string): Promise<boolean> {
+    return fs.stat(path.join(workspacePath, KEEP_MARKER)).then(() => true, () => false);
+  }
+
+  /**
+   * Total size of every workspace on disk, including those of other processes
+   */
+  private async getUsedSize(): Promise<number> {
+    const sizes = await Promise.all((await this.listWorkspaces()).map(getDirectorySize));
+    return sizes.reduce((total, size) => total + size, 0);
+  }
+}
+
+/**
+ * Size of the files in a directory tree; symlinks are not followed
+ * @param directoryPath - Directory to measure
+ * @returns Promise<number> - Total size in bytes, counting what could be read
+ */
+export async function getDirectorySize(directoryPath: string): Promise<number> {
+  let size = 0;
+  try {
+    for (const entry of await fs.readdir(directoryPath, { withFileTypes: true })) {
+      const entryPath = path.join(directoryPath, entry.name);
+      if (entry.isDirectory()) {
+        size += await getDirectorySize(entryPath);
+      } else if (entry.isFile()) {
+        size += (await fs.stat(entryPath)).size;
+      }
+    }
+  } catch {
+    // Workspaces can be removed while they are measured
+  }
+  return size;
+}
+
+/**
+ * Shared manager used by the repository sources
+ */
+export const workspaceManager = new WorkspaceManager();
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { getRefPatterns, isFullCommitSha, parseRemoteRefs, resolveRef } from '../../../lib/git/refs';
+
+const COMMIT = '0123456789abcdef0123456789abcdef01234567';
+const TAG_OBJECT = 'fedcba9876543210fedcba9876543210fedcba98';
+
+const LS_REMOTE_OUTPUT = [
+  'ref: refs/heads/develop\tHEAD',
+  `${COMMIT}\tHEAD`,
+  `${COMMIT}\trefs/heads/develop`,
+  `${COMMIT}\trefs/heads/release`,
+  `${TAG_OBJECT}\trefs/tags/release`,
+  `${COMMIT}\trefs/tags/release^{}`,
+  `${COMMIT}\trefs/pull/12/head`,
+  ''
+].join('\n');
+
+describe('Git refs', () => {
+  describe('parseRemoteRefs', () => {
+    it('should read the default branch and advertised refs', () => {
+      const remote = parseRemoteRefs(LS_REMOTE_OUTPUT);
+
+      expect(remote.head).toBe('refs/heads/develop');
+      expect(remote.refs.get('refs/tags/release')).toBe(TAG_OBJECT);
+      expect(remote.refs.get('refs/tags/release^{}')).toBe(COMMIT);
+      expect(remote.refs.size).toBe(6);
+    });
+  });
+
+  describe('resolveRef', () => {
+    const remote = parseRemoteRefs(LS_REMOTE_OUTPUT);
+
+    it('should default to the branch HEAD points at', () => {
+      expect(resolveRef(remote)).toEqual({
+        type: 'branch',
+        name: 'develop',
+        ref: 'refs/heads/develop',
+        commit: COMMIT,
+        isDefault: true
+      });
+      expect(resolveRef(parseRemoteRefs(`${COMMIT}\tHEAD\n`))).toMatchObject({ name: 'HEAD', isDefault: true });
+      expect(() => resolveRef(parseRemoteRefs(''))).toThrow('Repository is empty');
+    });
+
+    it('should prefer branches over tags and peel annotated tags', () => {
+      expect(resolveRef(remote, 'release')).toMatchObject({ type: 'branch', ref: 'refs/heads/release' });
+      expect(resolveRef(remote, 'refs/tags/release')).toMatchObject({ type: 'tag', name: 'release', commit: COMMIT });
+    });
+
+    it('should resolve pull request refs and commit SHAs', () => {
+      expect(resolveRef(remote, 'pull/12/head')).toMatchObject({ type: 'pull_request', name: 'refs/pull/12/head', commit: COMMIT });
+      expect(() => resolveRef(remote, 'refs/pull/13/head')).toThrow('Pull request ref not found');
+
+      const fullSha = resolveRef(remote, COMMIT.toUpperCase());
+      const shortSha = resolveRef(remote, COMMIT.slice(0, 7));
+      expect(fullSha).toEqual({ type: 'commit', name: COMMIT, isDefault: false });
+      expect(isFullCommitSha(fullSha)).toBe(true);
+      expect(isFullCommitSha(shortSha)).toBe(false);
+
+      expect(() => resolveRef(remote, 'abc')).toThrow('Ref not found: abc');
+      expect(() => resolveRef(remote, 'feature/missing')).toThrow('Ref not found');
+    });
+  });
+
+  describe('getRefPatterns', () => {
+    it('should list HEAD and the requested ref with its peeled entry', () => {
+      expect(getRefPatterns()).toEqual(['HEAD']);
+      expect(getRefPatterns(' v1.0.0 ')).toEqual(['HEAD', 'v1.0.0', 'v1.0.0^{}']);
+    });
+  });
+});
@@ -28,6 +28,13 @@ interface MockGit {
   timeout: ReturnType<typeof vi.fn>;
   clone: ReturnType<typeof vi.fn>;
   revparse: ReturnType<typeof vi.fn>;
+  listRemote: ReturnType<typeof vi.fn>;
+  init: ReturnType<typeof vi.fn>;
+  addRemote: ReturnType<typeof vi.fn>;
+  fetch: ReturnType<typeof vi.fn>;
+  checkout: ReturnType<typeof vi.fn>;
+  env: ReturnType<typeof vi.fn>;
+  raw: ReturnType<typeof vi.fn>;
 }
 
 interface MockSimpleGit {
@@ -44,7 +51,14 @@ describe('Repository Module', () => {
     mockGit = {
       timeout: vi.fn().mockReturnThis(),
       clone: vi.fn(),
-      revparse: vi.fn()
+      revparse: vi.fn(),
+      listRemote: vi.fn().mockResolvedValue('ref: refs/heads/main\tHEAD\nabc123\tHEAD\n'),
+      init: vi.fn().mockResolvedValue(undefined),
+      addRemote: vi.fn().mockResolvedValue(undefined),
+      fetch: vi.fn().mockResolvedValue(undefined),
+      checkout: vi.fn().mockResolvedValue(undefined),
+      env: vi.fn().mockReturnThis(),
+      raw: vi.fn().mockResolvedValue('')
     };
     
     // Reset mocks
@@ -91,14 +105,19 @@ describe('Repository Module', () => {
       expect(result.metadata.owner).toBe('owner');
       expect(result.metadata.commitHash).toBe('abc123');
       expect(result.metadata.branch).toBe('main');
+      expect(result.metadata.ref).toBe('main');
+      expect(result.metadata.refType).toBe('branch');
       expect(typeof result.cleanup).toBe('function');
       
       // Verify git operations were called
+      expect(mockGit.listRemote).toHaveBeenCalledWith(['--symref', repositoryUrl, 'HEAD']);
       expect(mockGit.clone).toHaveBeenCalledWith(repositoryUrl, mockTempDir, {
         '--depth': '1',
         '--branch': 'main',
-        '--single-branch': 'true'
+        '--single-branch': null,
+        '--no-checkout': null
       });
+      expect(mockGit.checkout).toHaveBeenCalledWith('HEAD');
     });
     
     it('should handle invalid repository URLs', async () => {
@@ -157,7 +176,8 @@ describe('Repository Module', () => {
       mockGit.clone.mockRejectedValue(new Error('Network error'));
       
       const { cloneRepository } = await import('../../../lib/git/repository');
-      await expect(cloneRepository(repositoryUrl)).rejects.toThrow('Failed to clone repository. Please check the URL and try again.');
+      // Unrecognised git errors are passed on with secrets redacted
+      await expect(cloneRepository(repositoryUrl)).rejects.toThrow('Network error');
       
       // Verify cleanup was attempted
       expect(fs.rm).toHaveBeenCalledWith(mockTempDir, { recursive: true, force: true });
@@ -172,6 +192,7 @@ describe('Repository Module', () => {
       };
       
       // Mock successful git operations
+      mockGit.listRemote.mockResolvedValue('ref: refs/heads/main\tHEAD\nabc123\tHEAD\ndef456\trefs/heads/develop\n');
       mockGit.clone.mockResolvedValue(undefined);
       mockGit.revparse
         .mockResolvedValueOnce('abc123')
@@ -184,7 +205,8 @@ describe('Repository Module', () => {
       expect(mockGit.clone).toHaveBeenCalledWith(repositoryUrl, mockTempDir, {
         '--depth': '5',
         '--branch': 'develop',
-        '--single-branch': 'true'
+        '--single-branch': null,
+        '--no-checkout': null
       });
     });
     
@@ -245,6 +267,120 @@ describe('Repository Module', () => {
     });
   });
   
+  describe('Ref resolution', () => {
+    const repositoryUrl = 'https://github.com/owner/repo.git';
+    const commit = '0123456789abcdef0123456789abcdef01234567';
+    
+    it('should clone the default branch reported by the remote', async () => {
+      mockGit.listRemote.mockResolvedValue(`ref: refs/heads/master\tHEAD\n${commit}\tHEAD\n`);
+      mockGit.clone.mockResolvedValue(undefined);
+      mockGit.revparse
+        .mockResolvedValueOnce(commit)
+        .mockResolvedValueOnce('master');
+      
+      const { cloneRepository } = await import('../../../lib/git/repository');
+      const result = await cloneRepository(repositoryUrl);
+      
+      expect(mockGit.clone).toHaveBeenCalledWith(repositoryUrl, mockTempDir, {
+        '--depth': '1',
+        '--branch': 'master',
+        '--single-branch': null,
+        '--no-checkout': null
+      });
+      expect(result.metadata.ref).toBe('master');
+      expect(result.metadata.commitHash).toBe(commit);
+    });
+    
+    it('should fetch tags, full SHAs and pull request refs and check them out detached', async () => {
+      mockGit.listRemote.mockResolvedValue([
+        'ref: refs/heads/main\tHEAD',
+        `${commit}\tHEAD`,
+        `aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\trefs/tags/v1.0.0`,
+        `${commit}\trefs/tags/v1.0.0^{}`,
+        `${commit}\trefs/pull/42/head`
+      ].join('\n'));
+      mockGit.revparse.mockImplementation(async (args: string[]) => args[0] === 'HEAD' ? commit : 'HEAD');
+      
+      const { cloneRepository } = await import('../../../lib/git/repository');
+      const tag = await cloneRepository(repositoryUrl, { ref: 'v1.0.0' });
+      const sha = await cloneRepository(repositoryUrl, { ref: commit, depth: 3 });
+      const pullRequest = await cloneRepository(repositoryUrl, { ref: 'refs/pull/42/head' });
+      
+      expect(mockGit.listRemote).toHaveBeenCalledWith(['--symref', repositoryUrl, 'HEAD', 'v1.0.0', 'v1.0.0^{}']);
+      expect(mockGit.clone).not.toHaveBeenCalled();
+      expect(mockGit.addRemote).toHaveBeenCalledWith('origin', repositoryUrl);
+      expect(mockGit.fetch.mock.calls).toEqual([
+        [['--depth', '1', 'origin', 'refs/tags/v1.0.0']],
+        [['--depth', '3', 'origin', commit]],
+        [['--depth', '1', 'origin', 'refs/pull/42/head']]
+      ]);
+      expect(mockGit.checkout).toHaveBeenCalledWith('FETCH_HEAD');
+      expect([tag, sha, pullRequest].map(result => result.metadata.refType)).toEqual(['tag', 'commit', 'pull_request']);
+      expect(pullRequest.metadata.ref).toBe('refs/pull/42/head');
+      expect(sha.metadata.commitHash).toBe(commit);
+    });
+    
+    it('should look up short SHAs in the recent history', async () => {
+      mockGit.revparse.mockResolvedValue(commit);
+      
+      const { cloneRepository } = await import('../../../lib/git/repository');
+      const result = await cloneRepository(repositoryUrl, { ref: '0123456' });
+      
+      expect(mockGit.fetch).toHaveBeenCalledWith(['--depth', '1000', 'origin']);
+      expect(mockGit.revparse).toHaveBeenCalledWith(['--verify', '--quiet', '0123456^{commit}']);
+      expect(mockGit.checkout).toHaveBeenCalledWith(commit);
+      expect(result.metadata.commitHash).toBe(commit);
+    });
+    
+    it('should reject refs the remote does not have', async () => {
+      const { cloneRepository } = await import('../../../lib/git/repository');
+      
+      await expect(cloneRepository(repositoryUrl, { ref: 'no-such-branch' })).rejects.toThrow('Ref not found: no-such-branch');
+      await expect(cloneRepository(repositoryUrl, { ref: 'refs/pull/7/head' })).rejects.toThrow('Pull request ref not found');
+      
+      mockGit.revparse.mockRejectedValue(new Error('fatal: Needed a single revision'));
+      await expect(cloneRepository(repositoryUrl, { ref: 'deadbee' })).rejects.toThrow('Ref not found: deadbee');
+      
+      expect(mockGit.clone).not.toHaveBeenCalled();
+      expect(fs.rm).toHaveBeenCalledWith(mockTempDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('Credentials', () => {
+    const repositoryUrl = 'https://github.com/owner/private-repo.git';
+
+    it('should pass tokens through the environment, never the config or URL', async () => {
+      mockGit.revparse.mockResolvedValue('abc123');
+      const { cloneRepository } = await import('../../../lib/git/repository');
+
+      const result = await cloneRepository(repositoryUrl, { credentials: { type: 'token', token: 'ghp_secret123' } });
+
+      const { simpleGit } = await import('simple-git');
+      const { config } = vi.mocked(simpleGit).mock.calls[0][0] as { config: string[] };
+      expect(config.join(' ')).not.toContain('ghp_secret123');
+      expect(config[config.length - 1]).toMatch(/^credential\.https:\/\/github\.com\.helper=!/);
+      expect(mockGit.env).toHaveBeenCalledWith(expect.objectContaining({ SCAN_GIT_PASSWORD: 'ghp_secret123' }));
+      expect(mockGit.clone).toHaveBeenCalledWith(repositoryUrl, mockTempDir, expect.any(Object));
+      expect(JSON.stringify(result.metadata)).not.toContain('ghp_secret123');
+    });
+
+    it('should redact tokens from clone errors', async () => {
+      mockGit.clone.mockRejectedValue(new Error('fatal: unable to access: bad response for ghp_secret123'));
+      const { cloneRepository } = await import('../../../lib/git/repository');
+
+      await expect(cloneRepository(repositoryUrl, { credentials: { type: 'token', token: 'ghp_secret123' } }))
+        .rejects.toThrow('fatal: unable to access: bad response for ***');
+    });
+
+    it('should reject URLs with embedded credentials', async () => {
+      const { cloneRepository } = await import('../../../lib/git/repository');
+
+      await expect(cloneRepository('https://ghp_secret123@github.com/owner/private-repo.git'))
+        .rejects.toThrow('Repository URL must not contain credentials');
+      expect(mockGit.clone).not.toHaveBeenCalled();
+    });
+  });
+
   describe('URL validation', () => {
     it('should accept valid HTTP URLs', async () => {
       const validUrls = [
@@ -260,8 +396,7 @@ describe('Repository Module', () => {
         mockGit.clone.mockRejectedValue(new Error('Git operation failed'));
         
         // Should not throw validation error, but should fail at git operations
-        // The error gets caught and re-thrown as a generic error
-        await expect(cloneRepository(url)).rejects.toThrow('Failed to clone repository');
+        await expect(cloneRepository(url)).rejects.toThrow('Git operation failed');
       }
     });
     
@@ -276,8 +411,7 @@ describe('Repository Module', () => {
         mockGit.clone.mockRejectedValue(new Error('Git operation failed'));
         
         // Should not throw validation error, but should fail at git operations
-        // The error gets caught and re-thrown as a generic error
-        await expect(cloneRepository(url)).rejects.toThrow('Failed to clone repository');
+        await expect(cloneRepository(url)).rejects.toThrow('Git operation failed');
       }
     });
     
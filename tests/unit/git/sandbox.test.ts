@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { cloneLocalRepository } from '../../../lib/git/repository';
+import { watchDirectorySize } from '../../../lib/git/sandbox';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd, encoding: 'utf8' }).trim();
+}
+
+describe('Sandboxed Clone', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'sandbox-test-')));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Commit files to a new repository and return the path of a bare clone of it
+   */
+  async function createRepository(files: Record<string, string>, prepare?: (projectDir: string) => Promise<void> | void): Promise<string> {
+    const projectDir = path.join(workDir, 'project');
+    git(workDir, 'init', '-q', '-b', 'main', projectDir);
+
+    for (const [name, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(projectDir, name)), { recursive: true });
+      await fs.writeFile(path.join(projectDir, name), content);
+    }
+    await prepare?.(projectDir);
+
+    git(projectDir, 'add', '-A');
+    git(projectDir, 'commit', '-q', '-m', 'hostile');
+    git(workDir, 'clone', '-q', '--bare', projectDir, path.join(workDir, 'project.git'));
+    return path.join(workDir, 'project.git');
+  }
+
+  it('should ignore hooks and filters configured on the host', async () => {
+    const markers = path.join(workDir, 'markers');
+    const hooksDir = path.join(workDir, 'hooks');
+    await fs.mkdir(markers);
+    await fs.mkdir(hooksDir);
+    await fs.writeFile(path.join(hooksDir, 'post-checkout'), `#!/bin/sh\ntouch "${markers}/hook"\n`, { mode: 0o755 });
+    await fs.writeFile(path.join(workDir, 'gitconfig'), [
+      '[core]',
+      `\thooksPath = ${hooksDir}`,
+      '[filter "evil"]',
+      `\tsmudge = "touch ${markers}/filter; cat"`,
+      '\trequired = true'
+    ].join('\n'));
+
+    const bareDir = await createRepository({ '.gitattributes': '*.js filter=evil\n', 'index.js': 'module.exports = 1;\n' });
+
+    const previousConfig = process.env.GIT_CONFIG_GLOBAL;
+    process.env.GIT_CONFIG_GLOBAL = path.join(workDir, 'gitconfig');
+    try {
+      const repository = await cloneLocalRepository(bareDir);
+      expect(await fs.readFile(path.join(repository.path, 'index.js'), 'utf8')).toBe('module.exports = 1;\n');
+      await repository.cleanup();
+    } finally {
+      if (previousConfig === undefined) delete process.env.GIT_CONFIG_GLOBAL;
+      else process.env.GIT_CONFIG_GLOBAL = previousConfig;
+    }
+
+    expect(await fs.readdir(markers)).toEqual([]);
+  });
+
+  it('should not clone submodules', async () => {
+    const submoduleDir = await createRepository({ 'payload.js': 'evil();\n' });
+    await fs.rename(submoduleDir, path.join(workDir, 'submodule.git'));
+    await fs.rm(path.join(workDir, 'project'), { recursive: true, force: true });
+    const submoduleCommit = git(path.join(workDir, 'submodule.git'), 'rev-parse', 'HEAD');
+
+    const bareDir = await createRepository(
+      { '.gitmodules': `[submodule "vendor"]\n\tpath = vendor\n\turl = ${path.join(workDir, 'submodule.git')}\n` },
+      projectDir => { git(projectDir, 'update-index', '--add', '--cacheinfo', `160000,${submoduleCommit},vendor`); }
+    );
+
+    const repository = await cloneLocalRepository(bareDir);
+    try {
+      await expect(fs.stat(path.join(repository.path, 'vendor', 'payload.js'))).rejects.toThrow();
+    } finally {
+      await repository.cleanup();
+    }
+  });
+
+  it('should refuse symlinks escaping the repository and check out the others as files', async () => {
+    const escaping = await createRepository({}, async projectDir => {
+      await fs.symlink('../../../../etc/passwd', path.join(projectDir, 'leak'));
+    });
+    await expect(cloneLocalRepository(escaping)).rejects.toThrow('symlink pointing outside the repository: leak');
+
+    await fs.rm(path.join(workDir, 'project'), { recursive: true, force: true });
+    await fs.rm(escaping, { recursive: true, force: true });
+
+    const internal = await createRepository({ 'lib/index.js': 'module.exports = 1;\n' }, async projectDir => {
+      await fs.symlink('lib/index.js', path.join(projectDir, 'main.js'));
+    });
+    const repository = await cloneLocalRepository(internal);
+    try {
+      const link = await fs.lstat(path.join(repository.path, 'main.js'));
+      expect(link.isSymbolicLink()).toBe(false);
+      expect(await fs.readFile(path.join(repository.path, 'main.js'), 'utf8')).toBe('lib/index.js');
+    } finally {
+      await repository.cleanup();
+    }
+  });
+
+  it('should enforce file count, size and time limits', async () => {
+    const bareDir = await createRepository({ 'a.js': 'a', 'b.js': 'b', 'c.js': 'c'.repeat(4096) });
+
+    await expect(cloneLocalRepository(bareDir, { maxFileCount: 2 })).rejects.toThrow('Repository has more than 2 files');
+    await expect(cloneLocalRepository(bareDir, { maxRepositorySize: 1024 })).rejects.toThrow('Repository is larger than the 1024 byte limit');
+    await expect(cloneLocalRepository(bareDir, { timeout: 1 })).rejects.toThrow('Repository cloning timed out');
+
+    const repository = await cloneLocalRepository(bareDir, { maxFileCount: 3 });
+    expect(repository.metadata.fileCount).toBe(3);
+    await repository.cleanup();
+  });
+
+  it('should report a directory growing past the size limit while it is written to', async () => {
+    const limits = { maxRepositorySize: 1024, maxFileCount: 10 };
+    let exceeded = 0;
+    const stopWatching = watchDirectorySize(workDir, limits, () => exceeded++);
+
+    try {
+      await fs.mkdir(path.join(workDir, 'objects', 'pack'), { recursive: true });
+      await fs.writeFile(path.join(workDir, 'objects', 'pack', 'tmp_pack_1'), 'x'.repeat(512));
+      await new Promise(resolve => setTimeout(resolve, 1200));
+      expect(exceeded).toBe(0);
+
+      await fs.writeFile(path.join(workDir, 'objects', 'pack', 'tmp_pack_1'), 'x'.repeat(4096));
+      await new Promise(resolve => setTimeout(resolve, 2200));
+      expect(exceeded).toBe(1);
+    } finally {
+      stopWatching();
+    }
+  });
+});
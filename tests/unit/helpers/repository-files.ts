@@ -0,0 +1,34 @@
+import type { RepositoryFile } from '../../../lib/types';
+
+/**
+ * Build a repository file fixture the way scanRepository hands files to scanners
+ * @param content - File content
+ * @param path - File path, also used as the relative path unless overridden
+ * @param overrides - Fields to replace, e.g. `binary` for an identified binary
+ * @returns RepositoryFile - File fixture
+ */
+export function createFile(content: string, path = 'test.js', overrides: Partial<RepositoryFile> = {}): RepositoryFile {
+  return {
+    path,
+    relativePath: path,
+    content,
+    size: content.length,
+    modificationDate: new Date(),
+    isDirectory: false,
+    isSymbolicLink: false,
+    isFile: true,
+    extension: path.includes('.') ? path.slice(path.lastIndexOf('.')) : '',
+    ...overrides
+  };
+}
+
+/**
+ * Build the files of a repository checked out at `/repo`
+ * @param files - File contents keyed by path relative to the repository root
+ * @returns RepositoryFile[] - File fixtures in the given order
+ */
+export function createFiles(files: Record<string, string>): RepositoryFile[] {
+  return Object.entries(files).map(([relativePath, content]) =>
+    createFile(content, `/repo/${relativePath}`, { relativePath })
+  );
+}
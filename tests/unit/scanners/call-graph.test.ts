@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CallGraphScanner } from '../../../lib/scanners/call-graph';
+import type { ThreatResult } from '../../../lib/types';
+import { createFiles } from '../helpers/repository-files';
+
+function createThreat(relativePath: string): ThreatResult {
+  return {
+    category: 'code_execution',
+    subcategory: 'eval_usage',
+    severity: 'WARNING',
+    description: 'eval() usage detected',
+    file: `/repo/${relativePath}`,
+    line: 1,
+    code: 'eval(x)'
+  };
+}
+
+describe('CallGraphScanner', () => {
+  let scanner: CallGraphScanner;
+
+  beforeEach(() => {
+    scanner = new CallGraphScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('call-graph');
+    expect(scanner.category).toBe('code_execution');
+    expect(scanner.subcategory).toBe('cross_file_flow');
+  });
+
+  describe('cross-file flows', () => {
+    it('should report a decoder from another module feeding eval with its import chain', async () => {
+      const threats = await scanner.scan(createFiles({
+        'package.json': JSON.stringify({ name: 'pkg', main: 'index.js' }),
+        'index.js': `
+          const { decode } = require('./lib/loader');
+          eval(decode(PAYLOAD));
+        `,
+        'lib/loader.js': `module.exports = require('../utils/decode');`,
+        'utils/decode.js': `
+          exports.decode = function decode(text) {
+            return Buffer.from(text, 'base64').toString('utf8');
+          };
+        `
+      }));
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0]).toMatchObject({
+        severity: 'CRITICAL',
+        subcategory: 'cross_file_flow',
+        file: '/repo/index.js',
+        line: 3,
+        description: "eval receives Buffer.from(…, 'base64') through decode() imported from utils/decode.js - cross-file code execution"
+      });
+      expect(threats[0].details).toMatchObject({
+        sink: 'eval',
+        taintSourceType: 'decoded_data',
+        sourceFile: 'utils/decode.js',
+        importChain: ['index.js', 'lib/loader.js', 'utils/decode.js'],
+        entryPoint: 'main of pkg'
+      });
+    });
+
+    it('should report tainted shell commands built by imported helpers', async () => {
+      const threats = await scanner.scan(createFiles({
+        'run.ts': `
+          import { execSync } from 'child_process';
+          import { buildCommand } from './command';
+          execSync(buildCommand());
+        `,
+        'command.ts': `export const buildCommand = () => 'curl ' + process.env.TARGET;`
+      }));
+
+      expect(threats.map(threat => [threat.details?.sink, threat.details?.taintSource])).toEqual([
+        ['child_process.execSync', 'process.env.TARGET']
+      ]);
+    });
+
+    it('should not report flows that stay within one file or carry no untrusted data', async () => {
+      const threats = await scanner.scan(createFiles({
+        'index.js': `
+          import { format } from './format';
+          eval(process.env.CODE);
+          eval(format('1 + 1'));
+        `,
+        'format.js': `export function format(value) { return value.trim(); }`
+      }));
+
+      expect(threats).toHaveLength(0);
+    });
+  });
+
+  describe('reachability', () => {
+    const files = createFiles({
+      'package.json': JSON.stringify({
+        name: 'pkg',
+        exports: { './extra': './extra.js' },
+        scripts: { postinstall: 'node scripts/setup.js' }
+      }),
+      'scripts/setup.js': `require('../lib/fetch');`,
+      'lib/fetch.js': `module.exports = fetch(process.env.URL);`,
+      'extra.js': `export const extra = 1;`,
+      'test/fixture.js': `eval(input);`
+    });
+
+    it('should prioritise findings reachable from install scripts and entry points', async () => {
+      const refined = await scanner.refineThreats(
+        [createThreat('lib/fetch.js'), createThreat('extra.js'), createThreat('test/fixture.js'), createThreat('README.md')],
+        files
+      );
+
+      expect(refined.map(threat => threat.details?.priority)).toEqual(['high', 'medium', 'low', undefined]);
+      expect(refined[0].details).toMatchObject({
+        reachableFrom: ['install_script'],
+        entryPoint: 'postinstall script',
+        importChain: ['scripts/setup.js', 'lib/fetch.js']
+      });
+      expect(refined.every(threat => threat.severity === 'WARNING')).toBe(true);
+    });
+
+    it('should leave findings unchanged when the repository has no entry points', async () => {
+      const threats = [createThreat('index.js')];
+      expect(await scanner.refineThreats(threats, createFiles({ 'index.js': 'eval(x);' }))).toEqual(threats);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { CodeExecutionScanner } from '../../../lib/scanners/code-execution';
+import { parseAST, getNodesByType } from '../../../lib/utils/ast-parser';
+import { createFile } from '../helpers/repository-files';
+
+// Regression corpus: an eval call hidden in every statement and expression form.
+// Each entry must produce exactly one eval threat.
+const STATEMENT_CORPUS: [string, string][] = [
+  ['if test', `if (eval('a')) {}`],
+  ['if consequent', `if (x) eval('a');`],
+  ['else branch', `if (x) {} else { eval('a'); }`],
+  ['for init', `for (let i = eval('a'); i < 1; i++) {}`],
+  ['for test', `for (; eval('a');) {}`],
+  ['for update', `for (;; eval('a')) {}`],
+  ['for-in right', `for (const k in eval('a')) {}`],
+  ['for-of body', `for (const k of list) { eval('a'); }`],
+  ['while test', `while (eval('a')) {}`],
+  ['do-while body', `do { eval('a'); } while (false);`],
+  ['switch discriminant', `switch (eval('a')) {}`],
+  ['switch case test', `switch (x) { case eval('a'): break; }`],
+  ['switch case body', `switch (x) { default: eval('a'); }`],
+  ['try block', `try { eval('a'); } catch {}`],
+  ['catch clause', `try {} catch (e) { eval('a'); }`],
+  ['finally block', `try {} finally { eval('a'); }`],
+  ['throw', `throw eval('a');`],
+  ['labeled statement', `outer: for (;;) { eval('a'); break outer; }`],
+  ['export named declaration', `export const value = eval('a');`],
+  ['export default', `export default eval('a');`],
+  ['class method', `class A { run() { eval('a'); } }`],
+  ['class getter', `class A { get value() { return eval('a'); } }`],
+  ['class property initializer', `class A { value = eval('a'); }`],
+  ['class static block', `class A { static { eval('a'); } }`],
+  ['class extends', `class A extends eval('a') {}`],
+  ['function default parameter', `function f(a = eval('a')) {}`],
+  ['nested functions', `function f() { return function g() { return () => { eval('a'); }; }; }`]
+];
+
+const EXPRESSION_CORPUS: [string, string][] = [
+  ['member object', `eval('a').length;`],
+  ['computed member property', `obj[eval('a')];`],
+  ['conditional test', `x ? 1 : 2; eval('a') ? 1 : 2;`],
+  ['conditional branch', `const v = x ? eval('a') : 2;`],
+  ['logical expression', `const v = x || eval('a');`],
+  ['unary expression', `const v = !eval('a');`],
+  ['update target', `obj[eval('a')]++;`],
+  ['assignment right', `v = eval('a');`],
+  ['sequence expression', `(x, eval('a'));`],
+  ['array literal', `const v = [1, eval('a')];`],
+  ['object literal value', `const v = { key: eval('a') };`],
+  ['object computed key', `const v = { [eval('a')]: 1 };`],
+  ['object method', `const v = { run() { eval('a'); } };`],
+  ['spread element', `const v = [...eval('a')];`],
+  ['object spread', `const v = { ...eval('a') };`],
+  ['await expression', `async function f() { await eval('a'); }`],
+  ['yield expression', `function* f() { yield eval('a'); }`],
+  ['template literal', 'const v = `${eval(\'a\')}`;'],
+  ['tagged template', 'tag`${eval(\'a\')}`;'],
+  ['optional chaining', `obj?.method(eval('a'));`],
+  ['call argument', `console.log(eval('a'));`],
+  ['new argument', `new Thing(eval('a'));`],
+  ['immediately invoked function', `(function () { eval('a'); })();`],
+  ['arrow expression body', `const f = () => eval('a');`],
+  ['destructuring default', `const { a = eval('a') } = obj;`],
+  ['array pattern default', `const [a = eval('a')] = list;`],
+  ['promise callback', `promise.then(() => eval('a'));`]
+];
+
+const TYPESCRIPT_CORPUS: [string, string][] = [
+  ['as expression', `const v = eval('a') as string;`],
+  ['non-null assertion', `const v = eval('a')!;`],
+  ['satisfies expression', `const v = eval('a') satisfies unknown;`],
+  ['type assertion in parentheses', `const v = (eval('a') as unknown) as number;`],
+  ['enum initializer', `enum E { A = eval('a') }`],
+  ['namespace body', `namespace N { eval('a'); }`],
+  ['decorator', `@decorate(eval('a')) class A {}`],
+  ['constructor parameter property default', `class A { constructor(private value = eval('a')) {} }`],
+  ['abstract class method', `abstract class A { run(): void { eval('a'); } }`]
+];
+
+const JSX_CORPUS: [string, string][] = [
+  ['JSX attribute', `const el = <div title={eval('a')} />;`],
+  ['JSX child expression', `const el = <div>{eval('a')}</div>;`],
+  ['JSX fragment', `const el = <>{eval('a')}</>;`],
+  ['JSX spread attribute', `const el = <div {...eval('a')} />;`]
+];
+
+describe('CodeExecutionScanner traversal corpus', () => {
+  const scanner = new CodeExecutionScanner();
+
+  async function findEvalThreats(code: string, path: string) {
+    const threats = await scanner.scan([createFile(code, path)]);
+    return threats.filter(threat => threat.subcategory === 'eval_usage');
+  }
+
+  it.each(STATEMENT_CORPUS)('should find eval inside a %s', async (_, code) => {
+    expect(await findEvalThreats(code, 'corpus.js')).toHaveLength(1);
+  });
+
+  it.each(EXPRESSION_CORPUS)('should find eval inside a %s', async (_, code) => {
+    expect(await findEvalThreats(code, 'corpus.js')).toHaveLength(1);
+  });
+
+  it.each(TYPESCRIPT_CORPUS)('should find eval inside a TypeScript %s', async (_, code) => {
+    expect(await findEvalThreats(code, 'corpus.ts')).toHaveLength(1);
+  });
+
+  it.each(JSX_CORPUS)('should find eval inside a %s', async (_, code) => {
+    expect(await findEvalThreats(code, 'corpus.jsx')).toHaveLength(1);
+  });
+
+  it('should emit every node of the tree exactly once', async () => {
+    const code = STATEMENT_CORPUS.concat(EXPRESSION_CORPUS).map(([, snippet]) => snippet).join('\n');
+    const result = await parseAST(code, 'corpus.js');
+
+    expect(result.success).toBe(true);
+    expect(getNodesByType(result.nodes!, 'CallExpression').filter(node =>
+      (node.callee as { name?: string }).name === 'eval'
+    )).toHaveLength(STATEMENT_CORPUS.length + EXPRESSION_CORPUS.length);
+  });
+});
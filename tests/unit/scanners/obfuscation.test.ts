@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ObfuscationScanner } from '../../../lib/scanners/obfuscation';
+import { calculateShannonEntropy } from '../../../lib/utils/entropy';
+import { createFile } from '../helpers/repository-files';
+
+// Deterministic pseudo-random base64 payload
+function base64Payload(length: number): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  let seed = 42;
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    result += alphabet[(seed >> 16) % alphabet.length];
+  }
+  return result;
+}
+
+describe('ObfuscationScanner', () => {
+  let scanner: ObfuscationScanner;
+
+  beforeEach(() => {
+    scanner = new ObfuscationScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('obfuscation');
+    expect(scanner.category).toBe('obfuscation');
+  });
+
+  it('should not flag ordinary code', async () => {
+    const threats = await scanner.scan([createFile(`
+      import path from 'path';
+      export function join(a, b) {
+        const message = 'Joining paths together for the build output directory of this project';
+        return path.join(a, b);
+      }
+    `)]);
+
+    expect(threats).toHaveLength(0);
+  });
+
+  describe('entropy', () => {
+    it('should calculate Shannon entropy', () => {
+      expect(calculateShannonEntropy('')).toBe(0);
+      expect(calculateShannonEntropy('aaaa')).toBe(0);
+      expect(calculateShannonEntropy('abcd')).toBe(2);
+    });
+
+    it('should flag large base64 literals with entropy and a truncated sample', async () => {
+      const payload = base64Payload(400);
+      const threats = await scanner.scan([createFile(`const data = '${payload}';`)]);
+
+      const encoded = threats.find(t => t.subcategory === 'encoded_literal');
+      expect(encoded?.details?.encoding).toBe('base64');
+      expect(encoded?.details?.entropy).toBeGreaterThan(5.5);
+      expect(encoded?.details?.fileEntropy).toBeTypeOf('number');
+      expect(encoded?.details?.sample).toBe(`${payload.slice(0, 200)}...`);
+      expect(encoded?.line).toBe(1);
+    });
+
+    it('should flag large hex literals', async () => {
+      const threats = await scanner.scan([createFile(`const data = "${'4d5a9000'.repeat(40)}";`)]);
+
+      expect(threats.find(t => t.subcategory === 'encoded_literal')?.details?.encoding).toBe('hex');
+    });
+
+    it('should flag files with very high overall entropy', async () => {
+      const threats = await scanner.scan([createFile(`module.exports = '${base64Payload(3000)}';`)]);
+
+      const file = threats.find(t => t.subcategory === 'high_entropy_file');
+      expect(file?.severity).toBe('WARNING');
+      expect(file?.details?.entropy).toBeGreaterThanOrEqual(5.6);
+    });
+  });
+
+  describe('packed code', () => {
+    it('should report very long lines once per file', async () => {
+      const line = Array.from({ length: 150 }, (_, i) => `var a${i}=${i};`).join('');
+      const threats = await scanner.scan([createFile(`${line}\n${line}\n`, 'bundle.min.js')]);
+
+      const longLines = threats.filter(t => t.subcategory === 'long_line');
+      expect(longLines).toHaveLength(1);
+      expect(longLines[0].severity).toBe('INFO');
+      expect(longLines[0].details?.longLineCount).toBe(2);
+      expect(longLines[0].code).toHaveLength(203);
+    });
+
+    it('should detect javascript-obfuscator signatures', async () => {
+      const threats = await scanner.scan([createFile(`
+        var _0x1a2b = ['log', 'hello', 'world'];
+        (function (_0x3c4d, _0x5e6f) {
+          var _0x7a8b = function (_0x9c0d) {
+            while (!![]) {
+              _0x3c4d['push'](_0x3c4d['shift']());
+            }
+          };
+          _0x7a8b(++_0x5e6f);
+        })(_0x1a2b, 0x1b3);
+      `)]);
+
+      expect(threats.find(t => t.subcategory === 'obfuscator_identifiers')?.details?.identifierCount).toBe(5);
+      expect(threats.find(t => t.subcategory === 'string_array_rotation')?.line).toBe(5);
+    });
+
+    it('should flag hex-escaped strings', async () => {
+      const escaped = Array.from('require("child_process")').map(c => `\\x${c.charCodeAt(0).toString(16)}`).join('');
+      const threats = await scanner.scan([createFile(`const s = "${escaped}";`)]);
+
+      const threat = threats.find(t => t.subcategory === 'hex_escaped_string');
+      expect(threat?.details?.sample).toBe('require("child_process")');
+      expect(threat?.details?.escapeCount).toBe(24);
+    });
+
+    it('should decode String.fromCharCode chains', async () => {
+      const threats = await scanner.scan([createFile(`
+        const a = String.fromCharCode(101, 118, 97, 108, 40, 120, 41, 59);
+        const b = String.fromCharCode(104) + String.fromCharCode(105) + String.fromCharCode(33);
+        const c = String.fromCharCode(65);
+        const d = 'x' + String.fromCharCode(101, 118, 97, 108, 40, 120, 41, 59, 1, 2);
+      `)]);
+
+      const chains = threats.filter(t => t.subcategory === 'char_code_string');
+      expect(chains.map(t => t.details?.decoded)).toEqual(['eval(x);', 'hi!', 'eval(x);\u0001\u0002']);
+      expect(chains[1].details?.callCount).toBe(3);
+      expect(chains[2].details?.codeCount).toBe(10);
+    });
+  });
+
+  describe('decoded code execution', () => {
+    it('should flag atob and Buffer.from base64 passed to eval or Function', async () => {
+      const threats = await scanner.scan([createFile(`
+        eval(atob('Y29uc29sZS5sb2coMSk='));
+        new Function(Buffer.from(payload, 'base64').toString())();
+        const code = Buffer.from(hex, 'hex').toString('utf8');
+        (0, eval)(code);
+      `)]);
+
+      const executions = threats.filter(t => t.subcategory === 'decoded_code_execution');
+      expect(executions.map(t => [t.details?.sink, t.line])).toEqual([['eval', 2], ['Function', 3], ['eval', 5]]);
+      expect(executions.every(t => t.severity === 'CRITICAL')).toBe(true);
+      expect(executions[0].details?.entropy).toBeTypeOf('number');
+    });
+
+    it('should not flag decoding that is not executed', async () => {
+      const threats = await scanner.scan([createFile(`
+        const text = Buffer.from(input, 'base64').toString();
+        console.log(text);
+        eval(userInput);
+      `)]);
+
+      expect(threats.filter(t => t.subcategory === 'decoded_code_execution')).toHaveLength(0);
+    });
+  });
+});
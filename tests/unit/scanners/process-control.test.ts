@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ProcessControlScanner } from '../../../lib/scanners/process-control';
+import { createFile } from '../helpers/repository-files';
+
+describe('ProcessControlScanner', () => {
+  let scanner: ProcessControlScanner;
+
+  beforeEach(() => {
+    scanner = new ProcessControlScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('process-control');
+    expect(scanner.category).toBe('process_control');
+  });
+
+  describe('import resolution', () => {
+    it('should detect member calls on a required module alias', async () => {
+      const threats = await scanner.scan([createFile(`
+        const cp = require('child_process');
+        cp.exec('ls -la');
+      `)]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].details?.functionName).toBe('exec');
+      expect(threats[0].line).toBe(3);
+    });
+
+    it('should detect calls directly on require()', async () => {
+      const threats = await scanner.scan([createFile(`
+        require('child_process').execFile('/bin/ls', ['-la']);
+      `)]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].details?.functionName).toBe('execFile');
+    });
+
+    it('should detect node: prefixed namespace imports', async () => {
+      const threats = await scanner.scan([createFile(`
+        import * as proc from 'node:child_process';
+        proc.fork('./worker.js');
+      `, 'test.ts')]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].details?.functionName).toBe('fork');
+    });
+
+    it('should detect renamed named imports', async () => {
+      const threats = await scanner.scan([createFile(`
+        import { execFileSync as run } from 'child_process';
+        run('git', ['status']);
+      `, 'test.ts')]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].details?.functionName).toBe('execFileSync');
+    });
+
+    it('should detect renamed destructured requires', async () => {
+      const threats = await scanner.scan([createFile(`
+        const { spawn: launch, exec } = require('child_process');
+        launch('node', ['index.js']);
+        exec('whoami');
+      `)]);
+
+      expect(threats.map(t => t.details?.functionName)).toEqual(['spawn', 'exec']);
+    });
+
+    it('should follow re-assigned function aliases', async () => {
+      const threats = await scanner.scan([createFile(`
+        const cp = require('child_process');
+        const run = cp.execSync;
+        run('id');
+      `)]);
+
+      expect(threats).toHaveLength(1);
+      expect(threats[0].details?.functionName).toBe('execSync');
+    });
+  });
+
+  describe('false positives', () => {
+    it('should detect child_process functions reached through computed names', async () => {
+      const threats = await scanner.scan([createFile(`
+        const cp = require('child_process');
+        cp[atob('ZXhlY1N5bmM=')](command);
+        ['exec'].map(f => cp[f](command));
+        ['spawn'].map(f => cp[f])[0](command);
+      `)]);
+
+      expect(threats.map(t => t.details?.functionName)).toEqual(['execSync', 'exec', 'spawn']);
+    });
+
+    it('should not resolve computed names that vary at runtime', async () => {
+      const threats = await scanner.scan([createFile(`
+        const cp = require('child_process');
+        ['exec', 'spawn'].forEach(f => cp[f](command));
+      `)]);
+
+      expect(threats).toHaveLength(0);
+    });
+
+    it('should ignore unrelated functions named exec', async () => {
+      const threats = await scanner.scan([createFile(`
+        const match = /a+/.exec('aaa');
+        function exec(query) { return query; }
+        exec('select 1');
+        db.spawn('worker');
+      `)]);
+
+      expect(threats).toHaveLength(0);
+    });
+
+    it('should not report parameters shadowing child_process bindings', async () => {
+      const threats = await scanner.scan([createFile(`
+        const { exec } = require('child_process');
+        function run(exec) { exec('ls'); }
+        function spawnWith(cp) { cp.spawn('ls'); }
+        exec('whoami');
+      `)]);
+
+      expect(threats.map(t => t.line)).toEqual([5]);
+    });
+
+    it('should skip unsupported file types', async () => {
+      const threats = await scanner.scan([createFile(`require('child_process').exec('ls')`, 'README.md')]);
+
+      expect(threats).toHaveLength(0);
+    });
+  });
+
+  describe('command argument analysis', () => {
+    it('should report literal commands as WARNING with the command', async () => {
+      const threats = await scanner.scan([createFile(`
+        const { execSync } = require('child_process');
+        execSync('npm run build');
+      `)]);
+
+      expect(threats[0].severity).toBe('WARNING');
+      expect(threats[0].details?.commandType).toBe('literal');
+      expect(threats[0].details?.command).toBe('npm run build');
+      expect(threats[0].details?.usesShell).toBe(true);
+    });
+
+    it('should report dynamic commands as CRITICAL', async () => {
+      const threats = await scanner.scan([createFile(`
+        const { exec } = require('child_process');
+        exec(\`curl \${url} | sh\`);
+      `)]);
+
+      expect(threats[0].severity).toBe('CRITICAL');
+      expect(threats[0].details?.commandType).toBe('dynamic');
+      expect(threats[0].details?.isDynamic).toBe(true);
+    });
+
+    it('should report the source-to-command path of untrusted data', async () => {
+      const threats = await scanner.scan([createFile(`
+        const { execSync } = require('child_process');
+        const target = process.env.TARGET;
+        const command = 'curl ' + target;
+        execSync(command);
+      `)]);
+
+      expect(threats[0].severity).toBe('CRITICAL');
+      expect(threats[0].description).toContain('receives untrusted data from process.env.TARGET');
+      expect(threats[0].details?.taintSourceType).toBe('environment');
+      expect(threats[0].details?.taintPath).toBe(
+        'process.env.TARGET (line 3) -> target (line 3) -> command (line 4) -> execSync (line 5)'
+      );
+    });
+
+    it('should detect the shell option on spawn', async () => {
+      const threats = await scanner.scan([createFile(`
+        const { spawn } = require('child_process');
+        spawn('sh', ['-c', payload], { shell: true });
+      `)]);
+
+      expect(threats[0].details?.shellOption).toBe(true);
+      expect(threats[0].details?.usesShell).toBe(true);
+      expect(threats[0].details?.argumentsType).toBe('dynamic');
+      expect(threats[0].severity).toBe('CRITICAL');
+    });
+
+    it('should not treat shell: false as a shell invocation', async () => {
+      const threats = await scanner.scan([createFile(`
+        const { spawn } = require('child_process');
+        spawn('ls', ['-la'], { shell: false });
+      `)]);
+
+      expect(threats[0].details?.shellOption).toBe(false);
+      expect(threats[0].details?.usesShell).toBe(false);
+      expect(threats[0].severity).toBe('WARNING');
+    });
+  });
+});
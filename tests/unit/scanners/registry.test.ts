@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ScannerRegistry,
+  createDefaultScannerRegistry
+} from '../../../lib/scanners/registry';
+import type { ThreatScanner, ThreatResult, RepositoryFile } from '../../../lib/types';
+
+function createScanner(name: string, threats: ThreatResult[] = [], shouldFail = false): ThreatScanner {
+  return {
+    name,
+    category: name,
+    subcategory: 'test',
+    async scan(): Promise<ThreatResult[]> {
+      if (shouldFail) {
+        throw new Error(`${name} crashed`);
+      }
+      return threats;
+    }
+  };
+}
+
+function createThreat(file: string): ThreatResult {
+  return {
+    category: 'test',
+    subcategory: 'test',
+    severity: 'WARNING',
+    description: 'Test threat',
+    file
+  };
+}
+
+describe('ScannerRegistry', () => {
+  let registry: ScannerRegistry;
+  const files: RepositoryFile[] = [];
+
+  beforeEach(() => {
+    registry = new ScannerRegistry();
+  });
+
+  describe('registration', () => {
+    it('should register and retrieve scanners by name', () => {
+      const scanner = createScanner('alpha');
+      registry.register(scanner);
+
+      expect(registry.has('alpha')).toBe(true);
+      expect(registry.get('alpha')).toBe(scanner);
+    });
+
+    it('should replace a scanner registered under the same name', () => {
+      const first = createScanner('alpha');
+      const second = createScanner('alpha');
+      registry.register(first);
+      registry.register(second);
+
+      expect(registry.list()).toHaveLength(1);
+      expect(registry.get('alpha')).toBe(second);
+    });
+
+    it('should unregister scanners', () => {
+      registry.register(createScanner('alpha'));
+
+      expect(registry.unregister('alpha')).toBe(true);
+      expect(registry.has('alpha')).toBe(false);
+      expect(registry.unregister('alpha')).toBe(false);
+    });
+
+    it('should reject scanners without a name', () => {
+      expect(() => registry.register(createScanner(''))).toThrow('Scanner must have a name');
+    });
+
+    it('should list scanners sorted by order', () => {
+      registry.register(createScanner('late'), { order: 300 });
+      registry.register(createScanner('early'), { order: 10 });
+      registry.register(createScanner('middle'), { order: 200 });
+
+      expect(registry.list().map(entry => entry.scanner.name)).toEqual(['early', 'middle', 'late']);
+    });
+  });
+
+  describe('resolve', () => {
+    beforeEach(() => {
+      registry.register(createScanner('alpha'));
+      registry.register(createScanner('beta'));
+      registry.register(createScanner('opt-in'), { enabledByDefault: false });
+    });
+
+    it('should return scanners enabled by default', () => {
+      expect(registry.resolve().map(s => s.name)).toEqual(['alpha', 'beta']);
+    });
+
+    it('should honour an explicit enabled list', () => {
+      expect(registry.resolve({ enabledScanners: ['opt-in'] }).map(s => s.name)).toEqual(['opt-in']);
+    });
+
+    it('should let the disabled list win over the enabled list', () => {
+      const resolved = registry.resolve({
+        enabledScanners: ['alpha', 'beta'],
+        disabledScanners: ['beta']
+      });
+
+      expect(resolved.map(s => s.name)).toEqual(['alpha']);
+    });
+  });
+
+  describe('run', () => {
+    it('should combine threats from all scanners in order', async () => {
+      registry.register(createScanner('second', [createThreat('b.ts')]), { order: 2 });
+      registry.register(createScanner('first', [createThreat('a.ts')]), { order: 1 });
+
+      const result = await registry.run(files);
+
+      expect(result.threats.map(t => t.file)).toEqual(['a.ts', 'b.ts']);
+      expect(result.scanners.map(s => s.name)).toEqual(['first', 'second']);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should isolate scanner failures and report them in errors', async () => {
+      registry.register(createScanner('broken', [], true));
+      registry.register(createScanner('healthy', [createThreat('a.ts')]));
+
+      const result = await registry.run(files);
+
+      expect(result.threats).toHaveLength(1);
+      expect(result.errors).toEqual(['Scanner broken failed: broken crashed']);
+
+      const broken = result.scanners.find(s => s.name === 'broken');
+      expect(broken?.success).toBe(false);
+      expect(broken?.error).toBe('broken crashed');
+
+      const healthy = result.scanners.find(s => s.name === 'healthy');
+      expect(healthy?.success).toBe(true);
+      expect(healthy?.threatCount).toBe(1);
+    });
+
+    it('should record per-scanner timing', async () => {
+      registry.register(createScanner('alpha'));
+
+      const result = await registry.run(files);
+
+      expect(result.scanners[0].duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should let scanners refine the combined findings', async () => {
+      registry.register(createScanner('alpha', [createThreat('a.ts')]));
+      registry.register({
+        ...createScanner('refiner'),
+        async refineThreats(threats) {
+          return threats.map(threat => ({ ...threat, severity: 'CRITICAL' as const }));
+        }
+      });
+
+      const result = await registry.run(files);
+
+      expect(result.threats).toHaveLength(1);
+      expect(result.threats[0].severity).toBe('CRITICAL');
+    });
+
+    it('should keep findings when a refinement fails', async () => {
+      registry.register(createScanner('alpha', [createThreat('a.ts')]));
+      registry.register({
+        ...createScanner('refiner'),
+        async refineThreats(): Promise<ThreatResult[]> {
+          throw new Error('refine crashed');
+        }
+      });
+
+      const result = await registry.run(files);
+
+      expect(result.threats).toHaveLength(1);
+      expect(result.errors).toEqual(['Scanner refiner failed to refine threats: refine crashed']);
+    });
+
+    it('should report unknown scanners requested by name', async () => {
+      registry.register(createScanner('alpha'));
+
+      const result = await registry.run(files, { enabledScanners: ['alpha', 'missing'] });
+
+      expect(result.errors).toContain('Unknown scanner requested: missing');
+      expect(result.scanners.map(s => s.name)).toEqual(['alpha']);
+    });
+  });
+
+  describe('createDefaultScannerRegistry', () => {
+    it('should include the built-in scanners in order', () => {
+      const defaultRegistry = createDefaultScannerRegistry();
+
+      expect(defaultRegistry.list().map(entry => entry.scanner.name)).toEqual([
+        'code-execution',
+        'process-control',
+        'network-communications',
+        'environment-access',
+        'file-system-access',
+        'lifecycle-scripts',
+        'dependencies',
+        'typosquatting',
+        'lockfile-integrity',
+        'obfuscation',
+        'call-graph',
+        'html',
+        'native-binaries'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TyposquattingScanner } from '../../../lib/scanners/typosquatting';
+import { createFile } from '../helpers/repository-files';
+
+function manifest(dependencies: Record<string, string>, extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({ name: 'app', ...extra, dependencies }, null, 2);
+}
+
+describe('TyposquattingScanner', () => {
+  let scanner: TyposquattingScanner;
+
+  beforeEach(() => {
+    scanner = new TyposquattingScanner();
+  });
+
+  it('should have correct scanner properties', () => {
+    expect(scanner.name).toBe('typosquatting');
+    expect(scanner.category).toBe('dependencies');
+  });
+
+  describe('techniques', () => {
+    it.each([
+      ['lodahs', 'lodash', 'character_swap'],
+      ['expresss', 'express', 'edit_distance'],
+      ['crossenv', 'cross-env', 'separator'],
+      ['lodash_', 'lodash', 'separator'],
+      ['lo-dash', 'lodash', 'separator'],
+      ['rn0ment', 'moment', 'homoglyph'],
+      ['@types-node', '@types/node', 'scope_confusion'],
+      ['@types-chalk', '@types/chalk', 'scope_confusion'],
+      ['@babel-core', '@babel/core', 'scope_confusion']
+    ])('should match %s to %s via %s', (name, intendedPackage, technique) => {
+      const match = scanner.findIntendedPackage(name);
+
+      expect(match?.intendedPackage).toBe(intendedPackage);
+      expect(match?.technique).toBe(technique);
+    });
+
+    it('should not flag popular packages or unrelated names', () => {
+      expect(scanner.findIntendedPackage('lodash')).toBeUndefined();
+      expect(scanner.findIntendedPackage('@types/node')).toBeUndefined();
+      expect(scanner.findIntendedPackage('my-internal-lib')).toBeUndefined();
+      expect(scanner.findIntendedPackage('ky')).toBeUndefined();
+    });
+  });
+
+  it('should report the intended package and similarity score', async () => {
+    const threats = await scanner.scan([createFile(manifest({ react: '^18.0.0', 'raect-dom': '^18.0.0' }), 'package.json')]);
+
+    expect(threats).toHaveLength(1);
+    expect(threats[0].severity).toBe('WARNING');
+    expect(threats[0].subcategory).toBe('typosquatting');
+    expect(threats[0].line).toBe(5);
+    expect(threats[0].details).toMatchObject({
+      package: 'raect-dom',
+      intendedPackage: 'react-dom',
+      technique: 'character_swap',
+      distance: 1,
+      similarity: 0.89,
+      dependencyType: 'dependencies'
+    });
+  });
+
+  it('should check dev and optional dependencies', async () => {
+    const content = JSON.stringify({
+      devDependencies: { 'typescrpit': '^5.0.0' },
+      optionalDependencies: { 'chalks': '^5.0.0' }
+    }, null, 2);
+
+    const threats = await scanner.scan([createFile(content, 'package.json')]);
+
+    expect(threats.map(t => t.details?.dependencyType)).toEqual(['devDependencies', 'optionalDependencies']);
+  });
+
+  it('should skip workspace and local dependencies', async () => {
+    const threats = await scanner.scan([
+      createFile(manifest({ 'expresss': 'workspace:*', 'lodahs': 'file:../lodahs', 'axois': '^1.0.0' }), 'package.json'),
+      createFile(JSON.stringify({ name: 'axois' }), 'packages/axois/package.json')
+    ]);
+
+    expect(threats).toHaveLength(0);
+  });
+
+  it('should ignore files other than package.json', async () => {
+    const threats = await scanner.scan([createFile(manifest({ lodahs: '1.0.0' }), 'fixtures/deps.json')]);
+
+    expect(threats).toHaveLength(0);
+  });
+});
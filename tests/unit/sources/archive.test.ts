@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { deflateRawSync, gzipSync } from 'zlib';
+import { detectArchiveFormat, extractArchive } from '../../../lib/sources/archive';
+
+interface TestEntry {
+  name: string;
+  content?: string | Buffer;
+  type?: string;
+  mode?: number;
+}
+
+function createTar(entries: TestEntry[]): Buffer {
+  const blocks = entries.flatMap(({ name, content = '', type = '0' }) => {
+    const data = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100);
+    header.write('0000644\0', 100);
+    header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write(type, 156);
+    header.write('ustar\0', 257);
+    header.write('00', 263);
+    header.fill(0x20, 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+    return [header, data, Buffer.alloc((512 - (data.length % 512)) % 512)];
+  });
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+function createZip(entries: TestEntry[], declaredSizes: Record<string, number> = {}): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, content = '', mode = 0o100644 } of entries) {
+    const data = Buffer.from(content);
+    const compressed = deflateRawSync(data);
+    const nameBuffer = Buffer.from(name);
+    const size = declaredSizes[name] ?? data.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    locals.push(local, nameBuffer, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(mode * 0x10000, 38);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('Archive Source', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  async function writeArchive(name: string, contents: Buffer): Promise<string> {
+    const archivePath = path.join(workDir, name);
+    await fs.writeFile(archivePath, contents);
+    return archivePath;
+  }
+
+  it('should extract npm pack tarballs and skip links', async () => {
+    const archivePath = await writeArchive('left-pad-1.3.0.tgz', gzipSync(createTar([
+      { name: 'package/', type: '5' },
+      { name: 'package/package.json', content: '{"name":"left-pad"}' },
+      { name: 'package/index.js', content: 'module.exports = leftPad;' },
+      { name: 'package/passwd', type: '2' }
+    ])));
+
+    const repository = await extractArchive(archivePath);
+
+    expect(repository.metadata).toMatchObject({ source: 'archive', name: 'left-pad-1.3.0', owner: 'local', fileCount: 2 });
+    expect(await fs.readFile(path.join(repository.path, 'package/index.js'), 'utf8')).toBe('module.exports = leftPad;');
+    await expect(fs.lstat(path.join(repository.path, 'package/passwd'))).rejects.toThrow();
+
+    await repository.cleanup();
+    await expect(fs.stat(repository.path)).rejects.toThrow();
+  });
+
+  it('should extract zip archives and skip symlinks', async () => {
+    const archivePath = await writeArchive('upload.zip', createZip([
+      { name: 'src/', content: '' },
+      { name: 'src/app.js', content: 'console.log(1);' },
+      { name: 'src/link', content: '/etc/passwd', mode: 0o120777 }
+    ]));
+
+    const repository = await extractArchive(archivePath);
+
+    expect(await fs.readFile(path.join(repository.path, 'src/app.js'), 'utf8')).toBe('console.log(1);');
+    await expect(fs.lstat(path.join(repository.path, 'src/link'))).rejects.toThrow();
+    await repository.cleanup();
+  });
+
+  it('should refuse entries escaping the extraction directory', async () => {
+    const listExtractions = async () => (await fs.readdir(os.tmpdir())).filter(name => name.startsWith('repo-archive-'));
+    const extractionsBefore = await listExtractions();
+    const archives = [
+      await writeArchive('slip.zip', createZip([{ name: '../../evil.js', content: 'x' }])),
+      await writeArchive('absolute.tgz', gzipSync(createTar([{ name: '/tmp/evil.js', content: 'x' }]))),
+      await writeArchive('windows.zip', createZip([{ name: 'a\\..\\..\\evil.js', content: 'x' }]))
+    ];
+
+    for (const archivePath of archives) {
+      await expect(extractArchive(archivePath)).rejects.toThrow('Archive entry escapes the extraction directory');
+    }
+    await expect(fs.stat(path.join(workDir, '..', 'evil.js'))).rejects.toThrow();
+
+    // Partially extracted directories are removed
+    expect(await listExtractions()).toEqual(extractionsBefore);
+  });
+
+  it('should refuse decompression bombs', async () => {
+    const zeros = Buffer.alloc(2 * 1024 * 1024);
+
+    const gzipBomb = await writeArchive('bomb.tgz', gzipSync(createTar([{ name: 'zeros', content: zeros }])));
+    await expect(extractArchive(gzipBomb)).rejects.toThrow('compression ratio exceeds');
+    await expect(extractArchive(gzipBomb, { maxExtractedSize: 1024 * 1024 })).rejects.toThrow('expands beyond');
+
+    const zipBomb = await writeArchive('bomb.zip', createZip([{ name: 'zeros', content: zeros }]));
+    await expect(extractArchive(zipBomb)).rejects.toThrow('compression ratio exceeds');
+
+    // A central directory understating the size cannot be used to bypass the limits
+    const lyingZip = await writeArchive('lying.zip', createZip([{ name: 'zeros', content: zeros }], { zeros: 10 }));
+    await expect(extractArchive(lyingZip)).rejects.toThrow('expands beyond its declared size');
+
+    const manyEntries = await writeArchive('many.zip', createZip([{ name: 'a.js' }, { name: 'b.js' }]));
+    await expect(extractArchive(manyEntries, { maxEntries: 1 })).rejects.toThrow('more than 1 entries');
+  });
+
+  it('should identify archives by content', () => {
+    expect(detectArchiveFormat(createTar([{ name: 'a.js' }]))).toBe('tar');
+    expect(detectArchiveFormat(gzipSync(createTar([{ name: 'a.js' }])))).toBe('tar.gz');
+    expect(detectArchiveFormat(createZip([{ name: 'a.js' }]))).toBe('zip');
+    expect(detectArchiveFormat(Buffer.from('console.log(1);'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { openRepositorySource } from '../../../lib/sources';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd, encoding: 'utf8' }).trim();
+}
+
+describe('Repository Sources', () => {
+  let workDir: string;
+  let projectDir: string;
+  let bareDir: string;
+  let firstCommit: string;
+
+  beforeAll(async () => {
+    workDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'sources-test-')));
+    projectDir = path.join(workDir, 'project');
+    bareDir = path.join(workDir, 'project.git');
+
+    await fs.mkdir(projectDir);
+    git(projectDir, 'init', '-q', '-b', 'trunk');
+    await fs.writeFile(path.join(projectDir, 'index.js'), 'module.exports = 1;\n');
+    git(projectDir, 'add', '.');
+    git(projectDir, 'commit', '-q', '-m', 'first');
+    firstCommit = git(projectDir, 'rev-parse', 'HEAD');
+    git(projectDir, 'tag', '-a', 'v1.0.0', '-m', 'v1.0.0');
+    await fs.writeFile(path.join(projectDir, 'index.js'), 'module.exports = 2;\n');
+    git(projectDir, 'commit', '-q', '-am', 'second');
+    git(workDir, 'clone', '-q', '--bare', projectDir, bareDir);
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should scan directories in place and never remove them', async () => {
+    const repository = await openRepositorySource({ type: 'directory', path: projectDir });
+
+    expect(repository.path).toBe(projectDir);
+    expect(repository.metadata).toMatchObject({ source: 'directory', name: 'project', owner: 'local', fileCount: 1 });
+
+    await repository.cleanup();
+    expect((await fs.stat(projectDir)).isDirectory()).toBe(true);
+  });
+
+  it('should clone local bare repositories at the default branch or a tag', async () => {
+    const head = await openRepositorySource({ type: 'bare', path: bareDir });
+    const tagged = await openRepositorySource({ type: 'bare', path: bareDir }, { ref: 'v1.0.0' });
+
+    try {
+      expect(head.metadata).toMatchObject({ source: 'bare', name: 'project', owner: 'local', ref: 'trunk', refType: 'branch' });
+      expect(await fs.readFile(path.join(head.path, 'index.js'), 'utf8')).toBe('module.exports = 2;\n');
+      expect(tagged.metadata).toMatchObject({ ref: 'v1.0.0', refType: 'tag', commitHash: firstCommit });
+      expect(await fs.readFile(path.join(tagged.path, 'index.js'), 'utf8')).toBe('module.exports = 1;\n');
+    } finally {
+      await head.cleanup();
+      await tagged.cleanup();
+    }
+
+    await expect(openRepositorySource({ type: 'bare', path: projectDir })).rejects.toThrow('Not a bare git repository');
+  });
+
+  it('should keep local sources inside the allowed root', async () => {
+    const outside = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'sources-outside-')));
+    await fs.symlink(outside, path.join(projectDir, 'escape'));
+
+    try {
+      await expect(openRepositorySource({ type: 'directory', path: outside }, { localRoot: workDir }))
+        .rejects.toThrow('Path is outside the allowed directory');
+      await expect(openRepositorySource({ type: 'directory', path: path.join(projectDir, 'escape') }, { localRoot: projectDir }))
+        .rejects.toThrow('Path is outside the allowed directory');
+      await expect(openRepositorySource({ type: 'archive', path: path.join(workDir, 'missing.tgz') }, { localRoot: workDir }))
+        .rejects.toThrow('Path does not exist');
+
+      const repository = await openRepositorySource({ type: 'directory', path: projectDir }, { localRoot: workDir });
+      expect(repository.path).toBe(projectDir);
+    } finally {
+      await fs.rm(path.join(projectDir, 'escape'));
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+});
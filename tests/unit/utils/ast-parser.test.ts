@@ -1,5 +1,16 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { parseAST, getNodesByType, containsPatterns, type ASTNode } from '../../../lib/utils/ast-parser';
+import {
+  parseAST,
+  parseFile,
+  getNodesByType,
+  containsPatterns,
+  walkAST,
+  getStaticStringValue,
+  getStaticPropertyName,
+  getRequiredModule,
+  type ASTNode
+} from '../../../lib/utils/ast-parser';
+import { createFile } from '../helpers/repository-files';
 
 describe('AST Parser', () => {
   const validTypeScriptCode = `
@@ -152,6 +163,78 @@ describe('AST Parser', () => {
       expect(result.success).toBe(true);
       expect(result.ast).toBeDefined();
     });
+
+    it('should parse ES module and CommonJS variants', async () => {
+      const esm = await parseAST(`import fs from 'fs';\nexport default fs;`, 'index.mjs');
+      const commonJs = await parseAST(`if (done) return;\nmodule.exports = require('./a');`, 'index.cjs');
+      const moduleTs = await parseAST(`export const run = (cmd: string) => cmd;`, 'index.mts');
+      const commonTs = await parseAST(`const x: number = 1;\nexport = x;`, 'index.cts');
+
+      expect([esm, commonJs, moduleTs, commonTs].map(result => result.success)).toEqual([true, true, true, true]);
+      expect(commonJs.ast?.sourceType).toBe('script');
+      expect(esm.ast?.sourceType).toBe('module');
+    });
+
+    it('should parse script blocks of component files at their original lines', async () => {
+      const content = [
+        '<template>',
+        '  <div @click="run">{{ label }}</div>',
+        '</template>',
+        '<script setup lang="ts">',
+        'const label: string = "hi"',
+        'eval(label)',
+        '</script>'
+      ].join('\n');
+      const result = await parseAST(content, 'components/Button.vue');
+
+      expect(result.success).toBe(true);
+      expect(result.scriptBlocks?.map(block => [block.lang, block.startLine])).toEqual([['ts', 4]]);
+
+      const evalCall = getNodesByType(result.nodes!, 'CallExpression')[0];
+      expect(evalCall.loc?.start).toEqual({ line: 6, column: 0 });
+      expect(content.slice(evalCall.range![0], evalCall.range![1])).toBe('eval(label)');
+    });
+
+    it('should retry with alternative parser settings before failing', async () => {
+      const jsxInJs = await parseAST(`const el = <div onClick={run} />;`, 'component.js');
+      const castInTsx = await parseAST(`const id = <T>(value: T) => value;`, 'helpers.tsx');
+      const decorated = await parseAST(`@register\nfunction handler() {}`, 'handler.ts');
+      const configured = await parseAST(validTypeScriptCode, 'test.ts');
+
+      expect([jsxInJs, castInTsx, decorated].map(result => result.success)).toEqual([true, true, true]);
+      expect([jsxInJs, castInTsx, decorated].map(result => result.fallback)).toEqual(['JSX on', 'JSX off', 'invalid AST allowed']);
+      expect(configured.fallback).toBeUndefined();
+    });
+
+    it('should report the line of the syntax error when every attempt fails', async () => {
+      const result = await parseAST(`const a = 1;\nfunction test( {\n  return 1;`, 'broken.js');
+
+      expect(result.success).toBe(false);
+      expect(result.errorLine).toBe(3);
+    });
+
+    it('should parse markup without scripts to an empty program', async () => {
+      const result = await parseAST('<html><body><p>Hello</p></body></html>', 'index.html');
+
+      expect(result.success).toBe(true);
+      expect(result.ast?.body).toHaveLength(0);
+    });
+  });
+
+  describe('parseFile', () => {
+    it('should parse each file once and reparse when its content changes', async () => {
+      const file = createFile(validJavaScriptCode);
+      const first = await parseFile(file);
+
+      expect(first.success).toBe(true);
+      expect(await parseFile(file)).toBe(first);
+      expect(await parseFile(createFile(validJavaScriptCode))).not.toBe(first);
+
+      file.content = 'const changed = 1;';
+      const changed = await parseFile(file);
+      expect(changed).not.toBe(first);
+      expect(changed.ast?.body).toHaveLength(1);
+    });
   });
 
   describe('getNodesByType', () => {
@@ -300,4 +383,30 @@ describe('AST Parser', () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe('AST helpers', () => {
+    it('should walk nodes outside the simplified node list', async () => {
+      const result = await parseAST('if (ready) { obj.run(eval(x)); }', 'test.js');
+      const types: string[] = [];
+
+      walkAST(result.ast!, (node) => types.push(node.type));
+
+      expect(types).toContain('IfStatement');
+      expect(types).toContain('MemberExpression');
+      expect(types.filter(type => type === 'CallExpression')).toHaveLength(2);
+    });
+
+    it('should resolve static strings, property names and required modules', async () => {
+      const result = await parseAST("const cp = require(`child_process`); cp['exec'](cmd);", 'test.js');
+      const calls: any[] = [];
+
+      walkAST(result.ast!, (node) => {
+        if (node.type === 'CallExpression') calls.push(node);
+      });
+
+      expect(getRequiredModule(calls[0])).toBe('child_process');
+      expect(getStaticPropertyName(calls[1].callee)).toBe('exec');
+      expect(getStaticStringValue(calls[1].arguments[0])).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { identifyBinary, isExtensionMismatch, isNativeExecutable, isOpaqueBinary } from '../../../lib/utils/binary-detection';
+
+function peHeader(): Buffer {
+  const header = Buffer.alloc(0x80);
+  header.write('MZ', 0, 'latin1');
+  header.writeUInt32LE(0x40, 0x3c);
+  header.write('PE\0\0', 0x40, 'latin1');
+  return header;
+}
+
+describe('Binary Detection', () => {
+  it('should identify native executables from their magic bytes', () => {
+    const elf = Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00]);
+    const machO = Buffer.from([0xcf, 0xfa, 0xed, 0xfe, 0x07, 0x00, 0x00, 0x01]);
+    const universal = Buffer.from([0xca, 0xfe, 0xba, 0xbe, 0x00, 0x00, 0x00, 0x02]);
+
+    expect([elf, peHeader(), machO, universal].map(header => identifyBinary(header)?.format)).toEqual(['elf', 'pe', 'macho', 'macho']);
+    expect(isNativeExecutable(identifyBinary(elf)!)).toBe(true);
+  });
+
+  it('should tell Java classes, archives, images and WebAssembly apart from executables', () => {
+    const javaClass = Buffer.from([0xca, 0xfe, 0xba, 0xbe, 0x00, 0x00, 0x00, 0x34]);
+    const wasm = Buffer.from([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]);
+    const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    expect([javaClass, wasm, zip, png].map(header => identifyBinary(header)?.kind)).toEqual(['bytecode', 'bytecode', 'archive', 'image']);
+  });
+
+  it('should not identify text, even when it starts like a DOS header', () => {
+    expect(identifyBinary(Buffer.from('module.exports = {};'))).toBeUndefined();
+    expect(identifyBinary(Buffer.from('MZ notes'))).toBeUndefined();
+    expect(identifyBinary(Buffer.alloc(0))).toBeUndefined();
+  });
+
+  it('should detect extensions that lie about the contents', () => {
+    const elf = identifyBinary(Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00]))!;
+
+    expect(['bin/esbuild', 'build/Release/addon.node', 'lib/libssl.so.1.1'].map(file => isExtensionMismatch(elf, file))).toEqual([false, false, false]);
+    expect(['assets/logo.png', 'src/index.js', 'tool.exe'].map(file => isExtensionMismatch(elf, file))).toEqual([true, true, true]);
+  });
+
+  it('should read binaries claiming a text extension, except native code', () => {
+    const elf = identifyBinary(Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00]))!;
+    const gif = identifyBinary(Buffer.from('GIF89a=1;\neval(process.env.X);'))!;
+    const textExtensions = ['js', 'json'];
+
+    expect(isOpaqueBinary(gif, 'payload.js', textExtensions)).toBe(false);
+    expect(isOpaqueBinary(gif, 'logo.gif', textExtensions)).toBe(true);
+    expect(isOpaqueBinary(elf, 'index.js', textExtensions)).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import type { TSESTree } from '@typescript-eslint/types';
+import { parseAST, walkAST } from '../../../lib/utils/ast-parser';
+import { analyzeScope } from '../../../lib/utils/scope-analysis';
+
+/**
+ * Fold the first argument of every call to `value(...)` in the snippet
+ */
+async function foldValues(code: string) {
+  const result = await parseAST(code, 'test.js');
+  expect(result.success).toBe(true);
+
+  const scope = analyzeScope(result.ast!);
+  const values: ReturnType<typeof scope.evaluate>[] = [];
+  walkAST(result.ast!, (node) => {
+    const call = node as TSESTree.CallExpression;
+    if (node.type === 'CallExpression' && call.callee.type === 'Identifier' && call.callee.name === 'value') {
+      values.push(scope.evaluate(call.arguments[0]));
+    }
+  });
+
+  return values;
+}
+
+describe('Constant Folding', () => {
+  it('should fold concatenation, templates, arithmetic and constants', async () => {
+    const values = await foldValues(`
+      const prefix = 'ev';
+      value(prefix + 'a' + 'l');
+      value(\`\${prefix}al\`);
+      value(1 + 2 * 3);
+      value('x' + 1 + 2);
+      value(true ? 'yes' : 'no');
+    `);
+
+    expect(values).toEqual(['eval', 'eval', 7, 'x12', 'yes']);
+  });
+
+  it('should decode character codes, base64, hex and URI escapes', async () => {
+    const values = await foldValues(`
+      value(String.fromCharCode(101, 118, 97, 108));
+      value(String.fromCharCode(...[0x65, 0x78, 0x65, 0x63]));
+      value(atob('ZXZhbA=='));
+      value(Buffer.from('ZXhlYw==', 'base64').toString());
+      value(Buffer.from('737061776e', 'hex').toString('utf8'));
+      value(Buffer.from([101, 118, 97, 108]).toString());
+      value(decodeURIComponent('%65%76%61%6c'));
+      value(atob('not base64!'));
+    `);
+
+    expect(values).toEqual(['eval', 'exec', 'eval', 'exec', 'spawn', 'eval', 'eval', undefined]);
+  });
+
+  it('should fold array joins, reversals and string methods', async () => {
+    const values = await foldValues(`
+      const parts = ['e', 'x', 'e', 'c'];
+      value(parts.join(''));
+      value('lave'.split('').reverse().join(''));
+      value([...'cexe'].reverse().join(''));
+      value(['a', 'b'].concat(['c']));
+      value('XEVALX'.slice(1, 5).toLowerCase());
+      value('e_v_a_l'.replaceAll('_', ''));
+      value(parts[3] + parts.length);
+    `);
+
+    expect(values).toEqual(['exec', 'eval', 'exec', ['a', 'b', 'c'], 'eval', 'eval', 'c4']);
+  });
+
+  it('should not fold values that can change or are unknown', async () => {
+    const values = await foldValues(`
+      let name = 'eval';
+      name = input;
+      value(name);
+      value(input + 'x');
+      value(Buffer.from(input, 'base64').toString());
+      value('a'.repeat(1e9));
+      value(parts.join(''));
+      function atob(x) { return x; }
+    `);
+
+    expect(values).toEqual([undefined, undefined, undefined, undefined, undefined]);
+  });
+});
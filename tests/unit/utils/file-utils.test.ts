@@ -17,7 +17,8 @@ vi.mock('fs', () => ({
     stat: vi.fn(),
     access: vi.fn(),
     readFile: vi.fn(),
-    realpath: vi.fn()
+    realpath: vi.fn(),
+    open: vi.fn()
   },
   constants: {
     R_OK: 4
@@ -161,6 +162,32 @@ describe('File Utils', () => {
       expect(result.files).toHaveLength(1);
       expect(result.files[0].relativePath).toBe('small.txt');
     });
+
+    it('should identify binaries by their magic bytes regardless of extension', async () => {
+      const headers: Record<string, Buffer> = {
+        '/test/repo/logo.png': Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00]),
+        '/test/repo/index.ts': Buffer.from('export const value = 1;')
+      };
+      const mockFiles = [
+        { isDirectory: () => false, isFile: () => true, isSymbolicLink: () => false, size: 4096, mtime: new Date() },
+        { isDirectory: () => false, isFile: () => true, isSymbolicLink: () => false, size: 23, mtime: new Date() }
+      ];
+
+      mockFs.readdir.mockResolvedValue(['logo.png', 'index.ts'] as any);
+      mockFs.stat
+        .mockResolvedValueOnce(mockFiles[0] as any)
+        .mockResolvedValueOnce(mockFiles[1] as any);
+      mockFs.open.mockImplementation(async (filePath) => ({
+        read: async (buffer: Buffer) => ({ bytesRead: headers[filePath as string].copy(buffer), buffer }),
+        close: async () => undefined
+      }) as any);
+
+      const result = await traverseDirectory(mockBasePath, { fileExtensions: ['ts'], detectBinaries: true });
+
+      expect(result.files.map(file => file.relativePath)).toEqual(['index.ts']);
+      expect(result.binaries?.map(file => [file.relativePath, file.binary?.format])).toEqual([['logo.png', 'elf']]);
+      expect(result.files[0].binary).toBeUndefined();
+    });
   });
 
   describe('readFileContent', () => {
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import { parseLockfile, getLockfileType } from '../../../lib/utils/lockfile-parser';
+
+describe('lockfile-parser', () => {
+  it('should detect lockfile types from file names', () => {
+    expect(getLockfileType('/repo/package-lock.json')).toBe('npm');
+    expect(getLockfileType('/repo/npm-shrinkwrap.json')).toBe('npm');
+    expect(getLockfileType('/repo/pnpm-lock.yaml')).toBe('pnpm');
+    expect(getLockfileType('/repo/yarn.lock')).toBe('yarn');
+    expect(getLockfileType('/repo/package.json')).toBeUndefined();
+  });
+
+  describe('npm', () => {
+    it('should resolve nested packages and their paths (lockfileVersion 3)', () => {
+      const content = JSON.stringify({
+        name: 'app',
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'app', dependencies: { 'event-stream': '^3.3.4' } },
+          'node_modules/event-stream': {
+            version: '3.3.6',
+            resolved: 'https://registry.npmjs.org/event-stream/-/event-stream-3.3.6.tgz',
+            dependencies: { 'flatmap-stream': '^0.1.0', through: '~2.3.1' }
+          },
+          'node_modules/event-stream/node_modules/flatmap-stream': { version: '0.1.1' },
+          'node_modules/through': { version: '2.3.8' }
+        }
+      }, null, 2);
+
+      const lockfile = parseLockfile('package-lock.json', content);
+      const flatmap = lockfile.dependencies.find(d => d.name === 'flatmap-stream');
+
+      expect(lockfile.type).toBe('npm');
+      expect(lockfile.rootDependencies).toEqual({ 'event-stream': '^3.3.4' });
+      expect(flatmap?.version).toBe('0.1.1');
+      expect(flatmap?.path).toEqual(['event-stream', 'flatmap-stream']);
+      expect(content.split('\n')[(flatmap?.line ?? 0) - 1]).toContain('node_modules/event-stream/node_modules/flatmap-stream');
+      expect(lockfile.dependencies.find(d => d.name === 'through')?.path).toEqual(['event-stream', 'through']);
+    });
+
+    it('should skip workspace sources and mark bundled packages (lockfileVersion 3)', () => {
+      const content = JSON.stringify({
+        name: 'app',
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'app', workspaces: ['packages/*'] },
+          'node_modules/a': { resolved: 'packages/a', link: true },
+          'packages/a': { name: 'a', version: '1.0.0', dependencies: { tool: '^2.0.0' } },
+          'node_modules/tool': { version: '2.0.0', integrity: 'sha512-x', dependencies: { helper: '1.0.0' } },
+          'node_modules/tool/node_modules/helper': { version: '1.0.0', inBundle: true }
+        }
+      }, null, 2);
+
+      const lockfile = parseLockfile('package-lock.json', content);
+
+      expect(lockfile.dependencies.map(d => [d.name, d.bundled])).toEqual([
+        ['tool', undefined],
+        ['helper', true]
+      ]);
+    });
+
+    it('should parse nested dependencies (lockfileVersion 1)', () => {
+      const content = JSON.stringify({
+        lockfileVersion: 1,
+        dependencies: {
+          'event-stream': {
+            version: '3.3.6',
+            requires: { 'flatmap-stream': '^0.1.0' },
+            dependencies: { 'flatmap-stream': { version: '0.1.1' } }
+          }
+        }
+      }, null, 2);
+
+      const lockfile = parseLockfile('package-lock.json', content, { dependencies: { 'event-stream': '^3.3.4' } });
+
+      expect(lockfile.dependencies.find(d => d.name === 'flatmap-stream')?.path).toEqual(['event-stream', 'flatmap-stream']);
+    });
+  });
+
+  describe('pnpm', () => {
+    it('should parse lockfile v9 packages and snapshots', () => {
+      const content = [
+        "lockfileVersion: '9.0'",
+        '',
+        'importers:',
+        '  .:',
+        '    dependencies:',
+        '      ua-parser-js:',
+        '        specifier: ^0.7.28',
+        '        version: 0.7.29',
+        '      react-dom:',
+        '        specifier: ^18.0.0',
+        '        version: 18.2.0(react@18.2.0)',
+        '',
+        'packages:',
+        '  ua-parser-js@0.7.29:',
+        '    resolution: {integrity: sha512-abc}',
+        '  react-dom@18.2.0:',
+        '    resolution: {integrity: sha512-def}',
+        '  react@18.2.0:',
+        '    resolution: {integrity: sha512-ghi}',
+        '',
+        'snapshots:',
+        '  ua-parser-js@0.7.29: {}',
+        '  react-dom@18.2.0(react@18.2.0):',
+        '    dependencies:',
+        '      react: 18.2.0',
+        '  react@18.2.0: {}'
+      ].join('\n');
+
+      const lockfile = parseLockfile('pnpm-lock.yaml', content);
+      const uaParser = lockfile.dependencies.find(d => d.name === 'ua-parser-js');
+
+      expect(lockfile.rootDependencies).toEqual({ 'ua-parser-js': '^0.7.28', 'react-dom': '^18.0.0' });
+      expect(uaParser?.version).toBe('0.7.29');
+      expect(uaParser?.integrity).toBe('sha512-abc');
+      expect(uaParser?.line).toBe(14);
+      expect(lockfile.dependencies.find(d => d.name === 'react')?.path).toEqual(['react-dom', 'react']);
+    });
+
+    it('should parse lockfile v5 package keys', () => {
+      const content = [
+        'lockfileVersion: 5.4',
+        '',
+        'specifiers:',
+        '  coa: ^2.0.2',
+        '',
+        'dependencies:',
+        '  coa: 2.0.3',
+        '',
+        'packages:',
+        '',
+        '  /coa/2.0.3:',
+        '    resolution: {integrity: sha512-xyz}',
+        '    dependencies:',
+        '      chalk: 2.4.2',
+        '',
+        '  /chalk/2.4.2:',
+        '    resolution: {integrity: sha512-uvw}'
+      ].join('\n');
+
+      const lockfile = parseLockfile('pnpm-lock.yaml', content);
+
+      expect(lockfile.rootDependencies).toEqual({ coa: '^2.0.2' });
+      expect(lockfile.dependencies.find(d => d.name === 'coa')?.version).toBe('2.0.3');
+      expect(lockfile.dependencies.find(d => d.name === 'chalk')?.path).toEqual(['coa', 'chalk']);
+    });
+  });
+
+  describe('yarn', () => {
+    it('should parse classic yarn.lock using package.json for roots', () => {
+      const content = [
+        '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+        '# yarn lockfile v1',
+        '',
+        '',
+        '"@babel/core@^7.0.0", "@babel/core@^7.1.0":',
+        '  version "7.1.0"',
+        '  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.1.0.tgz"',
+        '  dependencies:',
+        '    rc "^1.2.8"',
+        '',
+        'rc@^1.2.8:',
+        '  version "1.2.9"',
+        '  resolved "https://registry.yarnpkg.com/rc/-/rc-1.2.9.tgz"',
+        '  integrity sha512-abc'
+      ].join('\n');
+
+      const lockfile = parseLockfile('yarn.lock', content, { devDependencies: { '@babel/core': '^7.0.0' } });
+      const rc = lockfile.dependencies.find(d => d.name === 'rc');
+
+      expect(lockfile.lockfileVersion).toBe('1');
+      expect(rc?.version).toBe('1.2.9');
+      expect(rc?.line).toBe(11);
+      expect(rc?.integrity).toBe('sha512-abc');
+      expect(rc?.path).toEqual(['@babel/core', 'rc']);
+    });
+
+    it('should parse berry yarn.lock and skip workspace entries', () => {
+      const content = [
+        '__metadata:',
+        '  version: 6',
+        '',
+        '"app@workspace:.":',
+        '  version: 0.0.0-use.local',
+        '  resolution: "app@workspace:."',
+        '  dependencies:',
+        '    node-ipc: ^10.1.0',
+        '  languageName: unknown',
+        '',
+        '"node-ipc@npm:^10.1.0":',
+        '  version: 10.1.1',
+        '  resolution: "node-ipc@npm:10.1.1"',
+        '  checksum: abc123',
+        '  languageName: node'
+      ].join('\n');
+
+      const lockfile = parseLockfile('yarn.lock', content);
+
+      expect(lockfile.dependencies.map(d => d.name)).toEqual(['node-ipc']);
+      expect(lockfile.dependencies[0].version).toBe('10.1.1');
+      expect(lockfile.dependencies[0].path).toEqual(['node-ipc']);
+      expect(lockfile.rootDependencies).toEqual({ 'node-ipc': '^10.1.0' });
+    });
+  });
+
+  it('should throw for unsupported files', () => {
+    expect(() => parseLockfile('Gemfile.lock', '')).toThrow('Unsupported lockfile');
+  });
+});
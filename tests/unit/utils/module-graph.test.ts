@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import type { TSESTree } from '@typescript-eslint/types';
+import { walkAST } from '../../../lib/utils/ast-parser';
+import { buildModuleGraph, type ModuleGraph } from '../../../lib/utils/module-graph';
+import { formatTaintPath } from '../../../lib/utils/taint-analysis';
+import { createFiles } from '../helpers/repository-files';
+
+/**
+ * Get the taint of the first argument of the first `sink(...)` call in a module
+ */
+function sinkTaint(graph: ModuleGraph, relativePath: string) {
+  let argument: TSESTree.Node | undefined;
+  walkAST(graph.getAnalysis(relativePath)!.ast, (node) => {
+    const call = node as TSESTree.CallExpression;
+    if (!argument && node.type === 'CallExpression' && call.callee.type === 'Identifier' && call.callee.name === 'sink') {
+      argument = call.arguments[0];
+    }
+  });
+
+  return graph.getTaint(relativePath, argument!);
+}
+
+describe('Module Graph', () => {
+  describe('imports and exports', () => {
+    it('should collect ES imports, requires, dynamic imports and re-exports', async () => {
+      const graph = await buildModuleGraph(createFiles({
+        'index.ts': `
+          import { decode } from './utils';
+          import type { Options } from './types';
+          const fs = require('fs');
+          const plugin = import('./plugin');
+        `,
+        'utils/index.ts': `export * from './decode';\nexport { run as execute } from './run';`,
+        'utils/decode.ts': 'export function decode(value: string) { return value; }',
+        'utils/run.ts': 'export const run = () => {};',
+        'plugin.js': 'module.exports = function plugin() {};',
+        'types.ts': 'export interface Options {}'
+      }));
+
+      const index = graph.getModule('index.ts')!;
+      expect(index.imports.map(entry => [entry.specifier, entry.kind, entry.resolvedPath])).toEqual([
+        ['./utils', 'import', 'utils/index.ts'],
+        ['fs', 'require', undefined],
+        ['./plugin', 'dynamic_import', 'plugin.js']
+      ]);
+
+      expect(graph.getModule('utils/index.ts')!.starExports).toEqual(['./decode']);
+      expect(graph.resolveExport('utils/index.ts', 'decode')).toEqual({ relativePath: 'utils/decode.ts', local: 'decode' });
+      expect(graph.resolveExport('utils/index.ts', 'execute')).toEqual({ relativePath: 'utils/run.ts', local: 'run' });
+      expect(graph.resolveExport('plugin.js', 'default')).toEqual({ relativePath: 'plugin.js', local: 'default' });
+    });
+
+    it('should collect CommonJS exports', async () => {
+      const graph = await buildModuleGraph(createFiles({
+        'lib.js': `
+          function helper() {}
+          exports.first = helper;
+          module.exports.second = () => {};
+        `
+      }));
+
+      const lib = graph.getModule('lib.js')!;
+      expect(Array.from(lib.exports.keys())).toEqual(['first', 'second']);
+      expect(graph.resolveExport('lib.js', 'first')).toEqual({ relativePath: 'lib.js', local: 'helper' });
+    });
+  });
+
+  describe('call graph', () => {
+    it('should link calls to functions imported from other modules', async () => {
+      const graph = await buildModuleGraph(createFiles({
+        'index.js': `
+          const { decode } = require('./decode');
+          function main() {
+            return decode(input);
+          }
+          main();
+        `,
+        'decode.js': 'exports.decode = function decode(value) { return atob(value); };'
+      }));
+
+      expect(graph.getCallers('decode.js#decode')).toEqual([
+        { caller: 'index.js#main', callee: 'decode.js#decode', line: 4 }
+      ]);
+      expect(graph.getCallees('index.js#<module>')).toEqual([
+        { caller: 'index.js#<module>', callee: 'index.js#main', line: 6 }
+      ]);
+    });
+  });
+
+  describe('entry points and reachability', () => {
+    it('should find entry points from package.json and the import chain that reaches a module', async () => {
+      const graph = await buildModuleGraph(createFiles({
+        'package.json': JSON.stringify({ name: 'pkg', main: 'index.js', bin: { pkg: 'bin/cli.js' } }),
+        'index.js': `require('./lib/core');`,
+        'bin/cli.js': `require('../lib/core');`,
+        'lib/core.js': `require('./payload');`,
+        'lib/payload.js': `module.exports = {};`,
+        'scripts/setup.js': `console.log('setup');`,
+        'scripts/unused.js': ''
+      }), {
+        entryPoints: [{ path: '/repo/scripts/setup.js', kind: 'install_script', description: 'postinstall script' }]
+      });
+
+      expect(graph.entryPoints.map(entry => [entry.relativePath, entry.kind])).toEqual([
+        ['scripts/setup.js', 'install_script'],
+        ['bin/cli.js', 'bin'],
+        ['index.js', 'main']
+      ]);
+
+      const reachability = graph.getReachability('/repo/lib/payload.js');
+      expect(reachability?.entryPoint.relativePath).toBe('bin/cli.js');
+      expect(reachability?.chain).toEqual(['bin/cli.js', 'lib/core.js', 'lib/payload.js']);
+      expect(reachability?.entryKinds).toEqual(['bin', 'main']);
+      expect(graph.getReachability('scripts/unused.js')).toBeUndefined();
+      expect(graph.findImportChain('index.js', 'lib/payload.js')).toEqual(['index.js', 'lib/core.js', 'lib/payload.js']);
+    });
+  });
+
+  describe('cross-module taint', () => {
+    it('should follow untrusted data returned by imported functions', async () => {
+      const graph = await buildModuleGraph(createFiles({
+        'index.js': `
+          import { decode } from './utils/decode';
+          const code = decode(payload);
+          sink(code);
+        `,
+        'utils/decode.js': `
+          export function decode(value) {
+            return Buffer.from(value, 'base64').toString();
+          }
+        `
+      }));
+
+      const flow = sinkTaint(graph, 'index.js');
+      expect(flow?.source.type).toBe('decoded_data');
+      expect(formatTaintPath(flow!)).toBe(
+        "Buffer.from(…, 'base64') (utils/decode.js:3) -> decode() (utils/decode.js:2) -> code (line 3)"
+      );
+    });
+
+    it('should not loop on mutually recursive imports', async () => {
+      const graph = await buildModuleGraph(createFiles({
+        'a.js': `import { b } from './b';\nexport function a() { return b(); }\nsink(a());`,
+        'b.js': `import { a } from './a';\nexport function b() { return a(); }`
+      }));
+
+      expect(sinkTaint(graph, 'a.js')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createResolutionContext,
+  resolveModuleSpecifier,
+  normalizeRelativePath,
+  parseJsonWithComments
+} from '../../../lib/utils/module-resolution';
+
+function createContext(files: Record<string, string>) {
+  return createResolutionContext(Object.entries(files).map(([relativePath, content]) => ({
+    path: `/repo/${relativePath}`,
+    relativePath,
+    content,
+    size: content.length,
+    modificationDate: new Date(),
+    isDirectory: false,
+    isSymbolicLink: false,
+    isFile: true,
+    extension: relativePath.slice(relativePath.lastIndexOf('.'))
+  })));
+}
+
+describe('Module Resolution', () => {
+  it('should normalize relative paths', () => {
+    expect(normalizeRelativePath('./src\\utils/../index.js')).toBe('src/index.js');
+    expect(normalizeRelativePath('.')).toBe('');
+  });
+
+  it('should resolve relative specifiers with extensions, index files and .js to .ts', () => {
+    const context = createContext({
+      'src/index.ts': '',
+      'src/utils/decode.ts': '',
+      'src/helpers/index.js': '',
+      'lib/legacy.cjs': ''
+    });
+
+    expect(resolveModuleSpecifier('./utils/decode', 'src/index.ts', context)).toBe('src/utils/decode.ts');
+    expect(resolveModuleSpecifier('./utils/decode.js', 'src/index.ts', context)).toBe('src/utils/decode.ts');
+    expect(resolveModuleSpecifier('./helpers', 'src/index.ts', context)).toBe('src/helpers/index.js');
+    expect(resolveModuleSpecifier('../lib/legacy', 'src/index.ts', context)).toBe('lib/legacy.cjs');
+    expect(resolveModuleSpecifier('./missing', 'src/index.ts', context)).toBeUndefined();
+  });
+
+  it('should resolve tsconfig paths and baseUrl from the nearest configuration', () => {
+    const context = createContext({
+      'tsconfig.json': `{
+        // comments and trailing commas are allowed
+        "compilerOptions": { "baseUrl": ".", "paths": { "@lib/*": ["lib/*"], }, },
+      }`,
+      'lib/payload.ts': '',
+      'src/config.ts': '',
+      'src/index.ts': ''
+    });
+
+    expect(resolveModuleSpecifier('@lib/payload', 'src/index.ts', context)).toBe('lib/payload.ts');
+    expect(resolveModuleSpecifier('src/config', 'src/index.ts', context)).toBe('src/config.ts');
+    expect(resolveModuleSpecifier('lodash', 'src/index.ts', context)).toBeUndefined();
+  });
+
+  it('should resolve local packages through exports, main and index', () => {
+    const context = createContext({
+      'packages/core/package.json': JSON.stringify({
+        name: '@scope/core',
+        exports: { '.': { import: './dist/index.mjs', require: './dist/index.cjs' }, './utils/*': './dist/utils/*.js' }
+      }),
+      'packages/core/dist/index.mjs': '',
+      'packages/core/dist/utils/run.js': '',
+      'packages/cli/package.json': JSON.stringify({ name: 'cli', main: 'bin/cli.js' }),
+      'packages/cli/bin/cli.js': '',
+      'packages/plain/package.json': JSON.stringify({ name: 'plain' }),
+      'packages/plain/index.js': ''
+    });
+
+    expect(resolveModuleSpecifier('@scope/core', 'app.js', context)).toBe('packages/core/dist/index.mjs');
+    expect(resolveModuleSpecifier('@scope/core/utils/run', 'app.js', context)).toBe('packages/core/dist/utils/run.js');
+    expect(resolveModuleSpecifier('cli', 'app.js', context)).toBe('packages/cli/bin/cli.js');
+    expect(resolveModuleSpecifier('plain', 'app.js', context)).toBe('packages/plain/index.js');
+  });
+
+  it('should return undefined for invalid JSON', () => {
+    expect(parseJsonWithComments('{ "a": 1, /* note */ }')).toEqual({ a: 1 });
+    expect(parseJsonWithComments('{ broken')).toBeUndefined();
+  });
+});
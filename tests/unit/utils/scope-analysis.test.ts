@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import type { TSESTree } from '@typescript-eslint/types';
+import { parseAST, walkAST } from '../../../lib/utils/ast-parser';
+import { analyzeScope, formatSymbol, isGlobalSymbol } from '../../../lib/utils/scope-analysis';
+
+/**
+ * Resolve the callee of every call expression in the snippet, in source order
+ */
+async function resolveCallees(code: string, filePath = 'test.js') {
+  const result = await parseAST(code, filePath);
+  expect(result.success).toBe(true);
+
+  const scope = analyzeScope(result.ast!);
+  const calls: TSESTree.CallExpression[] = [];
+  walkAST(result.ast!, (node) => {
+    if (node.type === 'CallExpression') calls.push(node);
+  });
+
+  return calls.map(call => scope.resolve(call.callee));
+}
+
+describe('Scope Analysis', () => {
+  describe('globals', () => {
+    it('should resolve undeclared and built-in globals', async () => {
+      const [evalCall, execCall] = await resolveCallees(`eval(code); exec(command);`);
+
+      expect(evalCall).toEqual({ kind: 'global', name: 'eval' });
+      expect(execCall).toEqual({ kind: 'global', name: 'exec' });
+    });
+
+    it('should resolve members of the global object and global namespaces', async () => {
+      const callees = await resolveCallees(`
+        globalThis.eval(a);
+        window['ev' + 'al'](b);
+        global[\`ev\${'al'}\`](c);
+        Buffer.from(d);
+      `);
+
+      expect(callees.map(symbol => symbol && formatSymbol(symbol))).toEqual(['eval', 'eval', 'eval', 'Buffer.from']);
+    });
+
+    it('should fold constant property names', async () => {
+      const [callee] = await resolveCallees(`
+        const name = 'ev' + 'al';
+        globalThis[name](code);
+      `);
+
+      expect(isGlobalSymbol(callee, ['eval'])).toBe(true);
+    });
+
+    it('should not fold names that are re-assigned', async () => {
+      const [callee] = await resolveCallees(`
+        let name = 'eval';
+        name = 'log';
+        globalThis[name](code);
+      `);
+
+      expect(callee).toBeUndefined();
+    });
+  });
+
+  describe('aliases', () => {
+    it('should follow const aliases, sequences and bind', async () => {
+      const callees = await resolveCallees(`
+        const e = eval;
+        const f = e;
+        f(a);
+        (0, eval)(b);
+        const g = eval.bind(null);
+        g(c);
+        eval.call(null, d);
+      `);
+
+      expect(callees.filter(symbol => isGlobalSymbol(symbol, ['eval']))).toHaveLength(4);
+    });
+
+    it('should follow re-assignments that all agree', async () => {
+      const [agreed, conflicting] = await resolveCallees(`
+        let run;
+        run = eval;
+        run(a);
+        let other = eval;
+        other = console.log;
+        other(b);
+      `);
+
+      expect(agreed).toEqual({ kind: 'global', name: 'eval' });
+      expect(conflicting).toEqual({ kind: 'local', name: 'other' });
+    });
+  });
+
+  describe('shadowing', () => {
+    it('should treat local functions, parameters and variables as local', async () => {
+      const callees = await resolveCallees(`
+        function eval(x) { return x; }
+        eval(a);
+        function run(exec) { exec(b); }
+        const setTimeout = (fn) => fn();
+        setTimeout(c);
+      `);
+
+      expect(callees.map(symbol => symbol?.kind)).toEqual(['local', 'local', 'local', 'local']);
+    });
+
+    it('should resolve a global again outside the shadowing scope', async () => {
+      const [inner, outer] = await resolveCallees(`
+        function sandbox(eval) { eval(a); }
+        eval(b);
+      `);
+
+      expect(inner?.kind).toBe('local');
+      expect(outer).toEqual({ kind: 'global', name: 'eval' });
+    });
+  });
+
+  describe('modules', () => {
+    it('should resolve imports, requires and destructuring to module exports', async () => {
+      const callees = await resolveCallees(`
+        import { exec as run } from 'child_process';
+        import * as cp from 'node:child_process';
+        const { execSync } = require('child_process');
+        const { spawn: start } = require('child_process');
+        run(a);
+        cp.spawn(b);
+        execSync(c);
+        start(d);
+        require('child_process').exec(e);
+      `);
+
+      expect(callees.filter(symbol => symbol?.kind === 'module').map(symbol => symbol && formatSymbol(symbol))).toEqual([
+        'child_process.exec',
+        'child_process.spawn',
+        'child_process.execSync',
+        'child_process.spawn',
+        'child_process.exec'
+      ]);
+    });
+
+    it('should resolve TypeScript import-equals declarations', async () => {
+      const [callee] = await resolveCallees(`
+        import cp = require('child_process');
+        cp.exec(command);
+      `, 'test.ts');
+
+      expect(callee).toEqual({ kind: 'module', module: 'child_process', member: 'exec' });
+    });
+
+    it('should not resolve a local require function', async () => {
+      const [callee] = await resolveCallees(`
+        function require(name) { return name; }
+        require('child_process').exec(command);
+      `);
+
+      expect(callee).toBeUndefined();
+    });
+  });
+});
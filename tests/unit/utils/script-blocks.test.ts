@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractScriptBlocks,
+  extractInlineHandlers,
+  extractExternalScripts,
+  maskToScriptBlocks,
+  maskToInlineHandlers,
+  isComponentFile
+} from '../../../lib/utils/script-blocks';
+
+describe('Script Blocks', () => {
+  it('should recognise component and markup files', () => {
+    expect(['App.vue', 'Page.svelte', 'index.astro', 'index.HTML', 'page.htm'].map(isComponentFile)).toEqual([true, true, true, true, true]);
+    expect(isComponentFile('index.js')).toBe(false);
+  });
+
+  it('should extract every executable script block with its language and line', () => {
+    const content = [
+      '<script context="module" lang="ts">',
+      '  export const prerender = true;',
+      '</script>',
+      '<script>',
+      '  let count = 0;',
+      '</script>',
+      '<script type="application/ld+json">{"@type": "Thing"}</script>',
+      '<!-- <script>disabled()</script> -->',
+      '<script type="text/babel">render(<App />)</script>'
+    ].join('\n');
+
+    const blocks = extractScriptBlocks(content, 'Page.svelte');
+
+    expect(blocks.map(block => [block.lang, block.startLine, block.content.trim()])).toEqual([
+      ['ts', 1, 'export const prerender = true;'],
+      ['js', 4, 'let count = 0;'],
+      ['jsx', 9, 'render(<App />)']
+    ]);
+    expect(blocks[0].attributes).toEqual({ context: 'module', lang: 'ts' });
+    expect(content.slice(blocks[2].range[0], blocks[2].range[1])).toBe('render(<App />)');
+  });
+
+  it('should extract Astro frontmatter as TypeScript', () => {
+    const content = '---\nconst data = await fetch(url);\n---\n<h1>{data.title}</h1>\n<script>init();</script>';
+    const blocks = extractScriptBlocks(content, 'pages/index.astro');
+
+    expect(blocks.map(block => [block.lang, block.startLine, block.content])).toEqual([
+      ['ts', 2, 'const data = await fetch(url);'],
+      ['js', 5, 'init();']
+    ]);
+  });
+
+  it('should mask markup while keeping positions and terminating each block', () => {
+    const content = '<p>a</p>\n<script>run()</script>\n<script>next()</script>';
+    const masked = maskToScriptBlocks(content, extractScriptBlocks(content, 'index.html'));
+
+    expect(masked).toHaveLength(content.length);
+    expect(masked.split('\n')).toEqual([
+      '        ',
+      '        run();        ',
+      '        next();        '
+    ]);
+  });
+
+  it('should extract decoded event handlers and javascript: URLs outside comments and scripts', () => {
+    const content = [
+      '<body onload="init()">',
+      '  <a href="JavaScript:eval(&quot;go()&quot;)">Go</a>',
+      '  <button onclick=\'run(1)\' title="x">Run</button>',
+      '  <a href="https://example.com">Safe</a>',
+      '  <!-- <div onclick="disabled()"></div> -->',
+      '  <script>const html = \'<div onclick="inScript()">\';</script>',
+      '</body>'
+    ].join('\n');
+
+    const handlers = extractInlineHandlers(content);
+
+    expect(handlers.map(handler => [handler.kind, handler.tag, handler.attribute, handler.line, handler.code.trim()])).toEqual([
+      ['event_handler', 'body', 'onload', 1, 'init()'],
+      ['javascript_url', 'a', 'href', 2, 'eval("go()")'],
+      ['event_handler', 'button', 'onclick', 3, 'run(1)']
+    ]);
+    expect(content.slice(handlers[0].range[0], handlers[0].range[1])).toBe('init()');
+    expect(handlers[1].code).toHaveLength(handlers[1].range[1] - handlers[1].range[0]);
+  });
+
+  it('should mask markup to the inline handlers at their original positions', () => {
+    const content = '<div\n  onclick="a()" onmouseover="b()">';
+    const masked = maskToInlineHandlers(content, extractInlineHandlers(content));
+
+    expect(masked).toHaveLength(content.length);
+    expect(masked.split('\n')).toEqual(['    ', '           a();              b(); ']);
+  });
+
+  it('should find external scripts with their attributes', () => {
+    const content = '<script src="https://cdn.example.com/a.js" integrity="sha384-abc"></script>\n<!-- <script src="old.js"></script> -->\n<script src=\'app.js\' defer></script>';
+
+    expect(extractExternalScripts(content).map(script => [script.src, script.line, script.attributes.integrity])).toEqual([
+      ['https://cdn.example.com/a.js', 1, 'sha384-abc'],
+      ['app.js', 3, undefined]
+    ]);
+  });
+});
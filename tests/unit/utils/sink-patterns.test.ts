@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { findSinkPatterns, maskCommentsAndStrings } from '../../../lib/utils/sink-patterns';
+
+describe('Sink Patterns', () => {
+  describe('maskCommentsAndStrings', () => {
+    it('should blank comments and string text while keeping quotes, substitutions and lines', () => {
+      const content = [
+        'run("eval(x)"); // eval(y)',
+        '/* new Function(',
+        '   body) */ call(`a ${eval(z)} b`);'
+      ].join('\n');
+      const masked = maskCommentsAndStrings(content);
+
+      expect(masked).toHaveLength(content.length);
+      expect(masked.split('\n')).toEqual([
+        'run("       ");           ',
+        '                ',
+        '            call(`  ${eval(z)}  `);'
+      ]);
+    });
+
+    it('should stop unterminated strings at the end of the line', () => {
+      expect(maskCommentsAndStrings('a = "oops\neval(b)')).toBe('a = "    \neval(b)');
+    });
+  });
+
+  describe('findSinkPatterns', () => {
+    it('should find execution sinks with their line', () => {
+      const matches = findSinkPatterns([
+        'const cp = require("child_process");',
+        'function broken( {',
+        '  eval(payload);',
+        '  new Function("return 1")();',
+        '  setTimeout("tick()", 10);',
+        '  cp.execSync(cmd);',
+        '  globalThis.eval(other);'
+      ].join('\n'));
+
+      expect(matches.map(match => [match.kind, match.name, match.line])).toEqual([
+        ['eval', 'eval', 3],
+        ['function_constructor', 'new Function', 4],
+        ['timer', 'setTimeout', 5],
+        ['shell', 'execSync', 6],
+        ['eval', 'globalThis.eval', 7]
+      ]);
+    });
+
+    it('should ignore sinks in comments and strings, unrelated methods and unused modules', () => {
+      const matches = findSinkPatterns([
+        '// eval(x)',
+        'log("new Function(body)");',
+        'obj.eval(x); myFunction(y); setTimeout(fn, 10);',
+        '/\\d+/.exec(text);'
+      ].join('\n'));
+
+      expect(matches).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { TSESTree } from '@typescript-eslint/types';
+import { parseAST, walkAST } from '../../../lib/utils/ast-parser';
+import { analyzeScope } from '../../../lib/utils/scope-analysis';
+import { analyzeTaint, formatTaintPath } from '../../../lib/utils/taint-analysis';
+
+/**
+ * Get the taint of the first argument of every call to `sink(...)` in the snippet
+ */
+async function sinkTaints(code: string) {
+  const result = await parseAST(code, 'test.js');
+  expect(result.success).toBe(true);
+
+  const taint = analyzeTaint(result.ast!, analyzeScope(result.ast!));
+  const flows: ReturnType<typeof taint.getTaint>[] = [];
+  walkAST(result.ast!, (node) => {
+    const call = node as TSESTree.CallExpression;
+    if (node.type === 'CallExpression' && call.callee.type === 'Identifier' && call.callee.name === 'sink') {
+      flows.push(taint.getTaint(call.arguments[0]));
+    }
+  });
+
+  return flows;
+}
+
+describe('Taint Analysis', () => {
+  describe('sources', () => {
+    it('should recognise environment, argv and request data', async () => {
+      const flows = await sinkTaints(`
+        sink(process.env.CMD);
+        sink(process.argv[2]);
+        app.post('/', (req, res) => sink(req.body.code));
+        sink('literal');
+      `);
+
+      expect(flows.map(flow => flow && [flow.source.type, flow.source.name])).toEqual([
+        ['environment', 'process.env.CMD'],
+        ['command_line', 'process.argv'],
+        ['user_input', 'req.body'],
+        undefined
+      ]);
+    });
+
+    it('should recognise file reads, network responses and decoded data', async () => {
+      const flows = await sinkTaints(`
+        const fs = require('fs');
+        sink(fs.readFileSync('payload.txt', 'utf8'));
+        sink(await fetch(url).then(res => res.text()));
+        sink(atob(encoded));
+        sink(Buffer.from(encoded, 'base64').toString());
+        sink(Buffer.from(text, 'utf8').toString());
+      `);
+
+      expect(flows.map(flow => flow?.source.type)).toEqual(['file', 'network', 'decoded_data', 'decoded_data', undefined]);
+    });
+
+    it('should taint callback parameters of asynchronous sources', async () => {
+      const flows = await sinkTaints(`
+        import { readFile } from 'fs';
+        import https from 'https';
+        readFile('a.js', (err, data) => sink(data.toString()));
+        https.get(url, (res) => {
+          res.on('data', (chunk) => sink(chunk));
+        });
+      `);
+
+      expect(flows.map(flow => flow?.source.name)).toEqual(['fs.readFile', 'https.get']);
+    });
+  });
+
+  describe('propagation', () => {
+    it('should follow assignments, concatenation and templates with a readable path', async () => {
+      const [flow] = await sinkTaints(`
+        const env = process.env;
+        const base = env.PREFIX;
+        let command;
+        command = \`run \${base}\` + ' --force';
+        sink(command);
+      `);
+
+      expect(formatTaintPath(flow!)).toBe('process.env (line 2) -> env (line 2) -> base (line 3) -> command (line 4)');
+    });
+
+    it('should follow function parameters and return values', async () => {
+      const [flow] = await sinkTaints(`
+        function build(part) {
+          return 'node -e ' + part;
+        }
+        const script = build(process.env.SCRIPT);
+        sink(script);
+      `);
+
+      expect(flow?.path.map(step => step.name)).toEqual(['process.env.SCRIPT', 'part', 'build()', 'script']);
+    });
+
+    it('should not taint values that never meet a source', async () => {
+      const flows = await sinkTaints(`
+        function build(part) { return 'echo ' + part; }
+        const name = 'world';
+        sink(build(name));
+        sink(config.command);
+        let value = 1;
+        value = value + 1;
+        sink(value);
+      `);
+
+      expect(flows).toEqual([undefined, undefined, undefined]);
+    });
+  });
+});
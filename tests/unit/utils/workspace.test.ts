@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { WorkspaceManager } from '../../../lib/utils/workspace';
+
+describe('Workspace Manager', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function createStaleWorkspace(name: string): Promise<string> {
+    const workspacePath = path.join(root, name);
+    await fs.mkdir(workspacePath);
+    await fs.writeFile(path.join(workspacePath, 'index.js'), 'x');
+    const hourAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await fs.utimes(workspacePath, hourAgo, hourAgo);
+    return workspacePath;
+  }
+
+  it('should create workspaces and remove them when released', async () => {
+    const manager = new WorkspaceManager({ root });
+    const workspace = await manager.create('repo-clone-');
+
+    expect(path.basename(workspace.path)).toMatch(/^repo-clone-/);
+    expect(manager.getActiveWorkspaces()).toEqual([workspace.path]);
+
+    await manager.release(workspace.path);
+    await expect(fs.stat(workspace.path)).rejects.toThrow();
+    expect(manager.getActiveWorkspaces()).toEqual([]);
+  });
+
+  it('should sweep stale workspaces on startup but not active, kept or unrelated ones', async () => {
+    const stale = await createStaleWorkspace('repo-clone-stale');
+    const staleArchive = await createStaleWorkspace('repo-archive-stale');
+    const unrelated = await createStaleWorkspace('other-tool-dir');
+
+    const manager = new WorkspaceManager({ root, maxAge: 60 * 60 * 1000 });
+    const kept = await manager.create('repo-clone-');
+    await manager.release(kept.path, { keep: true });
+    const hourAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await fs.utimes(kept.path, hourAgo, hourAgo);
+    const active = await manager.create('repo-archive-');
+    await fs.utimes(active.path, hourAgo, hourAgo);
+
+    await expect(fs.stat(stale)).rejects.toThrow();
+    await expect(fs.stat(staleArchive)).rejects.toThrow();
+
+    expect(await manager.sweepStale()).toEqual([]);
+    expect((await fs.stat(unrelated)).isDirectory()).toBe(true);
+    expect((await fs.stat(kept.path)).isDirectory()).toBe(true);
+    expect((await fs.stat(active.path)).isDirectory()).toBe(true);
+
+    await manager.release(active.path);
+  });
+
+  it('should cap the disk space used by all workspaces', async () => {
+    const manager = new WorkspaceManager({ root, maxTotalSize: 1024 });
+    const first = await manager.create('repo-clone-');
+    expect(first.availableSize).toBe(1024);
+
+    await fs.writeFile(path.join(first.path, 'big.bin'), Buffer.alloc(600));
+    expect((await manager.create('repo-archive-')).availableSize).toBe(424);
+
+    await fs.writeFile(path.join(first.path, 'bigger.bin'), Buffer.alloc(600));
+    await expect(manager.create('repo-clone-')).rejects.toThrow('Workspace disk limit reached');
+
+    // Releasing frees the space again
+    await manager.release(first.path);
+    expect((await manager.create('repo-clone-')).availableSize).toBe(1024);
+  });
+});